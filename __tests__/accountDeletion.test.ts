@@ -0,0 +1,286 @@
+import { processAccountDeletions } from '../functions/src/accountDeletion';
+
+// A small in-memory stand-in for the Admin SDK. Apart from accountDeletions,
+// a query finds only the documents seeded for it, once, and finds nothing
+// after that, so each purge step finishes in one or two passes. Batched
+// writes are recorded rather than applied. Each of those queries moves the
+// clock on a minute, which lets a run reach its deadline part way through
+// the purge.
+interface MockDeletion {
+  status: string;
+  completedSteps: string[];
+  [field: string]: unknown;
+}
+
+type MockFieldUpdate = { arrayUnion?: unknown[]; delete?: boolean } | undefined;
+
+interface MockQuery {
+  where: (field: string, op: string, value: unknown) => MockQuery;
+  orderBy: () => MockQuery;
+  limit: () => MockQuery;
+  get: () => Promise<{ empty: boolean; size: number; docs: unknown[] }>;
+}
+
+interface MockRef {
+  id: string;
+  path: string;
+  parent: { id: string; parent: MockRef | null };
+  get: () => Promise<{ exists: boolean; data: () => Record<string, unknown> | undefined }>;
+}
+
+interface MockWrite {
+  type: 'update' | 'delete';
+  path: string;
+  data?: Record<string, unknown>;
+}
+
+const mockDeletions = new Map<string, MockDeletion>();
+// Documents each query finds, by collection path and filters
+const mockResults = new Map<string, string[]>();
+// Documents read directly, by path
+const mockStored = new Map<string, Record<string, unknown>>();
+const mockWrites: MockWrite[] = [];
+const mockQueries: string[] = [];
+const mockClock = { now: 0 };
+
+const mockAuth = {
+  updateUser: jest.fn(),
+  revokeRefreshTokens: jest.fn(),
+  deleteUser: jest.fn(),
+};
+
+jest.mock('firebase-admin', () => {
+  const applyUpdate = (id: string, data: Record<string, unknown>) => {
+    const current = { ...mockDeletions.get(id) } as MockDeletion;
+    Object.entries(data).forEach(([key, value]) => {
+      const update = value as MockFieldUpdate;
+      if (update?.arrayUnion) {
+        current[key] = [...new Set([...(current[key] as unknown[] || []), ...update.arrayUnion])];
+      } else if (update?.delete) {
+        delete current[key];
+      } else {
+        current[key] = value;
+      }
+    });
+    mockDeletions.set(id, current);
+  };
+
+  const docRef = (path: string, id: string) => ({
+    id,
+    path: `${path}/${id}`,
+    get: async () => ({ id, exists: mockDeletions.has(id), data: () => mockDeletions.get(id) }),
+    update: async (data: Record<string, unknown>) => applyUpdate(id, data),
+    delete: async () => undefined,
+    collection: (name: string) => collection(`${path}/${id}/${name}`),
+  });
+
+  const storedRef = (path: string): MockRef => {
+    const segments = path.split('/');
+    return {
+      id: segments[segments.length - 1],
+      path,
+      parent: {
+        id: segments[segments.length - 2],
+        parent: segments.length > 2 ? storedRef(segments.slice(0, -2).join('/')) : null,
+      },
+      get: async () => ({ exists: mockStored.has(path), data: () => mockStored.get(path) }),
+    };
+  };
+
+  const query = (path: string, filters: string[] = []): MockQuery => ({
+    where: (field: string, op: string, value: unknown) =>
+      query(path, [...filters, `${field} ${op} ${JSON.stringify(value)}`]),
+    orderBy: () => query(path, filters),
+    limit: () => query(path, filters),
+    get: async () => {
+      // Every deletion counts as due; purgeAccount checks each one again
+      // when it claims it, as it would after a change since the query
+      if (path === 'accountDeletions') {
+        const docs = [...mockDeletions.keys()].map(id => ({ id, ref: docRef(path, id) }));
+        return { empty: docs.length === 0, size: docs.length, docs };
+      }
+      const key = [path, ...filters].join(' ');
+      mockQueries.push(key);
+      mockClock.now += 60 * 1000;
+      const paths = mockResults.get(key) || [];
+      mockResults.delete(key);
+      const docs = paths.map(docPath => ({
+        id: storedRef(docPath).id,
+        ref: storedRef(docPath),
+        data: () => mockStored.get(docPath) || {},
+      }));
+      return { empty: docs.length === 0, size: docs.length, docs };
+    },
+  });
+
+  const collection = (path: string) => ({
+    ...query(path),
+    doc: (id: string) => docRef(path, id),
+  });
+
+  const firestore = () => ({
+    collection,
+    collectionGroup: (name: string) => query(`*/${name}`),
+    batch: () => ({
+      update: (ref: MockRef, data: Record<string, unknown>) => mockWrites.push({ type: 'update', path: ref.path, data }),
+      delete: (ref: MockRef) => mockWrites.push({ type: 'delete', path: ref.path }),
+      set: jest.fn(),
+      commit: async () => undefined,
+    }),
+    runTransaction: async (run: (transaction: unknown) => Promise<unknown>) => run({
+      get: (ref: { get: () => Promise<unknown> }) => ref.get(),
+      update: (ref: { update: (data: unknown) => void }, data: unknown) => ref.update(data),
+      set: jest.fn(),
+    }),
+    recursiveDelete: async () => undefined,
+  });
+  firestore.FieldValue = {
+    serverTimestamp: () => 'serverTimestamp',
+    delete: () => ({ delete: true }),
+    increment: (by: number) => ({ increment: by }),
+    arrayUnion: (...values: unknown[]) => ({ arrayUnion: values }),
+    arrayRemove: (...values: unknown[]) => ({ arrayRemove: values }),
+  };
+  firestore.Timestamp = {
+    now: () => ({ toMillis: () => mockClock.now }),
+    fromDate: (date: Date) => ({ toMillis: () => date.getTime() }),
+  };
+
+  return {
+    firestore,
+    storage: () => ({ bucket: () => ({ deleteFiles: async () => undefined }) }),
+    auth: () => mockAuth,
+  };
+}, { virtual: true });
+
+jest.mock('firebase-functions', () => ({
+  https: { onCall: (handler: unknown) => handler, HttpsError: class extends Error {} },
+  runWith: () => ({ pubsub: { schedule: () => ({ onRun: (handler: unknown) => handler }) } }),
+  logger: { info: jest.fn(), error: jest.fn() },
+}), { virtual: true });
+
+const runPurge = processAccountDeletions as unknown as () => Promise<void>;
+
+// Each run stops at its deadline, so a whole purge takes a few
+const runFullPurge = async (uid: string) => {
+  for (let run = 0; run < 10 && mockDeletions.get(uid)!.status !== 'completed'; run++) {
+    await runPurge();
+  }
+};
+
+const scheduleDeletion = (uid: string, status = 'scheduled') => {
+  mockDeletions.set(uid, {
+    userId: uid,
+    status,
+    scheduledFor: { toMillis: () => mockClock.now - 1 },
+    completedSteps: [],
+  });
+};
+
+describe('processAccountDeletions', () => {
+  beforeEach(() => {
+    mockDeletions.clear();
+    mockResults.clear();
+    mockStored.clear();
+    mockWrites.length = 0;
+    mockQueries.length = 0;
+    mockClock.now = Date.UTC(2026, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => mockClock.now);
+    Object.values(mockAuth).forEach(mock => mock.mockReset().mockResolvedValue(undefined));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should disable the account and revoke its sessions before purging', async () => {
+    scheduleDeletion('user1');
+
+    await runPurge();
+
+    expect(mockAuth.updateUser).toHaveBeenCalledWith('user1', { disabled: true });
+    expect(mockAuth.revokeRefreshTokens).toHaveBeenCalledWith('user1');
+    expect(mockAuth.updateUser.mock.invocationCallOrder[0])
+      .toBeLessThan(mockAuth.revokeRefreshTokens.mock.invocationCallOrder[0]);
+  });
+
+  it('should pick up a stopped purge from its last completed step', async () => {
+    scheduleDeletion('user1');
+
+    await runPurge();
+
+    const afterFirstRun = mockDeletions.get('user1')!;
+    expect(afterFirstRun.status).toBe('processing');
+    expect(afterFirstRun.completedSteps.length).toBeGreaterThan(0);
+    expect(mockAuth.deleteUser).not.toHaveBeenCalled();
+
+    await runFullPurge('user1');
+
+    const afterLastRun = mockDeletions.get('user1')!;
+    expect(afterLastRun.status).toBe('completed');
+    expect(afterLastRun.completedSteps.slice(0, afterFirstRun.completedSteps.length))
+      .toEqual(afterFirstRun.completedSteps);
+    expect(mockAuth.deleteUser).toHaveBeenCalledTimes(1);
+    // No step ran again after it was recorded as done
+    expect(new Set(mockQueries).size).toBe(mockQueries.length);
+  });
+
+  it('should purge accounts already removed from Auth', async () => {
+    scheduleDeletion('user1', 'processing');
+    const notFound = Object.assign(new Error('No user record'), { code: 'auth/user-not-found' });
+    mockAuth.updateUser.mockRejectedValue(notFound);
+    mockAuth.deleteUser.mockRejectedValue(notFound);
+
+    await runFullPurge('user1');
+
+    expect(mockDeletions.get('user1')!.status).toBe('completed');
+    expect(mockDeletions.get('user1')!.lastError).toBeUndefined();
+  });
+
+  it('should delete the user\'s likes and comment revisions', async () => {
+    scheduleDeletion('user1');
+    mockResults.set('*/likes userId == "user1"', ['reviews/review1/likes/user1', 'reviews/review2/likes/user1', 'comments/comment1/likes/user1']);
+    mockResults.set('*/revisions editorId == "user1"', ['comments/comment1/revisions/revision1']);
+    mockStored.set('reviews/review1', { likes: 2, likedBy: ['user1', 'user2'] });
+    // Already taken off review2 by an earlier, interrupted batch
+    mockStored.set('reviews/review2', { likes: 1, likedBy: ['user2'] });
+
+    await runFullPurge('user1');
+
+    expect(mockDeletions.get('user1')!.status).toBe('completed');
+    const deleted = mockWrites.filter(write => write.type === 'delete').map(write => write.path);
+    expect(deleted).toEqual(expect.arrayContaining([
+      'reviews/review1/likes/user1',
+      'reviews/review2/likes/user1',
+      'comments/comment1/likes/user1',
+      'comments/comment1/revisions/revision1',
+    ]));
+    const updated = mockWrites.filter(write => write.type === 'update');
+    expect(updated).toEqual([{
+      type: 'update',
+      path: 'reviews/review1',
+      data: { likes: { increment: -1 }, engagement: { increment: -2 }, likedBy: { arrayRemove: ['user1'] } },
+    }]);
+  });
+
+  it('should keep subject links without who made them', async () => {
+    scheduleDeletion('user1');
+    mockResults.set('*/links userId == "user1"', ['subjects/subject1/links/link1']);
+
+    await runFullPurge('user1');
+
+    expect(mockWrites).toEqual([
+      { type: 'update', path: 'subjects/subject1/links/link1', data: { userId: 'deleted-user' } },
+    ]);
+  });
+
+  it('should leave the account alone if the deletion was cancelled', async () => {
+    scheduleDeletion('user1', 'cancelled');
+
+    await runPurge();
+
+    expect(mockAuth.updateUser).not.toHaveBeenCalled();
+    expect(mockQueries).toHaveLength(0);
+    expect(mockDeletions.get('user1')!.status).toBe('cancelled');
+  });
+});
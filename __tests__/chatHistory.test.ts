@@ -0,0 +1,37 @@
+import { getSlidOutMessages, mergeMessages } from '../utils/chatHistory';
+import type { ChatMessage } from '../types';
+
+const message = (id: string, time: number | null, content: string = id): ChatMessage => ({
+  id,
+  roomId: 'room',
+  senderId: 'a',
+  content,
+  messageType: 'text',
+  timestamp: time === null ? null : new Date(time),
+} as unknown as ChatMessage);
+
+describe('mergeMessages', () => {
+  it('should combine pages oldest first', () => {
+    const merged = mergeMessages([message('b', 2000), message('a', 1000)], [message('c', 3000)]);
+    expect(merged.map(item => item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep one copy of each message, preferring the newer list', () => {
+    const merged = mergeMessages([message('a', 1000, 'old')], [message('a', 1000, 'edited')]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].content).toBe('edited');
+  });
+
+  it('should put messages without a server timestamp last', () => {
+    const merged = mergeMessages([], [message('pending', null), message('a', 1000)]);
+    expect(merged.map(item => item.id)).toEqual(['a', 'pending']);
+  });
+});
+
+describe('getSlidOutMessages', () => {
+  it('should return messages that left the live page', () => {
+    const previous = [message('a', 1000), message('b', 2000)];
+    const next = [message('b', 2000), message('c', 3000)];
+    expect(getSlidOutMessages(previous, next).map(item => item.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,60 @@
+import { Timestamp } from 'firebase/firestore';
+import { getMessageReceipt, getSeenBy, isCursorCurrent } from '../utils/chatReceipts';
+import type { ChatMessage, ChatRoom } from '../types';
+
+const at = (seconds: number) => new Timestamp(seconds, 0);
+
+const message = (senderId: string, seconds: number | null): ChatMessage => ({
+  id: `m${seconds}`,
+  roomId: 'room',
+  senderId,
+  content: 'Hi',
+  messageType: 'text',
+  timestamp: seconds === null ? null : at(seconds).toDate(),
+} as unknown as ChatMessage);
+
+const room = (overrides: Partial<ChatRoom>): ChatRoom => ({
+  id: 'room',
+  participants: ['alice', 'bob'],
+  lastMessageTime: at(200),
+  ...overrides,
+} as ChatRoom);
+
+describe('getMessageReceipt', () => {
+  it('should follow the other user\'s cursors', () => {
+    const direct = room({ deliveredCursors: { bob: at(150) }, readCursors: { bob: at(120) } });
+
+    expect(getMessageReceipt(message('alice', 100), direct)).toBe('read');
+    expect(getMessageReceipt(message('alice', 150), direct)).toBe('delivered');
+    expect(getMessageReceipt(message('alice', 200), direct)).toBe('sent');
+  });
+
+  it('should show messages without a server timestamp as sending', () => {
+    expect(getMessageReceipt(message('alice', null), room({}))).toBe('sending');
+  });
+});
+
+describe('getSeenBy', () => {
+  it('should count members other than the sender whose read cursor reached the message', () => {
+    const group = room({
+      participants: ['alice', 'bob', 'carol', 'dave'],
+      readCursors: { alice: at(300), bob: at(200), carol: at(100) },
+    });
+
+    expect(getSeenBy(message('alice', 200), group)).toEqual(['bob']);
+  });
+
+  it('should ignore cursors of people who left', () => {
+    const group = room({ participants: ['alice'], readCursors: { bob: at(300) } });
+    expect(getSeenBy(message('alice', 200), group)).toEqual([]);
+  });
+});
+
+describe('isCursorCurrent', () => {
+  it('should compare the cursor with the newest message', () => {
+    const current = room({ readCursors: { bob: at(200) } });
+    expect(isCursorCurrent(current, current.readCursors, 'bob')).toBe(true);
+    expect(isCursorCurrent(current, current.readCursors, 'carol')).toBe(false);
+    expect(isCursorCurrent(room({ lastMessageTime: null }), undefined, 'carol')).toBe(true);
+  });
+});
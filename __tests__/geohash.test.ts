@@ -0,0 +1,59 @@
+import { distanceKm, encodeGeohash, geohashQueryRanges, getReviewCoordinates } from '../utils/geohash';
+import { encodeGeohash as encodeGeohashServer } from '../functions/src/geohash';
+
+const inRanges = (hash: string, ranges: [string, string][]): boolean =>
+  ranges.some(([start, end]) => hash >= start && hash < end);
+
+describe('encodeGeohash', () => {
+  it('should match the reference encoding', () => {
+    expect(encodeGeohash({ latitude: 57.64911, longitude: 10.40744 }, 11)).toBe('u4pruydqqvj');
+  });
+
+  it('should match the Cloud Functions copy', () => {
+    const point = { latitude: 40.7128, longitude: -74.006 };
+    expect(encodeGeohashServer(point)).toBe(encodeGeohash(point));
+  });
+});
+
+describe('geohashQueryRanges', () => {
+  const center = { latitude: 40.7128, longitude: -74.006 };
+
+  it('should cover every point within the radius', () => {
+    const radiusKm = 25;
+    const ranges = geohashQueryRanges(center, radiusKm);
+
+    for (let bearing = 0; bearing < 360; bearing += 30) {
+      const radians = bearing * (Math.PI / 180);
+      const point = {
+        latitude: center.latitude + (radiusKm * 0.95 / 111) * Math.cos(radians),
+        longitude: center.longitude + (radiusKm * 0.95 / (111 * Math.cos(center.latitude * Math.PI / 180))) * Math.sin(radians),
+      };
+      expect(distanceKm(center, point)).toBeLessThan(radiusKm);
+      expect(inRanges(encodeGeohash(point), ranges)).toBe(true);
+    }
+  });
+
+  it('should not cover points far outside the radius', () => {
+    const ranges = geohashQueryRanges(center, 10);
+    expect(inRanges(encodeGeohash({ latitude: 34.0522, longitude: -118.2437 }), ranges)).toBe(false);
+  });
+});
+
+describe('getReviewCoordinates', () => {
+  it('should prefer top-level coordinates', () => {
+    expect(getReviewCoordinates({
+      coordinates: { latitude: 1, longitude: 2 },
+      locationData: { coordinates: { latitude: 3, longitude: 4 } },
+    })).toEqual({ latitude: 1, longitude: 2 });
+  });
+
+  it('should read coordinates from older locationData shapes', () => {
+    expect(getReviewCoordinates({ locationData: { coordinates: { latitude: 3, longitude: 4 } } }))
+      .toEqual({ latitude: 3, longitude: 4 });
+    expect(getReviewCoordinates({ locationData: { data: { coordinates: { latitude: 5, longitude: 6 } } } }))
+      .toEqual({ latitude: 5, longitude: 6 });
+    expect(getReviewCoordinates({ locationData: { data: { coordinates: [-97.7431, 30.2672] } } }))
+      .toEqual({ latitude: 30.2672, longitude: -97.7431 });
+    expect(getReviewCoordinates({ locationData: { city: 'Austin' } })).toBeNull();
+  });
+});
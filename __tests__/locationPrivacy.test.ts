@@ -0,0 +1,71 @@
+import {
+  applyLocationPrecision,
+  PRECISION_RADIUS_KM,
+  snapToGrid,
+  toPublicLocationData,
+} from '../utils/locationPrivacy';
+import { enforceLocationPrecision } from '../functions/src/locationPrivacy';
+import { distanceKm } from '../utils/geohash';
+
+const home = { latitude: 40.741895, longitude: -73.989308 };
+
+// Deterministic stand-in for Math.random
+const sequence = (...values: number[]) => {
+  let index = 0;
+  return () => values[index++ % values.length];
+};
+
+describe('snapToGrid', () => {
+  it('should move points to the center of their cell and keep centers in place', () => {
+    const snapped = snapToGrid(home, 1);
+    expect(snapped).not.toEqual(home);
+    expect(distanceKm(home, snapped)).toBeLessThanOrEqual(PRECISION_RADIUS_KM.grid);
+    expect(snapToGrid(snapped, 1)).toEqual(snapped);
+  });
+
+  it('should put nearby points in the same cell', () => {
+    const neighbor = { latitude: home.latitude + 0.0005, longitude: home.longitude + 0.0005 };
+    expect(snapToGrid(neighbor, 1)).toEqual(snapToGrid(home, 1));
+  });
+});
+
+describe('applyLocationPrecision', () => {
+  it('should stay within the recorded radius for every mode', () => {
+    (['grid', 'jitter', 'city'] as const).forEach((mode) => {
+      const { coordinates, locationPrecision } = applyLocationPrecision(home, mode, { random: sequence(0.99, 0.3) });
+      expect(locationPrecision).toEqual({ mode, radiusKm: PRECISION_RADIUS_KM[mode] });
+      expect(distanceKm(home, coordinates)).toBeLessThanOrEqual(locationPrecision.radiusKm);
+    });
+  });
+
+  it('should use the city centroid for city precision', () => {
+    const centroid = { latitude: 40.7128, longitude: -74.006 };
+    const { coordinates } = applyLocationPrecision(home, 'city', { cityCentroid: centroid });
+    expect(coordinates).toEqual(snapToGrid(centroid, 1));
+  });
+
+  it('should match the grid the server enforces', () => {
+    const { coordinates } = applyLocationPrecision(home, 'jitter', { random: sequence(0.5, 0.25) });
+    expect(enforceLocationPrecision(coordinates, 'jitter').coordinates).toEqual(coordinates);
+  });
+});
+
+describe('enforceLocationPrecision', () => {
+  it('should snap exact coordinates and default unknown modes to grid', () => {
+    expect(enforceLocationPrecision(home, 'exact')).toEqual({
+      coordinates: snapToGrid(home, 1),
+      locationPrecision: { mode: 'grid', radiusKm: PRECISION_RADIUS_KM.grid },
+    });
+    expect(enforceLocationPrecision(null, 'grid')).toEqual({ coordinates: null, locationPrecision: null });
+  });
+});
+
+describe('toPublicLocationData', () => {
+  it('should keep place names and drop coordinates', () => {
+    expect(toPublicLocationData({
+      type: 'current',
+      data: { name: 'New York, NY', city: 'New York', region: 'New York', coordinates: home },
+    })).toEqual({ type: 'current', data: { name: 'New York, NY', city: 'New York', region: 'New York' } });
+    expect(toPublicLocationData(null)).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import clientRules from '../constants/moderationRules.json';
+import serverRules from '../functions/src/moderationRules.json';
+import corpus from './fixtures/moderationCorpus.json';
+import * as clientEngine from '../services/moderationEngine';
+import * as serverEngine from '../functions/src/moderationEngine';
+
+const clientRuleSet = clientEngine.parseRuleSet(clientRules) as clientEngine.ModerationRuleSet;
+const serverRuleSet = serverEngine.parseRuleSet(serverRules) as serverEngine.ModerationRuleSet;
+
+describe('moderation rules', () => {
+  it('should ship the same rule set to the app and the backend', () => {
+    expect(serverRules).toEqual(clientRules);
+  });
+
+  it('should keep every bundled rule valid', () => {
+    expect(clientRuleSet.rules).toHaveLength(clientRules.rules.length);
+  });
+
+  it('should drop malformed rules instead of rejecting the whole set', () => {
+    const ruleSet = clientEngine.parseRuleSet({
+      version: 2,
+      rules: [
+        { id: 'bad-regex', type: 'pattern', pattern: '(', severity: 'low', action: 'hold', message: 'x' },
+        { id: 'bad-action', type: 'keywords', terms: ['x'], severity: 'low', action: 'delete', message: 'x' },
+        { id: 'ok', type: 'keywords', terms: ['x'], severity: 'low', action: 'warn', message: 'x' },
+      ],
+    });
+
+    expect(ruleSet?.rules.map(rule => rule.id)).toEqual(['ok']);
+  });
+
+  it('should reject documents without a version', () => {
+    expect(clientEngine.parseRuleSet({ rules: [] })).toBeNull();
+  });
+});
+
+describe('normalizeText', () => {
+  it('should undo leetspeak, spacing and repeated letters', () => {
+    expect(clientEngine.normalizeText('K1LL')).toBe(clientEngine.normalizeText('kill'));
+    expect(clientEngine.normalizeText('k y s')).toBe('kys');
+    expect(clientEngine.normalizeText('kiiiiill')).toBe(clientEngine.normalizeText('kill'));
+  });
+
+  it('should strip accents and zero-width characters', () => {
+    expect(clientEngine.normalizeText('spa\u200bm')).toBe('spam');
+    expect(clientEngine.normalizeText('cafe\u0301')).toBe('cafe');
+  });
+
+  it('should leave plain numbers alone', () => {
+    expect(clientEngine.normalizeText('he was 35')).toBe('he was 35');
+  });
+});
+
+describe('evaluateContent', () => {
+  it.each(corpus)('should $expectedAction: $text', ({ text, expectedAction }) => {
+    expect(clientEngine.evaluateContent(text, clientRuleSet).action).toBe(expectedAction);
+    expect(serverEngine.evaluateContent(text, serverRuleSet).action).toBe(expectedAction);
+  });
+
+  it('should give the same result on repeated calls', () => {
+    const text = 'Full screenshots at https://example.com/proof';
+    const first = clientEngine.evaluateContent(text, clientRuleSet);
+    const second = clientEngine.evaluateContent(text, clientRuleSet);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should report the rule set version', () => {
+    expect(clientEngine.evaluateContent('hello there', clientRuleSet).rulesVersion).toBe(clientRules.version);
+  });
+
+  it('should skip disabled rules', () => {
+    const ruleSet = {
+      ...clientRuleSet,
+      rules: clientRuleSet.rules.map(rule => ({ ...rule, enabled: rule.id !== 'urls' })),
+    };
+
+    expect(clientEngine.evaluateContent('see https://example.com', ruleSet).action).toBe('allow');
+  });
+});
+
+describe('findPii', () => {
+  it('should locate identifiers with offsets', () => {
+    const text = 'Call 555-123-4567 or email jake@example.com';
+    const findings = clientEngine.findPii(text, clientRuleSet);
+
+    expect(findings.map(finding => finding.detector)).toEqual(['phone', 'email']);
+    expect(findings.map(finding => text.slice(finding.start, finding.end))).toEqual(['555-123-4567', 'jake@example.com']);
+  });
+
+  it('should pair a workplace with the review subject', () => {
+    const text = 'He works at Goldman Sachs and brags about it.';
+
+    expect(clientEngine.findPii(text, clientRuleSet)).toHaveLength(0);
+    expect(clientEngine.findPii(text, clientRuleSet, { subjectName: 'Michael Thompson' })[0].detector).toBe('workplace');
+    expect(clientEngine.evaluateContent(text, clientRuleSet, { subjectName: 'Michael Thompson' }).action).toBe('block');
+  });
+
+  it('should find the same identifiers on the server', () => {
+    const text = 'He lives at 42 Maple Street, his snap is jake_99';
+
+    expect(serverEngine.findPii(text, serverRuleSet)).toEqual(clientEngine.findPii(text, clientRuleSet));
+  });
+});
+
+describe('redactPii', () => {
+  it('should replace every finding and leave the rest of the text', () => {
+    const text = 'Michael Thompson texted me from 555-123-4567 at 2am.';
+    const redacted = clientEngine.redactPii(text, clientEngine.findPii(text, clientRuleSet));
+
+    expect(redacted).toBe('Michael T. texted me from [phone number] at 2am.');
+    expect(clientEngine.evaluateContent(redacted, clientRuleSet).action).toBe('allow');
+  });
+
+  it('should redact a subset of findings', () => {
+    const text = 'Email jake@example.com or call 555-123-4567';
+    const [email] = clientEngine.findPii(text, clientRuleSet);
+
+    expect(clientEngine.redactPii(text, [email])).toBe('Email [email] or call 555-123-4567');
+  });
+});
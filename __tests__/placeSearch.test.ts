@@ -0,0 +1,76 @@
+import { mergePlaces, offlineGazetteerProvider, toPlace } from '../services/placeSearch';
+
+const search = (query: string, near: { latitude: number; longitude: number } | null = null) =>
+  offlineGazetteerProvider.search(query, { near, limit: 10 });
+
+describe('offline gazetteer search', () => {
+  it('should find cities by name prefix in the Place shape', async () => {
+    const [austin] = await search('aust');
+    expect(austin).toMatchObject({
+      name: 'Austin, TX',
+      fullName: 'Austin, Texas, United States',
+      city: 'Austin',
+      region: 'Texas',
+      state: 'Texas',
+      type: 'city',
+      coordinates: { latitude: 30.2672, longitude: -97.7431 },
+    });
+  });
+
+  it('should rank places near the user first', async () => {
+    const [farFromMaine] = await search('portland');
+    const [nearMaine] = await search('portland', { latitude: 44.0, longitude: -70.0 });
+    expect(farFromMaine.name).toBe('Portland, OR');
+    expect(nearMaine.name).toBe('Portland, ME');
+
+    const [capitolHill] = await search('capitol hill', { latitude: 39.74, longitude: -104.99 });
+    expect(capitolHill.name).toBe('Capitol Hill, Denver');
+  });
+
+  it('should narrow results by state', async () => {
+    const results = await search('portland, me');
+    expect(results.map(place => place.name)).toEqual(['Portland, ME']);
+  });
+
+  it('should find regions and neighborhoods', async () => {
+    expect((await search('texas'))[0]).toMatchObject({ name: 'Texas', type: 'region', city: '' });
+    expect((await search('wynwood'))[0]).toMatchObject({ name: 'Wynwood, Miami', type: 'neighborhood', city: 'Miami' });
+  });
+
+  it('should return nothing for unknown places', async () => {
+    expect(await search('zzyzx')).toEqual([]);
+  });
+});
+
+describe('mergePlaces', () => {
+  it('should drop the same place found by a later provider', async () => {
+    const [austin] = await search('austin');
+    const online = { ...austin, id: 'mapbox-place.1', coordinates: { latitude: 30.27, longitude: -97.74 } };
+    const elsewhere = { ...austin, id: 'mapbox-place.2', name: 'Austin, MN', coordinates: { latitude: 43.67, longitude: -92.97 } };
+
+    expect(mergePlaces([austin], [online, elsewhere]).map(place => place.id)).toEqual([austin.id, 'mapbox-place.2']);
+  });
+});
+
+describe('toPlace', () => {
+  it('should convert locations saved with [longitude, latitude] coordinates', () => {
+    expect(toPlace({
+      id: 'sf-1',
+      name: 'San Francisco, CA, USA',
+      city: 'San Francisco',
+      region: 'California',
+      country: 'United States',
+      coordinates: [-122.4194, 37.7749],
+      type: 'city',
+    })).toMatchObject({
+      id: 'sf-1',
+      state: 'California',
+      fullName: 'San Francisco, CA, USA, United States',
+      coordinates: { latitude: 37.7749, longitude: -122.4194 },
+    });
+  });
+
+  it('should reject locations without coordinates', () => {
+    expect(toPlace({ name: 'Global', coordinates: null })).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  PRESENCE_TIMEOUT_MS,
+  formatPresence,
+  formatTyping,
+  getTypingUserIds,
+  isPresenceOnline,
+  nextTypingExpiry,
+} from '../utils/presence';
+import type { ChatRoom, UserPresence } from '../types';
+
+const NOW = Date.UTC(2025, 0, 1, 12);
+
+const presence = (overrides: Partial<UserPresence>): UserPresence => ({
+  state: 'online',
+  lastActive: new Date(NOW - 30 * 1000),
+  showLastSeen: true,
+  ...overrides,
+});
+
+describe('isPresenceOnline', () => {
+  it('should count a recent heartbeat as online', () => {
+    expect(isPresenceOnline(presence({}), NOW)).toBe(true);
+  });
+
+  it('should time out users whose heartbeat stopped', () => {
+    expect(isPresenceOnline(presence({ lastActive: new Date(NOW - PRESENCE_TIMEOUT_MS) }), NOW)).toBe(false);
+    expect(isPresenceOnline(presence({ state: 'offline' }), NOW)).toBe(false);
+    expect(isPresenceOnline(undefined, NOW)).toBe(false);
+  });
+});
+
+describe('formatPresence', () => {
+  it('should hide the last seen time when the user turned it off', () => {
+    const offline = presence({ state: 'offline', lastActive: new Date(NOW - 60 * 60 * 1000), showLastSeen: false });
+    expect(formatPresence(offline, NOW)).toBeNull();
+    expect(formatPresence({ ...offline, state: 'online', lastActive: new Date(NOW) }, NOW)).toBe('Online');
+  });
+
+  it('should show when visible users were last seen', () => {
+    const lastActive = new Date(Date.now() - 5 * 60 * 1000);
+    expect(formatPresence(presence({ state: 'offline', lastActive }))).toBe('Last seen 5m ago');
+  });
+});
+
+describe('typing indicators', () => {
+  const room = {
+    id: 'room',
+    participants: ['alice', 'bob', 'carol'],
+    typing: {
+      alice: new Date(NOW + 5000),
+      bob: new Date(NOW - 1000),
+      carol: new Date(NOW + 2000),
+      dave: new Date(NOW + 5000),
+    },
+  } as unknown as ChatRoom;
+
+  it('should list members whose indicator has not expired', () => {
+    expect(getTypingUserIds(room, 'alice', NOW)).toEqual(['carol']);
+    expect(getTypingUserIds(room, undefined, NOW)).toEqual(['alice', 'carol']);
+  });
+
+  it('should find the next expiry to re-render at', () => {
+    expect(nextTypingExpiry([room], NOW)).toBe(NOW + 2000);
+    expect(nextTypingExpiry([room], NOW + 10000)).toBeNull();
+  });
+
+  it('should describe who is typing', () => {
+    expect(formatTyping(0, true)).toBeNull();
+    expect(formatTyping(1, true)).toBe('typing...');
+    expect(formatTyping(1, false)).toBe('Someone is typing...');
+    expect(formatTyping(3, false)).toBe('3 people are typing...');
+  });
+});
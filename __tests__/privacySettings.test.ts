@@ -0,0 +1,37 @@
+import { DEFAULT_PRIVACY_SETTINGS, withPrivacyDefaults } from '../utils/privacySettings';
+
+describe('withPrivacyDefaults', () => {
+  it('should use the defaults when nothing is saved', () => {
+    expect(withPrivacyDefaults(undefined)).toEqual(DEFAULT_PRIVACY_SETTINGS);
+  });
+
+  it('should keep saved values and fill in missing ones', () => {
+    const settings = withPrivacyDefaults({
+      allowMessages: 'none',
+      showAge: false,
+      allowNotifications: { marketing: true },
+    });
+
+    expect(settings.allowMessages).toBe('none');
+    expect(settings.showAge).toBe(false);
+    expect(settings.showLocation).toBe(true);
+    expect(settings.allowNotifications).toEqual({
+      ...DEFAULT_PRIVACY_SETTINGS.allowNotifications,
+      marketing: true,
+    });
+  });
+
+  it('should ignore unknown values', () => {
+    const settings = withPrivacyDefaults({ profileVisibility: 'everyone', showLastSeen: 'yes' });
+
+    expect(settings.profileVisibility).toBe('public');
+    expect(settings.showLastSeen).toBe(true);
+  });
+
+  it('should honour the older visibility flags', () => {
+    const settings = withPrivacyDefaults({ profileVisible: false, showOnlineStatus: false });
+
+    expect(settings.profileVisibility).toBe('private');
+    expect(settings.showLastSeen).toBe(false);
+  });
+});
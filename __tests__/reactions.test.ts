@@ -0,0 +1,66 @@
+import {
+  REVIEW_REACTIONS,
+  getCorroborationScore,
+  getReviewFlag,
+  summarizeChatReactions,
+} from '../constants/reactions';
+import * as serverReactions from '../functions/src/reactions';
+
+describe('review reactions', () => {
+  it('should define each reaction type once', () => {
+    const types = REVIEW_REACTIONS.map(reaction => reaction.type);
+    expect(new Set(types).size).toBe(types.length);
+  });
+
+  it('should read the flag from the rating', () => {
+    expect(getReviewFlag(5)).toBe('green');
+    expect(getReviewFlag(1)).toBe('red');
+  });
+});
+
+describe('getCorroborationScore', () => {
+  it('should count confirmations of the review flag', () => {
+    expect(getCorroborationScore(1, { redFlagConfirm: 3 })).toBe(3);
+    expect(getCorroborationScore(5, { greenFlagConfirm: 2 })).toBe(2);
+  });
+
+  it('should subtract confirmations of the opposite flag', () => {
+    expect(getCorroborationScore(1, { redFlagConfirm: 2, greenFlagConfirm: 5 })).toBe(-3);
+  });
+
+  it('should ignore reactions that are not confirmations', () => {
+    expect(getCorroborationScore(1, { helpful: 10, agree: 4, disagree: 2 })).toBe(0);
+    expect(getCorroborationScore(1)).toBe(0);
+  });
+
+  it('should score the same as the server copy that stores it', () => {
+    expect(serverReactions.REACTION_TYPES).toEqual(REVIEW_REACTIONS.map(reaction => reaction.type));
+    REVIEW_REACTIONS.forEach(reaction => {
+      expect(serverReactions.REACTION_FLAGS[reaction.type]).toBe(reaction.confirmsFlag ?? null);
+    });
+
+    const counts = { helpful: 4, redFlagConfirm: 2, greenFlagConfirm: 5 };
+    [1, 5].forEach(rating => {
+      expect(serverReactions.getCorroborationScore(rating, counts)).toBe(getCorroborationScore(rating, counts));
+    });
+  });
+});
+
+describe('summarizeChatReactions', () => {
+  it('should count members per emoji, most used first', () => {
+    const summary = summarizeChatReactions({ a: '😂', b: '👍', c: '😂' }, 'b');
+    expect(summary).toEqual([
+      { emoji: '😂', count: 2, reactedByMe: false },
+      { emoji: '👍', count: 1, reactedByMe: true },
+    ]);
+  });
+
+  it('should order ties by the reaction picker order', () => {
+    const summary = summarizeChatReactions({ a: '🙏', b: '❤️' });
+    expect(summary.map(reaction => reaction.emoji)).toEqual(['❤️', '🙏']);
+  });
+
+  it('should be empty without reactions', () => {
+    expect(summarizeChatReactions(undefined, 'a')).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { clusterPrecisionForRadius, clusterReviews, isReviewInCell } from '../utils/reviewClusters';
+import { encodeGeohash } from '../utils/geohash';
+import type { Review } from '../types';
+
+const review = (id: string, latitude: number, longitude: number, rating: number): Review => ({
+  id,
+  rating,
+  coordinates: { latitude, longitude },
+  geohash: encodeGeohash({ latitude, longitude }),
+} as unknown as Review);
+
+describe('clusterPrecisionForRadius', () => {
+  it('should use finer cells for smaller radii', () => {
+    expect(clusterPrecisionForRadius(160)).toBe(4);
+    expect(clusterPrecisionForRadius(20)).toBe(5);
+    expect(clusterPrecisionForRadius(8)).toBe(6);
+    expect(clusterPrecisionForRadius(0.1)).toBe(7);
+  });
+});
+
+describe('clusterReviews', () => {
+  const reviews = [
+    review('a', 40.7128, -74.006, 5),
+    review('b', 40.7129, -74.0061, 1),
+    review('c', 40.713, -74.0059, 4),
+    review('d', 34.0522, -118.2437, 2),
+  ];
+
+  it('should group reviews sharing a geohash cell, largest first', () => {
+    const clusters = clusterReviews(reviews, 5);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toMatchObject({ count: 3, greenCount: 2, redCount: 1, reviewIds: ['a', 'b', 'c'] });
+    expect(clusters[1]).toMatchObject({ count: 1, greenCount: 0, redCount: 1, reviewIds: ['d'] });
+    expect(clusters[0].center.latitude).toBeCloseTo(40.7129, 4);
+  });
+
+  it('should skip reviews without a location', () => {
+    const unlocated = { id: 'e', rating: 5 } as unknown as Review;
+    expect(clusterReviews([unlocated], 5)).toEqual([]);
+  });
+
+  it('should match the reviews of a cluster by cell', () => {
+    const [cluster] = clusterReviews(reviews, 5);
+    expect(reviews.filter(item => isReviewInCell(item, cluster.cell)).map(item => item.id)).toEqual(cluster.reviewIds);
+  });
+});
@@ -0,0 +1,51 @@
+import { canReviewUser, getPrivacySettings } from '../functions/src/privacy';
+
+// The only lookup canReviewUser makes is whether the two users have a
+// direct conversation
+const mockRoomExists = jest.fn();
+
+jest.mock('firebase-admin', () => ({
+  firestore: () => ({
+    collection: () => ({
+      doc: () => ({ get: async () => ({ exists: mockRoomExists() }) }),
+    }),
+  }),
+}), { virtual: true });
+
+// chat.ts registers Cloud Functions when loaded; only its helpers are used here
+jest.mock('../functions/src/chat', () => ({
+  directRoomId: (user1Id: string, user2Id: string) => [user1Id, user2Id].sort().join('_'),
+  getAllowMessages: () => 'everyone',
+}));
+
+const withAllowReviews = (allowReviews: string) =>
+  getPrivacySettings({ privacy: { allowReviews } });
+
+describe('canReviewUser', () => {
+  beforeEach(() => {
+    mockRoomExists.mockReset();
+  });
+
+  it('should allow anyone when reviews are open to everyone', async () => {
+    await expect(canReviewUser(withAllowReviews('everyone'), 'subject', 'author')).resolves.toBe(true);
+    await expect(canReviewUser(getPrivacySettings(undefined), 'subject', 'author')).resolves.toBe(true);
+  });
+
+  it('should reject everyone when reviews are turned off', async () => {
+    mockRoomExists.mockReturnValue(true);
+
+    await expect(canReviewUser(withAllowReviews('nobody'), 'subject', 'author')).resolves.toBe(false);
+  });
+
+  it('should only allow friends to review when limited to friends', async () => {
+    mockRoomExists.mockReturnValue(false);
+    await expect(canReviewUser(withAllowReviews('friends'), 'subject', 'author')).resolves.toBe(false);
+
+    mockRoomExists.mockReturnValue(true);
+    await expect(canReviewUser(withAllowReviews('friends'), 'subject', 'author')).resolves.toBe(true);
+  });
+
+  it('should treat an unknown setting as open to everyone', async () => {
+    await expect(canReviewUser(withAllowReviews('strangers'), 'subject', 'author')).resolves.toBe(true);
+  });
+});
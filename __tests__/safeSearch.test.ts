@@ -0,0 +1,23 @@
+import { evaluateSafeSearch } from '../functions/src/safeSearch';
+
+describe('evaluateSafeSearch', () => {
+  it('should approve images that are unlikely to be unsafe', () => {
+    expect(evaluateSafeSearch({ adult: 'VERY_UNLIKELY', violence: 'POSSIBLE', racy: 'LIKELY' }))
+      .toEqual({ status: 'approved', reasons: [] });
+  });
+
+  it('should hold likely explicit or violent images for a moderator', () => {
+    expect(evaluateSafeSearch({ adult: 'LIKELY', violence: 'UNLIKELY' }))
+      .toEqual({ status: 'pending', reasons: ['image_adult'] });
+    expect(evaluateSafeSearch({ racy: 'VERY_LIKELY' }).status).toBe('pending');
+  });
+
+  it('should reject very likely explicit images with every reason', () => {
+    expect(evaluateSafeSearch({ adult: 'VERY_LIKELY', violence: 'LIKELY' }))
+      .toEqual({ status: 'rejected', reasons: ['image_adult', 'image_violence'] });
+  });
+
+  it('should treat missing categories as unknown', () => {
+    expect(evaluateSafeSearch({})).toEqual({ status: 'approved', reasons: [] });
+  });
+});
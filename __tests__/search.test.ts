@@ -0,0 +1,103 @@
+import {
+  buildIndexEntry,
+  buildSearchFields,
+  editDistance,
+  isSearchable,
+  queryKeys,
+  rankScore,
+  relevanceScore,
+  tokenize,
+} from '../functions/src/searchIndex';
+
+// A query term finds a review when one of its lookup keys is in the index
+const finds = (queryTerm: string, review: Parameters<typeof buildIndexEntry>[0]): boolean => {
+  const { keys } = buildIndexEntry(review);
+  return queryKeys(queryTerm).some(key => keys.includes(key));
+};
+
+describe('tokenize', () => {
+  it('should normalize case and accents and drop stopwords', () => {
+    expect(tokenize('The CAFÉ was, like, GREAT!')).toEqual(['cafe', 'like', 'great']);
+  });
+});
+
+describe('search index lookup', () => {
+  const review = { targetName: 'Michael Thompson', title: 'Ghosted after three dates', content: 'He never replied.' };
+
+  it('should find exact terms and prefixes', () => {
+    expect(finds('michael', review)).toBe(true);
+    expect(finds('mich', review)).toBe(true);
+    expect(finds('ghost', review)).toBe(true);
+  });
+
+  it('should tolerate one typo in longer terms', () => {
+    expect(finds('micheal', review)).toBe(true); // swapped letters
+    expect(finds('thompsen', review)).toBe(true); // wrong letter
+    expect(finds('thomson', review)).toBe(true); // missing letter
+    expect(finds('ghosteed', review)).toBe(true); // extra letter
+  });
+
+  it('should not find unrelated terms', () => {
+    expect(finds('sarah', review)).toBe(false);
+  });
+
+  it('should stay within the array-contains-any limit', () => {
+    expect(queryKeys('abcdefghijkl').length).toBeLessThanOrEqual(30);
+  });
+});
+
+describe('relevanceScore', () => {
+  const { terms } = buildIndexEntry({ targetName: 'Jake Miller', content: 'Met on tinder, very respectful' });
+
+  it('should require every query term to match', () => {
+    expect(relevanceScore(['jake', 'tinder'], terms)).toBeGreaterThan(0);
+    expect(relevanceScore(['jake', 'bumble'], terms)).toBe(0);
+  });
+
+  it('should rank exact matches above prefixes and typos', () => {
+    const exact = relevanceScore(['miller'], terms);
+    expect(exact).toBeGreaterThan(relevanceScore(['mill'], terms));
+    expect(relevanceScore(['mill'], terms)).toBeGreaterThan(relevanceScore(['miler'], terms));
+  });
+
+  it('should weight the name above the review text', () => {
+    expect(relevanceScore(['jake'], terms)).toBeGreaterThan(relevanceScore(['respectful'], terms));
+  });
+});
+
+describe('rankScore', () => {
+  const now = Date.UTC(2025, 0, 31);
+  const day = 24 * 60 * 60 * 1000;
+
+  it('should favour recent and engaging reviews at equal relevance', () => {
+    expect(rankScore('relevance', 0.5, now - day, 0, now)).toBeGreaterThan(rankScore('relevance', 0.5, now - 90 * day, 0, now));
+    expect(rankScore('relevance', 0.5, now, 200, now)).toBeGreaterThan(rankScore('relevance', 0.5, now, 0, now));
+  });
+
+  it('should order by date or engagement when asked', () => {
+    expect(rankScore('recent', 0.1, now, 0, now)).toBeGreaterThan(rankScore('recent', 1, now - day, 500, now));
+    expect(rankScore('popular', 0.1, now, 500, now)).toBeGreaterThan(rankScore('popular', 1, now, 10, now));
+  });
+});
+
+describe('buildSearchFields', () => {
+  it('should store filter fields next to the keys', () => {
+    const fields = buildSearchFields({ targetName: 'Jake', category: 'Men, LGBT', platform: ' Tinder ', rating: 1 });
+    expect(fields.categories).toEqual(['men', 'lgbt']);
+    expect(fields.platform).toBe('tinder');
+    expect(fields.flag).toBe('red');
+  });
+
+  it('should only index approved reviews that are not deleted', () => {
+    expect(isSearchable({ moderationStatus: 'approved' })).toBe(true);
+    expect(isSearchable({ moderationStatus: 'pending' })).toBe(false);
+    expect(isSearchable({ moderationStatus: 'approved', deleted: true })).toBe(false);
+  });
+});
+
+describe('editDistance', () => {
+  it('should count a transposition as one edit', () => {
+    expect(editDistance('micheal', 'michael')).toBe(1);
+    expect(editDistance('abcd', 'wxyz')).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,88 @@
+import * as clientMatching from '../services/subjectMatching';
+import * as serverMatching from '../functions/src/subjectMatching';
+
+const { getNameKeys, nameSimilarity, scoreSubjectMatch, soundex, MATCH_THRESHOLD } = clientMatching;
+
+describe('getNameKeys', () => {
+  it('should normalize case, accents and initials', () => {
+    expect(getNameKeys('  JOSÉ  M. ')).toEqual(['jose', '~J200']);
+  });
+
+  it('should give spelling variants a shared key', () => {
+    expect(soundex('jon')).toBe(soundex('john'));
+    expect(getNameKeys('Jon')).toContain(`~${soundex('john')}`);
+  });
+
+  it('should produce the same keys on the server', () => {
+    ['Michael Thompson', 'José M.', 'jake_99', 'Anne-Marie  O\'Neil'].forEach(name => {
+      expect(serverMatching.getNameKeys(name)).toEqual(getNameKeys(name));
+    });
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should tolerate typos in full names', () => {
+    expect(nameSimilarity('Michael Thompson', 'Micheal Thomson')).toBeGreaterThan(0.9);
+  });
+
+  it('should keep a first name alone below an exact full name', () => {
+    expect(nameSimilarity('Mike', 'Mike Smith')).toBeLessThan(1);
+  });
+
+  it('should score different people low', () => {
+    expect(nameSimilarity('Michael Thompson', 'Sarah Jones')).toBeLessThan(0.6);
+  });
+});
+
+describe('scoreSubjectMatch', () => {
+  const austin = { latitude: 30.2672, longitude: -97.7431 };
+  const roundRock = { latitude: 30.5083, longitude: -97.6789 };
+  const dallas = { latitude: 32.7767, longitude: -96.797 };
+
+  it('should match the same name on the same platform nearby', () => {
+    const match = scoreSubjectMatch(
+      { targetName: 'Jake Miller', platform: 'Tinder', coordinates: austin },
+      { targetName: 'Jake Miller', platform: 'tinder', coordinates: austin }
+    );
+
+    expect(match.score).toBeGreaterThan(0.95);
+    expect(match.reasons).toEqual(['Same name', 'Same platform (tinder)', 'Nearby']);
+  });
+
+  it('should match a name with no other details', () => {
+    expect(scoreSubjectMatch({ targetName: 'Jake Miller' }, { targetName: 'Jake Miller' }).score)
+      .toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+  });
+
+  it('should count nearby towns as the same area', () => {
+    const match = scoreSubjectMatch(
+      { targetName: 'Jake Miller', coordinates: austin },
+      { targetName: 'Jake Miller', coordinates: roundRock }
+    );
+
+    expect(match.reasons).toContain('Same area');
+  });
+
+  it('should not match the same name far away on another platform', () => {
+    expect(scoreSubjectMatch(
+      { targetName: 'Jake Miller', platform: 'Tinder', coordinates: austin },
+      { targetName: 'Jake Miller', platform: 'Hinge', coordinates: dallas }
+    ).score).toBeLessThan(MATCH_THRESHOLD);
+  });
+
+  it('should use the city when there are no coordinates', () => {
+    const match = scoreSubjectMatch(
+      { targetName: 'Jake Miller', location: 'Austin, TX' },
+      { targetName: 'Jake Miller', location: 'austin' }
+    );
+
+    expect(match.reasons).toContain('Same city');
+  });
+
+  it('should never match on platform and location alone', () => {
+    expect(scoreSubjectMatch(
+      { targetName: 'Jake Miller', platform: 'Tinder', coordinates: austin },
+      { targetName: 'Sarah Jones', platform: 'Tinder', coordinates: austin }
+    ).score).toBe(0);
+  });
+});
@@ -7,6 +7,7 @@ import {
   TextInput,
   RefreshControl,
   Text,
+  Modal,
 } from 'react-native';
 
 import { SafeAreaView } from "react-native-safe-area-context";
@@ -16,9 +17,14 @@ import { FlashList } from "@shopify/flash-list";
 import { useTheme } from "../../providers/ThemeProvider";
 import { useAuth } from "../../providers/AuthProvider";
 import { ModernButton } from "../../components/ui/ModernButton";
-import { collection, getDocs, doc, updateDoc, arrayUnion, arrayRemove, query, where } from "firebase/firestore";
+import { collection, getDocs, query, where } from "firebase/firestore";
 import { db } from "../../utils/firebase";
-import type { ChatRoom } from "../../types/index";
+import { ChatService, ChatServiceError } from "../../services/chatService";
+import { useChat } from "../../providers/ChatProvider";
+import { useTypingUsers } from "../../hooks/useTypingUsers";
+import { usePresence } from "../../hooks/usePresence";
+import { formatTyping, isPresenceOnline } from "../../utils/presence";
+import type { ChatRoom, ChatRoomVisibility } from "../../types/index";
 import { toMillis, formatRelativeTime } from "../../utils/timestampHelpers";
 import { createTypographyStyles } from "../../styles/typography";
 import { EmptyState } from "../../components/EmptyState";
@@ -32,11 +38,14 @@ interface ChatRoomItemProps {
   onPress: () => void;
   onJoin?: () => void;
   onLeave?: () => void;
+  onMore?: () => void;
   isJoined: boolean;
   isMember: boolean;
+  typingText?: string | null; // Replaces the last message while someone types
+  isOnline?: boolean; // The other user of a direct conversation
 }
 
-const ChatRoomItem = React.memo(({ room, onPress, onJoin, onLeave, isJoined, isMember }: ChatRoomItemProps) => {
+const ChatRoomItem = React.memo(({ room, onPress, onJoin, onLeave, onMore, isJoined, isMember, typingText, isOnline }: ChatRoomItemProps) => {
   const { colors } = useTheme();
   const { user } = useAuth();
   const typography = createTypographyStyles(colors);
@@ -83,6 +92,12 @@ const ChatRoomItem = React.memo(({ room, onPress, onJoin, onLeave, isJoined, isM
           <View style={styles.roomTitleRow}>
             <View style={[styles.roomIcon, { backgroundColor: colors.primary }]}>
               <MessageCircle size={16} color={colors.surface} strokeWidth={1.5} />
+              {isOnline && (
+                <View
+                  style={[styles.onlineBadge, { backgroundColor: colors.success, borderColor: colors.card }]}
+                  accessibilityLabel="Online"
+                />
+              )}
             </View>
             <Text style={typography.h2}>
               {room.name}
@@ -124,7 +139,13 @@ const ChatRoomItem = React.memo(({ room, onPress, onJoin, onLeave, isJoined, isM
             )}
           </View>
 
-          {lastMessage && (
+          {typingText ? (
+            <View style={styles.lastMessageContent}>
+              <Text style={[typography.body, { color: colors.primary, fontStyle: 'italic' }]} numberOfLines={1}>
+                {typingText}
+              </Text>
+            </View>
+          ) : lastMessage && (
             <View style={styles.lastMessageContent}>
               <Text style={typography.body} numberOfLines={1}>
                 {typeof lastMessage === 'string' ? (
@@ -162,9 +183,16 @@ const ChatRoomItem = React.memo(({ room, onPress, onJoin, onLeave, isJoined, isM
               Leave
             </ModernButton>
           )}
-          <Pressable style={[styles.moreButton, { backgroundColor: colors.surface }, SHADOWS.sm]}>
-            <MoreVertical size={16} color={colors.textSecondary} strokeWidth={1.5} />
-          </Pressable>
+          {isMember && onMore && (
+            <Pressable
+              onPress={onMore}
+              style={[styles.moreButton, { backgroundColor: colors.surface }, SHADOWS.sm]}
+              accessibilityRole="button"
+              accessibilityLabel="Room settings"
+            >
+              <MoreVertical size={16} color={colors.textSecondary} strokeWidth={1.5} />
+            </Pressable>
+          )}
         </View>
       </View>
     </Pressable>
@@ -185,6 +213,21 @@ export default function ChatScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [chatRooms, setChatRooms] = useState<ChatRoom[]>([]);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [newRoomName, setNewRoomName] = useState("");
+  const [newRoomDescription, setNewRoomDescription] = useState("");
+  const [newRoomVisibility, setNewRoomVisibility] = useState<ChatRoomVisibility>('public');
+  const [isCreatingRoom, setIsCreatingRoom] = useState(false);
+  const [inviteCode, setInviteCode] = useState("");
+
+  // Typing and presence come from the live subscription to the user's rooms
+  const { chatRooms: liveRooms } = useChat();
+  const typingByRoom = useTypingUsers(liveRooms, user?.id);
+  const directContactIds = useMemo(() => liveRooms
+    .filter(room => room.type === 'direct')
+    .map(room => room.participants?.find(userId => userId !== user?.id))
+    .filter((userId): userId is string => !!userId), [liveRooms, user?.id]);
+  const presence = usePresence(directContactIds);
 
   const tabs = [
     { id: 'all' as ChatTab, label: 'All Rooms', icon: Globe },
@@ -258,10 +301,10 @@ export default function ChatScreen() {
         ...doc.data() 
       } as ChatRoom));
       
-      // Remove duplicates by room ID
-      const allRooms = [...participantRooms];
+      // Remove duplicates by room ID; deleted rooms stay out of the list
+      const allRooms = participantRooms.filter(room => room.isActive !== false);
       publicRooms.forEach(room => {
-        if (!allRooms.find(existingRoom => existingRoom._id === room._id)) {
+        if (room.isActive !== false && !allRooms.find(existingRoom => existingRoom._id === room._id)) {
           allRooms.push(room);
         }
       });
@@ -347,54 +390,81 @@ export default function ChatScreen() {
   const handleJoinRoom = useCallback(async (roomId: string) => {
     if (!user?.id) return;
     try {
-      const roomRef = doc(db, "chatRooms", roomId);
-      await updateDoc(roomRef, {
-        participants: arrayUnion(user.id)
-      });
+      await ChatService.joinChatRoom(roomId);
       await fetchChatRooms();
       Alert.alert('Success', 'You have joined the room!');
     } catch (error) {
       __DEV__ && console.error('Error joining room:', error);
-      Alert.alert('Error', 'Failed to join room');
-      
-      // Log error details for debugging
-      const errorObj = error as any;
-      __DEV__ && console.log('Join room error details:', {
-        roomId,
-        userId: user?.id,
-        name: errorObj?.name,
-        message: errorObj?.message,
-        code: errorObj?.code,
-        stack: errorObj?.stack
-      });
+      Alert.alert('Error', error instanceof ChatServiceError && error.code !== 'JOIN_ROOM_ERROR'
+        ? error.message
+        : 'Failed to join room');
     }
   }, [user?.id]);
 
   const handleLeaveRoom = useCallback(async (roomId: string) => {
     if (!user?.id) return;
     try {
-      const roomRef = doc(db, "chatRooms", roomId);
-      await updateDoc(roomRef, {
-        participants: arrayRemove(user.id)
-      });
+      await ChatService.leaveChatRoom(roomId);
       await fetchChatRooms();
       Alert.alert('Success', 'You have left the room.');
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error("Error leaving room: ", error);
       }
-      Alert.alert('Error', 'Could not leave the room. Please try again.');
+      Alert.alert('Error', error instanceof ChatServiceError && error.code === 'VALIDATION_ERROR'
+        ? error.message
+        : 'Could not leave the room. Please try again.');
     }
   }, [user?.id]);
 
+  const handleRoomSettings = useCallback((roomId: string) => {
+    router.push(`/chat/settings/${roomId}`);
+  }, [router]);
+
   const handleCreateRoom = useCallback(() => {
-    Alert.alert(
-      'Create Room',
-      'Room creation feature coming soon!',
-      [{ text: 'OK' }]
-    );
+    setShowCreateModal(true);
+  }, []);
+
+  const closeCreateModal = useCallback(() => {
+    setShowCreateModal(false);
+    setNewRoomName("");
+    setNewRoomDescription("");
+    setNewRoomVisibility('public');
+    setInviteCode("");
   }, []);
 
+  const handleSubmitCreateRoom = useCallback(async () => {
+    if (!newRoomName.trim() || isCreatingRoom) return;
+
+    setIsCreatingRoom(true);
+    try {
+      const roomId = await ChatService.createGroupRoom({
+        name: newRoomName,
+        description: newRoomDescription,
+        visibility: newRoomVisibility,
+      });
+      closeCreateModal();
+      await fetchChatRooms();
+      router.push(`/chat/${roomId}`);
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error("Error creating room: ", error);
+      }
+      Alert.alert('Error', error instanceof ChatServiceError && error.code === 'VALIDATION_ERROR'
+        ? error.message
+        : 'Could not create the room. Please try again.');
+    } finally {
+      setIsCreatingRoom(false);
+    }
+  }, [newRoomName, newRoomDescription, newRoomVisibility, isCreatingRoom, closeCreateModal, router]);
+
+  const handleJoinWithCode = useCallback(() => {
+    const code = inviteCode.trim();
+    if (!code) return;
+    closeCreateModal();
+    router.push(`/chat/join/${encodeURIComponent(code)}`);
+  }, [inviteCode, closeCreateModal, router]);
+
   const renderRoomItem = useCallback(({ item }: { item: ChatRoom }) => {
     const userId = user?.id;
     if (!userId) return null;
@@ -402,6 +472,8 @@ export default function ChatScreen() {
     const isJoined = item.participants?.includes(userId) || item.memberIds?.includes(userId) || false;
     const isOwner = item.createdBy === userId;
     const isMember = isJoined || isOwner;
+    const roomId = item._id || item.id;
+    const contactId = item.type === 'direct' ? item.participants?.find(participant => participant !== userId) : undefined;
 
     return (
       <ChatRoomItem
@@ -409,11 +481,14 @@ export default function ChatScreen() {
         onPress={() => handleRoomPress(item)}
         onJoin={() => handleJoinRoom(item._id || item.id)}
         onLeave={() => handleLeaveRoom(item._id || item.id)}
+        onMore={() => handleRoomSettings(item._id || item.id)}
         isJoined={isJoined}
         isMember={isMember}
+        typingText={formatTyping(typingByRoom[roomId]?.length || 0, item.type === 'direct')}
+        isOnline={!!contactId && isPresenceOnline(presence[contactId])}
       />
     );
-  }, [user?.id, handleRoomPress, handleJoinRoom, handleLeaveRoom]);
+  }, [user?.id, handleRoomPress, handleJoinRoom, handleLeaveRoom, handleRoomSettings, typingByRoom, presence]);
 
   const keyExtractor = useCallback((item: ChatRoom) => item._id || item.id, []);
 
@@ -545,6 +620,103 @@ export default function ChatScreen() {
       ) : (
         renderEmptyState()
       )}
+
+      {/* Create Room Modal */}
+      <Modal
+        visible={showCreateModal}
+        transparent
+        animationType="fade"
+        onRequestClose={closeCreateModal}
+      >
+        <Pressable style={styles.modalOverlay} onPress={closeCreateModal}>
+          <Pressable style={[styles.modalContent, { backgroundColor: colors.card }]} onPress={() => {}}>
+            <Text style={[typography.h2, { textAlign: 'center', marginBottom: 20 }]}>
+              Create Room
+            </Text>
+
+            <TextInput
+              style={[styles.modalInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.surfaceElevated }]}
+              placeholder="Room name"
+              placeholderTextColor={colors.textSecondary}
+              value={newRoomName}
+              onChangeText={setNewRoomName}
+              maxLength={100}
+            />
+            <TextInput
+              style={[
+                styles.modalInput,
+                styles.modalDescriptionInput,
+                { color: colors.text, borderColor: colors.border, backgroundColor: colors.surfaceElevated }
+              ]}
+              placeholder="What is this room about? (optional)"
+              placeholderTextColor={colors.textSecondary}
+              value={newRoomDescription}
+              onChangeText={setNewRoomDescription}
+              maxLength={500}
+              multiline
+            />
+
+            <View style={styles.visibilityOptions}>
+              {([
+                { value: 'public', label: 'Public', hint: 'Anyone can find and join', icon: Globe },
+                { value: 'private', label: 'Private', hint: 'Invite link only', icon: Lock },
+              ] as const).map(option => {
+                const Icon = option.icon;
+                const isSelected = newRoomVisibility === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    onPress={() => setNewRoomVisibility(option.value)}
+                    style={[
+                      styles.visibilityOption,
+                      {
+                        borderColor: isSelected ? colors.primary : colors.border,
+                        backgroundColor: isSelected ? colors.surfaceElevated : 'transparent',
+                      }
+                    ]}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <Icon size={18} color={isSelected ? colors.primary : colors.textSecondary} strokeWidth={1.5} />
+                    <Text style={[typography.body, { color: colors.text, marginTop: 4 }]}>{option.label}</Text>
+                    <Text style={[typography.caption, { textAlign: 'center' }]}>{option.hint}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <ModernButton
+              variant="gradient"
+              onPress={handleSubmitCreateRoom}
+              disabled={!newRoomName.trim()}
+              loading={isCreatingRoom}
+            >
+              Create Room
+            </ModernButton>
+
+            <View style={[styles.inviteDivider, { borderTopColor: colors.border }]}>
+              <Text style={[typography.caption, { marginBottom: 8 }]}>
+                Have an invite code?
+              </Text>
+              <View style={styles.inviteRow}>
+                <TextInput
+                  style={[styles.modalInput, styles.inviteInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.surfaceElevated }]}
+                  placeholder="Invite code"
+                  placeholderTextColor={colors.textSecondary}
+                  value={inviteCode}
+                  onChangeText={setInviteCode}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  onSubmitEditing={handleJoinWithCode}
+                />
+                <ModernButton variant="outline" size="sm" onPress={handleJoinWithCode} disabled={!inviteCode.trim()}>
+                  Join
+                </ModernButton>
+              </View>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -565,6 +737,20 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 20,
   },
+  inviteDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: 20,
+    paddingTop: 16,
+  },
+  inviteInput: {
+    flex: 1,
+    marginBottom: 0,
+    marginRight: 12,
+  },
+  inviteRow: {
+    alignItems: 'center',
+    flexDirection: 'row',
+  },
   listContainer: {
     paddingHorizontal: 16,
     paddingVertical: 20,
@@ -613,6 +799,15 @@ const styles = StyleSheet.create({
   lastMessageContent: {
     marginTop: 12,
   },
+  onlineBadge: {
+    borderRadius: 5,
+    borderWidth: 2,
+    bottom: -2,
+    height: 10,
+    position: 'absolute',
+    right: -2,
+    width: 10,
+  },
   roomActions: {
     alignItems: 'center',
     flexDirection: 'row',
@@ -624,6 +819,30 @@ const styles = StyleSheet.create({
   leaveButton: {
     paddingHorizontal: 16,
   },
+  modalContent: {
+    borderRadius: 20,
+    maxWidth: 400,
+    padding: 24,
+    width: '90%',
+  },
+  modalDescriptionInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  modalInput: {
+    borderRadius: 12,
+    borderWidth: 1,
+    fontSize: 16,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  modalOverlay: {
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    flex: 1,
+    justifyContent: 'center',
+  },
   moreButton: {
     padding: 8,
     borderRadius: BORDER_RADIUS.md,
@@ -649,6 +868,18 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     paddingVertical: 16,
   },
+  visibilityOption: {
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    flex: 1,
+    padding: 12,
+  },
+  visibilityOptions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
   tabsContainer: {
     flexDirection: 'row',
     borderBottomWidth: StyleSheet.hairlineWidth,
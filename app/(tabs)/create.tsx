@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from "react";
+import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import {
   View,
   Text,
@@ -11,8 +11,8 @@ import {
   KeyboardAvoidingView,
 } from 'react-native';
 import { SafeAreaView } from "react-native-safe-area-context";
-import { useRouter } from "expo-router";
-import { Camera, Image as ImageIcon, X, ChevronDown, Check, Flag } from "lucide-react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Camera, Image as ImageIcon, X, ChevronDown, Check, Flag, ShieldAlert, Users } from "lucide-react-native";
 import * as ImagePicker from "expo-image-picker";
 import * as Location from "expo-location";
 import { useTheme } from "../../providers/ThemeProvider";
@@ -20,10 +20,15 @@ import { useAuth } from "../../providers/AuthProvider";
 import { ModernButton } from "../../components/ui/ModernButton";
 import { Input } from "../../components/ui/Input";
 import Card from "../../components/ui/Card";
-import { addDoc, collection, serverTimestamp } from "firebase/firestore";
-import { db } from "../../utils/firebase";
+import { ReviewService } from "../../services/reviewService";
+import { moderationService } from "../../services/moderationService";
+import type { PiiDetector, PiiFinding } from "../../services/moderationEngine";
+import { SubjectService } from "../../services/subjectService";
+import { LocationPrecisionMode, ReviewSubmission, SubjectMatch } from "../../types";
 import { LocationSelector } from "../../components/LocationSelector";
 import { LocationService } from "../../services/locationService";
+import { LOCATION_PRIVACY_POLICY } from "../../utils/locationPrivacy";
+import { stripImageMetadata } from "../../utils/imageMetadata";
 import { createTypographyStyles } from "../../styles/typography";
 import { SHADOWS, BORDER_RADIUS } from "../../constants/shadows";
 
@@ -45,6 +50,30 @@ type LocationSuggestion = {
   };
 };
 
+// How precisely the review's location is stored, see utils/locationPrivacy.ts
+const LOCATION_PRECISION_OPTIONS: { mode: LocationPrecisionMode; label: string; description: string }[] = [
+  { mode: 'grid', label: 'Neighborhood', description: 'Stored to within about 1 km.' },
+  { mode: 'jitter', label: 'Approximate', description: 'Moved randomly by up to 2 km, then rounded to about 1 km.' },
+  { mode: 'city', label: 'City only', description: 'Only the city is stored.' },
+];
+
+type PersonalInfoField = 'personName' | 'title' | 'content' | 'platform' | 'location';
+
+type PersonalInfoItem = {
+  field: PersonalInfoField;
+  finding: PiiFinding;
+};
+
+const PERSONAL_INFO_LABELS: Record<PiiDetector, string> = {
+  phone: 'Phone number',
+  email: 'Email address',
+  address: 'Street address',
+  licensePlate: 'License plate',
+  socialHandle: 'Social handle',
+  workplace: 'Workplace',
+  fullName: 'Full name',
+};
+
 const _categories = ['Men', 'Women', 'LGBT'];
 
 const platforms = [
@@ -53,6 +82,8 @@ const platforms = [
 
 export default function CreateReviewScreen() {
   const router = useRouter();
+  // Set when opened from a member's profile
+  const params = useLocalSearchParams<{ targetUserId?: string; targetName?: string }>();
   const { colors } = useTheme();
   const scrollViewRef = useRef<ScrollView>(null);
   const { user } = useAuth();
@@ -75,10 +106,85 @@ export default function CreateReviewScreen() {
 
   // New location system state
   const [selectedLocationData, setSelectedLocationData] = useState<any>(null);
+  const [locationPrecision, setLocationPrecision] = useState<LocationPrecisionMode>(LOCATION_PRIVACY_POLICY.defaultMode);
 
   // Validation state
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Earlier reviews that may be about the same person
+  const [subjectMatches, setSubjectMatches] = useState<SubjectMatch[]>([]);
+  const [linkedReviewId, setLinkedReviewId] = useState<string | null>(null);
+
+  // The registered user being reviewed, whose allowReviews setting applies
+  const [targetUserId, setTargetUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!params.targetUserId) return;
+    setTargetUserId(params.targetUserId);
+    setPersonName(params.targetName || "");
+  }, [params.targetUserId, params.targetName]);
+
+  useEffect(() => {
+    const targetName = personName.trim();
+    if (targetName.length < 2) {
+      setSubjectMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const matches = await SubjectService.findMatches({
+        targetName,
+        platform,
+        location: selectedLocationData?.data?.name || location,
+        coordinates: selectedLocationData?.data?.coordinates || null,
+      });
+      if (!cancelled) {
+        setSubjectMatches(matches);
+        setLinkedReviewId(prev => matches.some(match => match.review.id === prev) ? prev : null);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [personName, platform, location, selectedLocationData]);
+
+  // Personal identifiers in every free-text field, re-scanned as the user
+  // types. The submitReview function checks the same fields.
+  const personalInfo = useMemo<PersonalInfoItem[]>(() => {
+    const options = { subjectName: personName };
+    const fields: [PersonalInfoField, string][] = [
+      ['personName', personName],
+      ['title', title],
+      ['content', content],
+      ['platform', platform],
+      ['location', location],
+    ];
+    return fields.flatMap(([field, text]) =>
+      moderationService.findPersonalInfo(text, options).map(finding => ({ field, finding }))
+    );
+  }, [personName, title, content, platform, location]);
+
+  const hasBlockingPersonalInfo = personalInfo.some(item => item.finding.action === 'block');
+
+  const redactPersonalInfo = useCallback((items: PersonalInfoItem[]) => {
+    const findingsFor = (field: PersonalInfoField) =>
+      items.filter(item => item.field === field).map(item => item.finding);
+
+    setPersonName(prev => moderationService.redactPersonalInfo(prev, findingsFor('personName')));
+    setTitle(prev => moderationService.redactPersonalInfo(prev, findingsFor('title')));
+    setContent(prev => moderationService.redactPersonalInfo(prev, findingsFor('content')));
+    setPlatform(prev => moderationService.redactPersonalInfo(prev, findingsFor('platform')));
+    setLocation(prev => moderationService.redactPersonalInfo(prev, findingsFor('location')));
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next.personalInfo;
+      return next;
+    });
+  }, []);
+
   // Mock location suggestions
   const mockLocationSuggestions: LocationSuggestion[] = [
     { id: '1', name: 'Central Park', address: 'New York, NY, USA' },
@@ -167,7 +273,25 @@ export default function CreateReviewScreen() {
     });
   };
 
-  // Handle media selection
+  // Handle media selection. Pickers return full quality; the photo is
+  // compressed once here, when it is re-encoded without GPS or device metadata.
+  const attachPhoto = async (uri: string) => {
+    try {
+      const photo = await stripImageMetadata(uri);
+      const newMedia: MediaItem = {
+        id: Date.now().toString(),
+        uri: photo.uri,
+        type: 'image',
+      };
+      setMedia(prev => [...prev, newMedia]);
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error removing photo metadata:', error);
+      }
+      Alert.alert('Error', 'Failed to add photo. Please try again.');
+    }
+  };
+
   const pickImage = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
@@ -179,16 +303,12 @@ export default function CreateReviewScreen() {
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
       allowsEditing: true,
       aspect: [4, 3],
-      quality: 0.8,
+      quality: 1,
+      exif: false,
     });
 
     if (!result.canceled && result.assets[0]) {
-      const newMedia: MediaItem = {
-        id: Date.now().toString(),
-        uri: result.assets[0].uri,
-        type: 'image',
-      };
-      setMedia(prev => [...prev, newMedia]);
+      await attachPhoto(result.assets[0].uri);
     }
   };
 
@@ -202,16 +322,12 @@ export default function CreateReviewScreen() {
     const result = await ImagePicker.launchCameraAsync({
       allowsEditing: true,
       aspect: [4, 3],
-      quality: 0.8,
+      quality: 1,
+      exif: false,
     });
 
     if (!result.canceled && result.assets[0]) {
-      const newMedia: MediaItem = {
-        id: Date.now().toString(),
-        uri: result.assets[0].uri,
-        type: 'image',
-      };
-      setMedia(prev => [...prev, newMedia]);
+      await attachPhoto(result.assets[0].uri);
     }
   };
 
@@ -244,6 +360,10 @@ export default function CreateReviewScreen() {
       newErrors.flag = "Please select a flag (green or red)";
     }
 
+    if (hasBlockingPersonalInfo) {
+      newErrors.personalInfo = 'Remove the personal information below before publishing';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -263,31 +383,50 @@ export default function CreateReviewScreen() {
     setIsSubmitting(true);
 
     try {
-      const reviewData = {
-        authorId: user.id,
-        targetName: personName,
+      const reviewData: ReviewSubmission = {
+        targetName: personName.trim(),
         category: selectedCategories.join(', '),
-        content,
+        content: content.trim(),
         rating: flag === 'green' ? 5 : 1,
         isAnonymous,
-        title,
+        title: title.trim(),
         platform: platform || '',
         location: selectedLocationData ? selectedLocationData.data.name : location,
         locationData: selectedLocationData || null,
         coordinates: selectedLocationData?.data?.coordinates || null,
+        locationPrecision,
         media: media.map(m => m.uri),
-        verified: false,
-        likes: 0,
-        dislikes: 0,
-        comments: [],
-        timestamp: serverTimestamp(),
+        ...(targetUserId ? { targetUserId } : {}),
       };
 
-      await addDoc(collection(db, "reviews"), reviewData);
+      const result = await ReviewService.createReview(reviewData);
+
+      if (result.moderationStatus === 'rejected') {
+        Alert.alert(
+          'Review Not Published',
+          `Your review doesn't meet our community guidelines:\n\n${result.reasons.map(reason => `• ${reason}`).join('\n')}\n\nPlease edit your review and try again.`
+        );
+        return;
+      }
+
+      // Linking is a nice-to-have; the review is already published
+      if (result.reviewId && linkedReviewId) {
+        try {
+          await SubjectService.linkReviews(result.reviewId, linkedReviewId);
+        } catch (linkError) {
+          if (__DEV__) {
+            __DEV__ && console.warn('Could not link review to the same person:', linkError);
+          }
+        }
+      }
+
+      const isLive = result.moderationStatus === 'approved';
 
       Alert.alert(
-        'Review Submitted!',
-        'Your review has been submitted successfully and is now live.',
+        isLive ? 'Review Published!' : 'Review Submitted for Review',
+        isLive
+          ? 'Your review has been submitted successfully and is now live.'
+          : 'Your review has been held for moderation and will appear once a moderator approves it.',
         [
           {
             text: 'OK',
@@ -303,6 +442,10 @@ export default function CreateReviewScreen() {
               setLocation("");
               setIsAnonymous(true);
               setErrors({});
+              setSubjectMatches([]);
+              setLinkedReviewId(null);
+              setTargetUserId(null);
+              router.setParams({ targetUserId: undefined, targetName: undefined });
               
               // Navigate back to home
               router.push('/(tabs)/');
@@ -310,8 +453,11 @@ export default function CreateReviewScreen() {
           }
         ]
       );
-    } catch {
-      Alert.alert('Error', 'Failed to submit review. Please try again.');
+    } catch (error) {
+      const message = error instanceof Error && error.message
+        ? error.message
+        : 'Failed to submit review. Please try again.';
+      Alert.alert('Error', message);
     } finally {
       setIsSubmitting(false);
     }
@@ -408,8 +554,71 @@ export default function CreateReviewScreen() {
               error={errors.personName}
               style={styles.input}
             />
+            {targetUserId && (
+              <View style={styles.targetUserRow}>
+                <Text style={[typography.caption, { color: colors.textSecondary, flex: 1 }]}>
+                  This review will appear on their profile
+                </Text>
+                <Pressable
+                  onPress={() => setTargetUserId(null)}
+                  accessibilityRole="button"
+                  accessibilityLabel="Don't link this review to their profile"
+                >
+                  <X size={16} color={colors.textSecondary} strokeWidth={1.5} />
+                </Pressable>
+              </View>
+            )}
           </Card>
 
+          {/* Possible earlier reviews of the same person */}
+          {subjectMatches.length > 0 && (
+            <Card style={styles.section}>
+              <View style={styles.personalInfoHeader}>
+                <Users size={20} color={colors.primary} strokeWidth={1.5} />
+                <Text style={[typography.h3, { flex: 1, marginLeft: 8 }]}>
+                  Reviewed before?
+                </Text>
+              </View>
+              <Text style={[typography.body, { color: colors.textSecondary, marginTop: 8 }]}>
+                These reviews may be about the same person. Link yours if it is the same person so their green and red flags add up.
+              </Text>
+              {subjectMatches.map(({ review, reasons }) => {
+                const isLinked = linkedReviewId === review.id;
+                return (
+                  <View
+                    key={review.id}
+                    style={[styles.personalInfoRow, { borderTopColor: colors.border }]}
+                  >
+                    <View style={styles.personalInfoText}>
+                      <Text style={{ color: colors.text, fontWeight: '500' }} numberOfLines={1}>
+                        {review.rating >= 3 ? '🟢' : '🔴'} {review.title || review.targetName}
+                      </Text>
+                      <Text style={[typography.caption, { color: colors.textSecondary, marginTop: 2 }]} numberOfLines={1}>
+                        {[review.targetName, ...reasons].join(' · ')}
+                      </Text>
+                    </View>
+                    <Pressable
+                      onPress={() => setLinkedReviewId(isLinked ? null : review.id)}
+                      style={[
+                        styles.redactButton,
+                        {
+                          borderColor: colors.primary,
+                          backgroundColor: isLinked ? colors.primary : 'transparent',
+                        }
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isLinked }}
+                    >
+                      <Text style={{ color: isLinked ? colors.onPrimary : colors.primary }}>
+                        {isLinked ? 'Linked' : 'Same person'}
+                      </Text>
+                    </Pressable>
+                  </View>
+                );
+              })}
+            </Card>
+          )}
+
           {/* Categories */}
           <Card style={styles.section}>
             <Text style={typography.h2}>
@@ -513,6 +722,54 @@ export default function CreateReviewScreen() {
             )}
           </Card>
 
+          {/* Personal Information */}
+          {personalInfo.length > 0 && (
+            <Card style={{ ...styles.section, borderColor: hasBlockingPersonalInfo ? colors.error : colors.warning, borderWidth: 1 }}>
+              <View style={styles.personalInfoHeader}>
+                <ShieldAlert size={20} color={hasBlockingPersonalInfo ? colors.error : colors.warning} strokeWidth={1.5} />
+                <Text style={[typography.h3, { flex: 1, marginLeft: 8 }]}>
+                  Personal information detected
+                </Text>
+                <Pressable onPress={() => redactPersonalInfo(personalInfo)} hitSlop={8}>
+                  <Text style={{ color: colors.primary, fontWeight: '600' }}>
+                    Redact all
+                  </Text>
+                </Pressable>
+              </View>
+              <Text style={[typography.body, { color: colors.textSecondary, marginTop: 8 }]}>
+                Reviews must not identify or help locate someone. Items marked required will stop your review from publishing.
+              </Text>
+              {errors.personalInfo && (
+                <Text style={{ color: colors.error, marginTop: 8 }}>
+                  {errors.personalInfo}
+                </Text>
+              )}
+              {personalInfo.map((item) => (
+                <View
+                  key={`${item.field}-${item.finding.start}`}
+                  style={[styles.personalInfoRow, { borderTopColor: colors.border }]}
+                >
+                  <View style={styles.personalInfoText}>
+                    <Text style={{ color: colors.text, fontWeight: '500' }} numberOfLines={1}>
+                      {item.finding.value}
+                    </Text>
+                    <Text style={[typography.caption, { color: item.finding.action === 'block' ? colors.error : colors.textSecondary, marginTop: 2 }]}>
+                      {PERSONAL_INFO_LABELS[item.finding.detector]} · {item.finding.action === 'block' ? 'Required' : 'Suggested'} · becomes "{item.finding.replacement}"
+                    </Text>
+                  </View>
+                  <Pressable
+                    onPress={() => redactPersonalInfo([item])}
+                    style={[styles.redactButton, { borderColor: colors.primary }]}
+                  >
+                    <Text style={{ color: colors.primary }}>
+                      Redact
+                    </Text>
+                  </Pressable>
+                </View>
+              ))}
+            </Card>
+          )}
+
           {/* Platform */}
           <Card style={styles.section}>
              <Text style={[typography.h2, { marginBottom: 12 }]}>
@@ -580,6 +837,42 @@ export default function CreateReviewScreen() {
                 📍 {selectedLocationData.data.name}
               </Text>
             )}
+
+            {selectedLocationData?.data?.coordinates && (
+              <>
+                <Text style={[typography.body, { color: colors.text, marginTop: 16, marginBottom: 8 }]}>
+                  Location precision
+                </Text>
+                <View style={styles.categoriesGrid}>
+                  {LOCATION_PRECISION_OPTIONS.map((option) => {
+                    const isSelected = locationPrecision === option.mode;
+                    return (
+                      <Pressable
+                        key={option.mode}
+                        onPress={() => setLocationPrecision(option.mode)}
+                        style={[
+                          styles.categoryChip,
+                          {
+                            backgroundColor: isSelected ? colors.primary : colors.surfaceElevated,
+                            borderColor: isSelected ? colors.primary : colors.border,
+                          }
+                        ]}
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected: isSelected }}
+                      >
+                        <Text style={{ color: isSelected ? colors.onPrimary : colors.text }}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <Text style={{ color: colors.textSecondary, marginTop: 8 }}>
+                  {LOCATION_PRECISION_OPTIONS.find(option => option.mode === locationPrecision)?.description}
+                  {' '}Your exact location is never saved.
+                </Text>
+              </>
+            )}
           </Card>
 
           {/* Media */}
@@ -751,6 +1044,21 @@ const styles = StyleSheet.create({
     position: 'relative',
     width: 90,
   },
+  personalInfoHeader: {
+    alignItems: 'center',
+    flexDirection: 'row',
+  },
+  personalInfoRow: {
+    alignItems: 'center',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  personalInfoText: {
+    flex: 1,
+    marginRight: 12,
+  },
   platformItem: {
     alignItems: 'center',
     borderBottomColor: 'rgba(0,0,0,0.1)',
@@ -772,6 +1080,12 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     padding: 16,
   },
+  redactButton: {
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
   removeMediaButton: {
     alignItems: 'center',
     borderRadius: 12,
@@ -812,6 +1126,12 @@ const styles = StyleSheet.create({
     marginTop: 24,
     marginHorizontal: 4,
   },
+  targetUserRow: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
   textArea: {
     borderRadius: BORDER_RADIUS.lg,
     borderWidth: 1,
@@ -8,29 +8,39 @@ import {
   TextInput,
   Modal,
   RefreshControl,
-  Text
+  Text,
+  ActivityIndicator
 } from 'react-native';
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
-import { MapPin, Search, Bell, Target, Navigation, Edit3 } from "lucide-react-native";
+import { MapPin, Search, Bell, Target, Navigation, Edit3, Map as MapIcon, List, X } from "lucide-react-native";
 import * as Location from 'expo-location';
 import { MasonryFlashList } from "@shopify/flash-list";
 import MasonryReviewCard from "../../components/MasonryReviewCard";
+import { ReviewClusterMap } from "../../components/ReviewClusterMap";
 import { ModernButton } from "../../components/ui/ModernButton";
 import { useTheme } from "../../providers/ThemeProvider";
 import { useAuth } from "../../providers/AuthProvider";
-import { Review } from "../../types";
-import { collection, getDocs, query, orderBy } from "firebase/firestore";
+import { Review, NearbyReviewsCursor } from "../../types";
+import { collection, getDocs, query, orderBy, where } from "firebase/firestore";
 import { db } from "../../utils/firebase";
+import { toMillis } from "../../utils/timestampHelpers";
 import { FILTER_CATEGORIES } from "../../constants/categories";
 import { LocationSelector } from "../../components/LocationSelector";
 import { LocationService } from "../../services/locationService";
+import { reviewService } from "../../services/reviewService";
+import type { GeoPoint } from "../../utils/geohash";
+import { clusterPrecisionForRadius, clusterReviews, isReviewInCell, ReviewCluster } from "../../utils/reviewClusters";
 import { createTypographyStyles } from "../../styles/typography";
 import { EmptyState } from "../../components/EmptyState";
 import { DiscoverFeedSkeleton } from "../../components/ui/LoadingSkeletons";
 import { SHADOWS } from "../../constants/shadows";
+import { useBlocks } from "../../providers/BlockProvider";
 
 const RADIUS_OPTIONS = [5, 10, 15, 25, 50, 100]; // miles
+const KM_PER_MILE = 1.609344;
+// Reviews loaded for the map; enough for a city without paging the whole feed
+const MAX_MAP_REVIEWS = 300;
 
 // Memoized category pill component for better performance
 const CategoryPill = React.memo(({ category, isSelected, onPress, colors, typography }: {
@@ -73,6 +83,7 @@ export default function HomeScreen() {
   const { colors } = useTheme();
   const typography = createTypographyStyles(colors);
   const { user } = useAuth();
+  const { isBlocked } = useBlocks();
   const [reviews, setReviews] = useState<Review[]>([]);
   const [selectedCategory, setSelectedCategory] = useState("All");
   const [refreshing, setRefreshing] = useState(false);
@@ -92,7 +103,18 @@ export default function HomeScreen() {
   // New location system state
   const [selectedLocationData, setSelectedLocationData] = useState<any>(null);
   const [isLoadingReviews, setIsLoadingReviews] = useState(false);
-  const [hasShownNoReviewsAlert, setHasShownNoReviewsAlert] = useState(false);
+  // Set while the feed shows a radius query that has more pages
+  const [nearbyQuery, setNearbyQuery] = useState<{
+    center: GeoPoint;
+    radiusKm: number;
+    cursor: NearbyReviewsCursor;
+  } | null>(null);
+  const [loadingMoreNearby, setLoadingMoreNearby] = useState(false);
+  const [feedView, setFeedView] = useState<'list' | 'map'>('list');
+  const [mapReviews, setMapReviews] = useState<Review[]>([]);
+  const [isLoadingMap, setIsLoadingMap] = useState(false);
+  // Geohash cell of the map cluster the list is narrowed to
+  const [clusterCell, setClusterCell] = useState<string | null>(null);
 
   useEffect(() => {
     fetchReviews();
@@ -113,16 +135,27 @@ export default function HomeScreen() {
         return;
       }
 
-      // Enhanced query with proper ordering
-      const reviewsQuery = query(
-        collection(db, "reviews"),
-        orderBy("createdAt", "desc")
-      );
-      const reviewsSnapshot = await getDocs(reviewsQuery);
-      const reviewsList = reviewsSnapshot.docs.map(doc => ({ 
-        id: doc.id, 
-        ...doc.data() 
-      } as Review));
+      // Reviews held by moderation are only visible to their author until
+      // approved, so the user's own reviews are fetched separately
+      const [approvedSnapshot, ownSnapshot] = await Promise.all([
+        getDocs(query(
+          collection(db, "reviews"),
+          where("moderationStatus", "==", "approved"),
+          orderBy("createdAt", "desc")
+        )),
+        getDocs(query(
+          collection(db, "reviews"),
+          where("authorId", "==", user.id),
+          orderBy("createdAt", "desc")
+        )),
+      ]);
+      const ownPending = ownSnapshot.docs.filter(doc => doc.data().moderationStatus !== 'approved');
+      const reviewsList = [...approvedSnapshot.docs, ...ownPending]
+        .map(doc => ({
+          id: doc.id,
+          ...doc.data()
+        } as Review))
+        .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt));
       setReviews(reviewsList);
     } catch (error) {
       if (__DEV__) {
@@ -136,13 +169,16 @@ export default function HomeScreen() {
     }
   };
 
-  // Filter reviews based on selected category
+  // Filter reviews based on selected category, and on the tapped map cluster.
+  // Reviews by blocked users never show.
   const filteredReviews = useMemo(() => {
+    const source = (clusterCell ? mapReviews.filter(review => isReviewInCell(review, clusterCell)) : reviews)
+      .filter(review => !isBlocked(review.authorId));
     if (selectedCategory === "All") {
-      return reviews;
+      return source;
     }
-    return reviews.filter(review => review.category === selectedCategory);
-  }, [selectedCategory, reviews]);
+    return source.filter(review => review.category === selectedCategory);
+  }, [selectedCategory, reviews, clusterCell, mapReviews, isBlocked]);
 
   const _onRefresh = useCallback(async () => {
     await fetchReviews();
@@ -198,23 +234,14 @@ export default function HomeScreen() {
     return extractCoords(dataObj?.coordinates) || extractCoords(dataObj?.coords) || null;
   };
 
-  const getReviewCoords = (review: any): { lat: number; lon: number } | null => {
-    return (
-      extractCoords(review?.coordinates) ||
-      extractCoords(review?.locationData?.data?.coordinates) ||
-      extractCoords(review?.locationData?.coordinates) ||
-      null
-    );
-  };
-
-  const distanceMiles = (a: { lat: number; lon: number }, b: { lat: number; lon: number }) => {
-    // LocationService.calculateDistance returns kilometers
-    const km = LocationService.calculateDistance(a.lat, a.lon, b.lat, b.lon);
-    return km * 0.621371; // km to miles
-  };
+  // Reviews held by moderation are only visible to their author until approved
+  const isVisibleReview = useCallback((review: Review) =>
+    !review.moderationStatus || review.moderationStatus === 'approved' || review.authorId === user?.id,
+  [user?.id]);
 
   const fetchReviewsForLocation = useCallback(async (location: any) => {
     setIsLoadingReviews(true);
+    setNearbyQuery(null);
     try {
       // Check if user is authenticated before making Firestore queries
       if (!user?.id) {
@@ -226,82 +253,66 @@ export default function HomeScreen() {
         return;
       }
 
-      // Fetch all reviews first
-      const reviewsQuery = collection(db, 'reviews');
-      const snapshot = await getDocs(reviewsQuery);
-      const reviewsData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...(doc as any).data(),
-      })) as Review[];
+      const selectedCoords = location?.type === 'global' ? null : getSelectedCoords(location);
 
-      if (location?.type === 'global') {
-        setReviews(reviewsData);
-      } else {
-        const selectedCoords = getSelectedCoords(location);
-
-        if (selectedCoords && useRadiusFilter) {
-          // Filter by radius
-          const filtered = reviewsData.filter((review) => {
-            const rc = getReviewCoords(review);
-            if (!rc) return false; // skip reviews without coordinates when radius filter is on
-            return distanceMiles(selectedCoords, rc) <= searchRadius;
-          });
-          setReviews(filtered);
-
-          if (filtered.length === 0) {
-            // Only show alert once to avoid spam
-            if (!hasShownNoReviewsAlert) {
-              setHasShownNoReviewsAlert(true);
-              // Don't show alert, just show all reviews
-              setReviews(reviewsData);
-              // Optionally show a less intrusive notification
-              __DEV__ && console.log(`No reviews found within ${searchRadius} miles. Showing all reviews.`);
-            } else {
-              setReviews(reviewsData);
-            }
-          } else {
-            // Reset flag when reviews are found
-            setHasShownNoReviewsAlert(false);
-          }
-        } else {
-          // Fallback to string-based matching if no coords or radius filter off
-          const locationData = (location as any)?.data;
-          const selectedLocationString = normalizeLocationToString(locationData).toLowerCase();
-          const locationTerms = (selectedLocationString.split(',')[0] || '').trim();
-          const selectedCity = ((locationData?.city) ?? '').toString().toLowerCase();
-          const selectedState = ((locationData?.state) ?? (locationData?.region) ?? '').toString().toLowerCase();
-
-          const filtered = reviewsData.filter((review) => {
-            if ((review as any).location) {
-              const reviewLocationString = normalizeLocationToString((review as any).location).toLowerCase();
-              const locationParts = reviewLocationString.split(',').map(part => part.trim());
-              const reviewCity = locationParts[0] || '';
-              const reviewState = locationParts[1] || '';
-
-              return (
-                (locationTerms && (
-                  reviewCity.includes(locationTerms) ||
-                  reviewState.includes(locationTerms) ||
-                  reviewLocationString.includes(locationTerms)
-                )) ||
-                (selectedCity && (
-                  reviewCity.includes(selectedCity) ||
-                  reviewState.includes(selectedCity) ||
-                  reviewLocationString.includes(selectedCity)
-                )) ||
-                (selectedState && (
-                  reviewCity.includes(selectedState) ||
-                  reviewState.includes(selectedState) ||
-                  reviewLocationString.includes(selectedState)
-                ))
-              );
-            }
-            return false;
-          });
-
-          setReviews(filtered.length > 0 ? filtered : reviewsData);
+      if (selectedCoords && useRadiusFilter) {
+        // Geohash range queries instead of reading every review
+        const center = { latitude: selectedCoords.lat, longitude: selectedCoords.lon };
+        const radiusKm = searchRadius * KM_PER_MILE;
+        const page = await reviewService.getReviewsNearLocation(center, radiusKm);
+
+        if (page.reviews.length > 0) {
+          setReviews(page.reviews);
+          setNearbyQuery(page.cursor ? { center, radiusKm, cursor: page.cursor } : null);
+          return;
         }
+        __DEV__ && console.log(`No reviews found within ${searchRadius} miles. Showing all reviews.`);
       }
+
+      const { reviews: latestReviews } = await reviewService.getReviews();
+      const reviewsData = latestReviews.filter(isVisibleReview);
+
+      if (location?.type === 'global' || (selectedCoords && useRadiusFilter)) {
+        setReviews(reviewsData);
+        return;
+      }
+
+      // Fallback to string-based matching if no coords or radius filter off
+      const locationData = (location as any)?.data;
+      const selectedLocationString = normalizeLocationToString(locationData).toLowerCase();
+      const locationTerms = (selectedLocationString.split(',')[0] || '').trim();
+      const selectedCity = ((locationData?.city) ?? '').toString().toLowerCase();
+      const selectedState = ((locationData?.state) ?? (locationData?.region) ?? '').toString().toLowerCase();
+
+      const filtered = reviewsData.filter((review) => {
+        if ((review as any).location) {
+          const reviewLocationString = normalizeLocationToString((review as any).location).toLowerCase();
+          const locationParts = reviewLocationString.split(',').map(part => part.trim());
+          const reviewCity = locationParts[0] || '';
+          const reviewState = locationParts[1] || '';
+
+          return (
+            (locationTerms && (
+              reviewCity.includes(locationTerms) ||
+              reviewState.includes(locationTerms) ||
+              reviewLocationString.includes(locationTerms)
+            )) ||
+            (selectedCity && (
+              reviewCity.includes(selectedCity) ||
+              reviewState.includes(selectedCity) ||
+              reviewLocationString.includes(selectedCity)
+            )) ||
+            (selectedState && (
+              reviewCity.includes(selectedState) ||
+              reviewState.includes(selectedState) ||
+              reviewLocationString.includes(selectedState)
+            ))
+          );
+        }
+        return false;
+      });
+
+      setReviews(filtered.length > 0 ? filtered : reviewsData);
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Error fetching reviews for location:', error);
@@ -313,7 +324,86 @@ export default function HomeScreen() {
       setIsLoadingReviews(false);
       setIsInitialLoading(false);
     }
-  }, [normalizeLocationToString, getSelectedCoords, getReviewCoords, distanceMiles, searchRadius, useRadiusFilter]);
+  }, [normalizeLocationToString, getSelectedCoords, isVisibleReview, searchRadius, useRadiusFilter, user?.id]);
+
+  // Next page of the radius query, continuing each geohash range
+  const handleLoadMoreNearby = useCallback(async () => {
+    if (!nearbyQuery || loadingMoreNearby) return;
+
+    setLoadingMoreNearby(true);
+    try {
+      const page = await reviewService.getReviewsNearLocation(nearbyQuery.center, nearbyQuery.radiusKm, {
+        cursor: nearbyQuery.cursor,
+      });
+      setReviews(prev => [...prev, ...page.reviews.filter(review => !prev.some(existing => existing.id === review.id))]);
+      setNearbyQuery(page.cursor ? { ...nearbyQuery, cursor: page.cursor } : null);
+    } finally {
+      setLoadingMoreNearby(false);
+    }
+  }, [nearbyQuery, loadingMoreNearby]);
+
+  // The map always covers the search radius around the selected location
+  const mapCoords = selectedLocationData?.type === 'global' ? null : getSelectedCoords(selectedLocationData);
+  const mapLatitude = mapCoords?.lat;
+  const mapLongitude = mapCoords?.lon;
+  const mapRadiusKm = searchRadius * KM_PER_MILE;
+  const mapCenter = useMemo<GeoPoint | null>(() =>
+    mapLatitude !== undefined && mapLongitude !== undefined
+      ? { latitude: mapLatitude, longitude: mapLongitude }
+      : null,
+  [mapLatitude, mapLongitude]);
+
+  useEffect(() => {
+    if (feedView !== 'map' || !mapCenter) return;
+
+    let cancelled = false;
+    const loadMapReviews = async () => {
+      setIsLoadingMap(true);
+      try {
+        const loaded: Review[] = [];
+        let cursor: NearbyReviewsCursor | null = null;
+        do {
+          const page = await reviewService.getReviewsNearLocation(mapCenter, mapRadiusKm, { cursor, pageSize: 100 });
+          loaded.push(...page.reviews.filter(review => !loaded.some(existing => existing.id === review.id)));
+          cursor = page.cursor;
+        } while (cursor && loaded.length < MAX_MAP_REVIEWS && !cancelled);
+
+        if (!cancelled) setMapReviews(loaded);
+      } catch (error) {
+        if (__DEV__) {
+          __DEV__ && console.error('Error loading reviews for the map:', error);
+        }
+        if (!cancelled) setMapReviews([]);
+      } finally {
+        if (!cancelled) setIsLoadingMap(false);
+      }
+    };
+
+    loadMapReviews();
+    return () => { cancelled = true; };
+  }, [feedView, mapCenter, mapRadiusKm]);
+
+  // A cluster filter only makes sense for the map it was picked on
+  useEffect(() => {
+    setClusterCell(null);
+  }, [mapCenter, mapRadiusKm]);
+
+  const clusters = useMemo(() => {
+    const visible = mapReviews.filter(review =>
+      !isBlocked(review.authorId) && (selectedCategory === "All" || review.category === selectedCategory)
+    );
+    return clusterReviews(visible, clusterPrecisionForRadius(mapRadiusKm));
+  }, [mapReviews, selectedCategory, mapRadiusKm, isBlocked]);
+
+  const handleClusterPress = useCallback((cluster: ReviewCluster) => {
+    setClusterCell(cluster.cell);
+    setFeedView('list');
+  }, []);
+
+  const toggleFeedView = useCallback(() => {
+    setClusterCell(null);
+    setFeedView(view => (view === 'list' ? 'map' : 'list'));
+  }, []);
 
   // Track if location has been initialized to prevent duplicate loads
   const [locationInitialized, setLocationInitialized] = useState(false);
@@ -452,23 +542,22 @@ export default function HomeScreen() {
     }
   }, [fetchReviewsForLocation]);
 
-  const handleManualLocation = useCallback(() => {
-    if (locationInput.trim()) {
-      // Simple parsing for "City, State" format
-      const parts = locationInput.split(',').map(part => part.trim());
-      if (parts.length >= 2) {
-        _setCurrentLocation({
-          city: parts[0],
-          state: parts[1],
-          coords: { latitude: 0, longitude: 0 } // Would need geocoding API for real coords
-        });
-        setLocationInput('');
-        setShowLocationModal(false);
-      } else {
-        Alert.alert('Invalid Format', 'Please enter location as "City, State"');
-      }
+  const handleManualLocation = useCallback(async () => {
+    if (!locationInput.trim()) return;
+
+    const [place] = await LocationService.searchLocations(locationInput, { limit: 1 });
+    if (!place) {
+      Alert.alert('Location Not Found', 'Try a city and state, like "Austin, TX".');
+      return;
     }
-  }, [locationInput]);
+
+    const selected = { type: 'selected', data: place };
+    setSelectedLocationData(selected);
+    setLocationInput('');
+    setShowLocationModal(false);
+    await LocationService.saveSelectedLocation(place);
+    await fetchReviewsForLocation(selected);
+  }, [locationInput, fetchReviewsForLocation]);
 
   const renderReviewItem = useCallback(({ item, index: _index }: { item: Review; index: number }) => (
     <View style={{ marginBottom: 16 }}>
@@ -494,6 +583,16 @@ export default function HomeScreen() {
           LockerRoom Talk
         </Text>
         <View style={styles.headerActions}>
+          <Pressable
+            onPress={toggleFeedView}
+            style={[styles.headerButton, { backgroundColor: colors.surfaceElevated }, SHADOWS.sm]}
+            accessibilityRole="button"
+            accessibilityLabel={feedView === 'list' ? 'Show map' : 'Show list'}
+          >
+            {feedView === 'list'
+              ? <MapIcon size={20} color={colors.text} strokeWidth={1.5} />
+              : <List size={20} color={colors.text} strokeWidth={1.5} />}
+          </Pressable>
           <Pressable
             onPress={() => router.push("/search")}
             style={[styles.headerButton, { backgroundColor: colors.surfaceElevated }, SHADOWS.sm]}
@@ -585,12 +684,81 @@ export default function HomeScreen() {
           {searchRadius} mi
         </ModernButton>
       </View>
+
+      {clusterCell && (
+        <View style={[styles.clusterFilter, { backgroundColor: colors.surface }]}>
+          <Text style={[typography.caption, { color: colors.textSecondary }]}>
+            {`Showing ${filteredReviews.length} ${filteredReviews.length === 1 ? 'review' : 'reviews'} from one map area`}
+          </Text>
+          <Pressable
+            onPress={() => setClusterCell(null)}
+            accessibilityRole="button"
+            accessibilityLabel="Clear map area filter"
+            hitSlop={8}
+          >
+            <X size={16} color={colors.textSecondary} strokeWidth={1.5} />
+          </Pressable>
+        </View>
+      )}
     </View>
   );
 
+  const renderMap = () => {
+    if (!mapCenter) {
+      return (
+        <View style={styles.mapMessage}>
+          <Text style={[typography.body, { color: colors.textSecondary, textAlign: 'center' }]}>
+            Choose a location to see reviews on the map.
+          </Text>
+          <ModernButton variant="outline" size="sm" onPress={() => setShowLocationModal(true)} style={{ marginTop: 12 }}>
+            Change Location
+          </ModernButton>
+        </View>
+      );
+    }
+
+    if (isLoadingMap) {
+      return (
+        <View style={styles.mapMessage}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      );
+    }
+
+    if (clusters.length === 0) {
+      return (
+        <View style={styles.mapMessage}>
+          <Text style={[typography.body, { color: colors.textSecondary, textAlign: 'center' }]}>
+            {`No reviews within ${searchRadius} miles yet.`}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <ReviewClusterMap
+          center={mapCenter}
+          radiusKm={mapRadiusKm}
+          radiusLabel={`${searchRadius} mi`}
+          clusters={clusters}
+          onClusterPress={handleClusterPress}
+        />
+        <Text style={[typography.caption, { color: colors.textSecondary, textAlign: 'center' }]}>
+          Tap a cluster to see its reviews
+        </Text>
+      </>
+    );
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
-      {isInitialLoading && filteredReviews.length === 0 ? (
+      {feedView === 'map' ? (
+        <ScrollView contentContainerStyle={styles.listContent} showsVerticalScrollIndicator={false}>
+          {renderHeader()}
+          {renderMap()}
+        </ScrollView>
+      ) : isInitialLoading && filteredReviews.length === 0 ? (
         <>
           {renderHeader()}
           <DiscoverFeedSkeleton />
@@ -632,6 +800,8 @@ export default function HomeScreen() {
         getItemType={getItemType}
         removeClippedSubviews={true}
         drawDistance={500}
+        onEndReached={clusterCell ? undefined : handleLoadMoreNearby}
+        onEndReachedThreshold={0.5}
       />
       )}
 
@@ -752,6 +922,14 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 8,
   },
+  clusterFilter: {
+    alignItems: 'center',
+    borderRadius: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
   container: {
     flex: 1,
   },
@@ -800,6 +978,11 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginTop: 8,
   },
+  mapMessage: {
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 48,
+  },
   modalContent: {
     borderRadius: 20,
     padding: 24,
@@ -42,6 +42,7 @@ import Card from "../../components/ui/Card";
 import ReviewCard from "../../components/ReviewCard";
 import { collection, query, where, getDocs } from "firebase/firestore";
 import { db } from "../../utils/firebase";
+import { hasModeratorRole } from "../../utils/authUtils";
 import type { Review } from "../../types";
 import { toMillis, formatDate } from "../../utils/timestampHelpers";
 import { SHADOWS, BORDER_RADIUS } from "../../constants/shadows";
@@ -205,6 +206,13 @@ export default function ProfileScreen() {
   const [userReviews, setUserReviews] = useState<Review[]>([]);
   const [receivedReviews, setReceivedReviews] = useState<Review[]>([]);
   const [activities, setActivities] = useState<ActivityItemProps[]>([]);
+  const [isModerator, setIsModerator] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      hasModeratorRole().then(setIsModerator);
+    }
+  }, [user]);
 
   const fetchReviews = useCallback(async () => {
     if (!user) return;
@@ -217,8 +225,13 @@ export default function ProfileScreen() {
       const userReviewsData = userReviewsSnapshot.docs.map(doc => ({ ...(doc as any).data(), id: doc.id } as Review));
       setUserReviews(userReviewsData);
 
-      // Fetch reviews received by the user
-      const receivedReviewsQuery = query(collection(db, "reviews"), where("targetUserId", "==", user.id));
+      // Fetch reviews received by the user; ones held by moderation are only
+      // readable by their authors
+      const receivedReviewsQuery = query(
+        collection(db, "reviews"),
+        where("targetUserId", "==", user.id),
+        where("moderationStatus", "==", "approved")
+      );
       const receivedReviewsSnapshot = await getDocs(receivedReviewsQuery);
       const receivedReviewsData = receivedReviewsSnapshot.docs.map(doc => ({ ...(doc as any).data(), id: doc.id } as Review));
       setReceivedReviews(receivedReviewsData);
@@ -490,6 +503,16 @@ export default function ProfileScreen() {
                   <ChevronRight size={20} color={colors.textSecondary} strokeWidth={1.5} />
                 </TouchableOpacity>
 
+                <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/saved-searches')}>
+                  <View style={styles.settingContent}>
+                    <Text style={{ color: colors.text }}>Saved Searches</Text>
+                    <Text style={{ color: colors.textSecondary }}>
+                      Mute or delete alerts for new matching reviews
+                    </Text>
+                  </View>
+                  <ChevronRight size={20} color={colors.textSecondary} strokeWidth={1.5} />
+                </TouchableOpacity>
+
                 <TouchableOpacity style={styles.settingItem} onPress={handleSettings}>
                   <View style={styles.settingContent}>
                     <Text style={{ color: colors.text }}>Privacy Settings</Text>
@@ -499,6 +522,18 @@ export default function ProfileScreen() {
                   </View>
                   <ChevronRight size={20} color={colors.textSecondary} strokeWidth={1.5} />
                 </TouchableOpacity>
+
+                {isModerator && (
+                  <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/moderation')}>
+                    <View style={styles.settingContent}>
+                      <Text style={{ color: colors.text }}>Moderation Console</Text>
+                      <Text style={{ color: colors.textSecondary }}>
+                        Review reported and held content
+                      </Text>
+                    </View>
+                    <ChevronRight size={20} color={colors.textSecondary} strokeWidth={1.5} />
+                  </TouchableOpacity>
+                )}
               </View>
             </Card>
           </ScrollView>
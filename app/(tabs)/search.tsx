@@ -4,32 +4,61 @@ import {
   Text,
   StyleSheet,
   Pressable,
-  TextInput
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert
 } from 'react-native';
+import * as Location from 'expo-location';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import logger from '../../utils/logger';
 
 import { SafeAreaView } from "react-native-safe-area-context";
-import { useRouter } from "expo-router";
-import { Search as SearchIcon, X, TrendingUp, Clock, Users, SlidersHorizontal, MapPin, Star, Calendar, MessageCircle, ArrowUpDown } from "lucide-react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { Search as SearchIcon, X, TrendingUp, Clock, Users, SlidersHorizontal, Star, MessageCircle, Bookmark, BellOff } from "lucide-react-native";
 import { FlashList } from "@shopify/flash-list";
 import { useTheme } from "../../providers/ThemeProvider";
 import { useChat } from "../../providers/ChatProvider";
+import { useAuth } from "../../providers/AuthProvider";
 import { reviewService } from "../../services/reviewService";
 import { searchUsers } from "../../services/userService";
+import { SavedSearchService } from "../../services/savedSearchService";
 import ReviewCard from "../../components/ReviewCard";
 import Avatar from "../../components/ui/Avatar";
 import Card from "../../components/ui/Card";
-import type { Review, User as UserType, ChatRoom } from "../../types";
+import { REVIEW_CATEGORIES } from "../../constants/categories";
+import type { Review, User as UserType, ReviewSearchFilters, ReviewSearchSort, SavedSearch } from "../../types";
 import { createTypographyStyles } from "../../styles/typography";
 import { EmptyState } from "../../components/EmptyState";
 import { SearchResultsSkeleton } from "../../components/ui/LoadingSkeletons";
+import { useBlocks } from "../../providers/BlockProvider";
 
 type SearchTab = 'reviews' | 'users' | 'rooms';
-type SortOption = 'relevance' | 'date' | 'rating' | 'popularity';
+type FlagFilter = 'any' | 'green' | 'red';
+
+const RECENT_SEARCHES_KEY = '@recent_searches';
+const MAX_RECENT_SEARCHES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MILES_TO_KM = 1.609344;
+
+const dateFilters: { label: string; days: number | null }[] = [
+  { label: 'Any', days: null },
+  { label: 'Today', days: 1 },
+  { label: 'This Week', days: 7 },
+  { label: 'This Month', days: 30 },
+  { label: 'This Year', days: 365 },
+];
+const radiusFilters: (number | null)[] = [null, 5, 25, 50];
+const platformFilters = [
+  'Any', 'Tinder', 'Bumble', 'Hinge', 'Instagram', 'Snapchat', 'WhatsApp', 'LinkedIn', 'Facebook', 'Twitter', 'Other'
+];
 
 export default function SearchScreen() {
   const router = useRouter();
+  const { savedSearchId } = useLocalSearchParams<{ savedSearchId?: string }>();
   const { colors, tokens, isDark } = useTheme();
+  const { user } = useAuth();
+  const { isBlocked } = useBlocks();
   const typography = createTypographyStyles(colors);
   const { chatRooms } = useChat();
   const searchInputRef = useRef<TextInput>(null);
@@ -38,6 +67,11 @@ export default function SearchScreen() {
   const [reviews, setReviews] = useState<Review[]>([]);
   const [users, setUsers] = useState<UserType[]>([]);
   const [isLoadingData, setIsLoadingData] = useState(false);
+  const [reviewsCursor, setReviewsCursor] = useState<string | null>(null);
+  const [hasMoreReviews, setHasMoreReviews] = useState(false);
+  const [loadingMoreReviews, setLoadingMoreReviews] = useState(false);
+  // Ignores responses for a query or filter set the user already changed
+  const searchRequestRef = useRef(0);
 
   // Search state
   const [searchQuery, setSearchQuery] = useState("");
@@ -47,17 +81,18 @@ export default function SearchScreen() {
   // Filter state
   const [showFilters, setShowFilters] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>("All");
-  const [selectedRating, setSelectedRating] = useState<number | null>(null);
-  const [selectedLocation, setSelectedLocation] = useState<string>("");
+  const [selectedFlag, setSelectedFlag] = useState<FlagFilter>('any');
+  const [selectedPlatform, setSelectedPlatform] = useState<string>("Any");
   const [dateFilter, setDateFilter] = useState<string>("Any");
-  const [sortBy, setSortBy] = useState<SortOption>('relevance');
-
-  // Search history
-  const [recentSearches, setRecentSearches] = useState<string[]>([
-    "Communication style",
-    "Professional behavior",
-    "Active listening"
-  ]);
+  const [radiusMiles, setRadiusMiles] = useState<number | null>(null);
+  const [nearCoords, setNearCoords] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [sortBy, setSortBy] = useState<ReviewSearchSort>('relevance');
+
+  // Search history, kept on the device
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [savingSearch, setSavingSearch] = useState(false);
+  const appliedSavedSearchRef = useRef<string | null>(null);
   const [trendingSearches] = useState<string[]>([
     "Communication style",
     "Professional behavior",
@@ -68,14 +103,16 @@ export default function SearchScreen() {
   ]);
 
   // Filter options
-  const _categories = ["All", "dating", "social", "professional", "social_media", "app"];
-  const _ratingFilters = [5, 4, 3, 2, 1];
-  const _dateFilters = ["Any", "Today", "This Week", "This Month", "This Year"];
-  const sortOptions: { value: SortOption; label: string }[] = [
+  const categories = ["All", ...REVIEW_CATEGORIES];
+  const flagFilters: { value: FlagFilter; label: string }[] = [
+    { value: 'any', label: 'Any' },
+    { value: 'green', label: 'Green flags' },
+    { value: 'red', label: 'Red flags' }
+  ];
+  const sortOptions: { value: ReviewSearchSort; label: string }[] = [
     { value: 'relevance', label: 'Relevance' },
-    { value: 'date', label: 'Recent' },
-    { value: 'rating', label: 'Rating' },
-    { value: 'popularity', label: 'Popular' }
+    { value: 'recent', label: 'Recent' },
+    { value: 'popular', label: 'Popular' }
   ];
   const tabs: { value: SearchTab; label: string; icon: any }[] = [
     { value: 'reviews', label: 'Reviews', icon: Star },
@@ -91,101 +128,222 @@ export default function SearchScreen() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
-  // Load data when search query changes
+  // Filters are applied by the searchReviews Cloud Function
+  const searchFilters = useMemo((): ReviewSearchFilters => {
+    const filters: ReviewSearchFilters = {};
+    if (selectedCategory !== "All") {
+      filters.category = selectedCategory;
+    }
+    if (selectedFlag !== 'any') {
+      filters.flag = selectedFlag;
+    }
+    if (selectedPlatform !== "Any") {
+      filters.platform = selectedPlatform;
+    }
+    const days = dateFilters.find(option => option.label === dateFilter)?.days;
+    if (days) {
+      filters.dateFrom = Date.now() - days * DAY_MS;
+    }
+    if (radiusMiles && nearCoords) {
+      filters.near = nearCoords;
+      filters.radiusKm = radiusMiles * MILES_TO_KM;
+    }
+    return filters;
+  }, [selectedCategory, selectedFlag, selectedPlatform, dateFilter, radiusMiles, nearCoords]);
+
+  const activeFilterCount = Object.keys(searchFilters).filter(key => key !== 'radiusKm').length;
+
+  // Load users when search query changes
   useEffect(() => {
-    const loadSearchData = async () => {
+    const loadUsers = async () => {
       if (debouncedQuery.length < 2) {
-        setReviews([]);
         setUsers([]);
         return;
       }
 
-      setIsLoadingData(true);
       try {
-        const [reviewsData, usersData] = await Promise.all([
-          reviewService.searchReviews(debouncedQuery),
-          searchUsers(debouncedQuery)
-        ]);
-        setReviews(reviewsData);
-        setUsers(usersData);
+        setUsers(await searchUsers(debouncedQuery));
       } catch (error) {
         if (__DEV__) {
           __DEV__ && console.error('Error loading search data:', error);
         }
-        setReviews([]);
         setUsers([]);
-      } finally {
-        setIsLoadingData(false);
       }
     };
 
-    loadSearchData();
+    loadUsers();
   }, [debouncedQuery]);
 
+  // Load the first page of reviews when the query, filters or sort change
+  useEffect(() => {
+    const requestId = ++searchRequestRef.current;
+
+    const loadReviews = async () => {
+      if (debouncedQuery.length < 2) {
+        setReviews([]);
+        setReviewsCursor(null);
+        setHasMoreReviews(false);
+        return;
+      }
+
+      setIsLoadingData(true);
+      try {
+        const page = await reviewService.searchReviews(debouncedQuery, { filters: searchFilters, sortBy });
+        if (requestId !== searchRequestRef.current) return;
+        setReviews(page.reviews);
+        setReviewsCursor(page.cursor);
+        setHasMoreReviews(page.hasMore);
+      } finally {
+        if (requestId === searchRequestRef.current) {
+          setIsLoadingData(false);
+        }
+      }
+    };
+
+    loadReviews();
+  }, [debouncedQuery, searchFilters, sortBy]);
+
+  const handleLoadMoreReviews = useCallback(async () => {
+    if (activeTab !== 'reviews' || !hasMoreReviews || !reviewsCursor || loadingMoreReviews || isLoadingData) {
+      return;
+    }
+
+    const requestId = searchRequestRef.current;
+    setLoadingMoreReviews(true);
+    try {
+      const page = await reviewService.searchReviews(debouncedQuery, {
+        filters: searchFilters,
+        sortBy,
+        cursor: reviewsCursor,
+      });
+      if (requestId !== searchRequestRef.current) return;
+      setReviews(prev => [...prev, ...page.reviews.filter(review => !prev.some(existing => existing.id === review.id))]);
+      setReviewsCursor(page.cursor);
+      setHasMoreReviews(page.hasMore);
+    } finally {
+      setLoadingMoreReviews(false);
+    }
+  }, [activeTab, hasMoreReviews, reviewsCursor, loadingMoreReviews, isLoadingData, debouncedQuery, searchFilters, sortBy]);
+
+  const handleRadiusChange = useCallback(async (miles: number | null) => {
+    if (miles && !nearCoords) {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert('Permission denied', 'Location permission is required to search near you.');
+          return;
+        }
+        const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+        setNearCoords({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+      } catch (error) {
+        if (__DEV__) {
+          __DEV__ && console.error('Error getting location for search:', error);
+        }
+        Alert.alert('Location unavailable', 'Could not get your current location.');
+        return;
+      }
+    }
+    setRadiusMiles(miles);
+  }, [nearCoords]);
+
+  const resetFilters = useCallback(() => {
+    setSelectedCategory("All");
+    setSelectedFlag('any');
+    setSelectedPlatform("Any");
+    setDateFilter("Any");
+    setRadiusMiles(null);
+    setSortBy('relevance');
+  }, []);
+
   // Search results based on active tab and query
   const searchResults = useMemo(() => {
     if (debouncedQuery.length < 2) return [];
 
-    let results: unknown[] = [];
     switch (activeTab) {
       case 'reviews':
-        results = [...reviews];
-        break;
+        // Already filtered and ranked by the server, except for blocks
+        return reviews.filter(review => !isBlocked(review.authorId));
       case 'users':
-        results = [...users];
-        break;
-      case 'rooms':
+        return users.filter(searchedUser => !isBlocked(searchedUser.id));
+      case 'rooms': {
         const query = debouncedQuery.toLowerCase();
-        results = chatRooms.filter(room =>
+        const rooms = chatRooms.filter(room =>
           (room.name || 'Unnamed Room').toLowerCase().includes(query) ||
           room.description?.toLowerCase().includes(query)
         );
-        break;
-    }
-
-    // Apply filters
-    if (selectedCategory !== "All" && activeTab === 'reviews') {
-      results = results.filter((item: any) => item.category === selectedCategory);
-    }
-
-    if (selectedRating && activeTab === 'reviews') {
-      results = results.filter((item: any) => item.rating >= selectedRating);
+        return sortBy === 'popular'
+          ? [...rooms].sort((a, b) => (b.memberIds?.length || 0) - (a.memberIds?.length || 0))
+          : rooms;
+      }
+      default:
+        return [];
     }
+  }, [debouncedQuery, activeTab, sortBy, reviews, users, chatRooms, isBlocked]);
 
-    // Apply sorting
-    results.sort((a: any, b: any) => {
-      switch (sortBy) {
-        case 'date':
-          const dateA = new Date(a._creationTime || 0).getTime();
-          const dateB = new Date(b._creationTime || 0).getTime();
-          return dateB - dateA;
-        case 'rating':
-          if (activeTab === 'reviews') {
-            return (b.rating || 0) - (a.rating || 0);
-          }
-          return 0;
-        case 'popularity':
-          if (activeTab === 'reviews') {
-            return (b.helpfulCount || 0) - (a.helpfulCount || 0);
-          } else if (activeTab === 'rooms') {
-            return (b.memberCount || 0) - (a.memberCount || 0);
-          }
-          return 0;
-        case 'relevance':
-        default:
-          return 0;
-      }
-    });
+  useEffect(() => {
+    AsyncStorage.getItem(RECENT_SEARCHES_KEY)
+      .then(stored => {
+        if (stored) setRecentSearches(JSON.parse(stored));
+      })
+      .catch(error => __DEV__ && console.error('Error loading recent searches:', error));
+  }, []);
 
-    return results;
-  }, [debouncedQuery, activeTab, selectedCategory, selectedRating, sortBy, reviews, users, chatRooms]);
+  useEffect(() => {
+    if (!user?.id) return;
+    return SavedSearchService.subscribeToSavedSearches(user.id, setSavedSearches);
+  }, [user?.id]);
 
   const handleSearchSubmit = useCallback((query: string) => {
     if (query.trim() !== "" && !recentSearches.includes(query)) {
-      setRecentSearches([query, ...recentSearches.slice(0, 9)]);
+      const updated = [query, ...recentSearches.slice(0, MAX_RECENT_SEARCHES - 1)];
+      setRecentSearches(updated);
+      AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(updated))
+        .catch(error => __DEV__ && console.error('Error saving recent searches:', error));
     }
   }, [recentSearches]);
 
+  // Run a saved search with its filters
+  const applySavedSearch = useCallback((search: SavedSearch) => {
+    const filters = search.filters || {};
+    setActiveTab('reviews');
+    setSearchQuery(search.query);
+    setDebouncedQuery(search.query);
+    setSelectedCategory(filters.category || "All");
+    setSelectedFlag(filters.flag || 'any');
+    setSelectedPlatform(filters.platform || "Any");
+    setDateFilter("Any");
+    if (filters.near && filters.radiusKm) {
+      setNearCoords(filters.near);
+      setRadiusMiles(Math.round(filters.radiusKm / MILES_TO_KM));
+    } else {
+      setRadiusMiles(null);
+    }
+  }, []);
+
+  // Opened from the saved searches screen
+  useEffect(() => {
+    if (!savedSearchId || appliedSavedSearchRef.current === savedSearchId) return;
+    const search = savedSearches.find(item => item.id === savedSearchId);
+    if (search) {
+      appliedSavedSearchRef.current = savedSearchId;
+      applySavedSearch(search);
+    }
+  }, [savedSearchId, savedSearches, applySavedSearch]);
+
+  const handleSaveSearch = useCallback(async () => {
+    if (debouncedQuery.trim().length < 2 || savingSearch) return;
+
+    setSavingSearch(true);
+    try {
+      await SavedSearchService.saveSearch(debouncedQuery, searchFilters);
+      Alert.alert('Search saved', "We'll notify you when new reviews match this search.");
+    } catch (error) {
+      Alert.alert('Could not save search', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setSavingSearch(false);
+    }
+  }, [debouncedQuery, searchFilters, savingSearch]);
+
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
     if (query.trim().length >= 2) {
@@ -205,7 +363,7 @@ export default function SearchScreen() {
         return (
           <ReviewCard
             review={item}
-            onPress={() => router.push(`/review/${item._id}`)}
+            onPress={() => router.push(`/review/${item.id || item._id}`)}
             style={{ marginBottom: 12 }}
           />
         );
@@ -296,6 +454,33 @@ export default function SearchScreen() {
     if (searchQuery.length === 0) {
       return (
         <View style={styles.emptyContainer}>
+          {/* Saved Searches */}
+          {savedSearches.length > 0 && (
+            <View style={styles.searchSection}>
+              <View style={styles.sectionHeader}>
+                <Bookmark size={16} color={colors.textSecondary} strokeWidth={1.5} />
+                <Text style={[typography.body, { marginLeft: 8, flex: 1 }]}>
+                  Saved Searches
+                </Text>
+                <Pressable onPress={() => router.push('/saved-searches')} accessibilityRole="button">
+                  <Text style={[typography.caption, { color: colors.primary }]}>Manage</Text>
+                </Pressable>
+              </View>
+              {savedSearches.map((search) => (
+                <Pressable
+                  key={search.id}
+                  onPress={() => applySavedSearch(search)}
+                  style={[styles.searchItem, styles.savedSearchItem]}
+                >
+                  <Text style={[typography.body, { flex: 1 }]} numberOfLines={1}>
+                    {search.name}
+                  </Text>
+                  {search.muted && <BellOff size={14} color={colors.textSecondary} strokeWidth={1.5} />}
+                </Pressable>
+              ))}
+            </View>
+          )}
+
           {/* Recent Searches */}
           {recentSearches.length > 0 && (
             <View style={styles.searchSection}>
@@ -359,12 +544,48 @@ export default function SearchScreen() {
         onClearFilters={() => {
           setSearchQuery('');
           setActiveTab('reviews');
-          setSortBy('relevance');
+          resetFilters();
         }}
       />
     );
   };
 
+  const renderFilterRow = <T,>(
+    label: string,
+    options: readonly T[],
+    getLabel: (option: T) => string,
+    isSelected: (option: T) => boolean,
+    onSelect: (option: T) => void
+  ) => (
+    <View style={styles.filterRow}>
+      <Text style={[typography.caption, styles.filterLabel]}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterChips}>
+        {options.map(option => {
+          const selected = isSelected(option);
+          return (
+            <Pressable
+              key={getLabel(option)}
+              onPress={() => onSelect(option)}
+              style={[
+                styles.filterChip,
+                {
+                  backgroundColor: selected ? colors.primary + '20' : colors.surfaceElevated,
+                  borderColor: selected ? colors.primary : colors.border,
+                }
+              ]}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+            >
+              <Text style={[typography.caption, { color: selected ? colors.primary : colors.text }]}>
+                {getLabel(option)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       {/* Search Header */}
@@ -388,14 +609,56 @@ export default function SearchScreen() {
             </Pressable>
           )}
         </View>
+        {activeTab === 'reviews' && debouncedQuery.length >= 2 && (
+          <Pressable
+            onPress={handleSaveSearch}
+            disabled={savingSearch}
+            style={[styles.filterButton, { backgroundColor: colors.surfaceElevated }]}
+            accessibilityRole="button"
+            accessibilityLabel="Save search"
+          >
+            {savingSearch
+              ? <ActivityIndicator size="small" color={colors.primary} />
+              : <Bookmark size={18} color={colors.text} strokeWidth={1.5} />}
+          </Pressable>
+        )}
         <Pressable
           onPress={() => setShowFilters(!showFilters)}
           style={[styles.filterButton, { backgroundColor: colors.surfaceElevated }]}
+          accessibilityRole="button"
+          accessibilityLabel={activeFilterCount > 0 ? `Filters, ${activeFilterCount} active` : 'Filters'}
         >
-          <SlidersHorizontal size={18} color={colors.text} strokeWidth={1.5} />
+          <SlidersHorizontal
+            size={18}
+            color={activeFilterCount > 0 ? colors.primary : colors.text}
+            strokeWidth={1.5}
+          />
         </Pressable>
       </View>
 
+      {/* Filters */}
+      {showFilters && (
+        <View style={[styles.filterPanel, { borderBottomColor: colors.border }]}>
+          {renderFilterRow('Sort', sortOptions, option => option.label, option => option.value === sortBy,
+            option => setSortBy(option.value))}
+          {renderFilterRow('Category', categories, option => option, option => option === selectedCategory,
+            setSelectedCategory)}
+          {renderFilterRow('Flag', flagFilters, option => option.label, option => option.value === selectedFlag,
+            option => setSelectedFlag(option.value))}
+          {renderFilterRow('Platform', platformFilters, option => option, option => option === selectedPlatform,
+            setSelectedPlatform)}
+          {renderFilterRow('Date', dateFilters, option => option.label, option => option.label === dateFilter,
+            option => setDateFilter(option.label))}
+          {renderFilterRow('Distance', radiusFilters, option => (option ? `${option} mi` : 'Anywhere'),
+            option => option === radiusMiles, handleRadiusChange)}
+          {activeFilterCount > 0 && (
+            <Pressable onPress={resetFilters} style={styles.resetFilters} accessibilityRole="button">
+              <Text style={[typography.caption, { color: colors.primary }]}>Reset filters</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+
       {/* Search Tabs */}
       <View style={[styles.tabsContainer, { borderBottomColor: colors.border }]}>
         {tabs.map((tab) => {
@@ -445,6 +708,13 @@ export default function SearchScreen() {
           keyExtractor={keyExtractor}
           getItemType={getItemType}
           removeClippedSubviews={true}
+          onEndReached={handleLoadMoreReviews}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            activeTab === 'reviews' && loadingMoreReviews
+              ? <ActivityIndicator style={styles.loadingMore} color={colors.primary} />
+              : null
+          }
         />
       ) : (
         renderEmptyState()
@@ -471,6 +741,34 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     width: 44,
   },
+  filterChip: {
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  filterChips: {
+    gap: 8,
+    paddingRight: 16,
+  },
+  filterLabel: {
+    marginBottom: 6,
+  },
+  filterPanel: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  filterRow: {
+    marginBottom: 8,
+  },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  resetFilters: {
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+  },
   resultsContainer: {
     padding: 16,
   },
@@ -496,6 +794,11 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     marginTop: 4,
   },
+  savedSearchItem: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: 8,
+  },
   searchBar: {
     alignItems: "center",
     borderRadius: 12,
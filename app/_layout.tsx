@@ -12,6 +12,7 @@ import { StatusBar } from 'expo-status-bar';
 import { ThemeProvider } from '../providers/ThemeProvider';
 import { AuthProvider } from '../providers/AuthProvider';
 import { ChatProvider } from '../providers/ChatProvider';
+import { BlockProvider } from '../providers/BlockProvider';
 import { NotificationProvider } from '../providers/NotificationProvider';
 import AuthGuard from '../components/AuthGuard';
 import ErrorBoundary from '../components/ErrorBoundary';
@@ -49,12 +50,14 @@ export default function RootLayout() {
           <ThemeProvider>
             <AuthProvider>
               <AuthGuard>
-                <NotificationProvider>
-                  <ChatProvider>
-                    <StatusBar style="auto" />
-                    <Slot />
-                  </ChatProvider>
-                </NotificationProvider>
+                <BlockProvider>
+                  <NotificationProvider>
+                    <ChatProvider>
+                      <StatusBar style="auto" />
+                      <Slot />
+                    </ChatProvider>
+                  </NotificationProvider>
+                </BlockProvider>
               </AuthGuard>
             </AuthProvider>
           </ThemeProvider>
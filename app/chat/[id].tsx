@@ -9,13 +9,17 @@ import {
   TextInput,
   KeyboardAvoidingView,
   Keyboard,
-  TouchableWithoutFeedback
+  TouchableWithoutFeedback,
+  Pressable,
+  ActivityIndicator
 } from 'react-native';
 import logger from '../../utils/logger';
 
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter, useLocalSearchParams } from "expo-router";
-import { ArrowLeft, Send, MoreVertical, Users, Settings, UserPlus, UserMinus, Flag, Smile, Paperclip, Image as ImageIcon, Camera } from "lucide-react-native";
+import * as ImagePicker from "expo-image-picker";
+import { Image } from "expo-image";
+import { ArrowLeft, Send, MoreVertical, Users, Settings, UserPlus, UserMinus, Flag, Smile, Paperclip, Image as ImageIcon, Camera, Check, CheckCheck, Clock, X } from "lucide-react-native";
 import { FlashList } from "@shopify/flash-list";
 import { useTheme } from "../../providers/ThemeProvider";
 import { useAuth } from "../../providers/AuthProvider";
@@ -23,6 +27,16 @@ import { Button } from "../../components/ui/Button";
 import Avatar from "../../components/ui/Avatar";
 import Card from "../../components/ui/Card";
 import { useChat } from "../../providers/ChatProvider";
+import { ChatService, ChatServiceError, type ChatAttachmentFile } from "../../services/chatService";
+import { ChatAttachmentView, type AttachmentUploadState } from "../../components/ChatAttachmentView";
+import { ChatMessageActions } from "../../components/ChatMessageActions";
+import { summarizeChatReactions } from "../../constants/reactions";
+import { stripImageMetadata } from "../../utils/imageMetadata";
+import { getMessageReceipt, getSeenBy, isCursorCurrent, type MessageReceipt } from "../../utils/chatReceipts";
+import { formatPresence, formatTyping, isPresenceOnline, TYPING_REFRESH_MS } from "../../utils/presence";
+import { useTypingUsers } from "../../hooks/useTypingUsers";
+import { usePresence } from "../../hooks/usePresence";
+import { useChatMessages } from "../../hooks/useChatMessages";
 import type { ChatRoom, ChatMessage, User } from "../../types";
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -32,9 +46,37 @@ interface MessageBubbleProps {
   isOwn: boolean;
   showAvatar: boolean;
   showTimestamp: boolean;
+  upload?: AttachmentUploadState;
+  onRetryUpload?: () => void;
+  receipt?: MessageReceipt; // Ticks on own messages in direct conversations
+  seenByCount?: number; // "Seen by N" under the latest own message in groups
+  currentUserId?: string;
+  onLongPress?: () => void;
+  onToggleReaction?: (emoji: string, reactedByMe: boolean) => void;
+  onPressReply?: () => void; // Jump to the quoted message
 }
 
-const MessageBubble = ({ message, isOwn, showAvatar, showTimestamp }: MessageBubbleProps) => {
+const RECEIPT_LABELS: Record<MessageReceipt, string> = {
+  sending: 'Sending',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+};
+
+const MessageBubble = ({
+  message,
+  isOwn,
+  showAvatar,
+  showTimestamp,
+  upload,
+  onRetryUpload,
+  receipt,
+  seenByCount,
+  currentUserId,
+  onLongPress,
+  onToggleReaction,
+  onPressReply,
+}: MessageBubbleProps) => {
   const { colors } = useTheme();
   const users: any[] = []; // Placeholder since users is optional in ChatContextType
   const sender = users.find((u: any) => u._id === message.senderId);
@@ -61,6 +103,10 @@ const MessageBubble = ({ message, isOwn, showAvatar, showTimestamp }: MessageBub
     });
   };
 
+  const textColor = isOwn ? colors.background : colors.text;
+  const mutedColor = isOwn ? colors.background + '80' : colors.textSecondary;
+  const reactions = message.deleted ? [] : summarizeChatReactions(message.reactions, currentUserId);
+
   return (
     <View style={[
       (styles as any)?.messageContainer,
@@ -78,37 +124,130 @@ const MessageBubble = ({ message, isOwn, showAvatar, showTimestamp }: MessageBub
         <View style={(styles as any)?.messageAvatarSpacer} />
       )}
       
-      <View style={[
-        (styles as any)?.messageBubble,
-        {
-          backgroundColor: isOwn ? colors.primary : colors.card,
-          borderColor: colors.border,
-        }
-      ]}>
-        {!isOwn && showAvatar && (
-          <Text style={{
-            color: colors.textSecondary,
-            marginBottom: 4
-          }}>
-            {sender?.displayName || sender?.username || 'Unknown'}
-          </Text>
-        )}
+      <View style={[styles.bubbleColumn, { alignItems: isOwn ? 'flex-end' : 'flex-start' }]}>
+        <Pressable
+          onLongPress={onLongPress}
+          disabled={!onLongPress}
+          accessibilityHint={onLongPress ? 'Long press for message actions' : undefined}
+          style={[
+            (styles as any)?.messageBubble,
+            {
+              backgroundColor: isOwn ? colors.primary : colors.card,
+              borderColor: colors.border,
+            }
+          ]}
+        >
+          {!isOwn && showAvatar && (
+            <Text style={{
+              color: colors.textSecondary,
+              marginBottom: 4
+            }}>
+              {sender?.displayName || sender?.username || 'Unknown'}
+            </Text>
+          )}
         
-        <Text style={{
-          color: isOwn ? colors.background : colors.text,
-          lineHeight: 20
-        }}>
-          {message.content}
-        </Text>
+          {message.replyTo && !message.deleted && (
+            <Pressable
+              style={[styles.replyQuote, { borderLeftColor: mutedColor }]}
+              onPress={onPressReply}
+              disabled={!onPressReply}
+              accessibilityRole={onPressReply ? 'button' : undefined}
+              accessibilityLabel={`Reply to: ${message.replyTo.preview}`}
+            >
+              {message.replyTo.senderId === currentUserId && (
+                <Text style={[styles.replyQuoteSender, { color: mutedColor }]}>You</Text>
+              )}
+              <Text style={{ color: mutedColor }} numberOfLines={2}>
+                {message.replyTo.preview}
+              </Text>
+            </Pressable>
+          )}
+
+          {message.deleted ? (
+            <Text style={[styles.deletedText, { color: mutedColor }]}>
+              This message was deleted
+            </Text>
+          ) : (
+            <>
+              {message.attachment ? (
+                <ChatAttachmentView
+                  message={message}
+                  isOwn={isOwn}
+                  upload={upload}
+                  onRetry={onRetryUpload}
+                />
+              ) : null}
+
+              {(!message.attachment || ChatService.getAttachmentCaption(message)) && (
+                <Text style={{
+                  color: textColor,
+                  lineHeight: 20,
+                  marginTop: message.attachment ? 6 : 0
+                }}>
+                  {message.content}
+                </Text>
+              )}
+            </>
+          )}
         
-        {showTimestamp && message._creationTime && (
-          <Text style={{
-            color: isOwn ? colors.background + '80' : colors.textSecondary,
-            marginTop: 4,
-            alignSelf: isOwn ? 'flex-end' : 'flex-start'
-          }}>
-            {formatTime(message._creationTime)}
-          </Text>
+          {((showTimestamp && message.timestamp) || receipt || (message.editedAt && !message.deleted)) && (
+            <View style={[styles.messageFooter, { alignSelf: isOwn ? 'flex-end' : 'flex-start' }]}>
+              {message.editedAt && !message.deleted && (
+                <Text style={[styles.editedMarker, { color: mutedColor }]}>edited</Text>
+              )}
+              {showTimestamp && message.timestamp && (
+                <Text style={{ color: mutedColor }}>
+                  {formatTime(message.timestamp)}
+                </Text>
+              )}
+              {receipt && (
+                <View accessible accessibilityLabel={RECEIPT_LABELS[receipt]}>
+                  {receipt === 'sending' ? (
+                    <Clock size={14} color={colors.background + '80'} strokeWidth={1.5} />
+                  ) : receipt === 'sent' ? (
+                    <Check size={14} color={colors.background + '80'} strokeWidth={1.5} />
+                  ) : (
+                    <CheckCheck
+                      size={14}
+                      color={receipt === 'read' ? colors.background : colors.background + '80'}
+                      strokeWidth={receipt === 'read' ? 2.5 : 1.5}
+                    />
+                  )}
+                </View>
+              )}
+            </View>
+          )}
+
+          {!!seenByCount && (
+            <Text style={[styles.seenBy, { color: colors.background + '80' }]}>
+              Seen by {seenByCount}
+            </Text>
+          )}
+        </Pressable>
+
+        {reactions.length > 0 && (
+          <View style={styles.reactionChips}>
+            {reactions.map(reaction => (
+              <Pressable
+                key={reaction.emoji}
+                style={[
+                  styles.reactionChip,
+                  {
+                    backgroundColor: reaction.reactedByMe ? colors.primary + '26' : colors.card,
+                    borderColor: reaction.reactedByMe ? colors.primary : colors.border,
+                  }
+                ]}
+                onPress={() => onToggleReaction?.(reaction.emoji, reaction.reactedByMe)}
+                disabled={!onToggleReaction}
+                accessibilityRole="button"
+                accessibilityState={{ selected: reaction.reactedByMe }}
+                accessibilityLabel={`${reaction.emoji} ${reaction.count}`}
+              >
+                <Text>{reaction.emoji}</Text>
+                <Text style={[styles.reactionCount, { color: colors.textSecondary }]}>{reaction.count}</Text>
+              </Pressable>
+            ))}
+          </View>
         )}
       </View>
     </View>
@@ -119,10 +258,14 @@ interface ChatHeaderProps {
   room: ChatRoom;
   onBack: () => void;
   onMoreOptions: () => void;
+  typingText?: string | null;
+  presenceText?: string | null; // The other user's presence in direct conversations
+  isOnline?: boolean;
 }
 
-const ChatHeader = ({ room, onBack, onMoreOptions }: ChatHeaderProps) => {
+const ChatHeader = ({ room, onBack, onMoreOptions, typingText, presenceText, isOnline }: ChatHeaderProps) => {
   const { colors } = useTheme();
+  const isDirect = room.type === 'direct';
   
   return (
     <View style={[styles.header, { backgroundColor: colors.background, borderBottomColor: colors.border }]}>
@@ -137,16 +280,33 @@ const ChatHeader = ({ room, onBack, onMoreOptions }: ChatHeaderProps) => {
             {room.name}
           </Text>
           <View style={styles.headerSubInfo}>
-            <Users size={12} color={colors.textSecondary} strokeWidth={1.5} />
-            <Text style={{ color: colors.textSecondary, marginLeft: 4 }}>
-              {room.memberCount} members
-            </Text>
-            {room.isActive && (
+            {typingText ? (
+              <Text style={{ color: colors.primary, fontStyle: 'italic' }} numberOfLines={1}>
+                {typingText}
+              </Text>
+            ) : isDirect ? (
+              presenceText ? (
+                <>
+                  {isOnline && <View style={[styles.onlineDot, { backgroundColor: colors.success }]} />}
+                  <Text style={{ color: isOnline ? colors.success : colors.textSecondary }}>
+                    {presenceText}
+                  </Text>
+                </>
+              ) : null
+            ) : (
               <>
-                <View style={[styles.activeDot, { backgroundColor: colors.success }]} />
-                <Text style={{ color: colors.success }}>
-                  Active
+                <Users size={12} color={colors.textSecondary} strokeWidth={1.5} />
+                <Text style={{ color: colors.textSecondary, marginLeft: 4 }}>
+                  {room.participants?.length || 0} members
                 </Text>
+                {room.isActive && (
+                  <>
+                    <View style={[styles.activeDot, { backgroundColor: colors.success }]} />
+                    <Text style={{ color: colors.success }}>
+                      Active
+                    </Text>
+                  </>
+                )}
               </>
             )}
           </View>
@@ -168,9 +328,12 @@ interface MessageInputProps {
   onSend: () => void;
   onAttachment: () => void;
   disabled?: boolean;
+  // The message being replied to or edited, shown above the input
+  banner?: { title: string; preview: string } | null;
+  onCancelBanner?: () => void;
 }
 
-const MessageInput = ({ value, onChangeText, onSend, onAttachment, disabled }: MessageInputProps) => {
+const MessageInput = ({ value, onChangeText, onSend, onAttachment, disabled, banner, onCancelBanner }: MessageInputProps) => {
   const { colors } = useTheme();
   const inputRef = useRef<TextInput>(null);
 
@@ -184,6 +347,22 @@ const MessageInput = ({ value, onChangeText, onSend, onAttachment, disabled }: M
 
   return (
     <View style={[styles.inputContainer, { backgroundColor: colors.background, borderTopColor: colors.border }]}>
+      {banner && (
+        <View style={[styles.inputBanner, { borderLeftColor: colors.primary }]}>
+          <View style={styles.inputBannerText}>
+            <Text style={{ color: colors.primary }}>{banner.title}</Text>
+            <Text style={{ color: colors.textSecondary }} numberOfLines={1}>
+              {banner.preview}
+            </Text>
+          </View>
+          <Button
+            size="sm"
+            onPress={onCancelBanner}
+            leftIcon={<X size={18} color={colors.textSecondary} strokeWidth={1.5} />}
+            accessibilityLabel="Cancel"
+          />
+        </View>
+      )}
       <View style={[styles.inputWrapper, { backgroundColor: colors.card, borderColor: colors.border }]}>
         <Button
           size="sm"
@@ -223,53 +402,96 @@ export default function ChatRoomScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const { colors } = useTheme();
   const { user } = useAuth();
-  const { chatRooms, messages, sendMessage } = useChat();
-  const isLoading = false; // Placeholder since isLoading is optional
+  const { chatRooms } = useChat();
   const scrollViewRef = useRef<FlashList<any>>(null);
 
   // State
   const [messageText, setMessageText] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const { messages: roomMessages, isLoading, isLoadingOlder, hasOlder, loadOlder } = useChatMessages(id, user?.id);
+  // Attachment uploads started on this device, by message id
+  const [uploads, setUploads] = useState<Record<string, AttachmentUploadState>>({});
+  const uploadFilesRef = useRef<Record<string, ChatAttachmentFile>>({});
+  // Long-pressed message, and the message being replied to or edited
+  const [selectedMessage, setSelectedMessage] = useState<ChatMessage | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
 
   // Find the chat room
   const room = useMemo(() => {
-    return chatRooms.find(r => r._id === id);
+    return chatRooms.find(r => r._id === id || r.id === id);
   }, [chatRooms, id]);
 
-  // Get messages for this room
-  const roomMessages = useMemo(() => {
-    if (!Array.isArray(messages)) return [];
-    return messages.filter((m: any) => m.chatRoomId === id)
-      .sort((a: any, b: any) => new Date(a._creationTime).getTime() - new Date(b._creationTime).getTime());
-  }, [messages, id]);
+  // Who else is typing, and the other user's presence in direct conversations
+  const typingRooms = useMemo(() => (room ? [room] : []), [room]);
+  const typingCount = (useTypingUsers(typingRooms, user?.id)[room?.id || ''] || []).length;
+  const otherUserId = room?.type === 'direct' ? room.participants?.find(userId => userId !== user?.id) : undefined;
+  const presence = usePresence(otherUserId ? [otherUserId] : []);
+  const otherPresence = otherUserId ? presence[otherUserId] : undefined;
 
-  // Scroll to bottom when messages change
-  useEffect(() => {
-    if (roomMessages.length > 0) {
-      setTimeout(() => {
-        scrollViewRef.current?.scrollToEnd({ animated: true });
-      }, 100);
+  // Our typing indicator is refreshed while typing and cleared on send
+  const lastTypingRef = useRef(0);
+  const handleChangeText = useCallback((text: string) => {
+    setMessageText(text);
+    const now = Date.now();
+    if (text.trim() && now - lastTypingRef.current > TYPING_REFRESH_MS) {
+      lastTypingRef.current = now;
+      ChatService.setTyping(id, true);
+    } else if (!text.trim() && lastTypingRef.current) {
+      lastTypingRef.current = 0;
+      ChatService.setTyping(id, false);
+    }
+  }, [id]);
+
+  useEffect(() => () => {
+    if (lastTypingRef.current) {
+      ChatService.setTyping(id, false);
     }
-  }, [roomMessages]);
+  }, [id]);
+
+  // Keep the read cursor at the newest message while the room is open
+  const hasUnread = !!room && !!user?.id &&
+    (!isCursorCurrent(room, room.readCursors, user.id) || (room.unreadCount?.[user.id] || 0) > 0);
+  useEffect(() => {
+    if (!hasUnread) return;
+    ChatService.markMessagesAsRead(id).catch(error => {
+      if (__DEV__) {
+        console.error('Failed to mark messages as read:', error);
+      }
+    });
+  }, [hasUnread, id, roomMessages.length]);
 
   // Handlers
   const handleBack = useCallback(() => {
     router.back();
   }, [router]);
 
+  const handleLeaveRoom = useCallback(async () => {
+    try {
+      await ChatService.leaveChatRoom(id);
+      router.back();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ChatServiceError && error.code === 'VALIDATION_ERROR'
+        ? error.message
+        : 'Could not leave the room. Please try again.');
+    }
+  }, [id, router]);
+
   const handleMoreOptions = useCallback(() => {
+    // Direct conversations have no members or settings to manage
+    if (room?.type === 'direct') return;
+
+    const isOwner = room?.createdBy === user?.id;
     Alert.alert(
       'Room Options',
       'Choose an action',
       [
-        { text: 'Room Info', onPress: () => __DEV__ && console.log('Room info') },
-        { text: 'Members', onPress: () => __DEV__ && console.log('View members') },
-        { text: 'Settings', onPress: () => __DEV__ && console.log('Room settings') },
-        { text: 'Leave Room', onPress: () => __DEV__ && console.log('Leave room'), style: 'destructive' },
+        { text: 'Members & Settings', onPress: () => router.push(`/chat/settings/${id}`) },
+        ...(isOwner ? [] : [{ text: 'Leave Room', onPress: handleLeaveRoom, style: 'destructive' as const }]),
         { text: 'Cancel', style: 'cancel' },
       ]
     );
-  }, []);
+  }, [room, user?.id, id, router, handleLeaveRoom]);
 
   const handleSendMessage = useCallback(async () => {
     if (!messageText.trim() || !user || !room || isSending) return;
@@ -278,8 +500,26 @@ export default function ChatRoomScreen() {
     const content = messageText.trim();
     setMessageText('');
 
+    if (editingMessage) {
+      try {
+        await ChatService.editMessage(id, editingMessage.id, content);
+        setEditingMessage(null);
+      } catch (error) {
+        Alert.alert('Error', error instanceof ChatServiceError && error.code === 'VALIDATION_ERROR'
+          ? error.message
+          : 'Failed to edit message. Please try again.');
+        setMessageText(content);
+      } finally {
+        setIsSending(false);
+      }
+      return;
+    }
+
     try {
-      await sendMessage(content);
+      // Sending clears the typing indicator with the same write
+      lastTypingRef.current = 0;
+      await ChatService.sendMessage(id, content, 'text', replyingTo || undefined);
+      setReplyingTo(null);
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Failed to send message:', error);
@@ -289,41 +529,195 @@ export default function ChatRoomScreen() {
     } finally {
       setIsSending(false);
     }
-  }, [messageText, user, room, isSending, sendMessage]);
+  }, [messageText, user, room, isSending, id, editingMessage, replyingTo]);
+
+  const closeMessageActions = useCallback(() => setSelectedMessage(null), []);
+
+  const handleReaction = useCallback((message: ChatMessage, emoji: string | null) => {
+    setSelectedMessage(null);
+    ChatService.setReaction(id, message.id, emoji).catch(() => {
+      Alert.alert('Error', 'Could not update your reaction. Please try again.');
+    });
+  }, [id]);
+
+  const handleReply = useCallback(() => {
+    if (!selectedMessage) return;
+    setEditingMessage(null);
+    setReplyingTo(selectedMessage);
+    setSelectedMessage(null);
+  }, [selectedMessage]);
+
+  const handleEdit = useCallback(() => {
+    if (!selectedMessage) return;
+    setReplyingTo(null);
+    setEditingMessage(selectedMessage);
+    setMessageText(selectedMessage.content);
+    setSelectedMessage(null);
+  }, [selectedMessage]);
+
+  const handleDelete = useCallback(() => {
+    const message = selectedMessage;
+    setSelectedMessage(null);
+    if (!message) return;
+
+    Alert.alert(
+      'Delete Message',
+      'This message will be deleted for everyone in the chat.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ChatService.deleteMessage(id, message.id);
+              if (editingMessage?.id === message.id) {
+                setEditingMessage(null);
+                setMessageText('');
+              }
+            } catch {
+              Alert.alert('Error', 'Could not delete the message. Please try again.');
+            }
+          }
+        },
+      ]
+    );
+  }, [selectedMessage, id, editingMessage]);
+
+  const handleCancelBanner = useCallback(() => {
+    if (editingMessage) {
+      setMessageText('');
+    }
+    setEditingMessage(null);
+    setReplyingTo(null);
+  }, [editingMessage]);
+
+  const startUpload = useCallback(async (messageId: string) => {
+    const file = uploadFilesRef.current[messageId];
+    if (!file) return;
+
+    setUploads(current => ({ ...current, [messageId]: { progress: 0, failed: false } }));
+    try {
+      await ChatService.uploadAttachment(id, messageId, file, (progress) => {
+        setUploads(current => ({ ...current, [messageId]: { progress, failed: false } }));
+      });
+      delete uploadFilesRef.current[messageId];
+      setUploads(({ [messageId]: _done, ...rest }) => rest);
+    } catch (error) {
+      setUploads(current => ({ ...current, [messageId]: { progress: 0, failed: true } }));
+      if (error instanceof ChatServiceError && error.code === 'VALIDATION_ERROR') {
+        Alert.alert('Error', error.message);
+      }
+    }
+  }, [id]);
+
+  const sendImage = useCallback(async (fromCamera: boolean) => {
+    const { status } = fromCamera
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission denied', fromCamera
+        ? 'Camera permission is required to take photos.'
+        : 'Camera roll permission is required to select images.');
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 1,
+      exif: false,
+    };
+    const result = fromCamera
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    const asset = result.canceled ? null : result.assets[0];
+    if (!asset) return;
+
+    try {
+      // Never send GPS or device metadata: the photo is re-encoded without it
+      const photo = await stripImageMetadata(asset.uri);
+      const file: ChatAttachmentFile = {
+        uri: photo.uri,
+        name: `photo-${Date.now()}.jpg`,
+        mimeType: 'image/jpeg',
+        width: photo.width,
+        height: photo.height,
+        // Shown while the full image loads; not every platform can make one
+        blurhash: await Image.generateBlurhashAsync(photo.uri, [4, 3]).catch(() => null),
+      };
+
+      const messageId = await ChatService.createAttachmentMessage(id, file);
+      uploadFilesRef.current[messageId] = file;
+      startUpload(messageId);
+    } catch (error) {
+      Alert.alert('Error', error instanceof ChatServiceError && error.code === 'VALIDATION_ERROR'
+        ? error.message
+        : 'Failed to send photo. Please try again.');
+    }
+  }, [id, startUpload]);
 
   const handleAttachment = useCallback(() => {
     Alert.alert(
       'Add Attachment',
       'Choose attachment type',
       [
-        { text: 'Camera', onPress: () => __DEV__ && console.log('Open camera') },
-        { text: 'Photo Library', onPress: () => __DEV__ && console.log('Open photo library') },
+        { text: 'Camera', onPress: () => sendImage(true) },
+        { text: 'Photo Library', onPress: () => sendImage(false) },
         { text: 'Cancel', style: 'cancel' },
       ]
     );
-  }, []);
+  }, [sendImage]);
 
-  // Process messages for display
+  // Process messages for display, newest first for the inverted list
   const processedMessages = useMemo(() => {
-    return roomMessages.map((message: any, index: number) => {
+    const lastOwnIndex = roomMessages.map(message => message.senderId).lastIndexOf(user?.id || '');
+    return roomMessages.map((message, index) => {
       const prevMessage = index > 0 ? roomMessages[index - 1] : null;
       const nextMessage = index < roomMessages.length - 1 ? roomMessages[index + 1] : null;
       
-      const isOwn = message.senderId === user?._id;
+      const isOwn = message.senderId === user?.id;
       const showAvatar = !isOwn && (!nextMessage || nextMessage.senderId !== message.senderId);
       const showTimestamp = !nextMessage ||
         nextMessage.senderId !== message.senderId ||
-        (nextMessage._creationTime && message._creationTime &&
-          (new Date(nextMessage._creationTime as any).getTime() - new Date(message._creationTime as any).getTime()) > 300000); // 5 minutes
+        (nextMessage.timestamp && message.timestamp &&
+          (new Date(nextMessage.timestamp as any).getTime() - new Date(message.timestamp as any).getTime()) > 300000); // 5 minutes
+      
+      let receipt: MessageReceipt | undefined;
+      let seenByCount: number | undefined;
+      if (isOwn && room) {
+        if (room.type === 'direct') {
+          receipt = getMessageReceipt(message, room);
+        } else if (index === lastOwnIndex) {
+          seenByCount = getSeenBy(message, room).length;
+        }
+      }
       
       return {
         ...message,
         isOwn,
         showAvatar,
         showTimestamp,
+        receipt,
+        seenByCount,
       };
-    });
-  }, [roomMessages, user?._id]);
+    }).reverse();
+  }, [roomMessages, user?.id, room]);
+
+  const scrollToMessage = useCallback((messageId: string) => {
+    const index = processedMessages.findIndex(message => message.id === messageId);
+    if (index !== -1) {
+      scrollViewRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    }
+  }, [processedMessages]);
+
+  const inputBanner = editingMessage
+    ? { title: 'Editing message', preview: editingMessage.content }
+    : replyingTo
+      ? {
+          title: replyingTo.senderId === user?.id ? 'Replying to yourself' : 'Replying',
+          preview: replyingTo.content
+        }
+      : null;
 
   if (!room) {
     return (
@@ -358,6 +752,9 @@ export default function ChatRoomScreen() {
           room={room}
           onBack={handleBack}
           onMoreOptions={handleMoreOptions}
+          typingText={formatTyping(typingCount, room.type === 'direct')}
+          presenceText={formatPresence(otherPresence)}
+          isOnline={isPresenceOnline(otherPresence)}
         />
 
         {/* Messages */}
@@ -388,16 +785,29 @@ export default function ChatRoomScreen() {
                     isOwn={item.isOwn}
                     showAvatar={item.showAvatar}
                     showTimestamp={item.showTimestamp}
+                    upload={uploads[item.id]}
+                    onRetryUpload={uploadFilesRef.current[item.id] ? () => startUpload(item.id) : undefined}
+                    receipt={item.receipt}
+                    seenByCount={item.seenByCount}
+                    currentUserId={user?.id}
+                    onLongPress={item.deleted ? undefined : () => setSelectedMessage(item)}
+                    onToggleReaction={(emoji, reactedByMe) => handleReaction(item, reactedByMe ? null : emoji)}
+                    onPressReply={item.replyTo ? () => scrollToMessage(item.replyTo!.messageId) : undefined}
                   />
                 )}
                 estimatedItemSize={80}
                 contentContainerStyle={(styles as any)?.messagesList}
                 showsVerticalScrollIndicator={false}
-                keyExtractor={(item) => item._id}
-                maintainVisibleContentPosition={{
-                  minIndexForVisible: 0,
-                  autoscrollToTopThreshold: 10,
-                }}
+                keyExtractor={(item) => item.id}
+                extraData={uploads}
+                // Inverted so the list opens at the newest message and
+                // older pages load in above without moving what's on screen
+                inverted
+                onEndReached={loadOlder}
+                onEndReachedThreshold={0.5}
+                ListFooterComponent={hasOlder && isLoadingOlder ? (
+                  <ActivityIndicator style={styles.olderLoader} color={colors.textSecondary} />
+                ) : null}
               />
             )}
           </View>
@@ -406,10 +816,27 @@ export default function ChatRoomScreen() {
         {/* Message Input */}
         <MessageInput
           value={messageText}
-          onChangeText={setMessageText}
+          onChangeText={handleChangeText}
           onSend={handleSendMessage}
           onAttachment={handleAttachment}
           disabled={isSending}
+          banner={inputBanner}
+          onCancelBanner={handleCancelBanner}
+        />
+
+        <ChatMessageActions
+          visible={!!selectedMessage}
+          myReaction={selectedMessage && user?.id ? selectedMessage.reactions?.[user.id] : null}
+          canReact={!!selectedMessage && !selectedMessage.deleted}
+          canReply={!!selectedMessage && !selectedMessage.deleted}
+          canEdit={!!selectedMessage && selectedMessage.messageType === 'text' &&
+            ChatService.canEditMessage(selectedMessage, user?.id)}
+          canDelete={!!selectedMessage && !selectedMessage.deleted && selectedMessage.senderId === user?.id}
+          onReact={(emoji) => selectedMessage && handleReaction(selectedMessage, emoji)}
+          onReply={handleReply}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          onClose={closeMessageActions}
         />
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -424,9 +851,20 @@ const styles = StyleSheet.create({
     marginRight: 4,
     width: 6,
   },
+  bubbleColumn: {
+    maxWidth: screenWidth * 0.75,
+  },
   container: {
     flex: 1,
   },
+  deletedText: {
+    fontStyle: 'italic',
+    lineHeight: 20,
+  },
+  editedMarker: {
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
   emptyContainer: {
     alignItems: 'center',
     flex: 1,
@@ -461,6 +899,16 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     marginTop: 2,
   },
+  inputBanner: {
+    alignItems: 'center',
+    borderLeftWidth: 3,
+    flexDirection: 'row',
+    marginBottom: 8,
+    paddingLeft: 8,
+  },
+  inputBannerText: {
+    flex: 1,
+  },
   inputContainer: {
     borderTopWidth: StyleSheet.hairlineWidth,
     paddingHorizontal: 16,
@@ -504,18 +952,65 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     paddingHorizontal: 4,
   },
+  messageFooter: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: 4,
+    marginTop: 4,
+  },
   messagesContainer: {
     flex: 1,
   },
   messagesList: {
     padding: 16,
   },
+  olderLoader: {
+    paddingVertical: 12,
+  },
+  onlineDot: {
+    borderRadius: 3,
+    height: 6,
+    marginRight: 4,
+    width: 6,
+  },
   otherMessageContainer: {
     justifyContent: 'flex-start',
   },
   ownMessageContainer: {
     justifyContent: 'flex-end',
   },
+  reactionChip: {
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+    gap: 2,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  reactionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: -4,
+  },
+  reactionCount: {
+    fontSize: 12,
+  },
+  replyQuote: {
+    borderLeftWidth: 2,
+    marginBottom: 6,
+    paddingLeft: 8,
+  },
+  replyQuoteSender: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  seenBy: {
+    alignSelf: 'flex-end',
+    fontSize: 12,
+    marginTop: 2,
+  },
   textInput: {
     flex: 1,
     fontSize: 16,
@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator
+} from 'react-native';
+
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { ArrowLeft, MessageCircleOff } from "lucide-react-native";
+import { useTheme } from "../../providers/ThemeProvider";
+import { useAuth } from "../../providers/AuthProvider";
+import { Button } from "../../components/ui/Button";
+import { ChatService, ChatServiceError } from "../../services/chatService";
+
+// Opens the direct conversation with ?userId=..., creating it when the other
+// user accepts messages, then replaces itself with the room so Back returns
+// to where the user came from
+export default function NewChatScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { user } = useAuth();
+  const { userId } = useLocalSearchParams<{ userId?: string }>();
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    if (!userId) {
+      setError('No one to message was selected.');
+      return;
+    }
+
+    let cancelled = false;
+    const openChat = async () => {
+      setError(null);
+      try {
+        const roomId = await ChatService.createOrGetChatRoom(user.id, userId);
+        if (!cancelled) {
+          router.replace(`/chat/${roomId}`);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          // Refusals (privacy settings, blocks) explain themselves; anything
+          // else is worth retrying
+          setError(err instanceof ChatServiceError && err.code !== 'CREATE_ROOM_ERROR'
+            ? err.message
+            : 'Could not start the conversation. Please try again.');
+        }
+      }
+    };
+
+    openChat();
+    return () => { cancelled = true; };
+  }, [user?.id, userId, attempt, router]);
+
+  const handleRetry = useCallback(() => {
+    setAttempt(value => value + 1);
+  }, []);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Button
+          size="sm"
+          onPress={() => router.back()}
+          leftIcon={<ArrowLeft size={20} color={colors.text} strokeWidth={1.5} />}
+        />
+        <Text style={{ color: colors.text, fontWeight: '600' }}>
+          New Message
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {error ? (
+        <View style={styles.content}>
+          <MessageCircleOff size={40} color={colors.textSecondary} strokeWidth={1.5} />
+          <Text style={[styles.message, { color: colors.text }]}>
+            {error}
+          </Text>
+          <View style={styles.actions}>
+            <Button variant="outline" size="sm" onPress={() => router.back()}>
+              Go Back
+            </Button>
+            <Button size="sm" onPress={handleRetry}>
+              Try Again
+            </Button>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.content}>
+          <ActivityIndicator color={colors.primary} />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            Opening conversation...
+          </Text>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  container: {
+    flex: 1,
+  },
+  content: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+    padding: 32,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  message: {
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
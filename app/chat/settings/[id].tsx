@@ -0,0 +1,464 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Share
+} from 'react-native';
+
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import * as Linking from "expo-linking";
+import { ArrowLeft, Crown, Shield, MoreVertical, Share2, Trash2, LogOut, Lock, Globe } from "lucide-react-native";
+import { useTheme } from "../../../providers/ThemeProvider";
+import { useAuth } from "../../../providers/AuthProvider";
+import { Button } from "../../../components/ui/Button";
+import Card from "../../../components/ui/Card";
+import { ChatService, ChatServiceError } from "../../../services/chatService";
+import { getUserById } from "../../../services/userService";
+import type { ChatRoom, ChatRoomRole, User } from "../../../types";
+
+// Larger rooms list their first members only
+const MAX_LISTED_MEMBERS = 50;
+
+const ROLE_ORDER: Record<ChatRoomRole, number> = { owner: 0, moderator: 1, member: 2 };
+
+interface RoomMember {
+  id: string;
+  name: string;
+  role: ChatRoomRole;
+}
+
+const memberName = (user: User | null): string =>
+  user?.displayName || user?.username || (user as { anonymousUsername?: string } | null)?.anonymousUsername || 'Member';
+
+// Errors the service raises for the user to read; anything else gets a
+// generic message
+const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ChatServiceError && ['PERMISSION_ERROR', 'VALIDATION_ERROR'].includes(error.code)
+    ? error.message
+    : fallback;
+
+export default function ChatRoomSettingsScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { colors } = useTheme();
+  const { user } = useAuth();
+
+  const [room, setRoom] = useState<ChatRoom | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [sharingInvite, setSharingInvite] = useState(false);
+
+  const currentUserId = user?.id || '';
+  const role = room ? ChatService.getRoomRole(room, currentUserId) : null;
+  const isAdmin = room ? ChatService.isRoomAdmin(room, currentUserId) : false;
+
+  const loadRoom = useCallback(async () => {
+    if (!id) return;
+    try {
+      const chatRoom = await ChatService.getChatRoom(id);
+      if (!chatRoom || chatRoom.isActive === false) {
+        setRoom(null);
+        return;
+      }
+
+      setRoom(chatRoom);
+      setName(chatRoom.name || '');
+      setDescription(chatRoom.description || '');
+
+      const participantIds = (chatRoom.participants || []).slice(0, MAX_LISTED_MEMBERS);
+      const users = await Promise.all(participantIds.map(userId => getUserById(userId).catch(() => null)));
+      setMembers(
+        participantIds
+          .map((userId, index) => ({
+            id: userId,
+            name: memberName(users[index]),
+            role: ChatService.getRoomRole(chatRoom, userId) || 'member',
+          }))
+          .sort((a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error loading room settings:', error);
+      }
+      setRoom(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadRoom();
+  }, [loadRoom]);
+
+  const handleSaveDetails = useCallback(async () => {
+    if (!room) return;
+    setSaving(true);
+    try {
+      await ChatService.updateRoomDetails(room.id, { name, description });
+      await loadRoom();
+      Alert.alert('Saved', 'Room details updated.');
+    } catch (error) {
+      Alert.alert('Error', errorMessage(error, 'Could not update the room. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  }, [room, name, description, loadRoom]);
+
+  const handleShareInvite = useCallback(async () => {
+    if (!room) return;
+    setSharingInvite(true);
+    try {
+      const { code } = await ChatService.createInvite(room.id);
+      const url = Linking.createURL(`/chat/join/${code}`);
+      await Share.share({
+        message: `Join "${room.name}" on LockerRoom Talk: ${url}\nInvite code: ${code} (valid for 7 days)`,
+      });
+    } catch (error) {
+      Alert.alert('Error', errorMessage(error, 'Could not create an invite link. Please try again.'));
+    } finally {
+      setSharingInvite(false);
+    }
+  }, [room]);
+
+  const runMemberAction = useCallback(async (action: () => Promise<void>, fallback: string) => {
+    try {
+      await action();
+      await loadRoom();
+    } catch (error) {
+      Alert.alert('Error', errorMessage(error, fallback));
+    }
+  }, [loadRoom]);
+
+  const handleMemberOptions = useCallback((member: RoomMember) => {
+    if (!room) return;
+
+    const options: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [];
+    if (role === 'owner') {
+      options.push(member.role === 'moderator'
+        ? {
+          text: 'Remove as Moderator',
+          onPress: () => runMemberAction(() => ChatService.setModerator(room.id, member.id, false), 'Could not change moderator.'),
+        }
+        : {
+          text: 'Make Moderator',
+          onPress: () => runMemberAction(() => ChatService.setModerator(room.id, member.id, true), 'Could not change moderator.'),
+        });
+    }
+    if (role === 'owner' || member.role === 'member') {
+      options.push({
+        text: 'Remove from Room',
+        style: 'destructive',
+        onPress: () => runMemberAction(() => ChatService.removeMember(room.id, member.id), 'Could not remove member.'),
+      });
+    }
+    options.push({ text: 'Cancel', style: 'cancel' });
+
+    Alert.alert(member.name, 'Choose an action', options);
+  }, [room, role, runMemberAction]);
+
+  const handleDeleteRoom = useCallback(() => {
+    if (!room) return;
+    Alert.alert(
+      'Delete Room',
+      `Delete "${room.name}" for everyone? Members will no longer be able to open it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ChatService.deleteChatRoom(room.id);
+              router.replace('/(tabs)/chat');
+            } catch (error) {
+              Alert.alert('Error', errorMessage(error, 'Could not delete the room. Please try again.'));
+            }
+          },
+        },
+      ]
+    );
+  }, [room, router]);
+
+  const handleLeaveRoom = useCallback(() => {
+    if (!room) return;
+    Alert.alert(
+      'Leave Room',
+      'Are you sure you want to leave this room?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ChatService.leaveChatRoom(room.id);
+              router.replace('/(tabs)/chat');
+            } catch (error) {
+              Alert.alert('Error', errorMessage(error, 'Could not leave the room. Please try again.'));
+            }
+          },
+        },
+      ]
+    );
+  }, [room, router]);
+
+  const renderBody = () => {
+    if (loading) {
+      return <ActivityIndicator color={colors.primary} style={styles.loading} />;
+    }
+
+    if (!room || room.type === 'direct') {
+      return (
+        <View style={styles.emptyState}>
+          <Text style={{ color: colors.text, fontWeight: '600' }}>
+            Room Not Found
+          </Text>
+          <Text style={{ color: colors.textSecondary, marginTop: 8, textAlign: 'center' }}>
+            This room doesn't exist, was deleted, or you are no longer a member.
+          </Text>
+        </View>
+      );
+    }
+
+    const detailsChanged = name.trim() !== (room.name || '') || description.trim() !== (room.description || '');
+
+    return (
+      <>
+        {/* Details */}
+        <Card style={styles.section}>
+          <View style={styles.visibilityRow}>
+            {room.isPublic
+              ? <Globe size={16} color={colors.textSecondary} strokeWidth={1.5} />
+              : <Lock size={16} color={colors.textSecondary} strokeWidth={1.5} />}
+            <Text style={{ color: colors.textSecondary, marginLeft: 6 }}>
+              {room.isPublic ? 'Public room · anyone can join' : 'Private room · invite only'}
+            </Text>
+          </View>
+
+          {isAdmin ? (
+            <>
+              <TextInput
+                style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                value={name}
+                onChangeText={setName}
+                placeholder="Room name"
+                placeholderTextColor={colors.textSecondary}
+                maxLength={100}
+              />
+              <TextInput
+                style={[styles.input, styles.descriptionInput, { color: colors.text, borderColor: colors.border }]}
+                value={description}
+                onChangeText={setDescription}
+                placeholder="Description"
+                placeholderTextColor={colors.textSecondary}
+                maxLength={500}
+                multiline
+              />
+              <Button
+                size="sm"
+                onPress={handleSaveDetails}
+                disabled={!detailsChanged || !name.trim() || saving}
+              >
+                {saving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Text style={{ color: colors.text, fontWeight: '600', fontSize: 18 }}>
+                {room.name}
+              </Text>
+              {!!room.description && (
+                <Text style={{ color: colors.textSecondary, marginTop: 4 }}>
+                  {room.description}
+                </Text>
+              )}
+            </>
+          )}
+        </Card>
+
+        {/* Invites */}
+        {isAdmin && !room.isPublic && (
+          <Card style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              Invite People
+            </Text>
+            <Text style={{ color: colors.textSecondary, marginBottom: 12 }}>
+              Anyone with the link can join for 7 days, unless you removed them from the room.
+            </Text>
+            <Button
+              size="sm"
+              variant="outline"
+              onPress={handleShareInvite}
+              disabled={sharingInvite}
+              leftIcon={<Share2 size={16} color={colors.primary} strokeWidth={1.5} />}
+            >
+              Share Invite Link
+            </Button>
+          </Card>
+        )}
+
+        {/* Members */}
+        <Card style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {`Members (${room.participants?.length || 0})`}
+          </Text>
+          {members.map(member => {
+            // Moderators can manage members; only the owner manages moderators
+            const canManage = isAdmin && member.id !== currentUserId && member.role !== 'owner' &&
+              (role === 'owner' || member.role === 'member');
+
+            return (
+              <View key={member.id} style={[styles.memberRow, { borderBottomColor: colors.border }]}>
+                <Text style={{ color: colors.text, flex: 1 }} numberOfLines={1}>
+                  {member.id === currentUserId ? `${member.name} (you)` : member.name}
+                </Text>
+                {member.role === 'owner' && <Crown size={16} color={colors.warning} strokeWidth={1.5} />}
+                {member.role === 'moderator' && <Shield size={16} color={colors.primary} strokeWidth={1.5} />}
+                {canManage && (
+                  <TouchableOpacity
+                    onPress={() => handleMemberOptions(member)}
+                    style={styles.memberAction}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Manage ${member.name}`}
+                  >
+                    <MoreVertical size={16} color={colors.textSecondary} strokeWidth={1.5} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </Card>
+
+        {/* Leave or delete */}
+        <Card style={styles.section}>
+          {role !== 'owner' && (
+            <Button
+              variant="outline"
+              onPress={handleLeaveRoom}
+              leftIcon={<LogOut size={16} color={colors.error} strokeWidth={1.5} />}
+              style={styles.dangerButton}
+            >
+              Leave Room
+            </Button>
+          )}
+          {isAdmin && (
+            <Button
+              variant="outline"
+              onPress={handleDeleteRoom}
+              leftIcon={<Trash2 size={16} color={colors.error} strokeWidth={1.5} />}
+              style={styles.dangerButton}
+            >
+              Delete Room
+            </Button>
+          )}
+        </Card>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Button
+          size="sm"
+          onPress={() => router.back()}
+          leftIcon={<ArrowLeft size={20} color={colors.text} strokeWidth={1.5} />}
+        />
+        <Text style={{ color: colors.text, fontWeight: '600' }}>
+          Room Settings
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {renderBody()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  dangerButton: {
+    marginBottom: 8,
+  },
+  descriptionInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 32,
+    padding: 32,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  input: {
+    borderRadius: 12,
+    borderWidth: 1,
+    fontSize: 16,
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  loading: {
+    marginTop: 48,
+  },
+  memberAction: {
+    marginLeft: 8,
+    padding: 4,
+  },
+  memberRow: {
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingTop: 0,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: 16,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  visibilityRow: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+});
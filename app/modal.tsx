@@ -15,6 +15,7 @@ import { useRouter } from "expo-router";
 import { X, Share, Flag, Heart, MessageCircle, Star, Users, Settings, Info } from "lucide-react-native";
 import { useTheme } from "../providers/ThemeProvider";
 import { useAuth } from "../providers/AuthProvider";
+import { useBlocks } from "../providers/BlockProvider";
 import { Button } from "../components/ui/Button";
 import Avatar from "../components/ui/Avatar";
 import Card from "../components/ui/Card";
@@ -33,6 +34,7 @@ interface ModalContentProps {
 function UserActionsModal({ data, onClose }: { data: any; onClose: () => void }) {
   const { colors } = useTheme();
   const router = useRouter();
+  const { blockUser } = useBlocks();
   const user = data?.user;
 
   const handleAction = useCallback((action: string) => {
@@ -51,9 +53,17 @@ function UserActionsModal({ data, onClose }: { data: any; onClose: () => void })
           `Are you sure you want to block ${user.username}? They won't be able to message you or see your profile.`,
           [
             { text: 'Cancel', style: 'cancel' },
-            { text: 'Block', style: 'destructive', onPress: () => {
-              Alert.alert('User Blocked', `${user.username} has been blocked.`);
-              onClose();
+            { text: 'Block', style: 'destructive', onPress: async () => {
+              try {
+                await blockUser(user.id);
+                Alert.alert('User Blocked', `${user.username} has been blocked.`);
+                onClose();
+              } catch (error) {
+                if (__DEV__) {
+                  console.error('Error blocking user:', error);
+                }
+                Alert.alert('Error', 'Failed to block user. Please try again.');
+              }
             }}
           ]
         );
@@ -72,7 +82,7 @@ function UserActionsModal({ data, onClose }: { data: any; onClose: () => void })
         );
         break;
     }
-  }, [user, router, onClose]);
+  }, [user, router, onClose, blockUser]);
 
   return (
     <View style={styles.modalContent}>
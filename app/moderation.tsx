@@ -0,0 +1,362 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { ArrowLeft, Shield, Flag, EyeOff, History } from "lucide-react-native";
+import { useTheme } from "../providers/ThemeProvider";
+import { Button } from "../components/ui/Button";
+import Card from "../components/ui/Card";
+import { ModerationQueueService } from "../services/moderationQueueService";
+import { hasModeratorRole } from "../utils/authUtils";
+import { formatRelativeTime } from "../utils/timestampHelpers";
+import type { ModerationAction, ModerationDecision, ModerationQueueItem, Review } from "../types";
+
+type QueueFilter = 'open' | 'escalated';
+
+const ACTION_LABELS: Record<ModerationAction['action'], string> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  escalate: 'Escalated',
+  auto_hide: 'Auto-hidden',
+};
+
+interface QueueItemCardProps {
+  item: ModerationQueueItem;
+  onResolve: (item: ModerationQueueItem, decision: ModerationDecision, note: string) => Promise<void>;
+}
+
+function QueueItemCard({ item, onResolve }: QueueItemCardProps) {
+  const { colors } = useTheme();
+  const [target, setTarget] = useState<Partial<Review> | null>(null);
+  const [note, setNote] = useState('');
+  const [actions, setActions] = useState<ModerationAction[] | null>(null);
+  const [pendingDecision, setPendingDecision] = useState<ModerationDecision | null>(null);
+
+  useEffect(() => {
+    ModerationQueueService.getTarget(item).then(setTarget);
+  }, [item.targetType, item.targetId]);
+
+  const toggleHistory = useCallback(async () => {
+    if (actions) {
+      setActions(null);
+      return;
+    }
+    setActions(await ModerationQueueService.getActions(item.id));
+  }, [actions, item.id]);
+
+  const resolve = useCallback(async (decision: ModerationDecision) => {
+    setPendingDecision(decision);
+    try {
+      await onResolve(item, decision, note);
+      setNote('');
+    } finally {
+      setPendingDecision(null);
+    }
+  }, [item, note, onResolve]);
+
+  return (
+    <Card style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <Text style={{ color: colors.text, fontWeight: '600', flex: 1 }}>
+          {item.targetType === 'review' ? 'Review' : 'Comment'}
+          {item.source === 'automated' ? ' · held by automated checks' : ` · ${item.reportCount} report${item.reportCount === 1 ? '' : 's'}`}
+        </Text>
+        {item.autoHidden && (
+          <View style={styles.badge}>
+            <EyeOff size={14} color={colors.warning} strokeWidth={1.5} />
+            <Text style={{ color: colors.warning, marginLeft: 4 }}>Hidden</Text>
+          </View>
+        )}
+      </View>
+
+      {target ? (
+        <View style={[styles.targetPreview, { borderColor: colors.border }]}>
+          {target.title ? (
+            <Text style={{ color: colors.text, fontWeight: '500' }} numberOfLines={1}>
+              {target.title}
+            </Text>
+          ) : null}
+          <Text style={{ color: colors.textSecondary, marginTop: 4 }} numberOfLines={4}>
+            {target.content}
+          </Text>
+        </View>
+      ) : (
+        <Text style={{ color: colors.textSecondary, marginTop: 8 }}>
+          Content unavailable (it may have been deleted)
+        </Text>
+      )}
+
+      <View style={styles.reasons}>
+        {item.reasons.map((reason) => (
+          <View key={reason} style={styles.reasonRow}>
+            <Flag size={12} color={colors.error} strokeWidth={1.5} />
+            <Text style={{ color: colors.text, marginLeft: 6, flex: 1 }}>{reason}</Text>
+          </View>
+        ))}
+      </View>
+
+      <TextInput
+        style={[styles.noteInput, { borderColor: colors.border, color: colors.text }]}
+        placeholder="Add a note for the audit trail (optional)"
+        placeholderTextColor={colors.textSecondary}
+        value={note}
+        onChangeText={setNote}
+        maxLength={500}
+        multiline
+      />
+
+      <View style={styles.decisionRow}>
+        <Button
+          size="sm"
+          variant="success"
+          onPress={() => resolve('approve')}
+          loading={pendingDecision === 'approve'}
+          disabled={pendingDecision !== null}
+        >
+          Approve
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          onPress={() => resolve('reject')}
+          loading={pendingDecision === 'reject'}
+          disabled={pendingDecision !== null}
+        >
+          Reject
+        </Button>
+        {item.status !== 'escalated' && (
+          <Button
+            size="sm"
+            variant="outline"
+            onPress={() => resolve('escalate')}
+            loading={pendingDecision === 'escalate'}
+            disabled={pendingDecision !== null}
+          >
+            Escalate
+          </Button>
+        )}
+      </View>
+
+      <TouchableOpacity style={styles.historyToggle} onPress={toggleHistory}>
+        <History size={14} color={colors.textSecondary} strokeWidth={1.5} />
+        <Text style={{ color: colors.textSecondary, marginLeft: 6 }}>
+          {actions ? 'Hide history' : 'Show history'}
+        </Text>
+      </TouchableOpacity>
+
+      {actions && (
+        <View style={styles.history}>
+          {actions.length === 0 ? (
+            <Text style={{ color: colors.textSecondary }}>No actions yet</Text>
+          ) : actions.map((action) => (
+            <Text key={action.id} style={{ color: colors.textSecondary, marginTop: 4 }}>
+              {ACTION_LABELS[action.action]} by {action.actorId === 'system' ? 'system' : 'moderator'} · {formatRelativeTime(action.createdAt)}
+              {action.note ? ` — ${action.note}` : ''}
+            </Text>
+          ))}
+        </View>
+      )}
+    </Card>
+  );
+}
+
+export default function ModerationScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+
+  const [isModerator, setIsModerator] = useState<boolean | null>(null);
+  const [filter, setFilter] = useState<QueueFilter>('open');
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+
+  useEffect(() => {
+    hasModeratorRole().then(setIsModerator);
+  }, []);
+
+  useEffect(() => {
+    if (!isModerator) return;
+    return ModerationQueueService.subscribeToQueue(filter, setItems);
+  }, [isModerator, filter]);
+
+  const handleResolve = useCallback(async (item: ModerationQueueItem, decision: ModerationDecision, note: string) => {
+    try {
+      await ModerationQueueService.resolveItem(item.id, decision, note);
+    } catch {
+      Alert.alert('Error', 'Failed to save the moderation decision. Please try again.');
+    }
+  }, []);
+
+  const renderBody = () => {
+    if (isModerator === null) {
+      return <ActivityIndicator style={styles.loading} color={colors.primary} />;
+    }
+
+    if (!isModerator) {
+      return (
+        <Card style={styles.emptyState}>
+          <Shield size={48} color={colors.textSecondary} strokeWidth={1} />
+          <Text style={{ marginTop: 16, textAlign: 'center', color: colors.text }}>
+            Moderators only
+          </Text>
+          <Text style={{ color: colors.textSecondary, textAlign: 'center', marginTop: 8 }}>
+            You need the moderator role to review reported content.
+          </Text>
+        </Card>
+      );
+    }
+
+    if (items.length === 0) {
+      return (
+        <Card style={styles.emptyState}>
+          <Shield size={48} color={colors.success} strokeWidth={1} />
+          <Text style={{ marginTop: 16, textAlign: 'center', color: colors.text }}>
+            Queue is clear
+          </Text>
+          <Text style={{ color: colors.textSecondary, textAlign: 'center', marginTop: 8 }}>
+            {filter === 'open' ? 'No reported content is waiting for review.' : 'Nothing has been escalated.'}
+          </Text>
+        </Card>
+      );
+    }
+
+    return items.map((item) => (
+      <QueueItemCard key={item.id} item={item} onResolve={handleResolve} />
+    ));
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Button
+          size="sm"
+          onPress={() => router.back()}
+          leftIcon={<ArrowLeft size={20} color={colors.text} strokeWidth={1.5} />}
+        />
+        <Text style={{ color: colors.text, fontWeight: '600' }}>
+          Moderation
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* Filter Tabs */}
+      {isModerator && (
+        <View style={styles.filterContainer}>
+          {(['open', 'escalated'] as QueueFilter[]).map((value) => (
+            <Button
+              key={value}
+              variant={filter === value ? 'primary' : 'ghost'}
+              size="sm"
+              onPress={() => setFilter(value)}
+              style={styles.filterButton}
+            >
+              {value === 'open' ? 'Open' : 'Escalated'}
+            </Button>
+          ))}
+        </View>
+      )}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {renderBody()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignItems: 'center',
+    flexDirection: 'row',
+  },
+  container: {
+    flex: 1,
+  },
+  decisionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 32,
+    padding: 32,
+  },
+  filterButton: {
+    paddingHorizontal: 16,
+  },
+  filterContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingBottom: 16,
+    paddingHorizontal: 16,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  history: {
+    marginTop: 8,
+  },
+  historyToggle: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  itemCard: {
+    marginBottom: 12,
+    padding: 16,
+  },
+  itemHeader: {
+    alignItems: 'center',
+    flexDirection: 'row',
+  },
+  loading: {
+    marginTop: 48,
+  },
+  noteInput: {
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 12,
+    minHeight: 44,
+    padding: 10,
+  },
+  reasonRow: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  reasons: {
+    marginTop: 8,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingTop: 0,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  targetPreview: {
+    borderLeftWidth: 3,
+    marginTop: 8,
+    paddingLeft: 10,
+  },
+});
@@ -10,7 +10,7 @@ import {
 
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
-import { ArrowLeft, Bell, Heart, MessageCircle, Star, Trash2, MoreHorizontal } from "lucide-react-native";
+import { ArrowLeft, Bell, Heart, MessageCircle, Search, Star, Trash2, MoreHorizontal } from "lucide-react-native";
 import { useTheme } from "../providers/ThemeProvider";
 import { useAuth } from "../providers/AuthProvider";
 import { useNotifications } from "../providers/NotificationProvider";
@@ -19,7 +19,7 @@ import Avatar from "../components/ui/Avatar";
 import Card from "../components/ui/Card";
 import { getUserById } from "../services/userService";
 
-type NotificationType = 'message' | 'review' | 'match' | 'like' | 'comment' | 'system';
+type NotificationType = 'message' | 'review' | 'match' | 'like' | 'comment' | 'comment_reply' | 'saved_search_match' | 'system';
 
 interface LocalNotification {
   id: string;
@@ -32,6 +32,7 @@ interface LocalNotification {
   reviewId?: string;
   chatRoomId?: string;
   actionUrl?: string;
+  data?: { reviewId?: string; commentId?: string; savedSearchId?: string };
 }
 
 
@@ -69,7 +70,10 @@ function NotificationItem({ notification, onPress, onMarkAsRead, onDelete }: Not
       case 'like':
         return <Heart {...iconProps} color={colors.primary} />;
       case 'comment':
+      case 'comment_reply':
         return <MessageCircle {...iconProps} color={colors.success} />;
+      case 'saved_search_match':
+        return <Search {...iconProps} color={colors.primary} />;
       case 'system':
         return <Bell {...iconProps} color={colors.textSecondary} />;
       default:
@@ -237,6 +241,12 @@ export default function NotificationsScreen() {
           router.push(`/review/${notification.reviewId}`);
         }
         break;
+      case 'comment_reply':
+      case 'saved_search_match':
+        if (notification.data?.reviewId) {
+          router.push(`/review/${notification.data.reviewId}`);
+        }
+        break;
       case 'match':
         if (notification.userId) {
           router.push(`/profile/${notification.userId}`);
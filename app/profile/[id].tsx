@@ -22,7 +22,7 @@ import { Button } from "../../components/ui/Button";
 import Avatar from "../../components/ui/Avatar";
 import Card from "../../components/ui/Card";
 import ReviewCard from "../../components/ReviewCard";
-import { getUserById } from "../../services/userService";
+import { getUserProfile } from "../../services/userService";
 import { ReviewService } from "../../services/reviewService";
 import type { Review, User as UserType } from "../../types";
 import { toMillis, formatDate } from "../../utils/timestampHelpers";
@@ -191,11 +191,8 @@ export default function UserProfileScreen() {
       setLoading(true);
       setError(null);
       try {
-        // Fetch user
-        const userData = await getUserById(id as string);
-        if (!userData) {
-          throw new Error("User not found.");
-        }
+        // Fetch the profile as the user's privacy settings allow it to be shown
+        const userData = await getUserProfile(id as string);
         setUser(userData);
           
         // Fetch reviews by user
@@ -209,7 +206,9 @@ export default function UserProfileScreen() {
         if (__DEV__) {
           __DEV__ && console.error('Error loading user data:', err);
         }
-        setError("Failed to load profile. The user may not exist.");
+        setError((err as { code?: string })?.code === 'functions/permission-denied'
+          ? "This profile is private."
+          : "Failed to load profile. The user may not exist.");
       } finally {
         setLoading(false);
       }
@@ -277,7 +276,7 @@ export default function UserProfileScreen() {
     setRefreshing(true);
     try {
       // Fetch user
-      const userData = await getUserById(id as string);
+      const userData = await getUserProfile(id as string);
       if (userData) {
         setUser(userData);
         
@@ -308,8 +307,17 @@ export default function UserProfileScreen() {
 
   const handleMessage = useCallback(() => {
     if (!user) return;
-    // Navigate to create a new chat or existing chat
-    router.push(`/chat/new?userId=${user._id}`);
+    // Opens the existing conversation, or starts one if the user accepts messages
+    router.push(`/chat/new?userId=${user.id || user._id}`);
+  }, [router, user]);
+
+  const handleWriteReview = useCallback(() => {
+    if (!user) return;
+    // The server turns the review down if their allowReviews setting excludes us
+    router.push({
+      pathname: '/(tabs)/create',
+      params: { targetUserId: user.id || user._id, targetName: user.displayName || user.username },
+    });
   }, [router, user]);
 
   const handleFollow = useCallback(() => {
@@ -457,7 +465,7 @@ export default function UserProfileScreen() {
                 <View style={styles.detailItem}>
                   <User size={16} color={colors.textSecondary} strokeWidth={1.5} />
                   <Text style={[typography.body, { marginLeft: 12 }]}>
-                    Member since {formatDate(user?._creationTime || Date.now(), { month: 'long', year: 'numeric' })}
+                    Member since {formatDate(user?._creationTime || user?.createdAt || Date.now(), { month: 'long', year: 'numeric' })}
                   </Text>
                 </View>
               </View>
@@ -632,6 +640,16 @@ export default function UserProfileScreen() {
               </Button>
             </View>
           )}
+          {!isOwnProfile && (
+            <Button
+              variant="outline"
+              onPress={handleWriteReview}
+              style={styles.reviewButton}
+              leftIcon={<Star size={16} color={colors.primary} strokeWidth={1.5} />}
+            >
+              Write a Review
+            </Button>
+          )}
         </View>
 
         {/* Stats */}
@@ -788,6 +806,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 24,
   },
+  reviewButton: {
+    alignSelf: 'stretch',
+    marginTop: 12,
+  },
   scrollContent: {
     paddingBottom: 32,
   },
@@ -0,0 +1,189 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { ArrowLeft, UserX } from "lucide-react-native";
+import { useTheme } from "../../providers/ThemeProvider";
+import { useBlocks } from "../../providers/BlockProvider";
+import { Button } from "../../components/ui/Button";
+import Avatar from "../../components/ui/Avatar";
+import Card from "../../components/ui/Card";
+import { createTypographyStyles } from "../../styles/typography";
+import { getUserById } from "../../services/userService";
+import type { User } from "../../types";
+
+export default function BlockedUsersScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const typography = createTypographyStyles(colors);
+  const { blockedUserIds, unblockUser } = useBlocks();
+
+  const [users, setUsers] = useState<Record<string, User | null>>({});
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  // Look up names for blocked users we haven't fetched yet
+  useEffect(() => {
+    const missing = blockedUserIds.filter(id => !(id in users));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(missing.map(id => getUserById(id).catch(() => null)))
+      .then(results => {
+        if (cancelled) return;
+        setUsers(prev => ({
+          ...prev,
+          ...Object.fromEntries(missing.map((id, index) => [id, results[index]])),
+        }));
+      });
+    return () => { cancelled = true; };
+  }, [blockedUserIds, users]);
+
+  const handleBack = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  const handleUnblock = useCallback((userId: string, name: string) => {
+    Alert.alert(
+      'Unblock User',
+      `Unblock ${name}? They will be able to message you and you will see their reviews again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unblock',
+          onPress: async () => {
+            setUnblockingId(userId);
+            try {
+              await unblockUser(userId);
+            } catch (error) {
+              if (__DEV__) {
+                console.error('Error unblocking user:', error);
+              }
+              Alert.alert('Error', 'Failed to unblock user. Please try again.');
+            } finally {
+              setUnblockingId(null);
+            }
+          },
+        },
+      ]
+    );
+  }, [unblockUser]);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Button
+          size="sm"
+          onPress={handleBack}
+          leftIcon={<ArrowLeft size={20} color={colors.text} strokeWidth={1.5} />}
+        />
+        <Text style={typography.h2}>
+          Blocked Users
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {blockedUserIds.length === 0 ? (
+          <View style={styles.emptyState}>
+            <UserX size={48} color={colors.textSecondary} strokeWidth={1.5} />
+            <Text style={[typography.body, styles.emptyTitle]}>
+              No blocked users
+            </Text>
+            <Text style={[typography.caption, { textAlign: 'center' }]}>
+              People you block can't message you or comment on your reviews, and you won't see their content.
+            </Text>
+          </View>
+        ) : (
+          <Card style={styles.section}>
+            {blockedUserIds.map(userId => {
+              const isLoaded = userId in users;
+              const name = users[userId]?.username || users[userId]?.displayName || 'Unknown user';
+              return (
+                <View key={userId} style={[styles.userRow, { borderBottomColor: colors.border }]}>
+                  <Avatar size="md" name={name} />
+                  <View style={styles.userInfo}>
+                    {isLoaded ? (
+                      <Text style={typography.body} numberOfLines={1}>
+                        {name}
+                      </Text>
+                    ) : (
+                      <ActivityIndicator size="small" color={colors.textSecondary} />
+                    )}
+                  </View>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onPress={() => handleUnblock(userId, name)}
+                    disabled={unblockingId === userId}
+                  >
+                    <Text style={[typography.button, { color: colors.text }]}>
+                      {unblockingId === userId ? 'Unblocking...' : 'Unblock'}
+                    </Text>
+                  </Button>
+                </View>
+              );
+            })}
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 32,
+    paddingTop: 64,
+  },
+  emptyTitle: {
+    marginTop: 8,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: 16,
+  },
+  userInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  userRow: {
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+    paddingVertical: 12,
+  },
+});
@@ -1,11 +1,13 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   Alert,
-  Switch
+  Switch,
+  ActivityIndicator,
+  Linking
 } from 'react-native';
 import logger from '../../utils/logger';
 
@@ -17,27 +19,12 @@ import { useAuth } from "../../providers/AuthProvider";
 import { Button } from "../../components/ui/Button";
 import Card from "../../components/ui/Card";
 import { createTypographyStyles } from "../../styles/typography";
-
-interface PrivacySettings {
-  profileVisibility: 'public' | 'friends' | 'private';
-  showAge: boolean;
-  showLocation: boolean;
-  showLastSeen: boolean;
-  allowMessages: 'everyone' | 'friends' | 'nobody';
-  allowReviews: 'everyone' | 'friends' | 'nobody';
-  showReviewsOnProfile: boolean;
-  allowNotifications: {
-    messages: boolean;
-    reviews: boolean;
-    matches: boolean;
-    marketing: boolean;
-  };
-  dataSharing: {
-    analytics: boolean;
-    personalization: boolean;
-    thirdParty: boolean;
-  };
-}
+import { getPrivacySettings, updatePrivacySettings } from "../../services/userService";
+import { DataExportService } from "../../services/dataExportService";
+import { AccountDeletionService } from "../../services/accountDeletionService";
+import { DEFAULT_PRIVACY_SETTINGS } from "../../utils/privacySettings";
+import { formatDate, toDate } from "../../utils/timestampHelpers";
+import type { DataExport, PrivacySettings } from "../../types";
 
 interface SettingItemProps {
   icon: React.ReactNode;
@@ -139,31 +126,35 @@ export default function PrivacyScreen() {
   const router = useRouter();
   const { colors, tokens, isDark } = useTheme();
   const typography = createTypographyStyles(colors);
-  const { user } = useAuth();
-
-  // Initialize privacy settings with default values
-  const [settings, setSettings] = useState<PrivacySettings>({
-    profileVisibility: 'public',
-    showAge: true,
-    showLocation: true,
-    showLastSeen: true,
-    allowMessages: 'everyone',
-    allowReviews: 'everyone',
-    showReviewsOnProfile: true,
-    allowNotifications: {
-      messages: true,
-      reviews: true,
-      matches: true,
-      marketing: false,
-    },
-    dataSharing: {
-      analytics: true,
-      personalization: true,
-      thirdParty: false,
-    },
-  });
+  const { user, deleteAccount } = useAuth();
 
+  const [settings, setSettings] = useState<PrivacySettings>(DEFAULT_PRIVACY_SETTINGS);
+  const [isLoadingSettings, setIsLoadingSettings] = useState(true);
   const [loading, setLoading] = useState(false);
+  const [dataExport, setDataExport] = useState<DataExport | null>(null);
+  const [isRequestingExport, setIsRequestingExport] = useState(false);
+  const [isUpdatingDeletion, setIsUpdatingDeletion] = useState(false);
+
+  // Load the saved settings
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let cancelled = false;
+    setIsLoadingSettings(true);
+    getPrivacySettings(user.id)
+      .then(saved => { if (!cancelled) setSettings(saved); })
+      .catch(() => {
+        if (!cancelled) Alert.alert('Error', 'Failed to load your privacy settings.');
+      })
+      .finally(() => { if (!cancelled) setIsLoadingSettings(false); });
+    return () => { cancelled = true; };
+  }, [user?.id]);
+
+  // Follow the latest data export, which keeps running if the screen closes
+  useEffect(() => {
+    if (!user?.id) return;
+    return DataExportService.subscribeToExport(user.id, setDataExport);
+  }, [user?.id]);
 
   // Handlers
   const handleBack = useCallback(() => {
@@ -197,10 +188,10 @@ export default function PrivacyScreen() {
   }, []);
 
   const handleSave = useCallback(async () => {
+    if (!user?.id) return;
     setLoading(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await updatePrivacySettings(user.id, settings);
       
       Alert.alert(
         'Success',
@@ -215,28 +206,72 @@ export default function PrivacyScreen() {
     } finally {
       setLoading(false);
     }
-  }, [settings]);
+  }, [settings, user?.id]);
+
+  const handleExportData = useCallback(async () => {
+    setIsRequestingExport(true);
+    try {
+      await DataExportService.requestExport();
+      Alert.alert('Export Ready', 'Your data export is ready to download below.');
+    } catch (error) {
+      Alert.alert('Could not export data', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setIsRequestingExport(false);
+    }
+  }, []);
+
+  const handleDownloadExport = useCallback(() => {
+    if (dataExport?.downloadUrl) {
+      Linking.openURL(dataExport.downloadUrl);
+    }
+  }, [dataExport?.downloadUrl]);
 
   const handleDeleteAccount = useCallback(() => {
     Alert.alert(
       'Delete Account',
-      'Are you sure you want to delete your account? This action cannot be undone and all your data will be permanently removed.',
+      'Your account and data will be permanently removed in 14 days. Until then you can sign back in to keep your account.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => {
-            Alert.alert(
-              'Account Deleted',
-              'Your account has been scheduled for deletion. You will be logged out now.',
-              [{ text: 'OK', onPress: () => router.replace('/auth/signin') }]
-            );
+          onPress: async () => {
+            setIsUpdatingDeletion(true);
+            try {
+              await deleteAccount();
+              Alert.alert(
+                'Account Scheduled for Deletion',
+                'Your account will be deleted in 14 days. You have been signed out.',
+                [{ text: 'OK', onPress: () => router.replace('/auth/signin') }]
+              );
+            } catch (error) {
+              Alert.alert('Could not delete account', error instanceof Error ? error.message : 'Please try again.');
+            } finally {
+              setIsUpdatingDeletion(false);
+            }
           },
         },
       ]
     );
-  }, [router]);
+  }, [router, deleteAccount]);
+
+  const handleCancelDeletion = useCallback(async () => {
+    setIsUpdatingDeletion(true);
+    try {
+      await AccountDeletionService.cancelDeletion();
+      Alert.alert('Deletion Cancelled', 'Your account will not be deleted.');
+    } catch (error) {
+      Alert.alert('Could not cancel deletion', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setIsUpdatingDeletion(false);
+    }
+  }, []);
+
+  const deletionDate = toDate(user?.deletionScheduledFor);
+  const isExporting = isRequestingExport || dataExport?.status === 'processing';
+  const exportExpiry = toDate(dataExport?.expiresAt);
+  const isExportAvailable = dataExport?.status === 'ready' && !!dataExport.downloadUrl &&
+    (!exportExpiry || exportExpiry.getTime() > Date.now());
 
   const profileVisibilityOptions = [
     { label: 'Public', value: 'public' },
@@ -246,8 +281,8 @@ export default function PrivacyScreen() {
 
   const messageOptions = [
     { label: 'Everyone', value: 'everyone' },
-    { label: 'Friends', value: 'friends' },
-    { label: 'Nobody', value: 'nobody' },
+    { label: 'Matches', value: 'matches' },
+    { label: 'Nobody', value: 'none' },
   ];
 
   const reviewOptions = [
@@ -271,7 +306,7 @@ export default function PrivacyScreen() {
         <Button
           size="sm"
           onPress={handleSave}
-          disabled={loading}
+          disabled={loading || isLoadingSettings}
         >
           <Text style={{ color: colors.primary }}>
             {loading ? 'Saving...' : 'Save'}
@@ -279,187 +314,246 @@ export default function PrivacyScreen() {
         </Button>
       </View>
 
-      <ScrollView
-        style={styles.scrollView}
-        contentContainerStyle={styles.scrollContent}
-        showsVerticalScrollIndicator={false}
-      >
-        {/* Profile Visibility */}
-        <Card style={styles.section}>
-          <Text style={styles.sectionTitle}>
-            Profile Visibility
-          </Text>
-          
-          <OptionItem
-            icon={<Eye size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Who can see your profile"
-            description="Control who can view your profile information"
-            options={profileVisibilityOptions}
-            selectedValue={settings.profileVisibility}
-            onValueChange={(value) => handleOptionChange('profileVisibility', value)}
-          />
-
-          <SettingItem
-            icon={<Users size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Show age on profile"
-            description="Display your age to other users"
-            value={settings.showAge}
-            onValueChange={() => handleToggleSetting('showAge')}
-          />
-
-          <SettingItem
-            icon={<MapPin size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Show location"
-            description="Display your location to other users"
-            value={settings.showLocation}
-            onValueChange={() => handleToggleSetting('showLocation')}
-          />
-
-          <SettingItem
-            icon={<Eye size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Show last seen"
-            description="Let others see when you were last active"
-            value={settings.showLastSeen}
-            onValueChange={() => handleToggleSetting('showLastSeen')}
-          />
-        </Card>
-
-        {/* Communication */}
-        <Card style={styles.section}>
-          <Text style={styles.sectionTitle}>
-            Communication
-          </Text>
-          
-          <OptionItem
-            icon={<MessageCircle size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Who can message you"
-            description="Control who can send you direct messages"
-            options={messageOptions}
-            selectedValue={settings.allowMessages}
-            onValueChange={(value) => handleOptionChange('allowMessages', value)}
-          />
-
-          <OptionItem
-            icon={<Heart size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Who can review you"
-            description="Control who can write reviews about you"
-            options={reviewOptions}
-            selectedValue={settings.allowReviews}
-            onValueChange={(value) => handleOptionChange('allowReviews', value)}
-          />
-
-          <SettingItem
-            icon={<Eye size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Show reviews on profile"
-            description="Display reviews about you on your profile"
-            value={settings.showReviewsOnProfile}
-            onValueChange={() => handleToggleSetting('showReviewsOnProfile')}
-          />
-        </Card>
-
-        {/* Notifications */}
-        <Card style={styles.section}>
-          <Text style={styles.sectionTitle}>
-            Notifications
-          </Text>
-          
-          <SettingItem
-            icon={<MessageCircle size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Message notifications"
-            description="Get notified when you receive new messages"
-            value={(settings as any)?.allowNotifications?.messages}
-            onValueChange={() => handleToggleSetting('allowNotifications', 'messages')}
-          />
-
-          <SettingItem
-            icon={<Heart size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Review notifications"
-            description="Get notified when someone reviews you"
-            value={settings.allowNotifications.reviews}
-            onValueChange={() => handleToggleSetting('allowNotifications', 'reviews')}
-          />
-
-          <SettingItem
-            icon={<Users size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Match notifications"
-            description="Get notified about new matches"
-            value={settings.allowNotifications.matches}
-            onValueChange={() => handleToggleSetting('allowNotifications', 'matches')}
-          />
-
-          <SettingItem
-            icon={<Bell size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Marketing notifications"
-            description="Receive updates about new features and promotions"
-            value={settings.allowNotifications.marketing}
-            onValueChange={() => handleToggleSetting('allowNotifications', 'marketing')}
-          />
-        </Card>
-
-        {/* Data & Privacy */}
-        <Card style={styles.section}>
-          <Text style={styles.sectionTitle}>
-            Data & Privacy
-          </Text>
-          
-          <SettingItem
-            icon={<Shield size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Analytics data"
-            description="Help improve the app by sharing usage analytics"
-            value={(settings as any)?.dataSharing.analytics}
-            onValueChange={() => handleToggleSetting('dataSharing', 'analytics')}
-          />
-
-          <SettingItem
-            icon={<Eye size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Personalization"
-            description="Use your data to personalize your experience"
-            value={(settings as any)?.dataSharing.personalization}
-            onValueChange={() => handleToggleSetting('dataSharing', 'personalization')}
-          />
-
-          <SettingItem
-            icon={<Lock size={20} color={colors.primary} strokeWidth={1.5} />}
-            title="Third-party sharing"
-            description="Share data with trusted partners for better service"
-            value={(settings as any)?.dataSharing.thirdParty}
-            onValueChange={() => handleToggleSetting('dataSharing', 'thirdParty')}
-          />
-        </Card>
-
-        {/* Account Actions */}
-        <Card style={styles.section}>
-          <Text style={styles.sectionTitle}>
-            Account Actions
-          </Text>
-          
-          <Button
-            onPress={() => Alert.alert('Export Data', 'Your data export will be sent to your email within 24 hours.')}
-            style={styles.actionButton}
-          >
-            <Text style={typography.button}>
-              Export My Data
+      {isLoadingSettings ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Profile Visibility */}
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Profile Visibility
             </Text>
-          </Button>
-
-          <Button
-            onPress={handleDeleteAccount}
-            style={styles.actionButton}
-          >
-            <Text style={typography.button}>
-              Delete Account
+            
+            <OptionItem
+              icon={<Eye size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Who can see your profile"
+              description="Control who can view your profile information"
+              options={profileVisibilityOptions}
+              selectedValue={settings.profileVisibility}
+              onValueChange={(value) => handleOptionChange('profileVisibility', value)}
+            />
+
+            <SettingItem
+              icon={<Users size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Show age on profile"
+              description="Display your age to other users"
+              value={settings.showAge}
+              onValueChange={() => handleToggleSetting('showAge')}
+            />
+
+            <SettingItem
+              icon={<MapPin size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Show location"
+              description="Display your location to other users"
+              value={settings.showLocation}
+              onValueChange={() => handleToggleSetting('showLocation')}
+            />
+
+            <SettingItem
+              icon={<Eye size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Show last seen"
+              description="Let others see when you were last active"
+              value={settings.showLastSeen}
+              onValueChange={() => handleToggleSetting('showLastSeen')}
+            />
+          </Card>
+
+          {/* Communication */}
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Communication
             </Text>
-          </Button>
-        </Card>
-
-        {/* Privacy Policy */}
-        <View style={styles.footer}>
-          <Text style={[typography.caption, { textAlign: 'center' }]}>
-            By using this app, you agree to our Privacy Policy and Terms of Service.
-            Your privacy is important to us and we are committed to protecting your personal information.
-          </Text>
-        </View>
-      </ScrollView>
+            
+            <OptionItem
+              icon={<MessageCircle size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Who can message you"
+              description="Matches are people you already have a conversation with"
+              options={messageOptions}
+              selectedValue={settings.allowMessages}
+              onValueChange={(value) => handleOptionChange('allowMessages', value)}
+            />
+
+            <OptionItem
+              icon={<Heart size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Who can review you"
+              description="Control who can write reviews about you"
+              options={reviewOptions}
+              selectedValue={settings.allowReviews}
+              onValueChange={(value) => handleOptionChange('allowReviews', value)}
+            />
+
+            <SettingItem
+              icon={<Eye size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Show reviews on profile"
+              description="Display reviews about you on your profile"
+              value={settings.showReviewsOnProfile}
+              onValueChange={() => handleToggleSetting('showReviewsOnProfile')}
+            />
+          </Card>
+
+          {/* Notifications */}
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Notifications
+            </Text>
+            
+            <SettingItem
+              icon={<MessageCircle size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Message notifications"
+              description="Get notified when you receive new messages"
+              value={(settings as any)?.allowNotifications?.messages}
+              onValueChange={() => handleToggleSetting('allowNotifications', 'messages')}
+            />
+
+            <SettingItem
+              icon={<Heart size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Review notifications"
+              description="Get notified when someone reviews you"
+              value={settings.allowNotifications.reviews}
+              onValueChange={() => handleToggleSetting('allowNotifications', 'reviews')}
+            />
+
+            <SettingItem
+              icon={<Users size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Match notifications"
+              description="Get notified about new matches"
+              value={settings.allowNotifications.matches}
+              onValueChange={() => handleToggleSetting('allowNotifications', 'matches')}
+            />
+
+            <SettingItem
+              icon={<Bell size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Marketing notifications"
+              description="Receive updates about new features and promotions"
+              value={settings.allowNotifications.marketing}
+              onValueChange={() => handleToggleSetting('allowNotifications', 'marketing')}
+            />
+          </Card>
+
+          {/* Data & Privacy */}
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Data & Privacy
+            </Text>
+            
+            <SettingItem
+              icon={<Shield size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Analytics data"
+              description="Help improve the app by sharing usage analytics"
+              value={(settings as any)?.dataSharing.analytics}
+              onValueChange={() => handleToggleSetting('dataSharing', 'analytics')}
+            />
+
+            <SettingItem
+              icon={<Eye size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Personalization"
+              description="Use your data to personalize your experience"
+              value={(settings as any)?.dataSharing.personalization}
+              onValueChange={() => handleToggleSetting('dataSharing', 'personalization')}
+            />
+
+            <SettingItem
+              icon={<Lock size={20} color={colors.primary} strokeWidth={1.5} />}
+              title="Third-party sharing"
+              description="Share data with trusted partners for better service"
+              value={(settings as any)?.dataSharing.thirdParty}
+              onValueChange={() => handleToggleSetting('dataSharing', 'thirdParty')}
+            />
+          </Card>
+
+          {/* Account Actions */}
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Account Actions
+            </Text>
+            
+            <Button
+              onPress={() => router.push('/profile/blocked')}
+              style={styles.actionButton}
+            >
+              <Text style={typography.button}>
+                Blocked Users
+              </Text>
+            </Button>
+
+            <Button
+              onPress={handleExportData}
+              disabled={isExporting}
+              style={styles.actionButton}
+            >
+              <Text style={typography.button}>
+                {isExporting ? 'Preparing Export...' : 'Export My Data'}
+              </Text>
+            </Button>
+
+            {isExportAvailable && (
+              <View style={styles.exportStatus}>
+                <Text style={typography.caption}>
+                  {exportExpiry
+                    ? `Your export is ready until ${formatDate(exportExpiry, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}.`
+                    : 'Your export is ready.'}
+                </Text>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onPress={handleDownloadExport}
+                  style={styles.optionButton}
+                >
+                  <Text style={[typography.button, { color: colors.text }]}>
+                    Download Export
+                  </Text>
+                </Button>
+              </View>
+            )}
+            {dataExport?.status === 'failed' && !isExporting && (
+              <Text style={[typography.caption, styles.exportStatus, { color: colors.error }]}>
+                {dataExport.error || 'Your last export failed. Please try again.'}
+              </Text>
+            )}
+
+            {deletionDate ? (
+              <View style={styles.exportStatus}>
+                <Text style={[typography.caption, { color: colors.error }]}>
+                  Your account will be deleted on {formatDate(deletionDate, { month: 'long', day: 'numeric', year: 'numeric' })}.
+                </Text>
+                <Button
+                  onPress={handleCancelDeletion}
+                  disabled={isUpdatingDeletion}
+                  style={styles.actionButton}
+                >
+                  <Text style={typography.button}>
+                    {isUpdatingDeletion ? 'Cancelling...' : 'Keep My Account'}
+                  </Text>
+                </Button>
+              </View>
+            ) : (
+              <Button
+                onPress={handleDeleteAccount}
+                disabled={isUpdatingDeletion}
+                style={styles.actionButton}
+              >
+                <Text style={typography.button}>
+                  Delete Account
+                </Text>
+              </Button>
+            )}
+          </Card>
+
+          {/* Privacy Policy */}
+          <View style={styles.footer}>
+            <Text style={[typography.caption, { textAlign: 'center' }]}>
+              By using this app, you agree to our Privacy Policy and Terms of Service.
+              Your privacy is important to us and we are committed to protecting your personal information.
+            </Text>
+          </View>
+        </ScrollView>
+      )}
     </SafeAreaView>
   );
 }
@@ -471,6 +565,10 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  exportStatus: {
+    gap: 8,
+    marginBottom: 12,
+  },
   footer: {
     marginTop: 24,
     paddingHorizontal: 16,
@@ -482,6 +580,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 8,
     paddingVertical: 12,
   },
+  loadingContainer: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+  },
   optionButton: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -5,6 +5,7 @@ import {
   StyleSheet,
   Pressable,
   ScrollView,
+  TextInput,
   Alert,
   Dimensions,
   Share,
@@ -15,15 +16,20 @@ import logger from '../../utils/logger';
 
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter, useLocalSearchParams } from "expo-router";
-import { ArrowLeft, Star, Heart, MessageCircle, Share2, Flag, MoreVertical, ThumbsUp, ThumbsDown, Calendar, MapPin, Camera, Play } from "lucide-react-native";
+import { ArrowLeft, Star, Heart, MessageCircle, Share2, Flag, MoreVertical, ThumbsUp, ThumbsDown, Calendar, MapPin, Camera, Play, Send, X, Users } from "lucide-react-native";
+import { DocumentSnapshot } from "firebase/firestore";
 import { useTheme } from "../../providers/ThemeProvider";
 import { useAuth } from "../../providers/AuthProvider";
 import { Button } from "../../components/ui/Button";
 import Avatar from "../../components/ui/Avatar";
 import Card from "../../components/ui/Card";
-import { Review, Comment, User } from "../../types";
-import { ReviewService } from "../../services/reviewService";
+import ReactionBar from "../../components/ReactionBar";
+import { Review, Comment, User, ReactionType, Subject, SubjectMatch } from "../../types";
+import { getCorroborationScore } from "../../constants/reactions";
+import { ReviewService, MAX_COMMENT_DEPTH } from "../../services/reviewService";
 import { getUserById } from "../../services/userService";
+import { SubjectService } from "../../services/subjectService";
+import { useBlocks } from "../../providers/BlockProvider";
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -54,15 +60,37 @@ const MediaItem = ({ uri, type, onPress }: MediaItemProps) => {
 
 interface CommentItemProps {
   comment: Comment;
+  currentUserId?: string;
   onReply: (comment: Comment) => void;
-  onLike: (commentId: string) => void;
+  onLike: (comment: Comment) => void;
+  onEdit: (comment: Comment) => void;
+  onDelete: (comment: Comment) => void;
+  onReport: (comment: Comment) => void;
+  onShowHistory: (comment: Comment) => void;
 }
 
-const CommentItem = ({ comment, onReply, onLike }: CommentItemProps) => {
+interface CommentThreadState {
+  replies: Comment[];
+  lastDoc: DocumentSnapshot | null;
+  hasMore: boolean;
+  expanded: boolean;
+  loading: boolean;
+}
+
+interface CommentThreadProps extends CommentItemProps {
+  threads: Record<string, CommentThreadState>;
+  onToggleReplies: (comment: Comment) => void;
+  onLoadMoreReplies: (comment: Comment) => void;
+}
+
+const CommentItem = ({ comment, currentUserId, onReply, onLike, onEdit, onDelete, onReport, onShowHistory }: CommentItemProps) => {
   const { colors } = useTheme();
+  const { isBlocked } = useBlocks();
   const [commenter, setCommenter] = useState<User | null>(null);
+  const isAuthorBlocked = isBlocked(comment.userId || comment.authorId);
 
   useEffect(() => {
+    if (isAuthorBlocked) return;
     const fetchCommenter = async () => {
       try {
         const user = await getUserById(comment.userId || comment.authorId || '');
@@ -74,7 +102,7 @@ const CommentItem = ({ comment, onReply, onLike }: CommentItemProps) => {
       }
     };
     fetchCommenter();
-  }, [comment.userId]);
+  }, [comment.userId, comment.authorId, isAuthorBlocked]);
   
   const formatTime = (timestamp: string | any) => {
     const date = timestamp?.toDate ? timestamp.toDate() : new Date(timestamp);
@@ -92,6 +120,20 @@ const CommentItem = ({ comment, onReply, onLike }: CommentItemProps) => {
     }
   };
 
+  const isLiked = !!currentUserId && (comment.likedBy?.includes(currentUserId) || false);
+  const isOwnComment = !!currentUserId && comment.authorId === currentUserId;
+
+  // Deleted and blocked comments keep their slot so replies still have a parent
+  if (comment.isDeleted || isAuthorBlocked) {
+    return (
+      <View style={styles.commentItem}>
+        <Text style={{ color: colors.textSecondary, fontStyle: 'italic', marginLeft: 44 }}>
+          {comment.isDeleted ? 'This comment was deleted' : 'Comment from someone you blocked'}
+        </Text>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.commentItem}>
       <Avatar
@@ -106,29 +148,36 @@ const CommentItem = ({ comment, onReply, onLike }: CommentItemProps) => {
             {commenter?.displayName || commenter?.username || 'Anonymous'}
           </Text>
           <Text style={{ color: colors.textSecondary }}>
-            {formatTime(comment._creationTime || comment.timestamp)}
+            {formatTime(comment._creationTime || comment.timestamp || comment.createdAt)}
           </Text>
         </View>
         <Text style={{ marginTop: 4, lineHeight: 20 }}>
           {comment.content}
         </Text>
+        {comment.isEdited && (
+          <Pressable onPress={() => onShowHistory(comment)} disabled={!isOwnComment}>
+            <Text style={{ color: colors.textSecondary, fontSize: 12, marginTop: 2 }}>
+              (edited)
+            </Text>
+          </Pressable>
+        )}
         <View style={styles.commentActions}>
           <Pressable
-            onPress={() => onLike(comment.id)}
+            onPress={() => onLike(comment)}
             style={styles.commentAction}
           >
             <ThumbsUp
               size={14}
-              color={comment.isLiked ? colors.primary : colors.textSecondary}
+              color={isLiked ? colors.primary : colors.textSecondary}
               strokeWidth={1.5}
-              fill={comment.isLiked ? colors.primary : 'none'}
+              fill={isLiked ? colors.primary : 'none'}
             />
             <Text style={{
-                color: comment.isLiked ? colors.primary : colors.textSecondary,
+                color: isLiked ? colors.primary : colors.textSecondary,
                 marginLeft: 4
               }}
             >
-              {comment.likesCount || 0}
+              {comment.likes ?? comment.likesCount ?? 0}
             </Text>
           </Pressable>
           <Pressable
@@ -140,32 +189,123 @@ const CommentItem = ({ comment, onReply, onLike }: CommentItemProps) => {
               Reply
             </Text>
           </Pressable>
+          {isOwnComment && (
+            <>
+              <Pressable onPress={() => onEdit(comment)} style={styles.commentAction}>
+                <Text style={{ color: colors.textSecondary }}>Edit</Text>
+              </Pressable>
+              <Pressable onPress={() => onDelete(comment)} style={styles.commentAction}>
+                <Text style={{ color: colors.textSecondary }}>Delete</Text>
+              </Pressable>
+            </>
+          )}
+          {!!currentUserId && !isOwnComment && (
+            <Pressable onPress={() => onReport(comment)} style={styles.commentAction}>
+              <Text style={{ color: colors.textSecondary }}>Report</Text>
+            </Pressable>
+          )}
         </View>
       </View>
     </View>
   );
 };
 
+// Renders a comment and, when expanded, its replies one level further in.
+// Replies are fetched per thread so long threads don't load all at once.
+const CommentThread = ({ comment, threads, onToggleReplies, onLoadMoreReplies, ...itemProps }: CommentThreadProps) => {
+  const { colors } = useTheme();
+  const thread = threads[comment.id];
+  const replyCount = comment.replyCount || 0;
+
+  return (
+    <View>
+      <CommentItem comment={comment} {...itemProps} />
+
+      {replyCount > 0 && (
+        <Pressable
+          onPress={() => onToggleReplies(comment)}
+          style={styles.repliesToggle}
+        >
+          <Text style={{ color: colors.primary, fontSize: 13 }}>
+            {thread?.expanded
+              ? 'Hide replies'
+              : `View ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+          </Text>
+        </Pressable>
+      )}
+
+      {thread?.expanded && (
+        <View style={[styles.repliesList, { borderLeftColor: colors.border }]}>
+          {thread.replies.map((reply: Comment) => (
+            <CommentThread
+              key={reply.id}
+              comment={reply}
+              threads={threads}
+              onToggleReplies={onToggleReplies}
+              onLoadMoreReplies={onLoadMoreReplies}
+              {...itemProps}
+            />
+          ))}
+
+          {thread.loading ? (
+            <Text style={[styles.repliesToggle, { color: colors.textSecondary, fontSize: 13 }]}>
+              Loading replies...
+            </Text>
+          ) : thread.hasMore && (
+            <Pressable
+              onPress={() => onLoadMoreReplies(comment)}
+              style={styles.repliesToggle}
+            >
+              <Text style={{ color: colors.primary, fontSize: 13 }}>
+                Load more replies
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
 export default function ReviewDetailScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
   const { colors, tokens, isDark } = useTheme();
   const { user: currentUser } = useAuth();
+  const { isBlocked } = useBlocks();
   const scrollViewRef = useRef<ScrollView>(null);
 
   // State
   const [refreshing, setRefreshing] = useState(false);
   const [isLiked, setIsLiked] = useState(false);
   const [likesCount, setLikesCount] = useState(0);
+  const [userReaction, setUserReaction] = useState<ReactionType | null>(null);
+  const [reacting, setReacting] = useState(false);
   const [showComments, setShowComments] = useState(false);
   const [newComment, setNewComment] = useState('');
   const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [editingComment, setEditingComment] = useState<Comment | null>(null);
   const [review, setReview] = useState<Review | null>(null);
   const [reviewer, setReviewer] = useState<User | null>(null);
   const [reviewee, setReviewee] = useState<User | null>(null);
   const [comments, setComments] = useState<Comment[]>([]);
+  const [commentsCursor, setCommentsCursor] = useState<DocumentSnapshot | null>(null);
+  const [hasMoreComments, setHasMoreComments] = useState(false);
+  const [loadingMoreComments, setLoadingMoreComments] = useState(false);
+  const [threads, setThreads] = useState<Record<string, CommentThreadState>>({});
+  const [postingComment, setPostingComment] = useState(false);
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [subjectMatches, setSubjectMatches] = useState<SubjectMatch[]>([]);
+  const [linkingReviewId, setLinkingReviewId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const applyCommentsPage = useCallback((page: { comments: Comment[]; lastDoc: DocumentSnapshot | null; hasMore: boolean }) => {
+    setComments(page.comments);
+    setCommentsCursor(page.lastDoc);
+    setHasMoreComments(page.hasMore);
+    setThreads({});
+  }, []);
+
   // Fetch review data
   useEffect(() => {
     const fetchReviewData = async () => {
@@ -180,6 +320,9 @@ export default function ReviewDetailScreen() {
           setReview(reviewData);
           setLikesCount(reviewData.likes || 0);
           setIsLiked(reviewData.likedBy?.includes(currentUser?.id || '') || false);
+          if (currentUser?.id) {
+            setUserReaction(await ReviewService.getUserReaction(reviewData.id, currentUser.id));
+          }
           
           // Fetch reviewer with error handling
           if (reviewData.authorId) {
@@ -209,13 +352,13 @@ export default function ReviewDetailScreen() {
           
           // Fetch comments with enhanced error handling
           try {
-            const commentsData = await ReviewService.getComments(reviewData.id);
-            setComments(commentsData || []);
+            const commentsPage = await ReviewService.getComments(reviewData.id);
+            applyCommentsPage(commentsPage);
           } catch (commentsError) {
             if (__DEV__) {
               __DEV__ && console.warn('Could not fetch comments:', commentsError);
             }
-            setComments([]); // Set empty array as fallback
+            applyCommentsPage({ comments: [], lastDoc: null, hasMore: false }); // Empty fallback
           }
         }
       } catch (error) {
@@ -240,7 +383,24 @@ export default function ReviewDetailScreen() {
     };
     
     fetchReviewData();
-  }, [id, currentUser?.id]);
+  }, [id, currentUser?.id, applyCommentsPage]);
+
+  // Person this review is linked to, and other reviews that may be about them
+  const loadSubject = useCallback(async (current: Review) => {
+    const [linkedSubject, matches] = await Promise.all([
+      current.subjectId ? SubjectService.getSubject(current.subjectId) : Promise.resolve(null),
+      SubjectService.findMatches(current, { excludeReviewId: current.id }),
+    ]);
+    setSubject(linkedSubject);
+    setSubjectMatches(matches.filter(match => !current.subjectId || match.review.subjectId !== current.subjectId));
+  }, []);
+
+  useEffect(() => {
+    if (review) {
+      loadSubject(review);
+    }
+    // Only reload when the review or its link changes, not on every counter update
+  }, [review?.id, review?.subjectId, loadSubject]);
 
   // Handlers
   const handleBack = useCallback(() => {
@@ -260,8 +420,8 @@ export default function ReviewDetailScreen() {
         setIsLiked(reviewData.likedBy?.includes(currentUser?.id || '') || false);
         
         // Fetch comments
-        const commentsData = await ReviewService.getComments(reviewData.id);
-        setComments(commentsData);
+        const commentsPage = await ReviewService.getComments(reviewData.id);
+        applyCommentsPage(commentsPage);
       }
     } catch (error) {
       if (__DEV__) {
@@ -270,7 +430,7 @@ export default function ReviewDetailScreen() {
     } finally {
       setRefreshing(false);
     }
-  }, [id, currentUser?.id]);
+  }, [id, currentUser?.id, applyCommentsPage]);
 
   const handleLike = useCallback(async () => {
     if (!review || !currentUser?.id) return;
@@ -286,6 +446,82 @@ export default function ReviewDetailScreen() {
     }
   }, [review, currentUser?.id, isLiked]);
 
+  const handleReaction = useCallback(async (type: ReactionType) => {
+    if (!review || !currentUser?.id || reacting) return;
+
+    setReacting(true);
+    try {
+      const previous = userReaction;
+      const next = await ReviewService.setReaction(review.id, currentUser.id, type);
+
+      setUserReaction(next);
+      setReview(prev => {
+        if (!prev) return prev;
+        const reactionCounts = { ...(prev.reactionCounts || {}) };
+        if (previous) {
+          reactionCounts[previous] = Math.max(0, (reactionCounts[previous] || 0) - 1);
+        }
+        if (next) {
+          reactionCounts[next] = (reactionCounts[next] || 0) + 1;
+        }
+        return {
+          ...prev,
+          reactionCounts,
+          corroborationScore: getCorroborationScore(prev.rating, reactionCounts),
+        };
+      });
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error reacting to review:', error);
+      }
+      Alert.alert('Error', 'Could not save your reaction. Please try again.');
+    } finally {
+      setReacting(false);
+    }
+  }, [review, currentUser?.id, userReaction, reacting]);
+
+  const handleLinkReview = useCallback(async (otherReviewId: string) => {
+    if (!review || linkingReviewId) return;
+
+    setLinkingReviewId(otherReviewId);
+    try {
+      const subjectId = await SubjectService.linkReviews(review.id, otherReviewId);
+      setReview(prev => prev ? { ...prev, subjectId } : prev);
+    } catch (error) {
+      const message = error instanceof Error && error.message ? error.message : 'Could not link these reviews.';
+      Alert.alert('Error', message);
+    } finally {
+      setLinkingReviewId(null);
+    }
+  }, [review, linkingReviewId]);
+
+  const handleUnlinkReview = useCallback(() => {
+    if (!review) return;
+
+    Alert.alert(
+      'Unlink Review',
+      'This review will no longer count towards this person\'s flags.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unlink',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SubjectService.unlinkReview(review.id);
+              setReview(prev => prev ? { ...prev, subjectId: null } : prev);
+            } catch (error) {
+              if (__DEV__) {
+                __DEV__ && console.error('Error unlinking review:', error);
+              }
+              Alert.alert('Error', 'Could not unlink this review. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }, [review]);
+
   const handleShare = useCallback(async () => {
     if (!review) return;
     
@@ -330,19 +566,259 @@ export default function ReviewDetailScreen() {
     Alert.alert('More Options', 'Choose an action', options);
   }, [currentUser, review, handleShare, handleReport]);
 
-  const handleCommentLike = useCallback((commentId: string) => {
-    if (__DEV__) {
-      __DEV__ && console.log('Like comment:', commentId);
-    }
+  // Apply a change to a comment wherever it is shown (top level or in a thread)
+  const updateCommentInState = useCallback((commentId: string, update: (comment: Comment) => Comment) => {
+    const apply = (item: Comment) => item.id === commentId ? update(item) : item;
+    setComments(prev => prev.map(apply));
+    setThreads(prev => {
+      const next: Record<string, CommentThreadState> = {};
+      Object.entries(prev).forEach(([threadId, thread]) => {
+        next[threadId] = { ...thread, replies: thread.replies.map(apply) };
+      });
+      return next;
+    });
   }, []);
 
+  const handleCommentLike = useCallback(async (comment: Comment) => {
+    if (!currentUser?.id) return;
+    const userId = currentUser.id;
+
+    const setLiked = (liked: boolean) => updateCommentInState(comment.id, item => {
+      const likedBy = item.likedBy || [];
+      if (likedBy.includes(userId) === liked) return item;
+      return {
+        ...item,
+        likes: Math.max(0, (item.likes ?? item.likesCount ?? 0) + (liked ? 1 : -1)),
+        likedBy: liked ? [...likedBy, userId] : likedBy.filter(id => id !== userId),
+      };
+    });
+
+    // Update optimistically, then settle on what the transaction decided
+    const wasLiked = comment.likedBy?.includes(userId) || false;
+    setLiked(!wasLiked);
+    try {
+      const liked = await ReviewService.toggleCommentLike(comment.id, userId);
+      setLiked(liked);
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error liking comment:', error);
+      }
+      setLiked(wasLiked);
+    }
+  }, [currentUser?.id, updateCommentInState]);
+
   const handleCommentReply = useCallback((comment: Comment) => {
+    setEditingComment(null);
     setReplyingTo(comment);
-    if (__DEV__) {
-      __DEV__ && console.log('Reply to comment:', comment.id);
+    setShowComments(true);
+  }, []);
+
+  const handleCommentEdit = useCallback((comment: Comment) => {
+    setReplyingTo(null);
+    setEditingComment(comment);
+    setNewComment(comment.content);
+  }, []);
+
+  const handleCancelCompose = useCallback(() => {
+    if (editingComment) {
+      setNewComment('');
     }
+    setEditingComment(null);
+    setReplyingTo(null);
+  }, [editingComment]);
+
+  const handleCommentDelete = useCallback((comment: Comment) => {
+    if (!review) return;
+
+    Alert.alert(
+      'Delete Comment',
+      'Your comment will be removed. Replies to it will stay.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ReviewService.deleteComment(comment.id, review.id);
+              updateCommentInState(comment.id, item => ({ ...item, content: '', isDeleted: true }));
+              setReview(prev => prev ? {
+                ...prev,
+                comments: ((prev.comments || []) as string[]).filter(commentId => commentId !== comment.id),
+              } : prev);
+            } catch (error) {
+              if (__DEV__) {
+                __DEV__ && console.error('Error deleting comment:', error);
+              }
+              Alert.alert('Error', 'Could not delete your comment. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }, [review, updateCommentInState]);
+
+  const handleCommentReport = useCallback((comment: Comment) => {
+    const userId = currentUser?.id;
+    if (!userId) return;
+
+    const report = async (reason: string) => {
+      try {
+        await ReviewService.reportComment(comment.id, userId, reason);
+        Alert.alert('Thanks for letting us know', 'Our moderators will take a look at this comment.');
+      } catch (error) {
+        if (__DEV__) {
+          __DEV__ && console.error('Error reporting comment:', error);
+        }
+        Alert.alert('Error', 'Could not send your report. Please try again.');
+      }
+    };
+
+    Alert.alert(
+      'Report Comment',
+      'Why are you reporting this comment?',
+      [
+        { text: 'Harassment or bullying', onPress: () => report('Harassment or bullying') },
+        { text: 'Personal information', onPress: () => report('Personal information') },
+        { text: 'Spam or scam', onPress: () => report('Spam or scam') },
+        { text: 'Hate speech or threats', onPress: () => report('Hate speech or threats') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  }, [currentUser?.id]);
+
+  const handleCommentHistory = useCallback(async (comment: Comment) => {
+    const revisions = await ReviewService.getCommentRevisions(comment.id);
+    if (revisions.length === 0) return;
+
+    Alert.alert(
+      'Edit History',
+      revisions.map(revision => `• ${revision.content}`).join('\n\n')
+    );
   }, []);
 
+  const loadReplies = useCallback(async (parent: Comment, lastDoc?: DocumentSnapshot) => {
+    setThreads(prev => ({
+      ...prev,
+      [parent.id]: {
+        replies: prev[parent.id]?.replies || [],
+        lastDoc: prev[parent.id]?.lastDoc || null,
+        hasMore: prev[parent.id]?.hasMore || false,
+        expanded: true,
+        loading: true,
+      },
+    }));
+
+    const page = await ReviewService.getReplies(parent.id, lastDoc);
+    setThreads(prev => {
+      const existing = lastDoc ? prev[parent.id]?.replies || [] : [];
+      const seen = new Set(existing.map(reply => reply.id));
+      return {
+        ...prev,
+        [parent.id]: {
+          replies: [...existing, ...page.comments.filter(reply => !seen.has(reply.id))],
+          lastDoc: page.lastDoc,
+          hasMore: page.hasMore,
+          expanded: true,
+          loading: false,
+        },
+      };
+    });
+  }, []);
+
+  const handleToggleReplies = useCallback((parent: Comment) => {
+    const thread = threads[parent.id];
+    if (thread?.expanded) {
+      setThreads(prev => ({ ...prev, [parent.id]: { ...prev[parent.id], expanded: false } }));
+    } else if (thread?.replies.length) {
+      // Replies were already fetched; just show them again
+      setThreads(prev => ({ ...prev, [parent.id]: { ...prev[parent.id], expanded: true } }));
+    } else {
+      loadReplies(parent);
+    }
+  }, [threads, loadReplies]);
+
+  const handleLoadMoreReplies = useCallback((parent: Comment) => {
+    const thread = threads[parent.id];
+    if (!thread || thread.loading || !thread.lastDoc) return;
+    loadReplies(parent, thread.lastDoc);
+  }, [threads, loadReplies]);
+
+  const handleLoadMoreComments = useCallback(async () => {
+    if (!review || !commentsCursor || loadingMoreComments) return;
+
+    setLoadingMoreComments(true);
+    try {
+      const page = await ReviewService.getComments(review.id, commentsCursor);
+      setComments(prev => [...prev, ...page.comments]);
+      setCommentsCursor(page.lastDoc);
+      setHasMoreComments(page.hasMore);
+    } finally {
+      setLoadingMoreComments(false);
+    }
+  }, [review, commentsCursor, loadingMoreComments]);
+
+  const handleSubmitComment = useCallback(async () => {
+    const content = newComment.trim();
+    if (!review || !currentUser?.id || !content || postingComment) return;
+
+    setPostingComment(true);
+    try {
+      if (editingComment) {
+        await ReviewService.editComment(editingComment.id, currentUser.id, content);
+        if (content !== editingComment.content) {
+          updateCommentInState(editingComment.id, item => ({ ...item, content, isEdited: true }));
+        }
+        setNewComment('');
+        setEditingComment(null);
+        return;
+      }
+
+      const comment = await ReviewService.addComment(review.id, {
+        authorId: currentUser.id,
+        content,
+        parentId: replyingTo?.id || null,
+      });
+
+      if (comment.parentId) {
+        // Show the new reply under its parent (which may be a grandparent
+        // when the thread was already at MAX_COMMENT_DEPTH)
+        const parentId = comment.parentId;
+        updateCommentInState(parentId, item => ({ ...item, replyCount: (item.replyCount || 0) + 1 }));
+        setThreads(prev => ({
+          ...prev,
+          [parentId]: {
+            replies: [...(prev[parentId]?.replies || []), comment],
+            lastDoc: prev[parentId]?.lastDoc || null,
+            hasMore: prev[parentId]?.hasMore || false,
+            expanded: true,
+            loading: false,
+          },
+        }));
+      } else if (!hasMoreComments) {
+        // Only append when the last page is loaded, otherwise it would
+        // appear out of order and again once that page is fetched
+        setComments(prev => [...prev, comment]);
+      }
+
+      setReview(prev => prev ? { ...prev, comments: [...((prev.comments || []) as string[]), comment.id] } : prev);
+      setNewComment('');
+      setReplyingTo(null);
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error posting comment:', error);
+      }
+      Alert.alert('Error', editingComment
+        ? 'Could not save your changes. Please try again.'
+        : 'Could not post your comment. Please try again.');
+    } finally {
+      setPostingComment(false);
+    }
+  }, [review, currentUser?.id, newComment, replyingTo, editingComment, postingComment, hasMoreComments, updateCommentInState]);
+
+  // Includes replies; the loaded top-level list is only the first page
+  const commentCount = Array.isArray(review?.comments) ? review.comments.length : comments.length;
+
   const handleMediaPress = useCallback((uri: string, type: 'image' | 'video') => {
     if (__DEV__) {
       __DEV__ && console.log('Open media:', uri, type);
@@ -400,7 +876,7 @@ export default function ReviewDetailScreen() {
     );
   }
 
-  if (!review) {
+  if (!review || isBlocked(review.authorId)) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
         <View style={styles.header}>
@@ -415,10 +891,12 @@ export default function ReviewDetailScreen() {
         <View style={styles.emptyState}>
           <Star size={48} color={colors.textSecondary} strokeWidth={1} />
           <Text style={{ marginTop: 16, textAlign: 'center' }}>
-            Review Not Found
+            {review ? 'Review Hidden' : 'Review Not Found'}
           </Text>
           <Text style={{ color: colors.textSecondary, textAlign: 'center', marginTop: 8 }}>
-            This review doesn't exist or has been deleted.
+            {review
+              ? 'You blocked the author of this review.'
+              : 'This review doesn\'t exist or has been deleted.'}
           </Text>
           <Button
             onPress={handleBack}
@@ -613,7 +1091,7 @@ export default function ReviewDetailScreen() {
             >
               <MessageCircle size={20} color={colors.textSecondary} strokeWidth={1.5} />
               <Text style={{ color: colors.textSecondary, marginLeft: 6 }}>
-                {comments.length}
+                {commentCount}
               </Text>
             </Pressable>
 
@@ -624,13 +1102,86 @@ export default function ReviewDetailScreen() {
               </Text>
             </Pressable>
           </View>
+
+          {/* Reactions */}
+          <View style={styles.reactionsContainer}>
+            <ReactionBar
+              counts={review.reactionCounts}
+              selected={userReaction}
+              onSelect={handleReaction}
+              disabled={!currentUser?.id || reacting}
+            />
+            {(review.corroborationScore || 0) > 0 && (
+              <Text style={{ color: colors.success, fontSize: 13, marginTop: 8 }}>
+                {review.corroborationScore} {review.corroborationScore === 1 ? 'person reports' : 'people report'} the same experience
+              </Text>
+            )}
+          </View>
         </Card>
 
+        {/* Same person across reviews */}
+        {(subject || subjectMatches.length > 0) && (
+          <Card style={styles.subjectCard}>
+            <View style={styles.subjectHeader}>
+              <Users size={18} color={colors.primary} strokeWidth={1.5} />
+              <Text style={{ color: colors.text, fontWeight: '600', marginLeft: 8, flex: 1 }}>
+                About {subject?.displayName || review.targetName || 'this person'}
+              </Text>
+              {subject && currentUser?.id === review.authorId && (
+                <Pressable onPress={handleUnlinkReview} hitSlop={8}>
+                  <Text style={{ color: colors.textSecondary, fontSize: 13 }}>Unlink</Text>
+                </Pressable>
+              )}
+            </View>
+
+            {subject && (
+              <Text style={{ color: colors.textSecondary, marginTop: 8 }}>
+                {subject.reviewCount} linked {subject.reviewCount === 1 ? 'review' : 'reviews'} · 🟢 {subject.greenFlagCount} green · 🔴 {subject.redFlagCount} red
+              </Text>
+            )}
+
+            {subjectMatches.length > 0 && (
+              <>
+                <Text style={{ color: colors.textSecondary, fontSize: 13, marginTop: 12 }}>
+                  Other reviews that may be about this person
+                </Text>
+                {subjectMatches.map(({ review: match, reasons }) => (
+                  <Pressable
+                    key={match.id}
+                    onPress={() => router.push(`/review/${match.id}`)}
+                    style={[styles.subjectMatch, { borderTopColor: colors.border }]}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ color: colors.text }} numberOfLines={1}>
+                        {match.rating >= 3 ? '🟢' : '🔴'} {match.title || match.targetName}
+                      </Text>
+                      <Text style={{ color: colors.textSecondary, fontSize: 12, marginTop: 2 }} numberOfLines={1}>
+                        {[match.targetName, ...reasons].join(' · ')}
+                      </Text>
+                    </View>
+                    {currentUser?.id === review.authorId && currentUser?.id === match.authorId && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onPress={() => handleLinkReview(match.id)}
+                        loading={linkingReviewId === match.id}
+                        disabled={!!linkingReviewId}
+                      >
+                        Same person
+                      </Button>
+                    )}
+                  </Pressable>
+                ))}
+              </>
+            )}
+          </Card>
+        )}
+
         {/* Comments Section */}
         {showComments && (
           <Card style={styles.commentsCard}>
             <Text style={styles.commentsTitle}>
-              Comments ({comments.length})
+              Comments ({commentCount})
             </Text>
             
             {comments.length === 0 ? (
@@ -643,13 +1194,68 @@ export default function ReviewDetailScreen() {
             ) : (
               <View style={styles.commentsList}>
                 {comments.map((comment: Comment) => (
-                  <CommentItem
+                  <CommentThread
                     key={comment.id}
                     comment={comment}
+                    threads={threads}
+                    currentUserId={currentUser?.id}
                     onReply={handleCommentReply}
                     onLike={handleCommentLike}
+                    onEdit={handleCommentEdit}
+                    onDelete={handleCommentDelete}
+                    onReport={handleCommentReport}
+                    onShowHistory={handleCommentHistory}
+                    onToggleReplies={handleToggleReplies}
+                    onLoadMoreReplies={handleLoadMoreReplies}
                   />
                 ))}
+
+                {hasMoreComments && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onPress={handleLoadMoreComments}
+                    loading={loadingMoreComments}
+                  >
+                    Load more comments
+                  </Button>
+                )}
+              </View>
+            )}
+
+            {currentUser?.id && (
+              <View style={styles.composer}>
+                {(replyingTo || editingComment) && (
+                  <View style={styles.replyingToBanner}>
+                    <Text style={{ color: colors.textSecondary, flex: 1, fontSize: 13 }} numberOfLines={1}>
+                      {editingComment
+                        ? 'Editing your comment'
+                        : `Replying to "${replyingTo?.content}"${(replyingTo?.depth || 0) >= MAX_COMMENT_DEPTH ? ' (in the same thread)' : ''}`}
+                    </Text>
+                    <Pressable onPress={handleCancelCompose} hitSlop={8}>
+                      <X size={16} color={colors.textSecondary} strokeWidth={1.5} />
+                    </Pressable>
+                  </View>
+                )}
+                <View style={[styles.composerInputWrapper, { backgroundColor: colors.surfaceElevated, borderColor: colors.border }]}>
+                  <TextInput
+                    style={[styles.composerInput, { color: colors.text }]}
+                    placeholder={editingComment ? 'Edit your comment...' : replyingTo ? 'Write a reply...' : 'Add a comment...'}
+                    placeholderTextColor={colors.textSecondary}
+                    value={newComment}
+                    onChangeText={setNewComment}
+                    multiline
+                    maxLength={1000}
+                    editable={!postingComment}
+                  />
+                  <Pressable
+                    onPress={handleSubmitComment}
+                    disabled={!newComment.trim() || postingComment}
+                    style={styles.composerSend}
+                  >
+                    <Send size={18} color={newComment.trim() ? colors.primary : colors.textSecondary} strokeWidth={1.5} />
+                  </Pressable>
+                </View>
               </View>
             )}
           </Card>
@@ -718,6 +1324,25 @@ const styles = StyleSheet.create({
   commentsTitle: {
     marginBottom: 16,
   },
+  composer: {
+    marginTop: 16,
+  },
+  composerInput: {
+    flex: 1,
+    fontSize: 15,
+    maxHeight: 100,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  composerInputWrapper: {
+    alignItems: 'flex-end',
+    borderRadius: 20,
+    borderWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+  },
+  composerSend: {
+    padding: 10,
+  },
   container: {
     flex: 1,
   },
@@ -775,6 +1400,43 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     flexDirection: 'row',
   },
+  reactionsContainer: {
+    marginTop: 12,
+  },
+  repliesList: {
+    borderLeftWidth: 2,
+    gap: 12,
+    marginLeft: 16,
+    marginTop: 8,
+    paddingLeft: 12,
+  },
+  repliesToggle: {
+    marginLeft: 44,
+    marginTop: 6,
+  },
+  replyingToBanner: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  subjectCard: {
+    margin: 16,
+    marginTop: 0,
+    padding: 16,
+  },
+  subjectHeader: {
+    alignItems: 'center',
+    flexDirection: 'row',
+  },
+  subjectMatch: {
+    alignItems: 'center',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+    paddingTop: 8,
+  },
   reviewCard: {
     margin: 16,
     padding: 16,
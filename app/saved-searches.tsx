@@ -0,0 +1,241 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { ArrowLeft, Bookmark, BellOff, Trash2 } from "lucide-react-native";
+import { useTheme } from "../providers/ThemeProvider";
+import { useAuth } from "../providers/AuthProvider";
+import { Button } from "../components/ui/Button";
+import Card from "../components/ui/Card";
+import { SavedSearchService } from "../services/savedSearchService";
+import { formatRelativeTime } from "../utils/timestampHelpers";
+import type { SavedSearch } from "../types";
+
+const MILES_TO_KM = 1.609344;
+
+// "Men · Red flags · Tinder · Within 25 mi"
+const describeFilters = (filters: SavedSearch['filters']): string => {
+  const parts: string[] = [];
+  if (filters.category) parts.push(filters.category);
+  if (filters.flag) parts.push(filters.flag === 'green' ? 'Green flags' : 'Red flags');
+  if (filters.platform) parts.push(filters.platform);
+  if (filters.radiusKm) parts.push(`Within ${Math.round(filters.radiusKm / MILES_TO_KM)} mi`);
+  return parts.length > 0 ? parts.join(' · ') : 'All reviews';
+};
+
+interface SavedSearchItemProps {
+  search: SavedSearch;
+  onOpen: (search: SavedSearch) => void;
+  onToggleMuted: (search: SavedSearch) => void;
+  onDelete: (search: SavedSearch) => void;
+}
+
+function SavedSearchItem({ search, onOpen, onToggleMuted, onDelete }: SavedSearchItemProps) {
+  const { colors } = useTheme();
+
+  return (
+    <Card style={styles.itemCard}>
+      <TouchableOpacity onPress={() => onOpen(search)} accessibilityRole="button">
+        <Text style={{ color: colors.text, fontWeight: '600' }} numberOfLines={1}>
+          {search.name}
+        </Text>
+        {search.name !== search.query && (
+          <Text style={{ color: colors.textSecondary, marginTop: 2 }} numberOfLines={1}>
+            “{search.query}”
+          </Text>
+        )}
+        <Text style={{ color: colors.textSecondary, marginTop: 4 }}>
+          {describeFilters(search.filters || {})}
+        </Text>
+        <Text style={{ color: colors.textSecondary, marginTop: 4, fontSize: 12 }}>
+          {search.matchCount > 0
+            ? `${search.matchCount} new match${search.matchCount === 1 ? '' : 'es'} · last ${formatRelativeTime(search.lastMatchedAt)}`
+            : 'No new matches yet'}
+        </Text>
+      </TouchableOpacity>
+
+      <View style={styles.itemActions}>
+        <View style={styles.muteRow}>
+          {search.muted && <BellOff size={16} color={colors.textSecondary} strokeWidth={1.5} />}
+          <Text style={{ color: colors.textSecondary, marginLeft: search.muted ? 6 : 0 }}>
+            {search.muted ? 'Muted' : 'Alerts on'}
+          </Text>
+        </View>
+        <Switch
+          value={!search.muted}
+          onValueChange={() => onToggleMuted(search)}
+          trackColor={{ false: colors.border, true: colors.primary }}
+          thumbColor={!search.muted ? colors.background : colors.textSecondary}
+          accessibilityLabel={`Alerts for ${search.name}`}
+        />
+        <TouchableOpacity
+          onPress={() => onDelete(search)}
+          style={styles.deleteButton}
+          accessibilityRole="button"
+          accessibilityLabel={`Delete ${search.name}`}
+        >
+          <Trash2 size={18} color={colors.error} strokeWidth={1.5} />
+        </TouchableOpacity>
+      </View>
+    </Card>
+  );
+}
+
+export default function SavedSearchesScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { user } = useAuth();
+  const [searches, setSearches] = useState<SavedSearch[] | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    return SavedSearchService.subscribeToSavedSearches(user.id, setSearches);
+  }, [user?.id]);
+
+  const handleOpen = useCallback((search: SavedSearch) => {
+    router.push({ pathname: '/(tabs)/search', params: { savedSearchId: search.id } });
+  }, [router]);
+
+  const handleToggleMuted = useCallback(async (search: SavedSearch) => {
+    try {
+      await SavedSearchService.setMuted(search.id, !search.muted);
+    } catch {
+      Alert.alert('Error', 'Failed to update the saved search. Please try again.');
+    }
+  }, []);
+
+  const handleDelete = useCallback((search: SavedSearch) => {
+    Alert.alert(
+      'Delete saved search',
+      `Stop getting alerts for "${search.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SavedSearchService.deleteSavedSearch(search.id);
+            } catch {
+              Alert.alert('Error', 'Failed to delete the saved search. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const renderBody = () => {
+    if (searches === null) {
+      return <ActivityIndicator style={styles.loading} color={colors.primary} />;
+    }
+
+    if (searches.length === 0) {
+      return (
+        <Card style={styles.emptyState}>
+          <Bookmark size={48} color={colors.textSecondary} strokeWidth={1} />
+          <Text style={{ marginTop: 16, textAlign: 'center', color: colors.text }}>
+            No saved searches
+          </Text>
+          <Text style={{ color: colors.textSecondary, textAlign: 'center', marginTop: 8 }}>
+            Save a search to get notified when new reviews match it.
+          </Text>
+        </Card>
+      );
+    }
+
+    return searches.map((search) => (
+      <SavedSearchItem
+        key={search.id}
+        search={search}
+        onOpen={handleOpen}
+        onToggleMuted={handleToggleMuted}
+        onDelete={handleDelete}
+      />
+    ));
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Button
+          size="sm"
+          onPress={() => router.back()}
+          leftIcon={<ArrowLeft size={20} color={colors.text} strokeWidth={1.5} />}
+        />
+        <Text style={{ color: colors.text, fontWeight: '600' }}>
+          Saved Searches
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {renderBody()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  deleteButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 32,
+    padding: 32,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  itemActions: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  itemCard: {
+    marginBottom: 12,
+    padding: 16,
+  },
+  loading: {
+    marginTop: 48,
+  },
+  muteRow: {
+    alignItems: 'center',
+    flex: 1,
+    flexDirection: 'row',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingTop: 0,
+  },
+  scrollView: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Linking,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { FileText, ImageOff, RotateCcw } from 'lucide-react-native';
+import { useTheme } from '../providers/ThemeProvider';
+import { ChatService } from '../services/chatService';
+import type { ChatMessage } from '../types';
+
+const MAX_IMAGE_WIDTH = 220;
+const MAX_IMAGE_HEIGHT = 280;
+
+// Upload in progress on this device, keyed by message id in the chat screen
+export interface AttachmentUploadState {
+  progress: number;
+  failed: boolean;
+}
+
+interface ChatAttachmentViewProps {
+  message: ChatMessage;
+  isOwn: boolean;
+  upload?: AttachmentUploadState;
+  onRetry?: () => void;
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Fit the image's own aspect ratio inside the bubble
+const imageSize = (width?: number, height?: number) => {
+  if (!width || !height) return { width: MAX_IMAGE_WIDTH, height: MAX_IMAGE_WIDTH * 0.75 };
+  const scale = Math.min(MAX_IMAGE_WIDTH / width, MAX_IMAGE_HEIGHT / height, 1);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+export const ChatAttachmentView: React.FC<ChatAttachmentViewProps> = ({
+  message,
+  isOwn,
+  upload,
+  onRetry,
+}) => {
+  const { colors } = useTheme();
+  const attachment = message.attachment;
+  const [url, setUrl] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const isImage = message.messageType === 'image';
+  const isUploaded = attachment?.status === 'sent';
+  const isRejected = message.moderationStatus === 'rejected';
+  // Other members only see images once screening has passed them
+  const isScreened = !isImage || message.moderationStatus === 'approved';
+  const canShow = isUploaded && !isRejected && (isOwn || isScreened);
+
+  // Images show their resized copy once Cloud Functions has made it
+  const displayPath = (isImage && attachment?.thumbnailPath) || attachment?.path;
+
+  useEffect(() => {
+    if (!displayPath || !canShow) return;
+
+    let cancelled = false;
+    ChatService.getAttachmentUrl(displayPath)
+      .then(value => { if (!cancelled) setUrl(value); })
+      .catch(() => { if (!cancelled) setLoadFailed(true); });
+    return () => { cancelled = true; };
+  }, [displayPath, canShow]);
+
+  if (!attachment) return null;
+
+  const textColor = isOwn ? colors.background : colors.text;
+  const mutedColor = isOwn ? colors.background + 'B3' : colors.textSecondary;
+
+  if (isRejected) {
+    return (
+      <View style={styles.notice}>
+        <ImageOff size={16} color={mutedColor} strokeWidth={1.5} />
+        <Text style={[styles.noticeText, { color: mutedColor }]}>
+          Removed by moderation
+        </Text>
+      </View>
+    );
+  }
+
+  const failed = upload?.failed || attachment.status === 'failed';
+  let status: string | null = null;
+  if (failed) {
+    status = isOwn && onRetry ? 'Upload failed. Tap to retry' : 'Upload failed';
+  } else if (!isUploaded) {
+    status = upload ? `Uploading ${Math.round(upload.progress * 100)}%` : 'Uploading...';
+  } else if (isImage && message.moderationStatus === 'pending') {
+    status = 'Awaiting review';
+  } else if (isImage && !message.moderationStatus) {
+    status = 'Checking image...';
+  } else if (loadFailed) {
+    status = 'Could not load attachment';
+  }
+
+  const statusRow = status && (
+    <Pressable
+      style={styles.notice}
+      onPress={failed && isOwn ? onRetry : undefined}
+      disabled={!(failed && isOwn && onRetry)}
+      accessibilityRole={failed && isOwn && onRetry ? 'button' : undefined}
+    >
+      {failed && isOwn && onRetry && <RotateCcw size={14} color={mutedColor} strokeWidth={1.5} />}
+      <Text style={[styles.noticeText, { color: mutedColor }]}>{status}</Text>
+    </Pressable>
+  );
+
+  const progressBar = upload && !failed && !isUploaded && (
+    <View style={[styles.progressTrack, { backgroundColor: mutedColor + '40' }]}>
+      <View style={[styles.progressFill, { backgroundColor: textColor, width: `${Math.round(upload.progress * 100)}%` }]} />
+    </View>
+  );
+
+  if (isImage) {
+    const size = imageSize(attachment.width, attachment.height);
+    return (
+      <View>
+        <Image
+          source={canShow && url ? { uri: url } : undefined}
+          placeholder={attachment.blurhash ? { blurhash: attachment.blurhash } : undefined}
+          style={[styles.image, size, { backgroundColor: colors.border }]}
+          contentFit="cover"
+          transition={200}
+          accessibilityLabel={attachment.name}
+        />
+        {progressBar}
+        {statusRow}
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <Pressable
+        style={styles.file}
+        onPress={() => url && Linking.openURL(url)}
+        disabled={!url}
+        accessibilityRole="link"
+        accessibilityLabel={`Open ${attachment.name}`}
+      >
+        <FileText size={24} color={textColor} strokeWidth={1.5} />
+        <View style={styles.fileInfo}>
+          <Text style={{ color: textColor }} numberOfLines={1}>
+            {attachment.name}
+          </Text>
+          <Text style={[styles.fileSize, { color: mutedColor }]}>
+            {formatSize(attachment.size)}
+          </Text>
+        </View>
+      </Pressable>
+      {progressBar}
+      {statusRow}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  file: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: 8,
+    maxWidth: MAX_IMAGE_WIDTH,
+  },
+  fileInfo: {
+    flexShrink: 1,
+  },
+  fileSize: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  image: {
+    borderRadius: 12,
+  },
+  notice: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: 4,
+    marginTop: 4,
+  },
+  noticeText: {
+    fontSize: 12,
+  },
+  progressFill: {
+    borderRadius: 2,
+    height: 4,
+  },
+  progressTrack: {
+    borderRadius: 2,
+    height: 4,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+});
+
+export default ChatAttachmentView;
@@ -0,0 +1,139 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Modal,
+} from 'react-native';
+import { Reply, Pencil, Trash2 } from 'lucide-react-native';
+import { useTheme } from '../providers/ThemeProvider';
+import { CHAT_REACTIONS } from '../constants/reactions';
+
+interface ChatMessageActionsProps {
+  visible: boolean;
+  myReaction?: string | null;
+  canReact: boolean;
+  canReply: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  onReact: (emoji: string | null) => void;
+  onReply: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+// Actions for a long-pressed chat message: a reaction row and the message
+// actions the user is allowed to take
+export const ChatMessageActions: React.FC<ChatMessageActionsProps> = ({
+  visible,
+  myReaction,
+  canReact,
+  canReply,
+  canEdit,
+  canDelete,
+  onReact,
+  onReply,
+  onEdit,
+  onDelete,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+
+  const actions = [
+    canReply && { label: 'Reply', icon: Reply, onPress: onReply, color: colors.text },
+    canEdit && { label: 'Edit', icon: Pencil, onPress: onEdit, color: colors.text },
+    canDelete && { label: 'Delete for everyone', icon: Trash2, onPress: onDelete, color: colors.error },
+  ].filter(Boolean) as { label: string; icon: typeof Reply; onPress: () => void; color: string }[];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={[styles.sheet, { backgroundColor: colors.card }]} onPress={() => {}}>
+          {canReact && (
+            <View style={styles.reactions}>
+              {CHAT_REACTIONS.map(emoji => {
+                const isSelected = myReaction === emoji;
+                return (
+                  <Pressable
+                    key={emoji}
+                    style={[styles.reaction, isSelected && { backgroundColor: colors.primary + '26' }]}
+                    onPress={() => onReact(isSelected ? null : emoji)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isSelected }}
+                    accessibilityLabel={isSelected ? `Remove ${emoji} reaction` : `React with ${emoji}`}
+                  >
+                    <Text style={styles.reactionEmoji}>{emoji}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+
+          {actions.map(action => {
+            const Icon = action.icon;
+            return (
+              <Pressable
+                key={action.label}
+                style={[styles.action, { borderTopColor: colors.border }]}
+                onPress={action.onPress}
+                accessibilityRole="button"
+              >
+                <Icon size={18} color={action.color} strokeWidth={1.5} />
+                <Text style={[styles.actionLabel, { color: action.color }]}>{action.label}</Text>
+              </Pressable>
+            );
+          })}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  action: {
+    alignItems: 'center',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 14,
+  },
+  actionLabel: {
+    fontSize: 16,
+  },
+  overlay: {
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  reaction: {
+    alignItems: 'center',
+    borderRadius: 20,
+    height: 40,
+    justifyContent: 'center',
+    width: 40,
+  },
+  reactionEmoji: {
+    fontSize: 24,
+  },
+  reactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingBottom: 12,
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 32,
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+});
+
+export default ChatMessageActions;
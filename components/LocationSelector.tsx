@@ -20,16 +20,9 @@ import logger from '../utils/logger';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../providers/ThemeProvider';
 import { LocationService } from '../services/locationService';
+import type { Place } from '../types';
 
-interface LocationData {
-  id: string;
-  name: string;
-  city?: string;
-  region?: string;
-  country?: string;
-  coordinates: [number, number];
-  type?: string;
-}
+type LocationData = Place;
 
 interface LocationSelection {
   type: 'current' | 'selected' | 'global';
@@ -265,14 +258,18 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
       style={[styles.searchResultItem, { borderBottomColor: colors.border }]}
       onPress={() => handleLocationSelect(item)}
     >
-      <Ionicons name="location-outline" size={20} color={colors.textSecondary} />
+      <Ionicons
+        name={item.type === 'region' ? 'map-outline' : 'location-outline'}
+        size={20}
+        color={colors.textSecondary}
+      />
       <View style={styles.searchResultContent}>
         <Text style={[styles.searchResultName, { color: colors.text }]}>
           {item.name}
         </Text>
-        {item.city && (
+        {item.fullName !== item.name && (
           <Text style={[styles.searchResultDetails, { color: colors.textSecondary }]}>
-            {item.city}{item.region && `, ${item.region}`}{item.country && `, ${item.country}`}
+            {item.fullName}
           </Text>
         )}
       </View>
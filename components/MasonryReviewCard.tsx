@@ -10,13 +10,14 @@ import {
   Pressable,
 } from 'react-native';
 import { Image } from "expo-image";
-import { Star, ThumbsUp, MessageCircle, Share2, MapPin } from "lucide-react-native";
+import { Star, MessageCircle, Share2, MapPin, ShieldCheck } from "lucide-react-native";
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { useTheme } from "../providers/ThemeProvider";
 import { BORDER_RADIUS, SHADOWS } from '../constants/shadows';
 import { tokens } from '../constants/tokens';
 import { createTypographyStyles } from '../styles/typography';
+import ReactionBar from './ReactionBar';
 
 const CARD_PADDING = tokens.spacing.xs;
 
@@ -33,9 +34,6 @@ const MasonryReviewCard: React.FC<MasonryReviewCardProps> = ({
 }) => {
   const { colors, isDark } = useTheme();
   const typography = createTypographyStyles(colors);
-  const [liked, setLiked] = React.useState(false);
-  const [likeCount, setLikeCount] = React.useState(review?.helpfulCount || 0);
-  const [isLiking, setIsLiking] = React.useState(false);
   const [isSharing, setIsSharing] = React.useState(false);
   const scaleAnim = React.useRef(new Animated.Value(1)).current;
   
@@ -68,37 +66,6 @@ const MasonryReviewCard: React.FC<MasonryReviewCardProps> = ({
     onPress();
   };
 
-  // Enhanced like handler with haptic feedback
-  const handleLike = async () => {
-    if (isLiking) return;
-    
-    try {
-      setIsLiking(true);
-      
-      // Haptic feedback for interaction
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      
-      // Optimistic UI update
-      const newLiked = !liked;
-      setLiked(newLiked);
-      setLikeCount((prev: number) => newLiked ? prev + 1 : Math.max(0, prev - 1));
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 300));
-    } catch (error: any) {
-      if (__DEV__) {
-        __DEV__ && console.error('Error liking review:', error);
-      }
-      // Revert optimistic update on error
-      setLiked(!liked);
-      setLikeCount((prev: number) => liked ? prev + 1 : Math.max(0, prev - 1));
-      
-      Alert.alert('Error', 'Failed to update like. Please try again.');
-    } finally {
-      setIsLiking(false);
-    }
-  };
-  
   const handleShare = async () => {
     if (isSharing) return;
     
@@ -226,7 +193,7 @@ const MasonryReviewCard: React.FC<MasonryReviewCardProps> = ({
         <View 
           style={styles.content}
           accessibilityRole="text"
-          accessibilityLabel={`Review: ${review.title || 'Untitled'}. Target: ${review.targetUserId || 'Anonymous'}. ${likeCount} likes`}
+          accessibilityLabel={`Review: ${review.title || 'Untitled'}. Target: ${review.targetUserId || 'Anonymous'}`}
         >
           <Text style={[typography.h4, styles.title]} numberOfLines={2}>
             {review.title || 'Untitled Review'}
@@ -281,26 +248,10 @@ const MasonryReviewCard: React.FC<MasonryReviewCardProps> = ({
 
         {/* Bottom Action Bar */}
         <View style={[styles.actionBar, { borderTopColor: colors.borderSubtle }]}>
-          <TouchableOpacity 
-            style={styles.actionButton}
-            onPress={handleLike}
-            accessibilityRole="button"
-            accessibilityLabel={`Like button, ${likeCount} likes${liked ? ', liked' : ''}`}
-            accessibilityState={{ selected: liked }}
-            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
-          >
-            <ThumbsUp
-              size={16}
-              color={liked ? colors.primary : colors.textSecondary}
-              fill={liked ? colors.primary : "transparent"}
-            />
-            <Text style={[typography.caption, styles.actionText, { 
-              color: liked ? colors.primary : colors.textSecondary 
-            }]}>
-              {likeCount}
-            </Text>
-          </TouchableOpacity>
-          
+          <View style={styles.actionButton}>
+            <ReactionBar counts={review.reactionCounts} maxItems={2} />
+          </View>
+
           <TouchableOpacity 
             style={[styles.actionButton, { opacity: isSharing ? 0.6 : 1 }]}
             onPress={handleShare}
@@ -315,10 +266,23 @@ const MasonryReviewCard: React.FC<MasonryReviewCardProps> = ({
           <TouchableOpacity style={styles.actionButton}>
             <MessageCircle size={16} color={colors.textSecondary} />
             <Text style={[typography.caption, styles.actionText, { color: colors.textSecondary }]}>
-              0
+              {review.comments?.length || 0}
             </Text>
           </TouchableOpacity>
 
+          {review.corroborationScore > 0 && (
+            <View
+              style={styles.actionButton}
+              accessibilityRole="text"
+              accessibilityLabel={`Confirmed by ${review.corroborationScore} people`}
+            >
+              <ShieldCheck size={16} color={colors.success} />
+              <Text style={[typography.caption, styles.actionText, { color: colors.success }]}>
+                {review.corroborationScore}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.spacer} />
           
           <Text style={[typography.caption, styles.dateText, { color: colors.textTertiary }]}>
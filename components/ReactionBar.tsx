@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+} from 'react-native';
+import { useTheme } from '../providers/ThemeProvider';
+import { tokens } from '../constants/tokens';
+import { REVIEW_REACTIONS } from '../constants/reactions';
+import type { ReactionType } from '../types';
+
+interface ReactionBarProps {
+  counts?: Partial<Record<ReactionType, number>>;
+  selected?: ReactionType | null;
+  // Without onSelect the bar is a read-only summary of the top reactions
+  onSelect?: (type: ReactionType) => void;
+  disabled?: boolean;
+  maxItems?: number;
+}
+
+export const ReactionBar: React.FC<ReactionBarProps> = ({
+  counts = {},
+  selected = null,
+  onSelect,
+  disabled = false,
+  maxItems = 3,
+}) => {
+  const { colors } = useTheme();
+
+  if (!onSelect) {
+    const top = REVIEW_REACTIONS
+      .filter(reaction => (counts[reaction.type] || 0) > 0)
+      .sort((a, b) => (counts[b.type] || 0) - (counts[a.type] || 0))
+      .slice(0, maxItems);
+
+    if (top.length === 0) return null;
+
+    return (
+      <View
+        style={styles.summary}
+        accessibilityRole="text"
+        accessibilityLabel={top.map(reaction => `${counts[reaction.type]} ${reaction.label}`).join(', ')}
+      >
+        {top.map(reaction => (
+          <View key={reaction.type} style={styles.summaryItem}>
+            <Text style={styles.emoji}>{reaction.emoji}</Text>
+            <Text style={[styles.count, { color: colors.textSecondary }]}>
+              {counts[reaction.type]}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.picker}>
+      {REVIEW_REACTIONS.map(reaction => {
+        const isSelected = selected === reaction.type;
+        return (
+          <Pressable
+            key={reaction.type}
+            onPress={() => onSelect(reaction.type)}
+            disabled={disabled}
+            style={[
+              styles.chip,
+              {
+                backgroundColor: isSelected ? colors.primary + '20' : colors.surfaceElevated,
+                borderColor: isSelected ? colors.primary : colors.border,
+              },
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={`${reaction.label}, ${counts[reaction.type] || 0}`}
+            accessibilityState={{ selected: isSelected, disabled }}
+          >
+            <Text style={styles.emoji}>{reaction.emoji}</Text>
+            <Text style={[styles.count, { color: isSelected ? colors.primary : colors.textSecondary }]}>
+              {counts[reaction.type] || 0}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    alignItems: 'center',
+    borderRadius: tokens.radii.full,
+    borderWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+    paddingHorizontal: tokens.spacing.sm,
+    paddingVertical: 4,
+  },
+  count: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  emoji: {
+    fontSize: 13,
+  },
+  picker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.xs,
+  },
+  summary: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: tokens.spacing.xs,
+  },
+  summaryItem: {
+    alignItems: 'center',
+    flexDirection: 'row',
+  },
+});
+
+export default ReactionBar;
@@ -10,10 +10,11 @@ import {
 import logger from '../utils/logger';
 
 import { Image } from "expo-image";
-import { MessageCircle, ThumbsUp, MapPin, Clock, Share2 } from "lucide-react-native";
+import { MessageCircle, MapPin, Clock, Share2, ShieldCheck } from "lucide-react-native";
 import { MotiView } from "moti";
 import Card from "./ui/Card";
 import AnimatedPressable from "./ui/AnimatedPressable";
+import ReactionBar from "./ReactionBar";
 import { useTheme } from "../providers/ThemeProvider";
 import { SHADOWS } from "../constants/shadows";
 import { tokens as defaultTokens } from "../constants/tokens";
@@ -27,11 +28,9 @@ type ReviewCardProps = {
 
 const ReviewCard: React.FC<ReviewCardProps> = ({ review, onPress, style }) => {
   const { colors, tokens } = useTheme();
-  const [isLiked, setIsLiked] = useState(false);
-  const [likeCount, setLikeCount] = useState(review.likes || 0);
-  const [isLiking, setIsLiking] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const hasImages = review.media && review.media.length > 0;
+  const reactionTotal = Object.values(review.reactionCounts || {}).reduce((sum, count) => sum + (count || 0), 0);
   
   // Create styles with current tokens
   const styles = createStyles();
@@ -40,32 +39,6 @@ const ReviewCard: React.FC<ReviewCardProps> = ({ review, onPress, style }) => {
     onPress();
   };
 
-  const handleLikePress = async (e: any) => {
-    e.stopPropagation();
-    
-    if (isLiking) return;
-    
-    try {
-      setIsLiking(true);
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 300));
-      
-      // Optimistic UI update
-      const newLiked = !isLiked;
-      setIsLiked(newLiked);
-      setLikeCount((prev: number) => newLiked ? prev + 1 : Math.max(0, prev - 1));
-      
-    } catch (error: any) {
-      if (__DEV__) {
-        __DEV__ && console.error('Error liking review:', error);
-      }
-      Alert.alert('Error', 'Failed to update like. Please try again.');
-    } finally {
-      setIsLiking(false);
-    }
-  };
-  
   const handleShare = async (e: any) => {
     e.stopPropagation();
     
@@ -117,7 +90,7 @@ const ReviewCard: React.FC<ReviewCardProps> = ({ review, onPress, style }) => {
         hapticOnPress={false}
         padding={0}
         accessibilityRole="button"
-        accessibilityLabel={`Review: ${review.title || 'Untitled'}. Category: ${review.category || 'General'}. ${likeCount} likes.`}
+        accessibilityLabel={`Review: ${review.title || 'Untitled'}. Category: ${review.category || 'General'}. ${reactionTotal} reactions.`}
         accessibilityHint="Tap to view full review"
       >
         {/* Header */}
@@ -189,31 +162,20 @@ const ReviewCard: React.FC<ReviewCardProps> = ({ review, onPress, style }) => {
         {/* Footer with enhanced interactions */}
         <View style={[styles.footer, { borderTopColor: colors.divider }]}>
           <View style={styles.footerLeft}>
-            <AnimatedPressable
-              onPress={handleLikePress}
-              style={styles.footerItem}
-              hapticOnPress={false}
-              scaleTo={0.95}
-              accessibilityRole="button"
-              accessibilityLabel={`Like button, ${likeCount} likes${isLiked ? ', liked' : ''}`}
-              accessibilityHint="Double tap to like or unlike this review"
-              accessibilityState={{ selected: isLiked }}
-              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-            >
-              <ThumbsUp
-                size={12}
-                color={isLiked ? colors.primary : colors.textSecondary}
-                fill={isLiked ? colors.primary : 'transparent'}
-                strokeWidth={1.5}
-              />
-              <Text style={{
-                marginLeft: 4,
-                color: isLiked ? colors.primary : colors.textSecondary,
-                fontWeight: isLiked ? '600' : '400',
-              }}>
-                {likeCount}
-              </Text>
-            </AnimatedPressable>
+            <ReactionBar counts={review.reactionCounts} />
+
+            {(review.corroborationScore || 0) > 0 && (
+              <View
+                style={styles.footerItem}
+                accessibilityRole="text"
+                accessibilityLabel={`Confirmed by ${review.corroborationScore} people`}
+              >
+                <ShieldCheck size={12} color={colors.success} strokeWidth={1.5} />
+                <Text style={{ marginLeft: 4, color: colors.success }}>
+                  {review.corroborationScore}
+                </Text>
+              </View>
+            )}
 
             <View style={styles.footerItem} accessibilityRole="text" accessibilityLabel={`${review.comments?.length || 0} comments`}>
               <MessageCircle size={12} color={colors.textSecondary} strokeWidth={1.5} />
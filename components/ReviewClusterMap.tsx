@@ -0,0 +1,189 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useWindowDimensions,
+} from 'react-native';
+import Svg, { Circle, G, Line, Text as SvgText } from 'react-native-svg';
+import { useTheme } from '../providers/ThemeProvider';
+import { tokens } from '../constants/tokens';
+import { ReviewCluster } from '../utils/reviewClusters';
+import type { GeoPoint } from '../utils/geohash';
+
+interface ReviewClusterMapProps {
+  center: GeoPoint;
+  radiusKm: number;
+  radiusLabel: string;
+  clusters: ReviewCluster[];
+  onClusterPress: (cluster: ReviewCluster) => void;
+}
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+const MIN_PIN_RADIUS = 14;
+const MAX_PIN_RADIUS = 30;
+const RING_WIDTH = 4;
+
+// A flat projection of the search circle around its center; at city scale the
+// distortion is far below a pin's size
+const project = (point: GeoPoint, center: GeoPoint, radiusKm: number, radiusPx: number) => {
+  const eastKm = (point.longitude - center.longitude) *
+    KM_PER_DEGREE_LATITUDE * Math.cos(center.latitude * Math.PI / 180);
+  const northKm = (point.latitude - center.latitude) * KM_PER_DEGREE_LATITUDE;
+
+  // Cells straddling the edge can average out just beyond the radius
+  const scale = Math.min(1, radiusKm / Math.max(Math.hypot(eastKm, northKm), 1e-9));
+  return {
+    x: (eastKm * scale / radiusKm) * radiusPx,
+    y: -(northKm * scale / radiusKm) * radiusPx,
+  };
+};
+
+export const ReviewClusterMap: React.FC<ReviewClusterMapProps> = ({
+  center,
+  radiusKm,
+  radiusLabel,
+  clusters,
+  onClusterPress,
+}) => {
+  const { colors } = useTheme();
+  const { width } = useWindowDimensions();
+  const size = Math.min(width - tokens.spacing.md * 2, 480);
+  const middle = size / 2;
+  const radiusPx = middle - MAX_PIN_RADIUS;
+
+  const pins = useMemo(() => {
+    const largest = Math.max(1, ...clusters.map(cluster => cluster.count));
+    return clusters
+      .map(cluster => {
+        const { x, y } = project(cluster.center, center, radiusKm, radiusPx);
+        return {
+          cluster,
+          x: middle + x,
+          y: middle + y,
+          radius: MIN_PIN_RADIUS + (MAX_PIN_RADIUS - MIN_PIN_RADIUS) * Math.sqrt(cluster.count / largest),
+        };
+      })
+      // Draw small pins last so they stay tappable on top of large ones
+      .sort((a, b) => b.radius - a.radius);
+  }, [clusters, center, radiusKm, radiusPx, middle]);
+
+  return (
+    <View style={styles.container}>
+      <Svg width={size} height={size}>
+        <Circle
+          cx={middle}
+          cy={middle}
+          r={radiusPx}
+          fill={colors.surface}
+          stroke={colors.border}
+          strokeWidth={1}
+        />
+        <Circle
+          cx={middle}
+          cy={middle}
+          r={radiusPx / 2}
+          fill="none"
+          stroke={colors.border}
+          strokeWidth={1}
+          strokeDasharray="4 4"
+        />
+        <Line x1={middle - 6} y1={middle} x2={middle + 6} y2={middle} stroke={colors.textSecondary} strokeWidth={2} />
+        <Line x1={middle} y1={middle - 6} x2={middle} y2={middle + 6} stroke={colors.textSecondary} strokeWidth={2} />
+
+        {pins.map(({ cluster, x, y, radius }) => {
+          // The ring shows the green share clockwise from the top, red after it
+          const ringRadius = radius - RING_WIDTH / 2;
+          const circumference = 2 * Math.PI * ringRadius;
+          const greenLength = circumference * (cluster.greenCount / cluster.count);
+
+          return (
+            <G
+              key={cluster.cell}
+              onPress={() => onClusterPress(cluster)}
+              accessibilityRole="button"
+              accessibilityLabel={`${cluster.count} reviews, ${cluster.greenCount} green flags, ${cluster.redCount} red flags`}
+            >
+              <Circle cx={x} cy={y} r={radius} fill={colors.background} />
+              <Circle
+                cx={x}
+                cy={y}
+                r={ringRadius}
+                fill="none"
+                stroke={colors.error}
+                strokeWidth={RING_WIDTH}
+              />
+              {greenLength > 0 && (
+                <Circle
+                  cx={x}
+                  cy={y}
+                  r={ringRadius}
+                  fill="none"
+                  stroke={colors.success}
+                  strokeWidth={RING_WIDTH}
+                  strokeDasharray={`${greenLength} ${circumference}`}
+                  rotation={-90}
+                  origin={`${x}, ${y}`}
+                />
+              )}
+              <SvgText
+                x={x}
+                y={y + 4}
+                fontSize={12}
+                fontWeight="bold"
+                fill={colors.text}
+                textAnchor="middle"
+              >
+                {cluster.count}
+              </SvgText>
+            </G>
+          );
+        })}
+      </Svg>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendDot, { backgroundColor: colors.success }]} />
+          <Text style={[styles.legendText, { color: colors.textSecondary }]}>Green flags</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendDot, { backgroundColor: colors.error }]} />
+          <Text style={[styles.legendText, { color: colors.textSecondary }]}>Red flags</Text>
+        </View>
+        <Text style={[styles.legendText, { color: colors.textSecondary }]}>
+          Outer ring: {radiusLabel}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingVertical: tokens.spacing.md,
+  },
+  legend: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.md,
+    justifyContent: 'center',
+    marginTop: tokens.spacing.sm,
+  },
+  legendDot: {
+    borderRadius: 5,
+    height: 10,
+    width: 10,
+  },
+  legendItem: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: tokens.spacing.xs,
+  },
+  legendText: {
+    fontSize: 12,
+  },
+});
+
+export default ReviewClusterMap;
@@ -24,22 +24,12 @@ import { BORDER_RADIUS, SHADOWS } from '../../constants/shadows';
 import { createTypographyStyles } from '../../styles/typography';
 import { ModernButton } from './ModernButton';
 import { LoadingSkeletons } from './LoadingSkeletons';
+import { LocationService } from '../../services/locationService';
+import type { Place } from '../../types';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
-export interface LocationData {
-  id: string;
-  name: string;
-  fullName?: string;
-  city: string;
-  state?: string;
-  country: string;
-  coordinates?: {
-    latitude: number;
-    longitude: number;
-  };
-  type?: 'city' | 'neighborhood' | 'landmark' | 'current';
-}
+export type LocationData = Place;
 
 interface LocationSelectorProps {
   onLocationSelect: (location: LocationData) => void;
@@ -55,59 +45,10 @@ interface LocationSelectorProps {
   size?: 'sm' | 'md' | 'lg';
   showRecentLocations?: boolean;
   recentLocations?: LocationData[];
-  popularLocations?: LocationData[];
+  popularLocations?: LocationData[]; // Defaults to LocationService.getPopularLocations()
   selectedLocation?: LocationData;
 }
 
-// Mock popular locations - in a real app, this would come from an API
-const POPULAR_LOCATIONS: LocationData[] = [
-  {
-    id: 'nyc',
-    name: 'New York City',
-    city: 'New York City',
-    state: 'NY',
-    country: 'United States',
-    type: 'city',
-    coordinates: { latitude: 40.7128, longitude: -74.0060 },
-  },
-  {
-    id: 'la',
-    name: 'Los Angeles',
-    city: 'Los Angeles',
-    state: 'CA',
-    country: 'United States',
-    type: 'city',
-    coordinates: { latitude: 34.0522, longitude: -118.2437 },
-  },
-  {
-    id: 'chicago',
-    name: 'Chicago',
-    city: 'Chicago',
-    state: 'IL',
-    country: 'United States',
-    type: 'city',
-    coordinates: { latitude: 41.8781, longitude: -87.6298 },
-  },
-  {
-    id: 'miami',
-    name: 'Miami',
-    city: 'Miami',
-    state: 'FL',
-    country: 'United States',
-    type: 'city',
-    coordinates: { latitude: 25.7617, longitude: -80.1918 },
-  },
-  {
-    id: 'sf',
-    name: 'San Francisco',
-    city: 'San Francisco',
-    state: 'CA',
-    country: 'United States',
-    type: 'city',
-    coordinates: { latitude: 37.7749, longitude: -122.4194 },
-  },
-];
-
 export const LocationSelector: React.FC<LocationSelectorProps> = ({
   onLocationSelect,
   onClose,
@@ -122,7 +63,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
   size = 'md',
   showRecentLocations = true,
   recentLocations = [],
-  popularLocations = POPULAR_LOCATIONS,
+  popularLocations: popularLocationsProp,
   selectedLocation,
 }) => {
   const { colors, isDark } = useTheme();
@@ -134,6 +75,10 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<LocationData | null>(null);
   const [showDropdown, setShowDropdown] = useState(false);
+  const [defaultPopularLocations, setDefaultPopularLocations] = useState<LocationData[]>([]);
+  const popularLocations = popularLocationsProp ?? defaultPopularLocations;
+  // Only the latest search may update the results
+  const searchRequestRef = useRef(0);
   
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.9)).current;
@@ -163,6 +108,11 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
 
   const config = sizeConfig[size];
 
+  useEffect(() => {
+    if (popularLocationsProp) return;
+    LocationService.getPopularLocations().then(setDefaultPopularLocations);
+  }, [popularLocationsProp]);
+
   useEffect(() => {
     if (visible) {
       Animated.parallel([
@@ -214,17 +164,21 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
         accuracy: Location.Accuracy.Balanced,
       });
 
-      // In a real app, you'd reverse geocode to get the address
-      const currentLoc: LocationData = {
+      const coordinates = {
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+      };
+      const place = await LocationService.reverseGeocode(coordinates.latitude, coordinates.longitude);
+      const currentLoc: LocationData = place || {
         id: 'current',
         name: 'Current Location',
-        city: 'Current Location',
-        country: 'Unknown',
+        fullName: 'Current Location',
+        city: '',
+        region: '',
+        state: '',
+        country: '',
         type: 'current',
-        coordinates: {
-          latitude: location.coords.latitude,
-          longitude: location.coords.longitude,
-        },
+        coordinates,
       };
 
       setCurrentLocation(currentLoc);
@@ -244,25 +198,22 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
     }
   };
 
-  // Mock search function - in a real app, this would call a geocoding API
   const searchLocations = async (query: string) => {
+    const requestId = ++searchRequestRef.current;
     if (!query.trim()) {
       setSearchResults([]);
+      setIsLoading(false);
       return;
     }
 
     setIsLoading(true);
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // Filter popular locations that match the query
-    const filtered = popularLocations.filter(location =>
-      location.name.toLowerCase().includes(query.toLowerCase()) ||
-      location.city.toLowerCase().includes(query.toLowerCase())
-    );
+    const results = await LocationService.searchLocations(query, {
+      near: currentLocation?.coordinates,
+      limit: maxResults,
+    });
 
-    setSearchResults(filtered.slice(0, maxResults));
+    if (requestId !== searchRequestRef.current) return;
+    setSearchResults(results);
     setIsLoading(false);
   };
 
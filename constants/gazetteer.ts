@@ -0,0 +1,241 @@
+/**
+ * Offline gazetteer bundled with the app: US states, larger cities and
+ * well-known neighborhoods. Place search uses it by default, so picking a
+ * location works without network access or a geocoding account.
+ * Population is in thousands and only breaks ties in ranking.
+ */
+
+export const GAZETTEER_COUNTRY = 'United States';
+
+// [code, name, latitude, longitude] of each state's approximate center
+export const GAZETTEER_REGIONS: readonly [string, string, number, number][] = [
+  ['AL', 'Alabama', 32.806, -86.791],
+  ['AK', 'Alaska', 61.370, -152.404],
+  ['AZ', 'Arizona', 33.729, -111.431],
+  ['AR', 'Arkansas', 34.970, -92.373],
+  ['CA', 'California', 36.116, -119.682],
+  ['CO', 'Colorado', 39.060, -105.311],
+  ['CT', 'Connecticut', 41.598, -72.755],
+  ['DE', 'Delaware', 39.319, -75.507],
+  ['DC', 'District of Columbia', 38.897, -77.026],
+  ['FL', 'Florida', 27.766, -81.687],
+  ['GA', 'Georgia', 33.041, -83.643],
+  ['HI', 'Hawaii', 21.094, -157.498],
+  ['ID', 'Idaho', 44.240, -114.479],
+  ['IL', 'Illinois', 40.349, -88.986],
+  ['IN', 'Indiana', 39.849, -86.258],
+  ['IA', 'Iowa', 42.012, -93.211],
+  ['KS', 'Kansas', 38.527, -96.726],
+  ['KY', 'Kentucky', 37.668, -84.670],
+  ['LA', 'Louisiana', 31.170, -91.868],
+  ['ME', 'Maine', 44.694, -69.382],
+  ['MD', 'Maryland', 39.064, -76.802],
+  ['MA', 'Massachusetts', 42.230, -71.530],
+  ['MI', 'Michigan', 43.327, -84.536],
+  ['MN', 'Minnesota', 45.694, -93.900],
+  ['MS', 'Mississippi', 32.742, -89.679],
+  ['MO', 'Missouri', 38.456, -92.288],
+  ['MT', 'Montana', 46.922, -110.454],
+  ['NE', 'Nebraska', 41.125, -98.268],
+  ['NV', 'Nevada', 38.314, -117.055],
+  ['NH', 'New Hampshire', 43.452, -71.564],
+  ['NJ', 'New Jersey', 40.299, -74.521],
+  ['NM', 'New Mexico', 34.841, -106.249],
+  ['NY', 'New York', 42.166, -74.948],
+  ['NC', 'North Carolina', 35.630, -79.806],
+  ['ND', 'North Dakota', 47.529, -99.784],
+  ['OH', 'Ohio', 40.389, -82.765],
+  ['OK', 'Oklahoma', 35.565, -96.929],
+  ['OR', 'Oregon', 44.572, -122.071],
+  ['PA', 'Pennsylvania', 40.591, -77.210],
+  ['RI', 'Rhode Island', 41.681, -71.512],
+  ['SC', 'South Carolina', 33.857, -80.945],
+  ['SD', 'South Dakota', 44.300, -99.439],
+  ['TN', 'Tennessee', 35.748, -86.692],
+  ['TX', 'Texas', 31.054, -97.563],
+  ['UT', 'Utah', 40.150, -111.862],
+  ['VT', 'Vermont', 44.046, -72.711],
+  ['VA', 'Virginia', 37.769, -78.170],
+  ['WA', 'Washington', 47.401, -121.490],
+  ['WV', 'West Virginia', 38.491, -80.954],
+  ['WI', 'Wisconsin', 44.269, -89.616],
+  ['WY', 'Wyoming', 42.756, -107.302],
+];
+
+// [name, state code, latitude, longitude, population]
+export const GAZETTEER_CITIES: readonly [string, string, number, number, number][] = [
+  ['New York', 'NY', 40.7128, -74.0060, 8336],
+  ['Los Angeles', 'CA', 34.0522, -118.2437, 3822],
+  ['Chicago', 'IL', 41.8781, -87.6298, 2665],
+  ['Houston', 'TX', 29.7604, -95.3698, 2303],
+  ['Phoenix', 'AZ', 33.4484, -112.0740, 1644],
+  ['Philadelphia', 'PA', 39.9526, -75.1652, 1567],
+  ['San Antonio', 'TX', 29.4241, -98.4936, 1473],
+  ['San Diego', 'CA', 32.7157, -117.1611, 1381],
+  ['Dallas', 'TX', 32.7767, -96.7970, 1300],
+  ['San Jose', 'CA', 37.3382, -121.8863, 971],
+  ['Austin', 'TX', 30.2672, -97.7431, 974],
+  ['Jacksonville', 'FL', 30.3322, -81.6557, 971],
+  ['Fort Worth', 'TX', 32.7555, -97.3308, 956],
+  ['Columbus', 'OH', 39.9612, -82.9988, 907],
+  ['Indianapolis', 'IN', 39.7684, -86.1581, 880],
+  ['Charlotte', 'NC', 35.2271, -80.8431, 897],
+  ['San Francisco', 'CA', 37.7749, -122.4194, 808],
+  ['Seattle', 'WA', 47.6062, -122.3321, 749],
+  ['Denver', 'CO', 39.7392, -104.9903, 713],
+  ['Washington', 'DC', 38.9072, -77.0369, 671],
+  ['Nashville', 'TN', 36.1627, -86.7816, 683],
+  ['Oklahoma City', 'OK', 35.4676, -97.5164, 694],
+  ['El Paso', 'TX', 31.7619, -106.4850, 678],
+  ['Boston', 'MA', 42.3601, -71.0589, 650],
+  ['Portland', 'OR', 45.5152, -122.6784, 635],
+  ['Las Vegas', 'NV', 36.1699, -115.1398, 656],
+  ['Detroit', 'MI', 42.3314, -83.0458, 620],
+  ['Memphis', 'TN', 35.1495, -90.0490, 621],
+  ['Louisville', 'KY', 38.2527, -85.7585, 625],
+  ['Baltimore', 'MD', 39.2904, -76.6122, 570],
+  ['Milwaukee', 'WI', 43.0389, -87.9065, 563],
+  ['Albuquerque', 'NM', 35.0844, -106.6504, 561],
+  ['Tucson', 'AZ', 32.2226, -110.9747, 546],
+  ['Fresno', 'CA', 36.7378, -119.7871, 545],
+  ['Sacramento', 'CA', 38.5816, -121.4944, 528],
+  ['Mesa', 'AZ', 33.4152, -111.8315, 511],
+  ['Kansas City', 'MO', 39.0997, -94.5786, 510],
+  ['Atlanta', 'GA', 33.7490, -84.3880, 499],
+  ['Omaha', 'NE', 41.2565, -95.9345, 486],
+  ['Colorado Springs', 'CO', 38.8339, -104.8214, 488],
+  ['Raleigh', 'NC', 35.7796, -78.6382, 477],
+  ['Long Beach', 'CA', 33.7701, -118.1937, 451],
+  ['Virginia Beach', 'VA', 36.8529, -75.9780, 455],
+  ['Miami', 'FL', 25.7617, -80.1918, 449],
+  ['Oakland', 'CA', 37.8044, -122.2712, 430],
+  ['Minneapolis', 'MN', 44.9778, -93.2650, 425],
+  ['Tulsa', 'OK', 36.1540, -95.9928, 411],
+  ['Bakersfield', 'CA', 35.3733, -119.0187, 410],
+  ['Wichita', 'KS', 37.6872, -97.3301, 396],
+  ['Arlington', 'TX', 32.7357, -97.1081, 394],
+  ['Tampa', 'FL', 27.9506, -82.4572, 398],
+  ['New Orleans', 'LA', 29.9511, -90.0715, 370],
+  ['Cleveland', 'OH', 41.4993, -81.6944, 362],
+  ['Honolulu', 'HI', 21.3069, -157.8583, 345],
+  ['Anaheim', 'CA', 33.8366, -117.9143, 344],
+  ['Lexington', 'KY', 38.0406, -84.5037, 320],
+  ['Henderson', 'NV', 36.0395, -114.9817, 330],
+  ['Orlando', 'FL', 28.5383, -81.3792, 309],
+  ['Irvine', 'CA', 33.6846, -117.8265, 314],
+  ['Newark', 'NJ', 40.7357, -74.1724, 305],
+  ['St. Louis', 'MO', 38.6270, -90.1994, 287],
+  ['Pittsburgh', 'PA', 40.4406, -79.9959, 303],
+  ['Cincinnati', 'OH', 39.1031, -84.5120, 309],
+  ['St. Paul', 'MN', 44.9537, -93.0900, 303],
+  ['Greensboro', 'NC', 36.0726, -79.7920, 299],
+  ['Jersey City', 'NJ', 40.7178, -74.0431, 291],
+  ['Lincoln', 'NE', 40.8136, -96.7026, 292],
+  ['Plano', 'TX', 33.0198, -96.6989, 289],
+  ['Anchorage', 'AK', 61.2181, -149.9003, 287],
+  ['Durham', 'NC', 35.9940, -78.8986, 291],
+  ['Buffalo', 'NY', 42.8864, -78.8784, 274],
+  ['Madison', 'WI', 43.0731, -89.4012, 272],
+  ['St. Petersburg', 'FL', 27.7676, -82.6403, 258],
+  ['Scottsdale', 'AZ', 33.4942, -111.9261, 243],
+  ['Boise', 'ID', 43.6150, -116.2023, 237],
+  ['Richmond', 'VA', 37.5407, -77.4360, 229],
+  ['Spokane', 'WA', 47.6588, -117.4260, 229],
+  ['Des Moines', 'IA', 41.5868, -93.6250, 210],
+  ['Salt Lake City', 'UT', 40.7608, -111.8910, 209],
+  ['Birmingham', 'AL', 33.5186, -86.8104, 197],
+  ['Rochester', 'NY', 43.1566, -77.6088, 209],
+  ['Fort Lauderdale', 'FL', 26.1224, -80.1373, 182],
+  ['Tallahassee', 'FL', 30.4383, -84.2807, 201],
+  ['Little Rock', 'AR', 34.7465, -92.2896, 203],
+  ['Knoxville', 'TN', 35.9606, -83.9207, 195],
+  ['Providence', 'RI', 41.8240, -71.4128, 190],
+  ['Chattanooga', 'TN', 35.0456, -85.3097, 184],
+  ['Fort Collins', 'CO', 40.5853, -105.0844, 170],
+  ['Savannah', 'GA', 32.0809, -81.0912, 147],
+  ['Charleston', 'SC', 32.7765, -79.9311, 155],
+  ['Ann Arbor', 'MI', 42.2808, -83.7430, 122],
+  ['Berkeley', 'CA', 37.8715, -122.2730, 119],
+  ['Hartford', 'CT', 41.7658, -72.6734, 120],
+  ['New Haven', 'CT', 41.3083, -72.9279, 135],
+  ['Cambridge', 'MA', 42.3736, -71.1097, 118],
+  ['Boulder', 'CO', 40.0150, -105.2705, 105],
+  ['Santa Monica', 'CA', 34.0195, -118.4912, 91],
+  ['Miami Beach', 'FL', 25.7907, -80.1300, 81],
+  ['Burlington', 'VT', 44.4759, -73.2121, 44],
+  ['Portland', 'ME', 43.6591, -70.2568, 68],
+  ['Asheville', 'NC', 35.5951, -82.5515, 94],
+  ['Columbia', 'SC', 34.0007, -81.0348, 137],
+  ['Jackson', 'MS', 32.2988, -90.1848, 153],
+  ['Baton Rouge', 'LA', 30.4515, -91.1871, 227],
+  ['Sioux Falls', 'SD', 43.5446, -96.7311, 192],
+  ['Fargo', 'ND', 46.8772, -96.7898, 125],
+  ['Billings', 'MT', 45.7833, -108.5007, 117],
+  ['Cheyenne', 'WY', 41.1400, -104.8202, 65],
+  ['Wilmington', 'DE', 39.7391, -75.5398, 71],
+  ['Manchester', 'NH', 42.9956, -71.4548, 115],
+  ['Charleston', 'WV', 38.3498, -81.6326, 48],
+];
+
+// [name, city, state code, latitude, longitude]
+export const GAZETTEER_NEIGHBORHOODS: readonly [string, string, string, number, number][] = [
+  ['Manhattan', 'New York', 'NY', 40.7831, -73.9712],
+  ['Brooklyn', 'New York', 'NY', 40.6782, -73.9442],
+  ['Queens', 'New York', 'NY', 40.7282, -73.7949],
+  ['The Bronx', 'New York', 'NY', 40.8448, -73.8648],
+  ['Staten Island', 'New York', 'NY', 40.5795, -74.1502],
+  ['Williamsburg', 'New York', 'NY', 40.7081, -73.9571],
+  ['Harlem', 'New York', 'NY', 40.8116, -73.9465],
+  ['Upper East Side', 'New York', 'NY', 40.7736, -73.9566],
+  ['Upper West Side', 'New York', 'NY', 40.7870, -73.9754],
+  ['Lower East Side', 'New York', 'NY', 40.7150, -73.9843],
+  ['Astoria', 'New York', 'NY', 40.7644, -73.9235],
+  ['Hollywood', 'Los Angeles', 'CA', 34.0928, -118.3287],
+  ['Venice', 'Los Angeles', 'CA', 33.9850, -118.4695],
+  ['Silver Lake', 'Los Angeles', 'CA', 34.0869, -118.2702],
+  ['Koreatown', 'Los Angeles', 'CA', 34.0618, -118.3004],
+  ['Echo Park', 'Los Angeles', 'CA', 34.0782, -118.2606],
+  ['Downtown Los Angeles', 'Los Angeles', 'CA', 34.0407, -118.2468],
+  ['Mission District', 'San Francisco', 'CA', 37.7599, -122.4148],
+  ['South of Market', 'San Francisco', 'CA', 37.7785, -122.4056],
+  ['The Castro', 'San Francisco', 'CA', 37.7609, -122.4350],
+  ['Marina District', 'San Francisco', 'CA', 37.8037, -122.4368],
+  ['Nob Hill', 'San Francisco', 'CA', 37.7930, -122.4161],
+  ['Wicker Park', 'Chicago', 'IL', 41.9088, -87.6796],
+  ['Lincoln Park', 'Chicago', 'IL', 41.9214, -87.6513],
+  ['Wrigleyville', 'Chicago', 'IL', 41.9484, -87.6553],
+  ['River North', 'Chicago', 'IL', 41.8924, -87.6341],
+  ['Logan Square', 'Chicago', 'IL', 41.9231, -87.7093],
+  ['Capitol Hill', 'Seattle', 'WA', 47.6253, -122.3222],
+  ['Ballard', 'Seattle', 'WA', 47.6677, -122.3843],
+  ['Fremont', 'Seattle', 'WA', 47.6510, -122.3505],
+  ['South Beach', 'Miami Beach', 'FL', 25.7826, -80.1341],
+  ['Wynwood', 'Miami', 'FL', 25.8010, -80.1994],
+  ['Brickell', 'Miami', 'FL', 25.7580, -80.1936],
+  ['Little Havana', 'Miami', 'FL', 25.7654, -80.2199],
+  ['Back Bay', 'Boston', 'MA', 42.3503, -71.0810],
+  ['South End', 'Boston', 'MA', 42.3388, -71.0765],
+  ['Beacon Hill', 'Boston', 'MA', 42.3588, -71.0707],
+  ['Georgetown', 'Washington', 'DC', 38.9097, -77.0654],
+  ['Dupont Circle', 'Washington', 'DC', 38.9096, -77.0434],
+  ['Adams Morgan', 'Washington', 'DC', 38.9215, -77.0422],
+  ['French Quarter', 'New Orleans', 'LA', 29.9584, -90.0644],
+  ['Deep Ellum', 'Dallas', 'TX', 32.7845, -96.7837],
+  ['Uptown', 'Dallas', 'TX', 32.8009, -96.8003],
+  ['Montrose', 'Houston', 'TX', 29.7443, -95.3903],
+  ['The Heights', 'Houston', 'TX', 29.7982, -95.3985],
+  ['South Congress', 'Austin', 'TX', 30.2480, -97.7500],
+  ['East Austin', 'Austin', 'TX', 30.2627, -97.7197],
+  ['LoDo', 'Denver', 'CO', 39.7527, -105.0008],
+  ['Capitol Hill', 'Denver', 'CO', 39.7312, -104.9826],
+  ['Midtown', 'Atlanta', 'GA', 33.7810, -84.3830],
+  ['Buckhead', 'Atlanta', 'GA', 33.8383, -84.3797],
+  ['East Nashville', 'Nashville', 'TN', 36.1859, -86.7500],
+  ['The Gulch', 'Nashville', 'TN', 36.1517, -86.7877],
+  ['Pearl District', 'Portland', 'OR', 45.5290, -122.6820],
+  ['The Strip', 'Las Vegas', 'NV', 36.1147, -115.1728],
+  ['Fishtown', 'Philadelphia', 'PA', 39.9724, -75.1330],
+  ['Center City', 'Philadelphia', 'PA', 39.9517, -75.1652],
+  ['North Park', 'San Diego', 'CA', 32.7410, -117.1297],
+  ['Gaslamp Quarter', 'San Diego', 'CA', 32.7115, -117.1597],
+];
@@ -0,0 +1,74 @@
+/**
+ * Reactions users can leave on a review.
+ * Each user holds at most one reaction per review; counts are stored on the
+ * review under reactionCounts, keyed by type.
+ */
+import type { ReactionType } from '../types';
+
+export interface ReactionDefinition {
+  type: ReactionType;
+  label: string;
+  emoji: string;
+  // Confirm reactions back up (or contradict) the review's green/red flag
+  confirmsFlag?: 'green' | 'red';
+}
+
+// Order here is the order shown in the app
+export const REVIEW_REACTIONS: readonly ReactionDefinition[] = [
+  { type: 'helpful', label: 'Helpful', emoji: '👍' },
+  { type: 'agree', label: 'Agree', emoji: '🙌' },
+  { type: 'disagree', label: 'Disagree', emoji: '🤔' },
+  { type: 'redFlagConfirm', label: 'Same experience (red flag)', emoji: '🚩', confirmsFlag: 'red' },
+  { type: 'greenFlagConfirm', label: 'Same experience (green flag)', emoji: '💚', confirmsFlag: 'green' },
+];
+
+export const REACTION_TYPES = REVIEW_REACTIONS.map(reaction => reaction.type);
+
+// Reviews are submitted as a green flag (rating 5) or red flag (rating 1)
+export const getReviewFlag = (rating: number): 'green' | 'red' => rating >= 3 ? 'green' : 'red';
+
+// Confirmations of the review's own flag minus confirmations of the opposite
+// flag. Positive means other users report the same experience.
+export const getCorroborationScore = (
+  rating: number,
+  reactionCounts: Partial<Record<ReactionType, number>> = {}
+): number => {
+  const flag = getReviewFlag(rating);
+
+  return REVIEW_REACTIONS.reduce((score, reaction) => {
+    if (!reaction.confirmsFlag) return score;
+    const count = reactionCounts[reaction.type] || 0;
+    return reaction.confirmsFlag === flag ? score + count : score - count;
+  }, 0);
+};
+
+// Emoji members can react to chat messages with, one per member per message.
+// Keep in sync with the chat message rules in firestore.rules.
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'] as const;
+
+export interface ChatReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+// Counts per emoji from a message's reactions map, most used first
+export const summarizeChatReactions = (
+  reactions: Record<string, string> = {},
+  currentUserId?: string
+): ChatReactionSummary[] => {
+  const summaries = new Map<string, ChatReactionSummary>();
+
+  Object.entries(reactions).forEach(([userId, emoji]) => {
+    const summary = summaries.get(emoji) || { emoji, count: 0, reactedByMe: false };
+    summary.count += 1;
+    summary.reactedByMe = summary.reactedByMe || userId === currentUserId;
+    summaries.set(emoji, summary);
+  });
+
+  const order = (emoji: string) => {
+    const index = (CHAT_REACTIONS as readonly string[]).indexOf(emoji);
+    return index === -1 ? CHAT_REACTIONS.length : index;
+  };
+  return [...summaries.values()].sort((a, b) => b.count - a.count || order(a.emoji) - order(b.emoji));
+};
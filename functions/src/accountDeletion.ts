@@ -0,0 +1,453 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+// One document per user, see AccountDeletion in types/index.ts
+const ACCOUNT_DELETIONS_COLLECTION = "accountDeletions";
+const DELETION_GRACE_PERIOD_MS = 14 * 24 * 60 * 60 * 1000;
+// Stays under the 500 writes a batch allows, with room for related updates
+const PURGE_BATCH_SIZE = 200;
+const MAX_ACCOUNTS_PER_RUN = 10;
+// Stop starting new batches well before the function timeout so progress is saved
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+// Content that outlives the account is attributed to this id
+const DELETED_USER_ID = "deleted-user";
+const DELETED_USER_NAME = "Deleted User";
+// Matches DELETED_MESSAGE_PREVIEW in services/chatService.ts
+const DELETED_MESSAGE_PREVIEW = "This message was deleted";
+
+const { FieldValue } = admin.firestore;
+
+// A purge step handles one batch and reports whether anything is left. Each
+// query only matches documents a previous batch has not handled yet, so a
+// step can be interrupted and run again at any point.
+type PurgeStep = (uid: string) => Promise<boolean>;
+
+type BatchUpdate = (batch: admin.firestore.WriteBatch, doc: admin.firestore.QueryDocumentSnapshot) =>
+  void | Promise<void>;
+
+const processBatch = async (query: admin.firestore.Query, apply: BatchUpdate): Promise<boolean> => {
+  const snapshot = await query.limit(PURGE_BATCH_SIZE).get();
+  if (snapshot.empty) return true;
+
+  const batch = db.batch();
+  for (const doc of snapshot.docs) {
+    await apply(batch, doc);
+  }
+  await batch.commit();
+  return snapshot.size < PURGE_BATCH_SIZE;
+};
+
+const deleteDocs = (query: admin.firestore.Query): Promise<boolean> =>
+  processBatch(query, (batch, doc) => {
+    batch.delete(doc.ref);
+  });
+
+// Reviews stay up for their readers but lose their author and photos
+const anonymizeReviews: PurgeStep = (uid) =>
+  processBatch(db.collection("reviews").where("authorId", "==", uid), async (batch, doc) => {
+    await admin.storage().bucket().deleteFiles({ prefix: `reviews/${doc.id}/media/` });
+    batch.update(doc.ref, {
+      authorId: DELETED_USER_ID,
+      authorName: DELETED_USER_NAME,
+      media: [],
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+const unlinkReviewsAbout: PurgeStep = (uid) =>
+  processBatch(db.collection("reviews").where("targetUserId", "==", uid), (batch, doc) => {
+    batch.update(doc.ref, { targetUserId: null });
+  });
+
+// Comments become the same tombstone a deleted comment leaves, so replies
+// keep their parent
+const tombstoneComments: PurgeStep = (uid) =>
+  processBatch(db.collectionGroup("comments").where("authorId", "==", uid), (batch, doc) => {
+    batch.update(doc.ref, {
+      authorId: DELETED_USER_ID,
+      userId: FieldValue.delete(),
+      content: "",
+      isDeleted: true,
+      deletedAt: doc.data().deletedAt ?? FieldValue.serverTimestamp(),
+    });
+  });
+
+// Earlier versions of a comment are kept with their editor's text
+const deleteCommentRevisions: PurgeStep = (uid) =>
+  deleteDocs(db.collectionGroup("revisions").where("editorId", "==", uid));
+
+// Like documents under reviews and comments. A review loses the like only if
+// it still lists the user, so a repeated batch never counts it twice;
+// onCommentLikeWrite recounts a comment when its like is deleted.
+const deleteLikes: PurgeStep = (uid) =>
+  processBatch(db.collectionGroup("likes").where("userId", "==", uid), async (batch, doc) => {
+    const parentRef = doc.ref.parent.parent;
+    if (parentRef?.parent.id === "reviews") {
+      const likedBy = (await parentRef.get()).data()?.likedBy;
+      if (Array.isArray(likedBy) && likedBy.includes(uid)) {
+        batch.update(parentRef, {
+          likes: FieldValue.increment(-1),
+          engagement: FieldValue.increment(-2),
+          likedBy: FieldValue.arrayRemove(uid),
+        });
+      }
+    }
+    batch.delete(doc.ref);
+  });
+
+// Likes still listed without a like document
+const removeReviewLikes: PurgeStep = (uid) =>
+  processBatch(db.collection("reviews").where("likedBy", "array-contains", uid), (batch, doc) => {
+    batch.update(doc.ref, { likes: FieldValue.increment(-1), likedBy: FieldValue.arrayRemove(uid) });
+  });
+
+// Comment like counts come from their like documents, so only the id goes
+const removeCommentLikes: PurgeStep = (uid) =>
+  processBatch(db.collectionGroup("comments").where("likedBy", "array-contains", uid), (batch, doc) => {
+    batch.update(doc.ref, { likedBy: FieldValue.arrayRemove(uid) });
+  });
+
+// The review's corroboration score catches up on its next reaction
+const removeReviewReactions: PurgeStep = (uid) =>
+  processBatch(db.collectionGroup("reactions").where("userId", "==", uid), (batch, doc) => {
+    const reviewRef = doc.ref.parent.parent;
+    const type = doc.data().type;
+    if (reviewRef && typeof type === "string") {
+      batch.update(reviewRef, { [`reactionCounts.${type}`]: FieldValue.increment(-1) });
+    }
+    batch.delete(doc.ref);
+  });
+
+// Messages become delete-for-everyone tombstones; onChatMessageDeleted
+// removes their attachments from Storage
+const tombstoneMessages: PurgeStep = (uid) =>
+  processBatch(db.collectionGroup("messages").where("senderId", "==", uid), (batch, doc) => {
+    batch.update(doc.ref, {
+      senderId: DELETED_USER_ID,
+      content: "",
+      attachment: FieldValue.delete(),
+      reactions: FieldValue.delete(),
+      replyTo: FieldValue.delete(),
+      deleted: true,
+      deletedAt: doc.data().deletedAt ?? FieldValue.serverTimestamp(),
+      deletedBy: DELETED_USER_ID,
+    });
+  });
+
+// Replies elsewhere quote the user's messages
+const clearQuotedMessages: PurgeStep = (uid) =>
+  processBatch(db.collectionGroup("messages").where("replyTo.senderId", "==", uid), (batch, doc) => {
+    batch.update(doc.ref, {
+      "replyTo.senderId": DELETED_USER_ID,
+      "replyTo.preview": DELETED_MESSAGE_PREVIEW,
+    });
+  });
+
+// Leave every room, taking the user's reactions and per-user state with them
+const leaveChatRooms: PurgeStep = async (uid) => {
+  const rooms = await db.collection("chatRooms")
+    .where("participants", "array-contains", uid)
+    .limit(PURGE_BATCH_SIZE)
+    .get();
+
+  for (const room of rooms.docs) {
+    let reactionsDone = false;
+    while (!reactionsDone) {
+      reactionsDone = await processBatch(
+        room.ref.collection("messages").where(`reactions.${uid}`, "!=", null),
+        (batch, doc) => {
+          batch.update(doc.ref, { [`reactions.${uid}`]: FieldValue.delete() });
+        }
+      );
+    }
+
+    const data = room.data();
+    await room.ref.update({
+      participants: FieldValue.arrayRemove(uid),
+      ...(Array.isArray(data.moderators) ? { moderators: FieldValue.arrayRemove(uid) } : {}),
+      ...(typeof data.memberCount === "number" ? { memberCount: FieldValue.increment(-1) } : {}),
+      [`unreadCount.${uid}`]: FieldValue.delete(),
+      [`readCursors.${uid}`]: FieldValue.delete(),
+      [`deliveredCursors.${uid}`]: FieldValue.delete(),
+      [`typing.${uid}`]: FieldValue.delete(),
+    });
+  }
+
+  return rooms.size < PURGE_BATCH_SIZE;
+};
+
+const deleteChatInvites: PurgeStep = (uid) =>
+  deleteDocs(db.collection("chatInvites").where("createdBy", "==", uid));
+
+const deleteNotifications: PurgeStep = async (uid) =>
+  await deleteDocs(db.collection("notifications").where("userId", "==", uid)) &&
+  await deleteDocs(db.collection("notifications").where("senderId", "==", uid));
+
+// Moderators still need the reports, just not who filed them
+const anonymizeReports: PurgeStep = (uid) =>
+  processBatch(db.collection("reports").where("reporterId", "==", uid), (batch, doc) => {
+    batch.update(doc.ref, { reporterId: DELETED_USER_ID });
+  });
+
+// Moderators keep the subject link history, without who confirmed each link
+const anonymizeSubjectLinks: PurgeStep = (uid) =>
+  processBatch(db.collectionGroup("links").where("userId", "==", uid), (batch, doc) => {
+    batch.update(doc.ref, { userId: DELETED_USER_ID });
+  });
+
+const deleteSavedSearches: PurgeStep = (uid) =>
+  deleteDocs(db.collection("savedSearches").where("userId", "==", uid));
+
+const removeFromBlockLists: PurgeStep = (uid) =>
+  processBatch(db.collectionGroup("private").where("userIds", "array-contains", uid), (batch, doc) => {
+    batch.update(doc.ref, { userIds: FieldValue.arrayRemove(uid) });
+  });
+
+// The profile goes last among the documents, so a stopped purge still has
+// it to show who is being deleted
+const deleteUserDocuments: PurgeStep = async (uid) => {
+  await db.recursiveDelete(db.collection("rateLimits").doc(uid));
+  await Promise.all(["userStats", "userSettings", "presence", "dataExports"].map((collection) =>
+    db.collection(collection).doc(uid).delete()
+  ));
+  await db.recursiveDelete(db.collection("users").doc(uid));
+  return true;
+};
+
+const deleteStorageFiles: PurgeStep = async (uid) => {
+  const bucket = admin.storage().bucket();
+  await Promise.all(["users", "temp", "exports"].map((folder) =>
+    bucket.deleteFiles({ prefix: `${folder}/${uid}/` })
+  ));
+  return true;
+};
+
+const isUserNotFound = (error: unknown): boolean =>
+  (error as { code?: string }).code === "auth/user-not-found";
+
+const deleteAuthUser: PurgeStep = async (uid) => {
+  try {
+    await admin.auth().deleteUser(uid);
+  } catch (error) {
+    if (!isUserNotFound(error)) {
+      throw error;
+    }
+  }
+  return true;
+};
+
+// Keep the user from signing in or adding content while the purge runs.
+// Accounts removed outside the pipeline no longer exist in Auth.
+const signOutAccount = async (uid: string): Promise<void> => {
+  try {
+    await admin.auth().updateUser(uid, { disabled: true });
+    await admin.auth().revokeRefreshTokens(uid);
+  } catch (error) {
+    if (!isUserNotFound(error)) {
+      throw error;
+    }
+  }
+};
+
+// In order; names are stored as progress, so keep them stable
+const PURGE_STEPS: { name: string; run: PurgeStep }[] = [
+  { name: "reviews", run: anonymizeReviews },
+  { name: "reviewsAbout", run: unlinkReviewsAbout },
+  { name: "comments", run: tombstoneComments },
+  { name: "commentRevisions", run: deleteCommentRevisions },
+  { name: "likes", run: deleteLikes },
+  { name: "reviewLikes", run: removeReviewLikes },
+  { name: "commentLikes", run: removeCommentLikes },
+  { name: "reviewReactions", run: removeReviewReactions },
+  { name: "chatMessages", run: tombstoneMessages },
+  { name: "quotedMessages", run: clearQuotedMessages },
+  { name: "chatRooms", run: leaveChatRooms },
+  { name: "chatInvites", run: deleteChatInvites },
+  { name: "notifications", run: deleteNotifications },
+  { name: "reports", run: anonymizeReports },
+  { name: "subjectLinks", run: anonymizeSubjectLinks },
+  { name: "savedSearches", run: deleteSavedSearches },
+  { name: "blockLists", run: removeFromBlockLists },
+  { name: "userDocuments", run: deleteUserDocuments },
+  { name: "storage", run: deleteStorageFiles },
+  { name: "auth", run: deleteAuthUser },
+];
+
+// Run the purge for one account until it finishes or the deadline passes.
+// Returns whether the account is fully deleted.
+const purgeAccount = async (ref: admin.firestore.DocumentReference, deadline: number): Promise<boolean> => {
+  const claimed = await db.runTransaction(async (transaction) => {
+    const deletion = (await transaction.get(ref)).data();
+    const scheduledFor = (deletion?.scheduledFor as admin.firestore.Timestamp | undefined)?.toMillis();
+    // Cancelled or rescheduled since the query ran
+    if (!deletion || !["scheduled", "processing"].includes(deletion.status) ||
+      !scheduledFor || scheduledFor > Date.now()) {
+      return null;
+    }
+    transaction.update(ref, { status: "processing", updatedAt: FieldValue.serverTimestamp() });
+    return deletion;
+  });
+  if (!claimed) return false;
+
+  const uid = ref.id;
+  await signOutAccount(uid);
+  const completedSteps: string[] = claimed.completedSteps || [];
+
+  for (const step of PURGE_STEPS) {
+    if (completedSteps.includes(step.name)) continue;
+
+    let done = false;
+    while (!done) {
+      if (Date.now() > deadline) return false;
+      done = await step.run(uid);
+    }
+    completedSteps.push(step.name);
+    await ref.update({
+      completedSteps: FieldValue.arrayUnion(step.name),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  await ref.update({
+    status: "completed",
+    completedAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+    lastError: FieldValue.delete(),
+  });
+  return true;
+};
+
+// Schedule the caller's account for deletion after the grace period.
+// Asking again while a deletion is pending keeps the original date.
+export const scheduleAccountDeletion = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const uid = context.auth.uid;
+  const deletionRef = db.collection(ACCOUNT_DELETIONS_COLLECTION).doc(uid);
+
+  try {
+    const scheduledFor = await db.runTransaction(async (transaction) => {
+      const current = (await transaction.get(deletionRef)).data();
+      if (current?.status === "scheduled" || current?.status === "processing") {
+        return (current.scheduledFor as admin.firestore.Timestamp).toDate();
+      }
+
+      const date = new Date(Date.now() + DELETION_GRACE_PERIOD_MS);
+      transaction.set(deletionRef, {
+        userId: uid,
+        status: "scheduled",
+        requestedAt: FieldValue.serverTimestamp(),
+        scheduledFor: admin.firestore.Timestamp.fromDate(date),
+        cancelledAt: null,
+        completedSteps: [],
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.set(db.collection("users").doc(uid), {
+        deletionScheduledFor: admin.firestore.Timestamp.fromDate(date),
+      }, { merge: true });
+      return date;
+    });
+
+    functions.logger.info(`Account ${uid} scheduled for deletion on ${scheduledFor.toISOString()}`);
+    return { scheduledFor: scheduledFor.toISOString() };
+  } catch (error) {
+    functions.logger.error("Error scheduling account deletion:", error);
+    throw new functions.https.HttpsError("internal", "Failed to schedule account deletion");
+  }
+});
+
+// Keep the account during the grace period
+export const cancelAccountDeletion = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const uid = context.auth.uid;
+  const deletionRef = db.collection(ACCOUNT_DELETIONS_COLLECTION).doc(uid);
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const current = (await transaction.get(deletionRef)).data();
+      if (current?.status === "processing") {
+        throw new functions.https.HttpsError("failed-precondition", "Your account is already being deleted");
+      }
+      if (current?.status !== "scheduled") {
+        throw new functions.https.HttpsError("failed-precondition", "No account deletion is scheduled");
+      }
+
+      transaction.update(deletionRef, {
+        status: "cancelled",
+        cancelledAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(db.collection("users").doc(uid), {
+        deletionScheduledFor: FieldValue.delete(),
+      });
+    });
+
+    return { success: true };
+  } catch (error) {
+    functions.logger.error("Error cancelling account deletion:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to cancel account deletion");
+  }
+});
+
+// Purge accounts whose grace period has ended. Large accounts take several
+// runs; each picks up from the last completed step.
+export const processAccountDeletions = functions
+  .runWith({ timeoutSeconds: 540, memory: "512MB" })
+  .pubsub.schedule("every 1 hours")
+  .onRun(async () => {
+    const deadline = Date.now() + RUN_BUDGET_MS;
+    const due = await db.collection(ACCOUNT_DELETIONS_COLLECTION)
+      .where("status", "in", ["scheduled", "processing"])
+      .where("scheduledFor", "<=", admin.firestore.Timestamp.now())
+      .orderBy("scheduledFor")
+      .limit(MAX_ACCOUNTS_PER_RUN)
+      .get();
+
+    let completed = 0;
+    for (const doc of due.docs) {
+      if (Date.now() > deadline) break;
+      try {
+        if (await purgeAccount(doc.ref, deadline)) {
+          completed++;
+          functions.logger.info(`Account ${doc.id} deleted`);
+        }
+      } catch (error) {
+        functions.logger.error(`Error deleting account ${doc.id}:`, error);
+        await doc.ref.update({
+          lastError: error instanceof Error ? error.message : String(error),
+          updatedAt: FieldValue.serverTimestamp(),
+        }).catch(() => undefined);
+      }
+    }
+
+    functions.logger.info(`Deleted ${completed} of ${due.size} due accounts`);
+  });
+
+// Auth accounts removed outside the pipeline (console, Admin SDK) skip the
+// grace period and are purged on the next run
+export const queueAccountPurge = async (uid: string): Promise<void> => {
+  const deletionRef = db.collection(ACCOUNT_DELETIONS_COLLECTION).doc(uid);
+  await db.runTransaction(async (transaction) => {
+    const current = (await transaction.get(deletionRef)).data();
+    if (current?.status === "processing" || current?.status === "completed") return;
+
+    transaction.set(deletionRef, {
+      userId: uid,
+      status: "processing",
+      requestedAt: current?.requestedAt ?? FieldValue.serverTimestamp(),
+      scheduledFor: admin.firestore.Timestamp.now(),
+      completedSteps: current?.completedSteps ?? [],
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+  });
+};
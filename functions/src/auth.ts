@@ -1,5 +1,8 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import { isBlockedBetween } from "./blocking";
+import { canViewProfile, DEFAULT_PRIVACY_SETTINGS, getPrivacySettings, privateProfileRef } from "./privacy";
+import { queueAccountPurge } from "./accountDeletion";
 
 const db = admin.firestore();
 
@@ -24,14 +27,11 @@ export const onUserCreate = functions.auth.user().onCreate(async (user) => {
           push: true,
           inApp: true,
         },
-        privacy: {
-          profileVisible: true,
-          showOnlineStatus: true,
-        },
       },
     };
 
     await db.collection("users").doc(user.uid).set(userDoc);
+    await privateProfileRef(user.uid).set({ privacy: DEFAULT_PRIVACY_SETTINGS }, { merge: true });
 
     // Create user stats document
     await db.collection("userStats").doc(user.uid).set({
@@ -48,42 +48,14 @@ export const onUserCreate = functions.auth.user().onCreate(async (user) => {
   }
 });
 
-// Trigger when a user is deleted
+// Trigger when a user is deleted. The data is purged by
+// processAccountDeletions, which also handles accounts deleted in the app.
 export const onUserDelete = functions.auth.user().onDelete(async (user) => {
   try {
-    const batch = db.batch();
-
-    // Delete user document
-    batch.delete(db.collection("users").doc(user.uid));
-
-    // Delete user stats
-    batch.delete(db.collection("userStats").doc(user.uid));
-
-    // Delete user's private data
-    const privateDataRef = db.collection("users").doc(user.uid).collection("private");
-    const privateDataSnapshot = await privateDataRef.get();
-    privateDataSnapshot.docs.forEach((doc) => {
-      batch.delete(doc.ref);
-    });
-
-    // Anonymize user's reviews (don't delete to preserve content)
-    const reviewsSnapshot = await db.collection("reviews")
-      .where("authorId", "==", user.uid)
-      .get();
-
-    reviewsSnapshot.docs.forEach((doc) => {
-      batch.update(doc.ref, {
-        authorId: "deleted-user",
-        authorName: "Deleted User",
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
-    });
-
-    await batch.commit();
-
-    functions.logger.info(`User data cleaned up for ${user.uid}`);
+    await queueAccountPurge(user.uid);
+    functions.logger.info(`User data queued for purge for ${user.uid}`);
   } catch (error) {
-    functions.logger.error("Error cleaning up user data:", error);
+    functions.logger.error("Error queueing user data purge:", error);
   }
 });
 
@@ -97,7 +69,6 @@ export const updateUserProfile = functions.https.onCall(async (data, context) =>
   const allowedFields = [
     "displayName",
     "bio",
-    "location",
     "interests",
     "preferences",
     "anonymousUsername",
@@ -114,8 +85,15 @@ export const updateUserProfile = functions.https.onCall(async (data, context) =>
         updateData[key] = data[key];
       }
     });
+    // Privacy settings are saved to the private profile by the app
+    if (updateData.preferences) {
+      delete updateData.preferences.privacy;
+    }
 
     await db.collection("users").doc(uid).update(updateData);
+    if (typeof data.location === "string") {
+      await privateProfileRef(uid).set({ location: data.location }, { merge: true });
+    }
 
     return { success: true, message: "Profile updated successfully" };
   } catch (error) {
@@ -133,43 +111,67 @@ export const getUserProfile = functions.https.onCall(async (data, context) => {
   const { userId } = data;
   const requestingUserId = context.auth.uid;
 
+  if (typeof userId !== "string" || !userId) {
+    throw new functions.https.HttpsError("invalid-argument", "userId is required");
+  }
+
   try {
-    const userDoc = await db.collection("users").doc(userId).get();
+    const [userDoc, privateDoc] = await db.getAll(db.collection("users").doc(userId), privateProfileRef(userId));
 
     if (!userDoc.exists) {
       throw new functions.https.HttpsError("not-found", "User not found");
     }
 
     const userData = userDoc.data();
-    
+    const privateProfile = privateDoc.data();
+    // Callable responses are JSON, so timestamps travel as milliseconds
+    const toMillis = (value: unknown) =>
+      value instanceof admin.firestore.Timestamp ? value.toMillis() : value;
+
     // Return different data based on privacy settings and relationship
     const isOwnProfile = userId === requestingUserId;
+    const privacy = getPrivacySettings(privateProfile);
     const profileData: any = {
+      id: userId,
       uid: userData?.uid,
       displayName: userData?.displayName,
+      name: userData?.name,
+      username: userData?.username,
+      anonymousUsername: userData?.anonymousUsername,
+      photoURL: userData?.photoURL,
       bio: userData?.bio,
-      location: userData?.location,
       interests: userData?.interests,
-      createdAt: userData?.createdAt,
+      createdAt: toMillis(userData?.createdAt),
     };
 
     if (isOwnProfile) {
       // Return full profile for own profile
       profileData.email = userData?.email;
-      profileData.preferences = userData?.preferences;
+      profileData.preferences = { ...userData?.preferences, privacy };
       profileData.emailVerified = userData?.emailVerified;
     } else {
-      // Return limited profile for others
-      if (userData?.preferences?.privacy?.profileVisible === false) {
-        throw new functions.https.HttpsError("permission-denied", "Profile is private");
+      // Blocked users get the same answer as a missing profile
+      if (await isBlockedBetween(userId, requestingUserId)) {
+        throw new functions.https.HttpsError("not-found", "User not found");
       }
 
-      if (userData?.preferences?.privacy?.showOnlineStatus) {
-        profileData.isOnline = userData?.isOnline;
-        profileData.lastActive = userData?.lastActive;
+      if (!(await canViewProfile(privacy, userId, requestingUserId))) {
+        throw new functions.https.HttpsError("permission-denied", "Profile is private");
       }
     }
 
+    // Each optional field only goes to others when the owner shares it
+    if (isOwnProfile || privacy.showAge) {
+      profileData.age = privateProfile?.age;
+    }
+    if (isOwnProfile || privacy.showLocation) {
+      profileData.location = privateProfile?.location;
+    }
+    if (isOwnProfile || privacy.showLastSeen) {
+      profileData.isOnline = userData?.isOnline;
+      profileData.lastActive = toMillis(userData?.lastActive);
+    }
+
     // Get user stats
     const statsDoc = await db.collection("userStats").doc(userId).get();
     if (statsDoc.exists) {
@@ -0,0 +1,21 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+// Block lists live in users/{uid}/private/blocks as { userIds }, written by
+// the app's BlockService. firestore.rules checks the same documents.
+const blocksRef = (userId: string) =>
+  db.collection("users").doc(userId).collection("private").doc("blocks");
+
+export const getBlockedUserIds = async (userId: string): Promise<string[]> => {
+  const blocksDoc = await blocksRef(userId).get();
+  const userIds = blocksDoc.data()?.userIds;
+  return Array.isArray(userIds) ? userIds : [];
+};
+
+// Whether either user has blocked the other
+export const isBlockedBetween = async (userA: string, userB: string): Promise<boolean> => {
+  const [aDoc, bDoc] = await db.getAll(blocksRef(userA), blocksRef(userB));
+  return (aDoc.data()?.userIds || []).includes(userB) ||
+    (bDoc.data()?.userIds || []).includes(userA);
+};
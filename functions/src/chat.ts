@@ -0,0 +1,237 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { randomBytes } from "crypto";
+import { isBlockedBetween } from "./blocking";
+
+const db = admin.firestore();
+
+const CHAT_ROOMS_COLLECTION = "chatRooms";
+const CHAT_INVITES_COLLECTION = "chatInvites";
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// No 0/O or 1/I/L, so codes survive being read aloud or retyped
+const INVITE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 10;
+
+// Who may start a conversation with a user, from privacy.allowMessages in
+// their private profile (see privacy.ts). "matches" only lets in people the
+// user already has a conversation with.
+export type AllowMessages = "everyone" | "matches" | "none";
+
+const ALLOW_MESSAGES: AllowMessages[] = ["everyone", "matches", "none"];
+
+export const getAllowMessages = (privateProfile: admin.firestore.DocumentData | undefined): AllowMessages => {
+  const value = privateProfile?.privacy?.allowMessages;
+  return ALLOW_MESSAGES.includes(value) ? value : "everyone";
+};
+
+// The same id whichever user starts the conversation
+export const directRoomId = (user1Id: string, user2Id: string): string =>
+  [user1Id, user2Id].sort().join("_");
+
+// Open the direct conversation with another user, creating it if needed.
+// New conversations are only created here so the other user's allowMessages
+// setting and blocks cannot be skipped by writing the room directly.
+export const startDirectChat = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const uid = context.auth.uid;
+  const targetId = typeof data?.userId === "string" ? data.userId.trim() : "";
+  if (!targetId) {
+    throw new functions.https.HttpsError("invalid-argument", "userId is required");
+  }
+  if (targetId === uid) {
+    throw new functions.https.HttpsError("invalid-argument", "You can't message yourself");
+  }
+
+  try {
+    const roomId = directRoomId(uid, targetId);
+    const roomRef = db.collection(CHAT_ROOMS_COLLECTION).doc(roomId);
+    const targetRef = db.collection("users").doc(targetId);
+    const [targetDoc, profileDoc, roomDoc] = await db.getAll(
+      targetRef,
+      targetRef.collection("private").doc("profile"),
+      roomRef
+    );
+
+    if (!targetDoc.exists) {
+      throw new functions.https.HttpsError("not-found", "User not found");
+    }
+
+    // A user blocked in the room or by either user cannot get back in
+    // through a new request
+    const blockedUsers: string[] = roomDoc.data()?.blockedUsers || [];
+    if (blockedUsers.includes(uid) || await isBlockedBetween(uid, targetId)) {
+      throw new functions.https.HttpsError("permission-denied", "This user isn't accepting messages from you");
+    }
+
+    if (roomDoc.exists) {
+      return { roomId, created: false };
+    }
+
+    if (getAllowMessages(profileDoc.data()) !== "everyone") {
+      throw new functions.https.HttpsError("permission-denied", "This user isn't accepting new messages");
+    }
+
+    try {
+      await roomRef.create({
+        participants: [uid, targetId],
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        lastMessage: null,
+        lastMessageTime: null,
+        unreadCount: {
+          [uid]: 0,
+          [targetId]: 0,
+        },
+        name: "Direct Message",
+        type: "direct",
+        isActive: true,
+        createdBy: uid,
+      });
+    } catch (error) {
+      // The other user opened the conversation at the same moment
+      if ((error as { code?: number }).code === 6) {
+        return { roomId, created: false };
+      }
+      throw error;
+    }
+
+    return { roomId, created: true };
+  } catch (error) {
+    functions.logger.error("Error starting direct chat:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to start conversation");
+  }
+});
+
+const isRoomAdmin = (room: admin.firestore.DocumentData, uid: string): boolean =>
+  room.type !== "direct" &&
+  (room.createdBy === uid || (room.moderators || []).includes(uid));
+
+const generateInviteCode = (): string =>
+  [...randomBytes(INVITE_CODE_LENGTH)]
+    .map((byte) => INVITE_ALPHABET[byte % INVITE_ALPHABET.length])
+    .join("");
+
+// Create an invite code for a private room. Only room admins can invite, and
+// codes are only ever created here so clients cannot choose or list them.
+export const createChatInvite = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const uid = context.auth.uid;
+  const roomId = typeof data?.roomId === "string" ? data.roomId : "";
+  if (!roomId) {
+    throw new functions.https.HttpsError("invalid-argument", "roomId is required");
+  }
+
+  try {
+    const roomDoc = await db.collection(CHAT_ROOMS_COLLECTION).doc(roomId).get();
+    const room = roomDoc.data();
+    if (!room || room.isActive === false) {
+      throw new functions.https.HttpsError("not-found", "Room not found");
+    }
+    if (!isRoomAdmin(room, uid)) {
+      throw new functions.https.HttpsError("permission-denied", "Only room admins can create invite links");
+    }
+
+    const code = generateInviteCode();
+    const expiresAt = Date.now() + INVITE_TTL_MS;
+    await db.collection(CHAT_INVITES_COLLECTION).doc(code).set({
+      code,
+      roomId,
+      createdBy: uid,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: admin.firestore.Timestamp.fromMillis(expiresAt),
+    });
+
+    return { code, expiresAt };
+  } catch (error) {
+    functions.logger.error("Error creating chat invite:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to create invite link");
+  }
+});
+
+// Join the room an invite code belongs to. Members removed by an admin stay
+// out even with a valid code.
+export const joinChatRoomByInvite = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const uid = context.auth.uid;
+  const code = typeof data?.code === "string" ? data.code.trim().toUpperCase() : "";
+  if (!code || code.length > 32) {
+    throw new functions.https.HttpsError("invalid-argument", "Invite code is required");
+  }
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const inviteDoc = await transaction.get(db.collection(CHAT_INVITES_COLLECTION).doc(code));
+      const invite = inviteDoc.data();
+      if (!invite || invite.expiresAt.toMillis() < Date.now()) {
+        throw new functions.https.HttpsError("not-found", "This invite link is invalid or has expired");
+      }
+
+      const roomRef = db.collection(CHAT_ROOMS_COLLECTION).doc(invite.roomId);
+      const roomDoc = await transaction.get(roomRef);
+      const room = roomDoc.data();
+      if (!room || room.isActive === false) {
+        throw new functions.https.HttpsError("not-found", "This room no longer exists");
+      }
+      if ((room.blockedUsers || []).includes(uid)) {
+        throw new functions.https.HttpsError("permission-denied", "You were removed from this room");
+      }
+      // Invites don't reach across a block with the room owner or the inviter
+      const inviters = [...new Set([room.createdBy, invite.createdBy])]
+        .filter((inviterId): inviterId is string => typeof inviterId === "string" && inviterId !== uid);
+      for (const inviterId of inviters) {
+        if (await isBlockedBetween(uid, inviterId)) {
+          throw new functions.https.HttpsError("permission-denied", "You can't join this room");
+        }
+      }
+
+      if (!(room.participants || []).includes(uid)) {
+        transaction.update(roomRef, {
+          participants: admin.firestore.FieldValue.arrayUnion(uid),
+          [`unreadCount.${uid}`]: 0,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+
+      return { roomId: invite.roomId };
+    });
+  } catch (error) {
+    functions.logger.error("Error joining chat room by invite:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to join room");
+  }
+});
+
+// Remove the stored file once its message is deleted for everyone. Clients
+// can't delete chat uploads themselves, so this is the only cleanup path.
+export const onChatMessageDeleted = functions.firestore
+  .document(`${CHAT_ROOMS_COLLECTION}/{roomId}/messages/{messageId}`)
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    const path = before.attachment?.path;
+    if (before.deleted || !after.deleted || typeof path !== "string") return;
+
+    const paths = [path, before.attachment?.thumbnailPath].filter((file): file is string => typeof file === "string");
+    try {
+      await Promise.all(paths.map((file) => admin.storage().bucket().file(file).delete({ ignoreNotFound: true })));
+    } catch (error) {
+      functions.logger.error(`Error deleting attachment of message ${context.params.messageId}:`, error);
+    }
+  });
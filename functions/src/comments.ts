@@ -0,0 +1,154 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { isBlockedBetween } from "./blocking";
+
+const db = admin.firestore();
+
+// Reply and like counts are recounted rather than incremented so a retried
+// or out-of-order trigger still leaves them correct. Clients can't write
+// either counter.
+const updateReplyCount = async (parentId: string): Promise<void> => {
+  const parentRef = db.collection("comments").doc(parentId);
+  const replies = await db.collection("comments").where("parentId", "==", parentId).count().get();
+
+  await db.runTransaction(async (transaction) => {
+    const parentDoc = await transaction.get(parentRef);
+    if (!parentDoc.exists) return;
+    transaction.update(parentRef, { replyCount: replies.data().count });
+  });
+};
+
+// Count a new reply on its parent and tell the author of the comment it
+// answers. Runs server-side because the author's notification settings in
+// userSettings are private to them.
+export const onCommentCreated = functions.firestore
+  .document("comments/{commentId}")
+  .onCreate(async (snapshot, context) => {
+    const comment = snapshot.data();
+    if (comment.parentId) {
+      try {
+        await updateReplyCount(comment.parentId);
+      } catch (error) {
+        functions.logger.error(`Error counting replies to ${comment.parentId}:`, error);
+      }
+    }
+
+    // Replies past the depth cap are stored beside the comment they answer,
+    // so replyToId names that comment when it differs from parentId
+    const replyToId: string | null = comment.replyToId || comment.parentId || null;
+    if (!replyToId) {
+      return;
+    }
+
+    try {
+      const repliedToDoc = await db.collection("comments").doc(replyToId).get();
+      const repliedTo = repliedToDoc.data();
+      if (!repliedTo || repliedTo.reviewId !== comment.reviewId || repliedTo.authorId === comment.authorId) {
+        return;
+      }
+
+      const recipientId: string = repliedTo.authorId;
+      const [settingsDoc, blocked] = await Promise.all([
+        db.collection("userSettings").doc(recipientId).get(),
+        isBlockedBetween(recipientId, comment.authorId),
+      ]);
+      // Settings saved before reply notifications existed have no commentReplies key
+      if (blocked || settingsDoc.data()?.notifications?.commentReplies === false) {
+        return;
+      }
+
+      const content: string = comment.content || "";
+      // One notification per reply, even if the trigger retries
+      const notificationRef = db.collection("notifications").doc(`commentReply_${context.params.commentId}`);
+      await notificationRef.set({
+        id: notificationRef.id,
+        userId: recipientId,
+        senderId: comment.authorId,
+        type: "comment_reply",
+        title: "New Reply",
+        message: `Someone replied to your comment: ${content.substring(0, 50)}${content.length > 50 ? "..." : ""}`,
+        data: {
+          reviewId: comment.reviewId,
+          commentId: context.params.commentId,
+          parentId: replyToId,
+          reply: content,
+        },
+        isRead: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      functions.logger.error(`Error notifying reply ${context.params.commentId}:`, error);
+    }
+  });
+
+// Keep the text a comment had before each edit, so moderators can see what
+// changed after others replied. Written here rather than by the app, so a
+// revision always holds the real earlier text and no edit goes unrecorded.
+export const onCommentUpdated = functions.firestore
+  .document("comments/{commentId}")
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    // Tombstones clear the text; only edits are revisions
+    if (before.content === after.content || after.isDeleted === true) {
+      return;
+    }
+
+    const { commentId } = context.params;
+    try {
+      // Keyed by the event so a retried trigger writes the same revision
+      await change.after.ref.collection("revisions").doc(context.eventId).set({
+        commentId,
+        content: before.content,
+        editorId: after.authorId,
+        createdAt: after.editedAt ?? admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      functions.logger.error(`Error saving revision of comment ${commentId}:`, error);
+    }
+  });
+
+// Only moderators remove comments outright; their parent loses a reply
+export const onCommentDeleted = functions.firestore
+  .document("comments/{commentId}")
+  .onDelete(async (snapshot) => {
+    const parentId: string | null = snapshot.data().parentId || null;
+    if (!parentId) {
+      return;
+    }
+
+    try {
+      await updateReplyCount(parentId);
+    } catch (error) {
+      functions.logger.error(`Error counting replies to ${parentId}:`, error);
+    }
+  });
+
+// Keep a comment's likes and likedBy in step with its likes subcollection,
+// which holds one document per user who liked it
+export const onCommentLikeWrite = functions.firestore
+  .document("comments/{commentId}/likes/{userId}")
+  .onWrite(async (change, context) => {
+    const { commentId, userId } = context.params;
+    if (change.before.exists === change.after.exists) {
+      return;
+    }
+
+    const commentRef = db.collection("comments").doc(commentId);
+    try {
+      const likes = await commentRef.collection("likes").count().get();
+
+      await db.runTransaction(async (transaction) => {
+        const commentDoc = await transaction.get(commentRef);
+        if (!commentDoc.exists) return;
+        transaction.update(commentRef, {
+          likes: likes.data().count,
+          likedBy: change.after.exists ?
+            admin.firestore.FieldValue.arrayUnion(userId) :
+            admin.firestore.FieldValue.arrayRemove(userId),
+        });
+      });
+    } catch (error) {
+      functions.logger.error(`Error counting likes on comment ${commentId}:`, error);
+    }
+  });
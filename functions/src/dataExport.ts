@@ -0,0 +1,256 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+// One status document per user, see DataExport in types/index.ts
+const DATA_EXPORTS_COLLECTION = "dataExports";
+const EXPORT_LINK_TTL_MS = 48 * 60 * 60 * 1000;
+const EXPORT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+// A run older than this has died with its function instance
+const STALE_EXPORT_MS = 15 * 60 * 1000;
+
+type ExportRecord = Record<string, unknown>;
+
+// Firestore values as plain JSON: timestamps become ISO strings and
+// references become document paths
+const toExportValue = (value: unknown): unknown => {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (value instanceof admin.firestore.GeoPoint) {
+    return { latitude: value.latitude, longitude: value.longitude };
+  }
+  if (value instanceof admin.firestore.DocumentReference) {
+    return value.path;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toExportValue);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toExportValue(item)])
+    );
+  }
+  return value;
+};
+
+const toRecord = (snapshot: admin.firestore.DocumentSnapshot): ExportRecord =>
+  ({ id: snapshot.id, ...(toExportValue(snapshot.data() || {}) as ExportRecord) });
+
+const getRecords = async (query: admin.firestore.Query): Promise<ExportRecord[]> => {
+  const snapshot = await query.get();
+  return snapshot.docs.map(toRecord);
+};
+
+// Everything the app stores about or by a user. Comments and messages live in
+// subcollections, so they are found through collection group queries.
+const gatherUserData = async (uid: string) => {
+  const userRef = db.collection("users").doc(uid);
+  const [
+    userDoc,
+    privateDocs,
+    statsDoc,
+    settingsDoc,
+    reviews,
+    comments,
+    messages,
+    notifications,
+    reports,
+    savedSearches,
+  ] = await Promise.all([
+    userRef.get(),
+    userRef.collection("private").get(),
+    db.collection("userStats").doc(uid).get(),
+    db.collection("userSettings").doc(uid).get(),
+    getRecords(db.collection("reviews").where("authorId", "==", uid)),
+    getRecords(db.collectionGroup("comments").where("authorId", "==", uid)),
+    db.collectionGroup("messages").where("senderId", "==", uid).get(),
+    getRecords(db.collection("notifications").where("userId", "==", uid)),
+    getRecords(db.collection("reports").where("reporterId", "==", uid)),
+    getRecords(db.collection("savedSearches").where("userId", "==", uid)),
+  ]);
+
+  const profile = userDoc.exists ? toRecord(userDoc) : null;
+  const { preferences, ...profileFields } = profile || {};
+
+  return {
+    profile: profile ? profileFields : null,
+    stats: statsDoc.exists ? toRecord(statsDoc) : null,
+    settings: {
+      preferences: preferences ?? null,
+      notifications: settingsDoc.exists ? toRecord(settingsDoc) : null,
+      private: privateDocs.docs.map(toRecord),
+    },
+    reviews,
+    comments,
+    chatMessages: messages.docs.map((doc) => ({
+      roomId: doc.ref.parent.parent?.id ?? null,
+      ...toRecord(doc),
+    })),
+    notifications,
+    reports,
+    savedSearches,
+  };
+};
+
+type UserData = Awaited<ReturnType<typeof gatherUserData>>;
+
+const countRecords = (data: UserData): Record<string, number> => ({
+  reviews: data.reviews.length,
+  comments: data.comments.length,
+  chatMessages: data.chatMessages.length,
+  notifications: data.notifications.length,
+  reports: data.reports.length,
+  savedSearches: data.savedSearches.length,
+});
+
+// Plain text overview placed at the top of the archive
+const buildSummary = (data: UserData, counts: Record<string, number>, exportedAt: Date): string[] => {
+  const profile = data.profile || {};
+  const name = profile.displayName || profile.anonymousUsername || "your account";
+
+  return [
+    `Personal data export for ${name}`,
+    `Created ${exportedAt.toUTCString()}`,
+    "",
+    `Profile: ${data.profile ? "included" : "none found"}`,
+    `Reviews written: ${counts.reviews}`,
+    `Comments posted: ${counts.comments}`,
+    `Chat messages sent: ${counts.chatMessages}`,
+    `Notifications received: ${counts.notifications}`,
+    `Reports filed: ${counts.reports}`,
+    `Saved searches: ${counts.savedSearches}`,
+    "",
+    "Settings covers your privacy and notification preferences and your block list.",
+    "Dates are in UTC (ISO 8601).",
+  ];
+};
+
+// Build a JSON archive of the caller's data in Storage and return a signed
+// link to it. Progress is mirrored in dataExports/{uid} so the app can show
+// it even if the call is interrupted.
+export const requestDataExport = functions
+  .runWith({ timeoutSeconds: 300, memory: "512MB" })
+  .https.onCall(async (_data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const uid = context.auth.uid;
+    const statusRef = db.collection(DATA_EXPORTS_COLLECTION).doc(uid);
+    let previousPath: string | null = null;
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const current = (await transaction.get(statusRef)).data();
+        const requestedAt = (current?.requestedAt as admin.firestore.Timestamp | undefined)?.toMillis() ?? 0;
+        const age = Date.now() - requestedAt;
+
+        if (current?.status === "processing" && age < STALE_EXPORT_MS) {
+          throw new functions.https.HttpsError("failed-precondition", "Your export is already being prepared");
+        }
+        if (current?.status === "ready" && age < EXPORT_COOLDOWN_MS) {
+          throw new functions.https.HttpsError(
+            "resource-exhausted",
+            "You can request one export a day. Your latest export is still available."
+          );
+        }
+        previousPath = current?.filePath ?? null;
+
+        transaction.set(statusRef, {
+          userId: uid,
+          status: "processing",
+          requestedAt: admin.firestore.FieldValue.serverTimestamp(),
+          completedAt: null,
+          expiresAt: null,
+          downloadUrl: null,
+          counts: null,
+          filePath: previousPath,
+          error: null,
+        });
+      });
+    } catch (error) {
+      functions.logger.error("Error starting data export:", error);
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      throw new functions.https.HttpsError("internal", "Failed to start data export");
+    }
+
+    try {
+      const exportedAt = new Date();
+      const data = await gatherUserData(uid);
+      const counts = countRecords(data);
+      const archive = {
+        format: "lockerroom-data-export",
+        version: 1,
+        userId: uid,
+        exportedAt: exportedAt.toISOString(),
+        summary: buildSummary(data, counts, exportedAt),
+        data,
+      };
+
+      const filePath = `exports/${uid}/${exportedAt.getTime()}.json`;
+      const file = admin.storage().bucket().file(filePath);
+      await file.save(JSON.stringify(archive, null, 2), {
+        contentType: "application/json",
+        metadata: {
+          contentDisposition: `attachment; filename="data-export-${exportedAt.toISOString().slice(0, 10)}.json"`,
+        },
+      });
+
+      const expiresAt = new Date(exportedAt.getTime() + EXPORT_LINK_TTL_MS);
+      const [downloadUrl] = await file.getSignedUrl({ action: "read", expires: expiresAt });
+
+      await statusRef.update({
+        status: "ready",
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+        expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+        downloadUrl,
+        filePath,
+        counts,
+      });
+
+      // Only the newest archive is kept
+      if (previousPath && previousPath !== filePath) {
+        await admin.storage().bucket().file(previousPath).delete({ ignoreNotFound: true });
+      }
+
+      return { status: "ready", downloadUrl, expiresAt: expiresAt.toISOString(), counts };
+    } catch (error) {
+      functions.logger.error(`Error exporting data for ${uid}:`, error);
+      await statusRef.update({
+        status: "failed",
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+        error: "We couldn't prepare your export. Please try again.",
+      }).catch(() => undefined);
+      throw new functions.https.HttpsError("internal", "Failed to export data");
+    }
+  });
+
+// Remove archives once their links have expired
+export const cleanupDataExports = functions.pubsub.schedule("every 24 hours").onRun(async () => {
+  const expired = await db.collection(DATA_EXPORTS_COLLECTION)
+    .where("status", "==", "ready")
+    .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+    .get();
+
+  await Promise.all(expired.docs.map(async (doc) => {
+    const filePath = doc.data().filePath as string | undefined;
+    try {
+      if (filePath) {
+        await admin.storage().bucket().file(filePath).delete({ ignoreNotFound: true });
+      }
+      await doc.ref.update({
+        status: "expired",
+        downloadUrl: null,
+        filePath: admin.firestore.FieldValue.delete(),
+      });
+    } catch (error) {
+      functions.logger.error(`Error removing data export for ${doc.id}:`, error);
+    }
+  }));
+
+  functions.logger.info(`Removed ${expired.size} expired data exports`);
+});
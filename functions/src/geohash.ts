@@ -0,0 +1,70 @@
+// Server copy of the geohash helpers in utils/geohash.ts, used to write the
+// geohash field that radius queries on reviews range over.
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+const BITS_PER_CHAR = 5;
+export const GEOHASH_PRECISION = 10; // ~1m cells
+
+export const encodeGeohash = (point: GeoPoint, precision: number = GEOHASH_PRECISION): string => {
+  const latitudeRange = [-90, 90];
+  const longitudeRange = [-180, 180];
+  let hash = "";
+  let value = 0;
+  let bits = 0;
+  let even = true;
+
+  while (hash.length < precision) {
+    const range = even ? longitudeRange : latitudeRange;
+    const coordinate = even ? point.longitude : point.latitude;
+    const mid = (range[0] + range[1]) / 2;
+
+    value <<= 1;
+    if (coordinate > mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    even = !even;
+    if (++bits === BITS_PER_CHAR) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+};
+
+const isGeoPoint = (value: unknown): value is GeoPoint =>
+  typeof value === "object" && value !== null &&
+  typeof (value as GeoPoint).latitude === "number" &&
+  typeof (value as GeoPoint).longitude === "number";
+
+// Older locations stored GeoJSON order, [longitude, latitude]
+const toGeoPoint = (value: unknown): GeoPoint | null => {
+  if (Array.isArray(value) && typeof value[0] === "number" && typeof value[1] === "number") {
+    return { latitude: value[1], longitude: value[0] };
+  }
+  return isGeoPoint(value) ? { latitude: value.latitude, longitude: value.longitude } : null;
+};
+
+const field = (value: unknown, key: string): unknown =>
+  typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+// Older reviews keep coordinates only inside locationData
+export const getReviewCoordinates = (review: { coordinates?: unknown; locationData?: unknown }): GeoPoint | null => {
+  const { coordinates, locationData } = review;
+  const candidates = [coordinates, field(locationData, "coordinates"), field(field(locationData, "data"), "coordinates")];
+  for (const candidate of candidates) {
+    const point = toGeoPoint(candidate);
+    if (point) return point;
+  }
+  return null;
+};
@@ -11,6 +11,25 @@ import {
   updateUserProfile,
   getUserProfile,
 } from "./auth";
+import { submitReview, editReview, onReviewReactionWrite } from "./reviews";
+import { onReportCreated, resolveModerationItem } from "./moderationQueue";
+import { onMediaUploaded } from "./mediaScreening";
+import { linkReviews, unlinkReview, onLinkedReviewUpdated } from "./subjects";
+import { onReviewWrite, searchReviews } from "./search";
+import { saveSearch, notifySavedSearches } from "./savedSearches";
+import {
+  startDirectChat,
+  createChatInvite,
+  joinChatRoomByInvite,
+  onChatMessageDeleted,
+} from "./chat";
+import { onCommentCreated, onCommentUpdated, onCommentDeleted, onCommentLikeWrite } from "./comments";
+import { requestDataExport, cleanupDataExports } from "./dataExport";
+import {
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+  processAccountDeletions,
+} from "./accountDeletion";
 
 // Export auth functions
 export {
@@ -20,6 +39,33 @@ export {
   getUserProfile,
 };
 
+// Export review functions
+export { submitReview, editReview, onReviewReactionWrite };
+
+// Export moderation functions
+export { onReportCreated, resolveModerationItem, onMediaUploaded };
+
+// Export comment functions
+export { onCommentCreated, onCommentUpdated, onCommentDeleted, onCommentLikeWrite };
+
+// Export subject (person) linking functions
+export { linkReviews, unlinkReview, onLinkedReviewUpdated };
+
+// Export search functions
+export { onReviewWrite, searchReviews };
+
+// Export saved search functions
+export { saveSearch, notifySavedSearches };
+
+// Export chat functions
+export { startDirectChat, createChatInvite, joinChatRoomByInvite, onChatMessageDeleted };
+
+// Export personal data export functions
+export { requestDataExport, cleanupDataExports };
+
+// Export account deletion functions
+export { scheduleAccountDeletion, cancelAccountDeletion, processAccountDeletions };
+
 // Health check function
 export const healthCheck = functions.https.onRequest((req, res) => {
   res.status(200).json({
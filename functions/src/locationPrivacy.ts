@@ -0,0 +1,67 @@
+// Server copy of the location privacy policy in utils/locationPrivacy.ts.
+// The app coarsens coordinates before sending them; submitReview snaps them
+// to the grid again so no stored review is more precise than a grid cell,
+// whatever the client sent.
+
+import { GeoPoint } from "./geohash";
+
+export type LocationPrecisionMode = "grid" | "jitter" | "city";
+
+export interface LocationPrecision {
+  mode: LocationPrecisionMode;
+  radiusKm: number;
+}
+
+const LOCATION_PRECISION_MODES: LocationPrecisionMode[] = ["grid", "jitter", "city"];
+
+const GRID_CELL_KM = 1;
+const JITTER_KM = 2;
+const CITY_RADIUS_KM = 15;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+const cellRadiusKm = (cellKm: number): number => (cellKm * Math.SQRT2) / 2;
+
+const PRECISION_RADIUS_KM: Record<LocationPrecisionMode, number> = {
+  grid: cellRadiusKm(GRID_CELL_KM),
+  jitter: JITTER_KM + cellRadiusKm(GRID_CELL_KM),
+  city: CITY_RADIUS_KM + cellRadiusKm(GRID_CELL_KM),
+};
+
+export const snapToGrid = (point: GeoPoint, cellKm: number): GeoPoint => {
+  const latitudeStep = cellKm / KM_PER_DEGREE_LATITUDE;
+  const latitude = Math.min(90, Math.max(-90, (Math.floor(point.latitude / latitudeStep) + 0.5) * latitudeStep));
+  const longitudeStep = cellKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+  const longitude = (Math.floor(point.longitude / longitudeStep) + 0.5) * longitudeStep;
+  return { latitude, longitude };
+};
+
+export const isLocationPrecisionMode = (value: unknown): value is LocationPrecisionMode =>
+  LOCATION_PRECISION_MODES.includes(value as LocationPrecisionMode);
+
+// Coordinates and precision as stored on the review. Unknown modes fall
+// back to grid precision.
+export const enforceLocationPrecision = (
+  point: GeoPoint | null,
+  mode: unknown
+): { coordinates: GeoPoint | null; locationPrecision: LocationPrecision | null } => {
+  if (!point) {
+    return { coordinates: null, locationPrecision: null };
+  }
+  const precisionMode = isLocationPrecisionMode(mode) ? mode : "grid";
+  return {
+    coordinates: snapToGrid(point, GRID_CELL_KM),
+    locationPrecision: { mode: precisionMode, radiusKm: PRECISION_RADIUS_KM[precisionMode] },
+  };
+};
+
+// The place name parts of locationData, without any coordinates
+export const toPublicLocationData = (locationData: unknown): Record<string, unknown> | null => {
+  if (typeof locationData !== "object" || locationData === null) return null;
+  const { type, data } = locationData as { type?: unknown; data?: unknown };
+  const source = (typeof data === "object" && data !== null ? data : locationData) as Record<string, unknown>;
+  const place: Record<string, string> = {};
+  ["name", "city", "region", "state", "country"].forEach((key) => {
+    if (typeof source[key] === "string") place[key] = source[key] as string;
+  });
+  return { type: typeof type === "string" ? type : "selected", data: place };
+};
@@ -0,0 +1,147 @@
+// Screening of uploaded images with Cloud Vision SafeSearch. Chat attachments
+// and review media go through the same checks: likely explicit or violent
+// images are held for a moderator and very likely ones are removed.
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { ImageVerdict, evaluateSafeSearch } from "./safeSearch";
+import { chatMessageTargetId, enqueueForReview } from "./moderationQueue";
+import { createChatThumbnail } from "./thumbnails";
+
+const db = admin.firestore();
+
+const VISION_ENDPOINT = "https://vision.googleapis.com/v1/images:annotate";
+
+// chats/{roomId}/{senderId}/{messageId}/{fileName}
+const CHAT_ATTACHMENT_PATH = /^chats\/([^/]+)\/([^/]+)\/([^/]+)\/[^/]+$/;
+// reviews/{reviewId}/media/{mediaId}
+const REVIEW_MEDIA_PATH = /^reviews\/([^/]+)\/media\/[^/]+$/;
+
+export const screenImage = async (bucket: string, path: string): Promise<ImageVerdict> => {
+  try {
+    const { access_token: accessToken } = await admin.credential.applicationDefault().getAccessToken();
+    const response = await fetch(VISION_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        requests: [{
+          image: { source: { imageUri: `gs://${bucket}/${path}` } },
+          features: [{ type: "SAFE_SEARCH_DETECTION" }],
+        }],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Vision API responded with ${response.status}`);
+    }
+
+    const result = await response.json();
+    const annotation = result.responses?.[0]?.safeSearchAnnotation;
+    if (!annotation) {
+      throw new Error(result.responses?.[0]?.error?.message || "No SafeSearch result");
+    }
+    return evaluateSafeSearch(annotation);
+  } catch (error) {
+    // Without a verdict the image waits for a moderator instead of going out unchecked
+    functions.logger.warn(`Image screening failed for ${path}`, error);
+    return { status: "pending", reasons: ["image_screening_unavailable"] };
+  }
+};
+
+const deleteFile = (bucket: string, path: string) =>
+  admin.storage().bucket(bucket).file(path).delete({ ignoreNotFound: true });
+
+const applyChatVerdict = async (
+  bucket: string,
+  path: string,
+  [roomId, senderId, messageId]: string[],
+  verdict: ImageVerdict
+): Promise<void> => {
+  const messageRef = db.collection("chatRooms").doc(roomId).collection("messages").doc(messageId);
+  const messageDoc = await messageRef.get();
+
+  // Uploads that no message points at are never shown, so just drop them
+  if (!messageDoc.exists || messageDoc.data()?.attachment?.path !== path) {
+    await deleteFile(bucket, path);
+    return;
+  }
+
+  const batch = db.batch();
+  batch.update(messageRef, {
+    moderationStatus: verdict.status,
+    moderationReasons: verdict.reasons,
+    flagged: verdict.status !== "approved",
+    moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    moderatedBy: "system",
+  });
+  if (verdict.status === "pending") {
+    enqueueForReview(batch, "chatMessage", chatMessageTargetId(roomId, messageId), senderId, verdict.reasons);
+  }
+  await batch.commit();
+
+  if (verdict.status === "approved") {
+    await createChatThumbnail(bucket, messageRef);
+  } else if (verdict.status === "rejected") {
+    await deleteFile(bucket, path);
+  }
+};
+
+const applyReviewVerdict = async (
+  bucket: string,
+  path: string,
+  reviewId: string,
+  verdict: ImageVerdict
+): Promise<void> => {
+  if (verdict.status === "approved") return;
+
+  const reviewRef = db.collection("reviews").doc(reviewId);
+  const reviewDoc = await reviewRef.get();
+  if (!reviewDoc.exists) {
+    await deleteFile(bucket, path);
+    return;
+  }
+
+  // A flagged image holds the whole review until a moderator has looked at it
+  const review = reviewDoc.data() as admin.firestore.DocumentData;
+  const batch = db.batch();
+  if (review.moderationStatus === "approved") {
+    batch.update(reviewRef, {
+      moderationStatus: "pending",
+      flagged: true,
+      moderationReasons: admin.firestore.FieldValue.arrayUnion(...verdict.reasons),
+      moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      moderatedBy: "system",
+    });
+    enqueueForReview(batch, "review", reviewId, review.authorId, verdict.reasons);
+  }
+  await batch.commit();
+
+  if (verdict.status === "rejected") {
+    await deleteFile(bucket, path);
+  }
+};
+
+// Screen every image uploaded as a chat attachment or review media
+export const onMediaUploaded = functions.storage.object().onFinalize(async (object) => {
+  const path = object.name || "";
+  if (!object.contentType?.startsWith("image/")) return;
+
+  const chatMatch = CHAT_ATTACHMENT_PATH.exec(path);
+  const reviewMatch = REVIEW_MEDIA_PATH.exec(path);
+  if (!chatMatch && !reviewMatch) return;
+
+  const verdict = await screenImage(object.bucket, path);
+  try {
+    if (chatMatch) {
+      await applyChatVerdict(object.bucket, path, chatMatch.slice(1), verdict);
+    } else if (reviewMatch) {
+      await applyReviewVerdict(object.bucket, path, reviewMatch[1], verdict);
+    }
+    if (verdict.status !== "approved") {
+      functions.logger.info(`Image ${path} screened as ${verdict.status}`, { reasons: verdict.reasons });
+    }
+  } catch (error) {
+    functions.logger.error("Error applying image screening result:", error);
+  }
+});
@@ -0,0 +1,71 @@
+// Server-side content moderation used by review submission.
+// Evaluates the same versioned rule set as the app (see moderationEngine.ts)
+// so the verdict shown in the app matches what the backend enforces.
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { EvaluateOptions, ModerationRuleSet, evaluateContent, parseRuleSet } from "./moderationEngine";
+import bundledRules from "./moderationRules.json";
+
+export type ModerationStatus = "approved" | "pending" | "rejected";
+
+export interface ModerationVerdict {
+  status: ModerationStatus;
+  reasons: string[];
+  labels: string[];
+  rulesVersion: number;
+}
+
+// Rules published to Firestore override the bundled copy without a redeploy
+const RULES_DOC_PATH = "public/moderationRules";
+const RULES_CACHE_MS = 5 * 60 * 1000;
+
+const bundledRuleSet = parseRuleSet(bundledRules) as ModerationRuleSet;
+
+let cachedRuleSet: ModerationRuleSet | null = null;
+let cachedAt = 0;
+
+export const loadRuleSet = async (): Promise<ModerationRuleSet> => {
+  if (cachedRuleSet && Date.now() - cachedAt < RULES_CACHE_MS) {
+    return cachedRuleSet;
+  }
+
+  let ruleSet = bundledRuleSet;
+  try {
+    const rulesDoc = await admin.firestore().doc(RULES_DOC_PATH).get();
+    const remote = rulesDoc.exists ? parseRuleSet(rulesDoc.data()) : null;
+    // Never fall back to an older rule set than the one we shipped with
+    if (remote && remote.version >= bundledRuleSet.version) {
+      ruleSet = remote;
+    }
+  } catch (error) {
+    functions.logger.warn("Failed to load moderation rules, using bundled rules", error);
+  }
+
+  cachedRuleSet = ruleSet;
+  cachedAt = Date.now();
+  return ruleSet;
+};
+
+// Rejected content is never written; held content is written as "pending"
+// and only becomes visible once a moderator approves it. Warnings and labels
+// do not affect visibility. High-risk personal identifiers (phone numbers,
+// addresses, plates, handles, a name with a workplace) are blocking rules.
+export const moderateText = async (content: string, options: EvaluateOptions = {}): Promise<ModerationVerdict> => {
+  const ruleSet = await loadRuleSet();
+  const evaluation = evaluateContent(content, ruleSet, options);
+
+  const status: ModerationStatus =
+    evaluation.action === "block" ? "rejected" :
+      evaluation.action === "hold" ? "pending" : "approved";
+
+  const reasons = evaluation.matches
+    .filter((match) => match.action === "block" || match.action === "hold")
+    .map((match) => match.message);
+
+  return {
+    status,
+    reasons: [...new Set(reasons)],
+    labels: evaluation.labels,
+    rulesVersion: evaluation.rulesVersion,
+  };
+};
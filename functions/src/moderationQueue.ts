@@ -0,0 +1,247 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { createChatThumbnail } from "./thumbnails";
+
+const db = admin.firestore();
+
+// Distinct reporters needed before content is hidden pending review
+export const AUTO_HIDE_THRESHOLD = 3;
+
+const TARGET_COLLECTIONS: Record<string, string> = {
+  review: "reviews",
+  comment: "comments",
+};
+
+type ModerationDecision = "approve" | "reject" | "escalate";
+
+const DECISION_STATUS: Record<ModerationDecision, string> = {
+  approve: "approved",
+  reject: "rejected",
+  escalate: "escalated",
+};
+
+export const queueItemId = (targetType: string, targetId: string): string =>
+  `${targetType}_${targetId}`;
+
+// Chat messages live under their room, so their target id is "roomId:messageId"
+export const chatMessageTargetId = (roomId: string, messageId: string): string =>
+  `${roomId}:${messageId}`;
+
+const getTargetRef = (targetType: string, targetId: string): admin.firestore.DocumentReference | null => {
+  if (targetType === "chatMessage") {
+    const [roomId, messageId] = targetId.split(":");
+    return roomId && messageId ?
+      db.collection("chatRooms").doc(roomId).collection("messages").doc(messageId) :
+      null;
+  }
+  const collectionName = TARGET_COLLECTIONS[targetType];
+  return collectionName ? db.collection(collectionName).doc(targetId) : null;
+};
+
+export const isModerator = (token: admin.auth.DecodedIdToken): boolean =>
+  token.roles?.moderator === true || token.roles?.admin === true;
+
+// Queue content that automated moderation held back (no user reports yet)
+export const enqueueForReview = (
+  batch: admin.firestore.WriteBatch,
+  targetType: string,
+  targetId: string,
+  targetAuthorId: string,
+  reasons: string[]
+): void => {
+  batch.set(db.collection("moderationQueue").doc(queueItemId(targetType, targetId)), {
+    targetType,
+    targetId,
+    targetAuthorId,
+    source: "automated",
+    status: "open",
+    reportCount: 0,
+    reporterIds: [],
+    reasons,
+    autoHidden: true,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, { merge: true });
+};
+
+// Aggregate every new report into one queue item per target and hide the
+// target once enough distinct users have reported it
+export const onReportCreated = functions.firestore
+  .document("reports/{reportId}")
+  .onCreate(async (snapshot) => {
+    const report = snapshot.data();
+    const targetRef = report.targetId ? getTargetRef(report.type, report.targetId) : null;
+
+    if (!targetRef) {
+      functions.logger.warn(`Ignoring report ${snapshot.id} with unknown target`, { type: report.type });
+      return;
+    }
+
+    const itemRef = db.collection("moderationQueue").doc(queueItemId(report.type, report.targetId));
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const [itemDoc, targetDoc] = await Promise.all([
+          transaction.get(itemRef),
+          transaction.get(targetRef),
+        ]);
+
+        const item = itemDoc.data();
+        const reporterIds: string[] = item?.reporterIds || [];
+        const isNewReporter = !reporterIds.includes(report.reporterId);
+        const reportCount = (item?.reportCount || 0) + (isNewReporter ? 1 : 0);
+        // Rejected content is already hidden and stays rejected
+        const shouldAutoHide = reportCount >= AUTO_HIDE_THRESHOLD && !item?.autoHidden && targetDoc.exists &&
+          targetDoc.data()?.moderationStatus !== "rejected";
+
+        transaction.set(itemRef, {
+          targetType: report.type,
+          targetId: report.targetId,
+          targetAuthorId: targetDoc.data()?.authorId || targetDoc.data()?.senderId || null,
+          source: item?.source || "reports",
+          // A new report reopens items that were previously approved
+          status: item?.status === "escalated" ? "escalated" : "open",
+          reportCount,
+          reporterIds: admin.firestore.FieldValue.arrayUnion(report.reporterId),
+          reasons: admin.firestore.FieldValue.arrayUnion(report.reason),
+          autoHidden: item?.autoHidden || shouldAutoHide,
+          lastReportedAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          ...(itemDoc.exists ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+        }, { merge: true });
+
+        transaction.update(snapshot.ref, { status: "queued" });
+
+        if (shouldAutoHide) {
+          transaction.update(targetRef, {
+            moderationStatus: "flagged",
+            flagged: true,
+            moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            moderatedBy: "system",
+          });
+
+          transaction.set(db.collection("moderationActions").doc(), {
+            itemId: itemRef.id,
+            targetType: report.type,
+            targetId: report.targetId,
+            action: "auto_hide",
+            actorId: "system",
+            previousStatus: targetDoc.data()?.moderationStatus || "approved",
+            newStatus: "flagged",
+            note: `Hidden after ${reportCount} reports`,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+      });
+    } catch (error) {
+      functions.logger.error("Error aggregating report:", error);
+    }
+  });
+
+// Moderator decision on a queue item; every decision is written to the
+// moderationActions audit trail
+export const resolveModerationItem = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  if (!isModerator(context.auth.token)) {
+    throw new functions.https.HttpsError("permission-denied", "Moderator role required");
+  }
+
+  const { itemId, decision, note } = data || {};
+  if (typeof itemId !== "string" || !(decision in DECISION_STATUS)) {
+    throw new functions.https.HttpsError("invalid-argument", "A queue item and a valid decision are required");
+  }
+  if (note !== undefined && (typeof note !== "string" || note.length > 500)) {
+    throw new functions.https.HttpsError("invalid-argument", "Note must be at most 500 characters");
+  }
+
+  const moderatorId = context.auth.uid;
+  const itemRef = db.collection("moderationQueue").doc(itemId);
+
+  try {
+    const itemDoc = await itemRef.get();
+    if (!itemDoc.exists) {
+      throw new functions.https.HttpsError("not-found", "Queue item not found");
+    }
+
+    const item = itemDoc.data() as admin.firestore.DocumentData;
+    const targetRef = getTargetRef(item.targetType, item.targetId);
+    if (!targetRef) {
+      throw new functions.https.HttpsError("failed-precondition", "Queue item has an unknown target");
+    }
+    const targetDoc = await targetRef.get();
+    const previousStatus = targetDoc.data()?.moderationStatus || "approved";
+    const newStatus = DECISION_STATUS[decision as ModerationDecision];
+
+    const batch = db.batch();
+
+    batch.update(itemRef, {
+      status: newStatus,
+      resolvedBy: moderatorId,
+      resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      // A decision closes this round of reports; later reports start a new
+      // count and can hide the content again
+      ...(decision === "escalate" ? {} : {
+        autoHidden: false,
+        reportCount: 0,
+        reporterIds: [],
+      }),
+    });
+
+    // Escalation leaves the content as it is for an admin to decide
+    if (decision !== "escalate" && targetDoc.exists) {
+      batch.update(targetRef, {
+        moderationStatus: newStatus,
+        flagged: decision === "reject",
+        moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        moderatedBy: moderatorId,
+      });
+    }
+
+    batch.set(db.collection("moderationActions").doc(), {
+      itemId,
+      targetType: item.targetType,
+      targetId: item.targetId,
+      action: decision,
+      actorId: moderatorId,
+      previousStatus,
+      newStatus: decision === "escalate" ? previousStatus : newStatus,
+      note: note || "",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (decision !== "escalate") {
+      const reportsSnapshot = await db.collection("reports")
+        .where("targetId", "==", item.targetId)
+        .where("type", "==", item.targetType)
+        .get();
+
+      reportsSnapshot.docs
+        .filter((doc) => doc.data().status !== "resolved")
+        .forEach((doc) => {
+          batch.update(doc.ref, {
+            status: "resolved",
+            resolution: newStatus,
+          });
+        });
+    }
+
+    await batch.commit();
+
+    // Images held at upload get their thumbnail once a moderator releases them
+    if (decision === "approve" && item.targetType === "chatMessage" && targetDoc.exists) {
+      await createChatThumbnail(admin.storage().bucket().name, targetRef);
+    }
+
+    return { success: true, status: newStatus };
+  } catch (error) {
+    functions.logger.error("Error resolving moderation item:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to resolve moderation item");
+  }
+});
@@ -0,0 +1,101 @@
+import * as admin from "firebase-admin";
+import { AllowMessages, directRoomId, getAllowMessages } from "./chat";
+
+const db = admin.firestore();
+
+// Server view of the privacy settings written by the privacy settings
+// screen. "friends" means someone the user already has a direct
+// conversation with, the same as "matches" for messages.
+export type ProfileVisibility = "public" | "friends" | "private";
+export type AllowReviews = "everyone" | "friends" | "nobody";
+
+export interface PrivacySettings {
+  profileVisibility: ProfileVisibility;
+  showAge: boolean;
+  showLocation: boolean;
+  showLastSeen: boolean;
+  allowMessages: AllowMessages;
+  allowReviews: AllowReviews;
+  showReviewsOnProfile: boolean;
+}
+
+const PROFILE_VISIBILITY: ProfileVisibility[] = ["public", "friends", "private"];
+const ALLOW_REVIEWS: AllowReviews[] = ["everyone", "friends", "nobody"];
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  profileVisibility: "public",
+  showAge: true,
+  showLocation: true,
+  showLastSeen: true,
+  allowMessages: "everyone",
+  allowReviews: "everyone",
+  showReviewsOnProfile: true,
+};
+
+// Age, location and privacy settings live in users/{uid}/private/profile,
+// which only the user can read; the users document is visible to everyone
+export const privateProfileRef = (uid: string): admin.firestore.DocumentReference =>
+  db.collection("users").doc(uid).collection("private").doc("profile");
+
+const pick = <T>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+const flag = (value: unknown, fallback: boolean): boolean =>
+  typeof value === "boolean" ? value : fallback;
+
+// Saved settings from a private profile, with defaults for anything missing.
+// Profiles created before the settings screen saved anything only have
+// profileVisible and showOnlineStatus, which still apply.
+export const getPrivacySettings = (privateProfile: admin.firestore.DocumentData | undefined): PrivacySettings => {
+  const privacy = privateProfile?.privacy || {};
+  const legacyVisibility = privacy.profileVisible === false ? "private" : DEFAULT_PRIVACY_SETTINGS.profileVisibility;
+
+  return {
+    profileVisibility: pick(privacy.profileVisibility, PROFILE_VISIBILITY, legacyVisibility),
+    showAge: flag(privacy.showAge, DEFAULT_PRIVACY_SETTINGS.showAge),
+    showLocation: flag(privacy.showLocation, DEFAULT_PRIVACY_SETTINGS.showLocation),
+    showLastSeen: flag(privacy.showLastSeen, flag(privacy.showOnlineStatus, DEFAULT_PRIVACY_SETTINGS.showLastSeen)),
+    allowMessages: getAllowMessages(privateProfile),
+    allowReviews: pick(privacy.allowReviews, ALLOW_REVIEWS, DEFAULT_PRIVACY_SETTINGS.allowReviews),
+    showReviewsOnProfile: flag(privacy.showReviewsOnProfile, DEFAULT_PRIVACY_SETTINGS.showReviewsOnProfile),
+  };
+};
+
+// Whether two users already have a direct conversation
+export const hasDirectChat = async (user1Id: string, user2Id: string): Promise<boolean> => {
+  const roomDoc = await db.collection("chatRooms").doc(directRoomId(user1Id, user2Id)).get();
+  return roomDoc.exists;
+};
+
+// Whether viewerId may see ownerId's profile under their profileVisibility
+export const canViewProfile = async (
+  settings: PrivacySettings,
+  ownerId: string,
+  viewerId: string
+): Promise<boolean> => {
+  if (ownerId === viewerId) return true;
+  switch (settings.profileVisibility) {
+    case "public":
+      return true;
+    case "friends":
+      return hasDirectChat(ownerId, viewerId);
+    default:
+      return false;
+  }
+};
+
+// Whether authorId may publish a review about subjectId under their allowReviews
+export const canReviewUser = async (
+  settings: PrivacySettings,
+  subjectId: string,
+  authorId: string
+): Promise<boolean> => {
+  switch (settings.allowReviews) {
+    case "everyone":
+      return true;
+    case "friends":
+      return hasDirectChat(subjectId, authorId);
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,29 @@
+// Server copy of the review reactions in constants/reactions.ts; keep the
+// types and flags the same as the app's REVIEW_REACTIONS
+export const REACTION_FLAGS: Record<string, "green" | "red" | null> = {
+  helpful: null,
+  agree: null,
+  disagree: null,
+  redFlagConfirm: "red",
+  greenFlagConfirm: "green",
+};
+
+export const REACTION_TYPES = Object.keys(REACTION_FLAGS);
+
+// Reviews are submitted as a green flag (rating 5) or red flag (rating 1)
+const getReviewFlag = (rating: number): "green" | "red" => rating >= 3 ? "green" : "red";
+
+// Confirmations of the review's own flag minus confirmations of the opposite flag
+export const getCorroborationScore = (
+  rating: number,
+  reactionCounts: Record<string, number> = {}
+): number => {
+  const flag = getReviewFlag(rating);
+
+  return REACTION_TYPES.reduce((score, type) => {
+    const confirms = REACTION_FLAGS[type];
+    if (!confirms) return score;
+    const count = reactionCounts[type] || 0;
+    return confirms === flag ? score + count : score - count;
+  }, 0);
+};
@@ -0,0 +1,353 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { moderateText } from "./moderation";
+import { enqueueForReview } from "./moderationQueue";
+import { getNameKeys } from "./subjectMatching";
+import { encodeGeohash, getReviewCoordinates } from "./geohash";
+import {
+  enforceLocationPrecision,
+  isLocationPrecisionMode,
+  LocationPrecisionMode,
+  toPublicLocationData,
+} from "./locationPrivacy";
+import { isBlockedBetween } from "./blocking";
+import { canReviewUser, getPrivacySettings, privateProfileRef } from "./privacy";
+import { REACTION_TYPES, getCorroborationScore } from "./reactions";
+
+const db = admin.firestore();
+
+const REVIEW_RATE_LIMIT_MS = 5 * 60 * 1000;
+const MAX_MEDIA_ITEMS = 5;
+
+interface ReviewSubmission {
+  targetName: string;
+  title: string;
+  content: string;
+  category: string;
+  rating: number;
+  platform?: string;
+  location?: string;
+  locationData?: unknown;
+  coordinates?: { latitude: number; longitude: number } | null;
+  locationPrecision?: LocationPrecisionMode;
+  media?: string[];
+  isAnonymous?: boolean;
+  targetUserId?: string;
+}
+
+const isNonEmptyString = (value: unknown, min: number, max: number): value is string =>
+  typeof value === "string" && value.trim().length >= min && value.trim().length <= max;
+
+// Same limits as ReviewService.validateReviewData plus the upper bounds from firestore.rules
+const validateSubmission = (data: Partial<ReviewSubmission>): string[] => {
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(data.targetName, 1, 100)) {
+    errors.push("Target name is required");
+  }
+  if (!isNonEmptyString(data.title, 5, 200)) {
+    errors.push("Title must be between 5 and 200 characters");
+  }
+  if (!isNonEmptyString(data.content, 10, 5000)) {
+    errors.push("Review must be between 10 and 5000 characters");
+  }
+  if (!isNonEmptyString(data.category, 1, 50)) {
+    errors.push("Category is required");
+  }
+  if (typeof data.rating !== "number" || data.rating < 1 || data.rating > 5) {
+    errors.push("Rating must be between 1 and 5");
+  }
+  if (data.location !== undefined && data.location !== "" && !isNonEmptyString(data.location, 2, 100)) {
+    errors.push("Location must be between 2 and 100 characters");
+  }
+  if (data.media !== undefined &&
+    (!Array.isArray(data.media) || data.media.length > MAX_MEDIA_ITEMS ||
+      data.media.some((uri) => typeof uri !== "string"))) {
+    errors.push(`A review can include at most ${MAX_MEDIA_ITEMS} photos`);
+  }
+  if (data.coordinates &&
+    (typeof data.coordinates.latitude !== "number" || typeof data.coordinates.longitude !== "number")) {
+    errors.push("Coordinates are invalid");
+  }
+  if (data.locationPrecision !== undefined && !isLocationPrecisionMode(data.locationPrecision)) {
+    errors.push("Location precision is invalid");
+  }
+  if (data.targetUserId !== undefined && !isNonEmptyString(data.targetUserId, 1, 128)) {
+    errors.push("Reviewed user is invalid");
+  }
+
+  return errors;
+};
+
+interface ReviewEdit {
+  reviewId: string;
+  title?: string;
+  content?: string;
+  category?: string;
+}
+
+const generateSearchKeywords = (
+  data: Pick<ReviewSubmission, "title" | "content" | "targetName" | "category">
+): string[] => {
+  const text = `${data.title} ${data.content} ${data.targetName} ${data.category}`.toLowerCase();
+  const words = text.split(/\s+/).filter((word) => word.length > 2);
+  return [...new Set(words)].slice(0, 20);
+};
+
+// Every free-text field readers see is moderated, not only the title and
+// body, so a phone number or address can't be moved into the location
+const moderatedText = (
+  data: Pick<ReviewSubmission, "title" | "content" | "targetName" | "category" | "platform" | "location">
+): string =>
+  [data.title, data.content, data.targetName, data.platform, data.location, data.category]
+    .map((value) => value?.trim())
+    .filter(Boolean)
+    .join("\n");
+
+// Single entry point for publishing a review: re-validates, moderates,
+// rate limits and writes the document with its moderation status.
+export const submitReview = functions.https.onCall(async (data: Partial<ReviewSubmission>, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const { uid } = context.auth;
+
+  const errors = validateSubmission(data || {});
+  if (errors.length > 0) {
+    throw new functions.https.HttpsError("invalid-argument", errors[0], { errors });
+  }
+  const submission = data as ReviewSubmission;
+  const targetUserId = submission.targetUserId?.trim() || null;
+  if (targetUserId === uid) {
+    throw new functions.https.HttpsError("invalid-argument", "You can't review yourself");
+  }
+
+  const rateLimitRef = db.collection("rateLimits").doc(uid).collection("actions").doc("createReview");
+
+  try {
+    const rateLimitDoc = await rateLimitRef.get();
+    const lastSubmittedAt = rateLimitDoc.data()?.timestamp as admin.firestore.Timestamp | undefined;
+    if (lastSubmittedAt && Date.now() - lastSubmittedAt.toMillis() < REVIEW_RATE_LIMIT_MS) {
+      throw new functions.https.HttpsError(
+        "resource-exhausted",
+        "You can only post one review every 5 minutes. Please try again later."
+      );
+    }
+
+    // Reviews about a registered user follow their allowReviews setting
+    if (targetUserId) {
+      const [targetDoc, profileDoc] = await db.getAll(
+        db.collection("users").doc(targetUserId),
+        privateProfileRef(targetUserId)
+      );
+      if (!targetDoc.exists) {
+        throw new functions.https.HttpsError("not-found", "User not found");
+      }
+      if (await isBlockedBetween(uid, targetUserId) ||
+        !(await canReviewUser(getPrivacySettings(profileDoc.data()), targetUserId, uid))) {
+        throw new functions.https.HttpsError("permission-denied", "This user isn't accepting reviews from you");
+      }
+    }
+
+    const verdict = await moderateText(
+      moderatedText(submission),
+      { subjectName: submission.targetName.trim() }
+    );
+
+    if (verdict.status === "rejected") {
+      functions.logger.info(`Review from ${uid} rejected by moderation`, { reasons: verdict.reasons });
+      return { reviewId: null, moderationStatus: verdict.status, reasons: verdict.reasons };
+    }
+
+    const reviewRef = db.collection("reviews").doc();
+    // Never store a point finer than the privacy grid, see locationPrivacy.ts
+    const { coordinates, locationPrecision } = enforceLocationPrecision(
+      getReviewCoordinates(submission),
+      submission.locationPrecision
+    );
+    const batch = db.batch();
+
+    batch.set(reviewRef, {
+      id: reviewRef.id,
+      authorId: uid,
+      targetName: submission.targetName.trim(),
+      targetUserId,
+      title: submission.title.trim(),
+      content: submission.content.trim(),
+      category: submission.category.trim(),
+      rating: submission.rating,
+      platform: submission.platform || "",
+      location: submission.location || "",
+      locationData: toPublicLocationData(submission.locationData),
+      coordinates,
+      locationPrecision,
+      // Radius queries range over this, see utils/geohash.ts
+      geohash: coordinates ? encodeGeohash(coordinates) : null,
+      media: submission.media || [],
+      isAnonymous: submission.isAnonymous ?? true,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      likes: 0,
+      dislikes: 0,
+      reports: 0,
+      views: 0,
+      engagement: 0,
+      comments: [],
+      verified: false,
+      flagged: verdict.status !== "approved",
+      deleted: false,
+      searchKeywords: generateSearchKeywords(submission),
+      nameKeys: getNameKeys(submission.targetName),
+      subjectId: null,
+      moderationStatus: verdict.status,
+      moderationReasons: verdict.reasons,
+      moderationRulesVersion: verdict.rulesVersion,
+      contentLabels: verdict.labels,
+      moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      moderatedBy: "system",
+    });
+
+    if (verdict.status === "pending") {
+      enqueueForReview(batch, "review", reviewRef.id, uid, verdict.reasons);
+    }
+
+    batch.set(db.collection("users").doc(uid), {
+      reviewCount: admin.firestore.FieldValue.increment(1),
+      lastReviewAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    batch.set(rateLimitRef, {
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    await batch.commit();
+
+    return { reviewId: reviewRef.id, moderationStatus: verdict.status, reasons: verdict.reasons };
+  } catch (error) {
+    functions.logger.error("Error submitting review:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to submit review");
+  }
+});
+
+// Authors edit their reviews only through here, so edited text is
+// moderated the same way as a new review. Reviews held by moderation stay
+// held; an approved review goes back to pending if the edit needs a look.
+export const editReview = functions.https.onCall(async (data: Partial<ReviewEdit>, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const { uid } = context.auth;
+  if (!isNonEmptyString(data?.reviewId, 1, 128)) {
+    throw new functions.https.HttpsError("invalid-argument", "Review ID is required");
+  }
+
+  const reviewRef = db.collection("reviews").doc(data.reviewId);
+
+  try {
+    const reviewDoc = await reviewRef.get();
+    const review = reviewDoc.data();
+    if (!review || review.deleted === true) {
+      throw new functions.https.HttpsError("not-found", "Review not found");
+    }
+    if (review.authorId !== uid) {
+      throw new functions.https.HttpsError("permission-denied", "You can only edit your own reviews");
+    }
+    if (review.moderationStatus === "rejected") {
+      throw new functions.https.HttpsError("failed-precondition", "Rejected reviews can't be edited");
+    }
+
+    const edited = {
+      title: data.title ?? review.title,
+      content: data.content ?? review.content,
+      category: data.category ?? review.category,
+      targetName: review.targetName as string,
+    };
+    const errors = validateSubmission({ ...edited, rating: review.rating });
+    if (errors.length > 0) {
+      throw new functions.https.HttpsError("invalid-argument", errors[0], { errors });
+    }
+
+    const verdict = await moderateText(
+      moderatedText({ ...edited, platform: review.platform, location: review.location }),
+      { subjectName: edited.targetName }
+    );
+
+    if (verdict.status === "rejected") {
+      functions.logger.info(`Edit of review ${reviewRef.id} rejected by moderation`, { reasons: verdict.reasons });
+      return { reviewId: reviewRef.id, moderationStatus: verdict.status, reasons: verdict.reasons };
+    }
+
+    const wasApproved = (review.moderationStatus ?? "approved") === "approved";
+    const moderationStatus = wasApproved ? verdict.status : review.moderationStatus;
+    const batch = db.batch();
+
+    batch.update(reviewRef, {
+      title: edited.title.trim(),
+      content: edited.content.trim(),
+      category: edited.category.trim(),
+      searchKeywords: generateSearchKeywords(edited),
+      flagged: moderationStatus !== "approved",
+      moderationStatus,
+      moderationReasons: verdict.reasons,
+      moderationRulesVersion: verdict.rulesVersion,
+      contentLabels: verdict.labels,
+      moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      moderatedBy: "system",
+      editedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (wasApproved && verdict.status === "pending") {
+      enqueueForReview(batch, "review", reviewRef.id, uid, verdict.reasons);
+    }
+
+    await batch.commit();
+
+    return { reviewId: reviewRef.id, moderationStatus, reasons: verdict.reasons };
+  } catch (error) {
+    functions.logger.error("Error editing review:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to edit review");
+  }
+});
+
+// Keep a review's reactionCounts and corroborationScore in step with its
+// reactions subcollection. Counts are recounted rather than incremented so a
+// retried or out-of-order trigger still leaves them correct.
+export const onReviewReactionWrite = functions.firestore
+  .document("reviews/{reviewId}/reactions/{userId}")
+  .onWrite(async (change, context) => {
+    const { reviewId } = context.params;
+    if (change.before.data()?.type === change.after.data()?.type) {
+      return;
+    }
+
+    const reviewRef = db.collection("reviews").doc(reviewId);
+    try {
+      const counts = await Promise.all(REACTION_TYPES.map((type) =>
+        reviewRef.collection("reactions").where("type", "==", type).count().get()
+      ));
+      const reactionCounts = Object.fromEntries(
+        REACTION_TYPES.map((type, index) => [type, counts[index].data().count])
+      );
+
+      await db.runTransaction(async (transaction) => {
+        const reviewDoc = await transaction.get(reviewRef);
+        if (!reviewDoc.exists) return;
+
+        transaction.update(reviewRef, {
+          reactionCounts,
+          corroborationScore: getCorroborationScore(reviewDoc.data()?.rating, reactionCounts),
+        });
+      });
+    } catch (error) {
+      functions.logger.error(`Error counting reactions for review ${reviewId}:`, error);
+    }
+  });
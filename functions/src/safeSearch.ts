@@ -0,0 +1,46 @@
+// Verdicts from Cloud Vision SafeSearch annotations. Kept free of Firebase
+// imports so the thresholds can be unit tested.
+import type { ModerationStatus } from "./moderation";
+
+export type Likelihood = "UNKNOWN" | "VERY_UNLIKELY" | "UNLIKELY" | "POSSIBLE" | "LIKELY" | "VERY_LIKELY";
+
+export type SafeSearchAnnotation = Partial<Record<"adult" | "violence" | "racy" | "medical" | "spoof", Likelihood>>;
+
+export interface ImageVerdict {
+  status: ModerationStatus;
+  reasons: string[];
+}
+
+const LIKELIHOOD_RANK: Record<Likelihood, number> = {
+  UNKNOWN: 0,
+  VERY_UNLIKELY: 1,
+  UNLIKELY: 2,
+  POSSIBLE: 3,
+  LIKELY: 4,
+  VERY_LIKELY: 5,
+};
+
+// Likelihood at which each category holds or rejects an image
+const SAFE_SEARCH_THRESHOLDS: Record<"adult" | "violence" | "racy", { hold: Likelihood; reject?: Likelihood }> = {
+  adult: { hold: "LIKELY", reject: "VERY_LIKELY" },
+  violence: { hold: "LIKELY", reject: "VERY_LIKELY" },
+  racy: { hold: "VERY_LIKELY" },
+};
+
+export const evaluateSafeSearch = (annotation: SafeSearchAnnotation): ImageVerdict => {
+  let status: ModerationStatus = "approved";
+  const reasons: string[] = [];
+
+  for (const [category, threshold] of Object.entries(SAFE_SEARCH_THRESHOLDS)) {
+    const rank = LIKELIHOOD_RANK[annotation[category as keyof SafeSearchAnnotation] || "UNKNOWN"] || 0;
+    if (threshold.reject && rank >= LIKELIHOOD_RANK[threshold.reject]) {
+      status = "rejected";
+      reasons.push(`image_${category}`);
+    } else if (rank >= LIKELIHOOD_RANK[threshold.hold]) {
+      if (status === "approved") status = "pending";
+      reasons.push(`image_${category}`);
+    }
+  }
+
+  return { status, reasons };
+};
@@ -0,0 +1,158 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { buildSearchFields, isSearchable, relevanceScore, tokenize } from "./searchIndex";
+import { matchesFilters, parseFilters } from "./search";
+import { isBlockedBetween } from "./blocking";
+
+const db = admin.firestore();
+
+const SAVED_SEARCHES_COLLECTION = "savedSearches";
+const MAX_SAVED_SEARCHES = 20;
+const MAX_QUERY_TERMS = 6;
+// "in" accepts at most 30 values
+const MAX_IN_VALUES = 30;
+
+const longestTerm = (terms: string[]): string =>
+  terms.reduce((longest, term) => (term.length > longest.length ? term : longest));
+
+// Save a search so new reviews matching it raise a notification. Terms are
+// tokenized here so the trigger below matches them the same way search does.
+export const saveSearch = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const uid = context.auth.uid;
+  const query = typeof data?.query === "string" ? data.query.trim() : "";
+  const terms = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TERMS);
+  if (terms.length === 0 || query.length > 200) {
+    throw new functions.https.HttpsError("invalid-argument", "Enter a search of up to 200 characters");
+  }
+
+  const name = typeof data?.name === "string" && data.name.trim() ? data.name.trim().slice(0, 60) : query.slice(0, 60);
+  // Dates make no sense for alerts about reviews that do not exist yet
+  const { dateFrom: _dateFrom, dateTo: _dateTo, ...filters } = parseFilters(data?.filters);
+
+  try {
+    const existing = await db.collection(SAVED_SEARCHES_COLLECTION)
+      .where("userId", "==", uid)
+      .count()
+      .get();
+    if (existing.data().count >= MAX_SAVED_SEARCHES) {
+      throw new functions.https.HttpsError(
+        "resource-exhausted",
+        `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`
+      );
+    }
+
+    const searchRef = db.collection(SAVED_SEARCHES_COLLECTION).doc();
+    await searchRef.set({
+      id: searchRef.id,
+      userId: uid,
+      name,
+      query,
+      terms,
+      // New reviews look saved searches up by this term, see below
+      anchor: longestTerm(terms),
+      filters,
+      muted: false,
+      matchCount: 0,
+      lastMatchedAt: null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { id: searchRef.id };
+  } catch (error) {
+    functions.logger.error("Error saving search:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to save search");
+  }
+});
+
+// Notify owners of saved searches when a review becomes searchable, i.e. it
+// is created approved or a moderator approves it later. Saved searches are
+// found by their longest term, which has to be a word of the review or the
+// start of one; the full query and filters are then checked like a search.
+export const notifySavedSearches = functions.firestore
+  .document("reviews/{reviewId}")
+  .onWrite(async (change, context) => {
+    const { reviewId } = context.params;
+    const before = change.before.exists ? change.before.data() : undefined;
+    const review = change.after.exists ? change.after.data() : undefined;
+    if (!isSearchable(review) || isSearchable(before)) {
+      return;
+    }
+
+    try {
+      const fields = buildSearchFields(review);
+      const lookupValues = fields.keys.filter((key) => !key.startsWith("~"));
+
+      const chunks: string[][] = [];
+      for (let i = 0; i < lookupValues.length; i += MAX_IN_VALUES) {
+        chunks.push(lookupValues.slice(i, i + MAX_IN_VALUES));
+      }
+      const snapshots = await Promise.all(chunks.map((chunk) =>
+        db.collection(SAVED_SEARCHES_COLLECTION)
+          .where("muted", "==", false)
+          .where("anchor", "in", chunk)
+          .get()
+      ));
+
+      const matches = snapshots
+        .flatMap((snapshot) => snapshot.docs)
+        .filter((doc) => {
+          const search = doc.data();
+          return search.userId !== review.authorId &&
+            relevanceScore(search.terms || [], fields.terms) > 0 &&
+            matchesFilters(fields, search.filters || {});
+        });
+      if (matches.length === 0) {
+        return;
+      }
+
+      // Respect the savedSearches notification setting; missing means on
+      const ownerIds = [...new Set(matches.map((doc) => doc.data().userId as string))];
+      const settingsDocs = await db.getAll(...ownerIds.map((uid) => db.collection("userSettings").doc(uid)));
+      const optedOut = new Set(settingsDocs
+        .filter((doc) => doc.data()?.notifications?.savedSearches === false)
+        .map((doc) => doc.id));
+      // Nor about reviews by someone on either side of a block with the owner
+      const blockedAuthor = await Promise.all(ownerIds.map((uid) => isBlockedBetween(uid, review.authorId)));
+      ownerIds.forEach((uid, index) => {
+        if (blockedAuthor[index]) optedOut.add(uid);
+      });
+
+      const batch = db.batch();
+      matches.forEach((doc) => {
+        const search = doc.data();
+
+        batch.update(doc.ref, {
+          matchCount: admin.firestore.FieldValue.increment(1),
+          lastMatchedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        if (optedOut.has(search.userId)) return;
+
+        // One notification per search and review, even if the trigger retries
+        const notificationRef = db.collection("notifications").doc(`savedSearch_${doc.id}_${reviewId}`);
+        batch.set(notificationRef, {
+          id: notificationRef.id,
+          userId: search.userId,
+          type: "saved_search_match",
+          title: "New match for a saved search",
+          message: `"${review.title || review.targetName}" matches "${search.name}"`,
+          data: { reviewId, savedSearchId: doc.id },
+          isRead: false,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+      await batch.commit();
+
+      functions.logger.info(`Review ${reviewId} matched ${matches.length} saved searches`);
+    } catch (error) {
+      functions.logger.error(`Error matching review ${reviewId} against saved searches:`, error);
+    }
+  });
@@ -0,0 +1,264 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  buildSearchFields,
+  isSearchable,
+  IndexableReview,
+  normalizeLabel,
+  queryKeys,
+  rankScore,
+  relevanceScore,
+  tokenize,
+  SearchSort,
+} from "./searchIndex";
+
+const db = admin.firestore();
+
+// searchIndex/{reviewId} mirrors every searchable review, see searchIndex.ts
+const SEARCH_INDEX_COLLECTION = "searchIndex";
+
+// Candidates fetched for one query before filtering and ranking. Results are
+// ranked within this window, newest first, so very broad queries favour
+// recent reviews.
+const MAX_CANDIDATES = 400;
+const MAX_QUERY_TERMS = 6;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const MAX_RADIUS_KM = 500;
+
+const SORTS: SearchSort[] = ["relevance", "recent", "popular"];
+
+type ReviewData = admin.firestore.DocumentData;
+
+export interface SearchFilters {
+  category?: string;
+  flag?: "green" | "red";
+  platform?: string;
+  dateFrom?: number;
+  dateTo?: number;
+  near?: { latitude: number; longitude: number };
+  radiusKm?: number;
+}
+
+// Engagement changes on every view, so the index only follows it in
+// doubling steps instead of rewriting on each bump
+const engagementBucket = (engagement: number): number => Math.floor(Math.log2(Math.max(0, engagement) + 1));
+
+const INDEXED_FIELDS: (keyof IndexableReview)[] = ["targetName", "title", "content", "category", "platform", "location", "rating"];
+
+const needsReindex = (before: ReviewData | undefined, after: ReviewData): boolean => {
+  if (!isSearchable(before)) return true;
+  if (INDEXED_FIELDS.some((field) => before[field] !== after[field])) return true;
+  if (JSON.stringify(before.coordinates || null) !== JSON.stringify(after.coordinates || null)) return true;
+  return engagementBucket(before.engagement || 0) !== engagementBucket(after.engagement || 0);
+};
+
+const buildIndexDoc = (reviewId: string, review: ReviewData) => ({
+  reviewId,
+  ...buildSearchFields(review),
+  createdAt: review.createdAt || admin.firestore.FieldValue.serverTimestamp(),
+  indexedAt: admin.firestore.FieldValue.serverTimestamp(),
+});
+
+// Keep the search index in step with reviews: index approved reviews and
+// drop the entry as soon as a review is deleted, hidden or rejected
+export const onReviewWrite = functions.firestore
+  .document("reviews/{reviewId}")
+  .onWrite(async (change, context) => {
+    const { reviewId } = context.params;
+    const before = change.before.exists ? change.before.data() : undefined;
+    const after = change.after.exists ? change.after.data() : undefined;
+    const indexRef = db.collection(SEARCH_INDEX_COLLECTION).doc(reviewId);
+
+    try {
+      if (!isSearchable(after)) {
+        if (isSearchable(before)) {
+          await indexRef.delete();
+        }
+        return;
+      }
+
+      if (needsReindex(before, after)) {
+        await indexRef.set(buildIndexDoc(reviewId, after));
+      }
+    } catch (error) {
+      functions.logger.error(`Error indexing review ${reviewId}:`, error);
+    }
+  });
+
+const distanceKm = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number => {
+  const toRad = (deg: number) => deg * (Math.PI / 180);
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+const isCoordinate = (value: unknown): value is { latitude: number; longitude: number } =>
+  typeof value === "object" && value !== null &&
+  typeof (value as { latitude?: unknown }).latitude === "number" &&
+  typeof (value as { longitude?: unknown }).longitude === "number";
+
+export const parseFilters = (raw: unknown): SearchFilters => {
+  const input = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  if (typeof input.category === "string" && input.category.trim()) {
+    filters.category = normalizeLabel(input.category);
+  }
+  if (input.flag === "green" || input.flag === "red") {
+    filters.flag = input.flag;
+  }
+  if (typeof input.platform === "string" && input.platform.trim()) {
+    filters.platform = normalizeLabel(input.platform);
+  }
+  if (typeof input.dateFrom === "number") {
+    filters.dateFrom = input.dateFrom;
+  }
+  if (typeof input.dateTo === "number") {
+    filters.dateTo = input.dateTo;
+  }
+  if (input.near !== undefined) {
+    if (!isCoordinate(input.near) || typeof input.radiusKm !== "number" ||
+      input.radiusKm <= 0 || input.radiusKm > MAX_RADIUS_KM) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `A location filter needs coordinates and a radius up to ${MAX_RADIUS_KM} km`
+      );
+    }
+    filters.near = input.near;
+    filters.radiusKm = input.radiusKm;
+  }
+
+  return filters;
+};
+
+export const matchesFilters = (entry: ReviewData, filters: SearchFilters): boolean => {
+  if (filters.category && !(entry.categories || []).includes(filters.category)) return false;
+  if (filters.flag && entry.flag !== filters.flag) return false;
+  if (filters.platform && entry.platform !== filters.platform) return false;
+  if (filters.near && filters.radiusKm) {
+    if (!entry.coordinates || distanceKm(filters.near, entry.coordinates) > filters.radiusKm) return false;
+  }
+  return true;
+};
+
+// Cursors are opaque to the client: the score and id of the last result of
+// the previous page, and the time the first page was ranked at. Scores
+// include recency, so every page is ranked at that same time.
+// Results are ordered by score, then id.
+interface SearchCursor {
+  score: number;
+  reviewId: string;
+  rankedAt: number;
+}
+
+const encodeCursor = (cursor: SearchCursor): string =>
+  Buffer.from(JSON.stringify([cursor.score, cursor.reviewId, cursor.rankedAt])).toString("base64");
+
+const decodeCursor = (cursor: unknown): SearchCursor | null => {
+  if (typeof cursor !== "string" || !cursor) return null;
+  try {
+    const [score, reviewId, rankedAt] = JSON.parse(Buffer.from(cursor, "base64").toString("utf8"));
+    if (typeof score === "number" && typeof reviewId === "string" && typeof rankedAt === "number") {
+      return { score, reviewId, rankedAt };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new functions.https.HttpsError("invalid-argument", "Invalid search cursor");
+};
+
+// Callable responses are JSON, so timestamps travel as milliseconds
+const serializeReview = (doc: admin.firestore.DocumentSnapshot): ReviewData => {
+  const data = doc.data() || {};
+  const review: ReviewData = { ...data, id: doc.id };
+  Object.keys(review).forEach((key) => {
+    if (review[key] instanceof admin.firestore.Timestamp) {
+      review[key] = review[key].toMillis();
+    }
+  });
+  delete review.searchKeywords;
+  delete review.nameKeys;
+  return review;
+};
+
+// Full-text review search: looks up the most selective query term in the
+// inverted index, then filters, requires every term to match, ranks and
+// pages through the candidates
+export const searchReviews = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const terms = [...new Set(tokenize(typeof data?.query === "string" ? data.query : ""))].slice(0, MAX_QUERY_TERMS);
+  if (terms.length === 0) {
+    return { reviews: [], cursor: null, hasMore: false };
+  }
+
+  const sort: SearchSort = SORTS.includes(data?.sortBy) ? data.sortBy : "relevance";
+  const pageSize = Math.min(Math.max(Number(data?.pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const filters = parseFilters(data?.filters);
+  const after = decodeCursor(data?.cursor);
+
+  try {
+    const anchor = terms.reduce((longest, term) => (term.length > longest.length ? term : longest));
+
+    let query: admin.firestore.Query = db.collection(SEARCH_INDEX_COLLECTION)
+      .where("keys", "array-contains-any", queryKeys(anchor));
+    if (filters.dateFrom !== undefined) {
+      query = query.where("createdAt", ">=", admin.firestore.Timestamp.fromMillis(filters.dateFrom));
+    }
+    if (filters.dateTo !== undefined) {
+      query = query.where("createdAt", "<=", admin.firestore.Timestamp.fromMillis(filters.dateTo));
+    }
+    const snapshot = await query.orderBy("createdAt", "desc").limit(MAX_CANDIDATES).get();
+
+    const now = after?.rankedAt ?? Date.now();
+    const ranked = snapshot.docs
+      .map((doc) => doc.data())
+      .filter((entry) => matchesFilters(entry, filters))
+      .map((entry) => {
+        const relevance = relevanceScore(terms, entry.terms || {});
+        const createdAtMs = entry.createdAt?.toMillis?.() || 0;
+        return {
+          reviewId: entry.reviewId as string,
+          relevance,
+          score: rankScore(sort, relevance, createdAtMs, entry.engagement || 0, now),
+        };
+      })
+      .filter((result) => result.relevance > 0)
+      .sort((a, b) => b.score - a.score || a.reviewId.localeCompare(b.reviewId));
+
+    const start = after
+      ? ranked.findIndex((result) =>
+        result.score < after.score || (result.score === after.score && result.reviewId.localeCompare(after.reviewId) > 0))
+      : 0;
+    const page = start === -1 ? [] : ranked.slice(start, start + pageSize);
+    const hasMore = start !== -1 && start + pageSize < ranked.length;
+
+    const reviewDocs = page.length > 0
+      ? await db.getAll(...page.map((result) => db.collection("reviews").doc(result.reviewId)))
+      : [];
+    // The index can briefly lag behind a review that was just hidden
+    const reviews = reviewDocs
+      .filter((doc) => isSearchable(doc.data()))
+      .map(serializeReview);
+
+    const last = page[page.length - 1];
+    return {
+      reviews,
+      cursor: hasMore && last ? encodeCursor({ score: last.score, reviewId: last.reviewId, rankedAt: now }) : null,
+      hasMore,
+    };
+  } catch (error) {
+    functions.logger.error("Error searching reviews:", error);
+    throw new functions.https.HttpsError("internal", "Failed to search reviews");
+  }
+});
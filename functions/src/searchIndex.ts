@@ -0,0 +1,217 @@
+// Inverted index entries and ranking for review search.
+// Each indexed review gets one searchIndex document whose "keys" array holds
+// every term, its prefixes (for search-as-you-type) and its one-letter
+// deletions (for typo tolerance). Firestore indexes each key, so an
+// array-contains-any lookup returns the postings for a query term.
+
+export interface IndexableReview {
+  targetName?: string;
+  title?: string;
+  content?: string;
+  category?: string;
+  platform?: string;
+  location?: string;
+  rating?: number;
+  engagement?: number;
+  coordinates?: { latitude: number; longitude: number } | null;
+  deleted?: boolean;
+  moderationStatus?: string;
+}
+
+export interface IndexEntry {
+  keys: string[];
+  terms: Record<string, number>; // term -> weight of the best field it appears in
+}
+
+export type SearchSort = "relevance" | "recent" | "popular";
+
+// Higher weight = a match in this field says more about the review
+const FIELD_WEIGHTS: ["targetName" | "title" | "category" | "platform" | "location" | "content", number][] = [
+  ["targetName", 3],
+  ["title", 2],
+  ["category", 1.5],
+  ["platform", 1.5],
+  ["location", 1.5],
+  ["content", 1],
+];
+
+const MAX_TERMS = 100;
+const MAX_TERM_LENGTH = 30;
+const MAX_PREFIX_LENGTH = 12;
+// Shorter words get too many false matches from a single edit
+const MIN_TYPO_LENGTH = 4;
+const MAX_TYPO_LENGTH = 12;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "he", "her", "his", "i",
+  "if", "in", "is", "it", "me", "my", "of", "on", "or", "she", "so", "that", "the", "their",
+  "them", "they", "this", "to", "was", "we", "were", "with", "you",
+]);
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const TYPO_MATCH = 0.6;
+
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 2 && token.length <= MAX_TERM_LENGTH && !STOPWORDS.has(token));
+
+export const deletions = (term: string): string[] => {
+  const variants = new Set<string>();
+  for (let i = 0; i < term.length; i++) {
+    variants.add(term.slice(0, i) + term.slice(i + 1));
+  }
+  return [...variants];
+};
+
+const canHaveTypos = (term: string): boolean =>
+  term.length >= MIN_TYPO_LENGTH && term.length <= MAX_TYPO_LENGTH;
+
+export const buildIndexEntry = (review: IndexableReview): IndexEntry => {
+  const terms: Record<string, number> = {};
+
+  FIELD_WEIGHTS.forEach(([field, weight]) => {
+    tokenize(review[field] || "").forEach((term) => {
+      terms[term] = Math.max(terms[term] || 0, weight);
+    });
+  });
+
+  // Keep the most telling terms when a review is very long
+  const kept = Object.entries(terms)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TERMS);
+
+  const keys = new Set<string>();
+  kept.forEach(([term]) => {
+    keys.add(term);
+    for (let length = 2; length < Math.min(term.length, MAX_PREFIX_LENGTH + 1); length++) {
+      keys.add(term.slice(0, length));
+    }
+    if (canHaveTypos(term)) {
+      deletions(term).forEach((variant) => keys.add(`~${variant}`));
+    }
+  });
+
+  return { keys: [...keys], terms: Object.fromEntries(kept) };
+};
+
+export const normalizeLabel = (value?: string): string => (value || "").toLowerCase().replace(/\s+/g, " ").trim();
+
+// Only approved, live reviews are searchable
+export const isSearchable = <T extends IndexableReview>(review: T | undefined): review is T =>
+  !!review && !review.deleted && review.moderationStatus === "approved";
+
+// Everything stored on a searchIndex document except its timestamps. Filter
+// fields sit next to the keys so the search function can filter candidates
+// without reading the reviews.
+export const buildSearchFields = (review: IndexableReview) => ({
+  ...buildIndexEntry(review),
+  categories: (review.category || "").split(",").map(normalizeLabel).filter(Boolean),
+  // Reviews are submitted as a green flag (rating 5) or red flag (rating 1)
+  flag: (review.rating || 0) >= 3 ? "green" : "red",
+  platform: normalizeLabel(review.platform),
+  coordinates: review.coordinates || null,
+  engagement: review.engagement || 0,
+});
+
+// Keys to look up for one query term: the term itself (exact and prefix
+// matches), plus deletion variants that meet the indexed deletions for
+// missing, extra, swapped and mistyped letters. At most 26 keys, within
+// the 30 values array-contains-any accepts.
+export const queryKeys = (term: string): string[] => {
+  if (!canHaveTypos(term)) {
+    return [term];
+  }
+  const variants = deletions(term);
+  return [...new Set([term, ...variants, `~${term}`, ...variants.map((variant) => `~${variant}`)])];
+};
+
+// Optimal string alignment distance, stopping early once it exceeds max
+export const editDistance = (a: string, b: string, max = 1): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+
+  return rows[a.length][b.length];
+};
+
+// How well one query term matches a review: weight of the best matching
+// term times the kind of match, or 0 when nothing matches
+export const matchTerm = (queryTerm: string, terms: Record<string, number>): number => {
+  let best = 0;
+
+  Object.entries(terms).forEach(([term, weight]) => {
+    let factor = 0;
+    if (term === queryTerm) {
+      factor = EXACT_MATCH;
+    } else if (term.startsWith(queryTerm)) {
+      factor = PREFIX_MATCH;
+    } else if (canHaveTypos(queryTerm) && editDistance(queryTerm, term) <= 1) {
+      factor = TYPO_MATCH;
+    }
+    best = Math.max(best, factor * weight);
+  });
+
+  return best;
+};
+
+// 0..1; every query term has to match for a review to be a result
+export const relevanceScore = (queryTerms: string[], terms: Record<string, number>): number => {
+  if (queryTerms.length === 0) return 0;
+
+  let total = 0;
+  for (const queryTerm of queryTerms) {
+    const score = matchTerm(queryTerm, terms);
+    if (score === 0) return 0;
+    total += score;
+  }
+
+  const maxWeight = FIELD_WEIGHTS[0][1];
+  return total / (queryTerms.length * maxWeight);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const rankScore = (
+  sort: SearchSort,
+  relevance: number,
+  createdAtMs: number,
+  engagement: number,
+  now = Date.now()
+): number => {
+  const recency = Math.exp(-Math.max(0, now - createdAtMs) / (30 * DAY_MS));
+  const popularity = Math.min(1, Math.log1p(Math.max(0, engagement)) / Math.log1p(1000));
+
+  switch (sort) {
+    case "recent":
+      return createdAtMs;
+    case "popular":
+      return popularity + relevance * 0.01;
+    case "relevance":
+    default:
+      return relevance * 0.7 + recency * 0.2 + popularity * 0.1;
+  }
+};
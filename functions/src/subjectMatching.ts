@@ -0,0 +1,49 @@
+// Server copy of the name key helpers in services/subjectMatching.ts.
+// Keys written here must match the keys the app queries with, so keep the
+// two in sync (__tests__/subjects.test.ts compares them).
+
+export const normalizeName = (name: string): string =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const nameTokens = (name: string): string[] =>
+  normalizeName(name).split(" ").filter((token) => token.length >= 2);
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1", f: "1", p: "1", v: "1",
+  c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2", z: "2",
+  d: "3", t: "3",
+  l: "4",
+  m: "5", n: "5",
+  r: "6",
+};
+
+export const soundex = (token: string): string => {
+  if (!token) return "";
+
+  let code = token[0].toUpperCase();
+  let previous = SOUNDEX_CODES[token[0]] || "";
+
+  for (const letter of token.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] || "";
+    if (digit && digit !== previous) {
+      code += digit;
+    }
+    // h and w do not separate letters with the same code
+    if (letter !== "h" && letter !== "w") {
+      previous = digit;
+    }
+  }
+
+  return (code + "000").slice(0, 4);
+};
+
+export const getNameKeys = (name: string): string[] => {
+  const tokens = nameTokens(name);
+  return [...new Set([...tokens, ...tokens.map((token) => `~${soundex(token)}`)])];
+};
@@ -0,0 +1,222 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { isModerator } from "./moderationQueue";
+
+const db = admin.firestore();
+
+// A subject groups reviews that users confirmed describe the same person.
+// Its flag counts are recomputed from the linked reviews on every change so
+// they cannot drift.
+const MAX_SUBJECT_REVIEWS = 100;
+
+type ReviewData = admin.firestore.DocumentData;
+
+const toReviewData = (doc: admin.firestore.DocumentSnapshot): ReviewData => ({ ...doc.data(), id: doc.id });
+
+const byCreatedAt = (a: ReviewData, b: ReviewData): number =>
+  (a.createdAt?.toMillis?.() || 0) - (b.createdAt?.toMillis?.() || 0);
+
+// Reviews are submitted as a green flag (rating 5) or red flag (rating 1)
+const isGreenFlag = (review: ReviewData): boolean => (review.rating || 0) >= 3;
+
+// Only reviews everyone can read count or show on the subject; a held
+// review stays linked and counts once it is approved
+const countsTowardsSubject = (review: ReviewData): boolean =>
+  !review.deleted && review.moderationStatus === "approved";
+
+const buildSubject = (reviews: ReviewData[]) => {
+  const counted = reviews.filter(countsTowardsSubject);
+  const platforms = counted
+    .map((review) => (review.platform || "").trim())
+    .filter((platform) => platform.length > 0);
+
+  return {
+    // The earliest review names the subject
+    displayName: counted[0]?.targetName || "",
+    nameKeys: [...new Set(counted.flatMap((review) => review.nameKeys || []))],
+    platforms: [...new Set(platforms)],
+    reviewIds: reviews.map((review) => review.id),
+    reviewCount: counted.length,
+    greenFlagCount: counted.filter(isGreenFlag).length,
+    redFlagCount: counted.filter((review) => !isGreenFlag(review)).length,
+  };
+};
+
+const assertCanChangeLinks = (context: functions.https.CallableContext, reviews: ReviewData[]): string => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+  }
+  const { uid } = context.auth;
+  if (!isModerator(context.auth.token) && !reviews.every((review) => review.authorId === uid)) {
+    throw new functions.https.HttpsError("permission-denied", "You can only link reviews you wrote");
+  }
+  return uid;
+};
+
+// Confirm that two reviews describe the same person. Creates a subject when
+// neither review has one, otherwise adds the other review to the existing
+// subject. Reviews already linked to different subjects are left alone.
+export const linkReviews = functions.https.onCall(async (data, context) => {
+  const { reviewId, otherReviewId } = data || {};
+  if (typeof reviewId !== "string" || typeof otherReviewId !== "string" || reviewId === otherReviewId) {
+    throw new functions.https.HttpsError("invalid-argument", "Two different reviews are required");
+  }
+
+  try {
+    const subjectId = await db.runTransaction(async (transaction) => {
+      const reviewRefs = [db.collection("reviews").doc(reviewId), db.collection("reviews").doc(otherReviewId)];
+      const reviewDocs = await transaction.getAll(...reviewRefs);
+      if (reviewDocs.some((doc) => !doc.exists)) {
+        throw new functions.https.HttpsError("not-found", "Review not found");
+      }
+
+      const pair = reviewDocs.map(toReviewData);
+      const uid = assertCanChangeLinks(context, pair);
+
+      const subjectIds = [...new Set(pair.map((review) => review.subjectId).filter(Boolean))];
+      if (subjectIds.length > 1) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          "These reviews are already linked to different people"
+        );
+      }
+
+      const subjectRef = subjectIds.length === 1 ?
+        db.collection("subjects").doc(subjectIds[0]) :
+        db.collection("subjects").doc();
+      const subjectDoc = await transaction.get(subjectRef);
+
+      const existingIds: string[] = subjectDoc.exists ? subjectDoc.data()?.reviewIds || [] : [];
+      const reviewIds = [...new Set([...existingIds, reviewId, otherReviewId])];
+      if (reviewIds.length > MAX_SUBJECT_REVIEWS) {
+        throw new functions.https.HttpsError("resource-exhausted", "This person already has too many linked reviews");
+      }
+
+      const otherIds = reviewIds.filter((id) => id !== reviewId && id !== otherReviewId);
+      const otherDocs = otherIds.length > 0 ?
+        await transaction.getAll(...otherIds.map((id) => db.collection("reviews").doc(id))) :
+        [];
+      const linked = [...pair, ...otherDocs.filter((doc) => doc.exists).map(toReviewData)].sort(byCreatedAt);
+
+      transaction.set(subjectRef, {
+        id: subjectRef.id,
+        ...buildSubject(linked),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        ...(subjectDoc.exists ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+      }, { merge: true });
+
+      pair
+        .filter((review) => review.subjectId !== subjectRef.id)
+        .forEach((review) => transaction.update(db.collection("reviews").doc(review.id), { subjectId: subjectRef.id }));
+
+      // Who confirmed which link, for moderators undoing bad links
+      transaction.set(subjectRef.collection("links").doc(), {
+        reviewIds: [reviewId, otherReviewId],
+        userId: uid,
+        action: "link",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return subjectRef.id;
+    });
+
+    return { subjectId };
+  } catch (error) {
+    functions.logger.error("Error linking reviews:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to link reviews");
+  }
+});
+
+// Remove a review from its subject. A subject left with a single review is
+// deleted, since there is nothing left to corroborate.
+export const unlinkReview = functions.https.onCall(async (data, context) => {
+  const { reviewId } = data || {};
+  if (typeof reviewId !== "string") {
+    throw new functions.https.HttpsError("invalid-argument", "A review is required");
+  }
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const reviewRef = db.collection("reviews").doc(reviewId);
+      const reviewDoc = await transaction.get(reviewRef);
+      if (!reviewDoc.exists) {
+        throw new functions.https.HttpsError("not-found", "Review not found");
+      }
+
+      const review = toReviewData(reviewDoc);
+      const uid = assertCanChangeLinks(context, [review]);
+      if (!review.subjectId) {
+        return;
+      }
+
+      const subjectRef = db.collection("subjects").doc(review.subjectId);
+      const subjectDoc = await transaction.get(subjectRef);
+      const remainingIds = ((subjectDoc.data()?.reviewIds || []) as string[]).filter((id) => id !== reviewId);
+      const remainingDocs = remainingIds.length > 0 ?
+        await transaction.getAll(...remainingIds.map((id) => db.collection("reviews").doc(id))) :
+        [];
+      const remaining = remainingDocs.filter((doc) => doc.exists).map(toReviewData).sort(byCreatedAt);
+
+      transaction.update(reviewRef, { subjectId: null });
+
+      if (remaining.length < 2) {
+        remaining.forEach((other) => transaction.update(db.collection("reviews").doc(other.id), { subjectId: null }));
+        transaction.delete(subjectRef);
+        return;
+      }
+
+      transaction.update(subjectRef, {
+        ...buildSubject(remaining),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      transaction.set(subjectRef.collection("links").doc(), {
+        reviewIds: [reviewId],
+        userId: uid,
+        action: "unlink",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    return { success: true };
+  } catch (error) {
+    functions.logger.error("Error unlinking review:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError("internal", "Failed to unlink review");
+  }
+});
+
+// Recount a subject when one of its reviews is approved, held, rejected or
+// deleted after it was linked
+export const onLinkedReviewUpdated = functions.firestore
+  .document("reviews/{reviewId}")
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    if (!after.subjectId || after.subjectId !== before.subjectId ||
+      (countsTowardsSubject(before) === countsTowardsSubject(after) && before.rating === after.rating)) {
+      return;
+    }
+
+    const subjectRef = db.collection("subjects").doc(after.subjectId);
+    try {
+      await db.runTransaction(async (transaction) => {
+        const subjectDoc = await transaction.get(subjectRef);
+        const reviewIds = (subjectDoc.data()?.reviewIds || []) as string[];
+        if (reviewIds.length === 0) return;
+
+        const reviewDocs = await transaction.getAll(...reviewIds.map((id) => db.collection("reviews").doc(id)));
+        const linked = reviewDocs.filter((doc) => doc.exists).map(toReviewData).sort(byCreatedAt);
+        transaction.update(subjectRef, {
+          ...buildSubject(linked),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+    } catch (error) {
+      functions.logger.error(`Error recounting subject ${after.subjectId} for review ${context.params.reviewId}:`, error);
+    }
+  });
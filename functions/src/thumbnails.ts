@@ -0,0 +1,46 @@
+// Resized copies of chat images, shown in the conversation instead of the
+// full upload. Made once an image has passed screening.
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import sharp from "sharp";
+
+// Twice the largest bubble in components/ChatAttachmentView.tsx
+const THUMBNAIL_MAX_WIDTH = 440;
+const THUMBNAIL_MAX_HEIGHT = 560;
+
+// chats/{roomId}/{senderId}/{messageId}/thumbs/{fileName}.jpg. The extra
+// folder keeps thumbnails out of the attachment path onMediaUploaded screens.
+export const thumbnailPath = (path: string): string => {
+  const slash = path.lastIndexOf("/");
+  const fileName = path.slice(slash + 1).replace(/\.[^.]+$/, "");
+  return `${path.slice(0, slash)}/thumbs/${fileName}.jpg`;
+};
+
+// Write the thumbnail for a message's image attachment and record it on the
+// message. Messages that already have one are left alone.
+export const createChatThumbnail = async (
+  bucketName: string,
+  messageRef: admin.firestore.DocumentReference
+): Promise<void> => {
+  const attachment = (await messageRef.get()).data()?.attachment;
+  if (!attachment?.path || attachment.thumbnailPath || !attachment.mimeType?.startsWith("image/")) {
+    return;
+  }
+
+  try {
+    const bucket = admin.storage().bucket(bucketName);
+    const [original] = await bucket.file(attachment.path).download();
+    const thumbnail = await sharp(original)
+      .rotate()
+      .resize(THUMBNAIL_MAX_WIDTH, THUMBNAIL_MAX_HEIGHT, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+
+    const path = thumbnailPath(attachment.path);
+    await bucket.file(path).save(thumbnail, { contentType: "image/jpeg" });
+    await messageRef.update({ "attachment.thumbnailPath": path });
+  } catch (error) {
+    // The app falls back to the full image
+    functions.logger.warn(`Could not create thumbnail for ${attachment.path}`, error);
+  }
+};
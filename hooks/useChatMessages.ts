@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChatService } from '../services/chatService';
+import { getSlidOutMessages, mergeMessages } from '../utils/chatHistory';
+import type { ChatMessage, DocumentSnapshot } from '../types';
+
+interface ChatMessagesState {
+  messages: ChatMessage[]; // Oldest first
+  isLoading: boolean;
+  isLoadingOlder: boolean;
+  hasOlder: boolean;
+  loadOlder: () => void;
+}
+
+// Messages of a room: the newest page live, older pages loaded on demand.
+// The last cached page shows straight away while the subscription connects.
+// Older pages are a snapshot and don't follow later edits or reactions.
+export const useChatMessages = (roomId: string | undefined, userId: string | undefined): ChatMessagesState => {
+  const [live, setLive] = useState<ChatMessage[]>([]);
+  const [older, setOlder] = useState<ChatMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const liveRef = useRef<ChatMessage[]>([]);
+  const cursorRef = useRef<DocumentSnapshot | null>(null);
+  // Once an older page is loaded, its cursor is further back than the live page's
+  const pagedRef = useRef(false);
+  const loadingOlderRef = useRef(false);
+  const roomIdRef = useRef(roomId);
+
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    let active = true;
+    let receivedLive = false;
+    roomIdRef.current = roomId;
+    liveRef.current = [];
+    cursorRef.current = null;
+    pagedRef.current = false;
+    setLive([]);
+    setOlder([]);
+    setHasOlder(false);
+    setIsLoading(true);
+
+    ChatService.getCachedMessages(roomId).then(cached => {
+      if (!active || receivedLive || cached.length === 0) return;
+      liveRef.current = cached;
+      setLive(cached);
+      setIsLoading(false);
+    });
+
+    const unsubscribe = ChatService.subscribeToMessages(roomId, (page) => {
+      receivedLive = true;
+      const slidOut = getSlidOutMessages(liveRef.current, page.messages);
+      if (slidOut.length > 0) {
+        setOlder(current => mergeMessages(current, slidOut));
+      }
+      liveRef.current = page.messages;
+      setLive(page.messages);
+      setIsLoading(false);
+
+      if (!pagedRef.current) {
+        cursorRef.current = page.lastDoc;
+        setHasOlder(page.hasMore);
+      }
+      ChatService.cacheMessages(roomId, page.messages);
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [roomId, userId]);
+
+  const loadOlder = useCallback(async () => {
+    if (!roomId || !cursorRef.current || loadingOlderRef.current || !hasOlder) return;
+
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const page = await ChatService.getOlderMessages(roomId, cursorRef.current);
+      if (roomIdRef.current !== roomId) return;
+      pagedRef.current = true;
+      cursorRef.current = page.lastDoc;
+      setOlder(current => mergeMessages(page.messages, current));
+      setHasOlder(page.hasMore);
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Failed to load older messages:', error);
+      }
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [roomId, hasOlder]);
+
+  const messages = useMemo(() => mergeMessages(older, live), [older, live]);
+
+  return { messages, isLoading, isLoadingOlder, hasOlder, loadOlder };
+};
+
+export default useChatMessages;
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { PresenceService } from '../services/presenceService';
+import { PRESENCE_HEARTBEAT_MS } from '../utils/presence';
+import type { UserPresence } from '../types';
+
+// Live presence of the given users, by user id. Also re-renders once per
+// heartbeat interval so users whose heartbeat stopped drop to offline.
+export const usePresence = (userIds: string[]): Record<string, UserPresence> => {
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  const [, setTick] = useState(0);
+  const key = [...new Set(userIds)].sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      setPresence({});
+      return;
+    }
+    return PresenceService.subscribeToPresence(key.split(','), setPresence);
+  }, [key]);
+
+  useEffect(() => {
+    if (!key) return;
+    const timer = setInterval(() => setTick(value => value + 1), PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [key]);
+
+  return presence;
+};
+
+export default usePresence;
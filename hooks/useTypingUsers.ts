@@ -0,0 +1,24 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getTypingUserIds, nextTypingExpiry } from '../utils/presence';
+import type { ChatRoom } from '../types';
+
+// Members typing in each room, by room id. Indicators expire without any
+// write, so this re-renders when the next one runs out.
+export const useTypingUsers = (rooms: ChatRoom[], userId?: string): Record<string, string[]> => {
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    const nextExpiry = nextTypingExpiry(rooms);
+    if (nextExpiry === null) return;
+
+    const timer = setTimeout(() => setTick(value => value + 1), nextExpiry - Date.now() + 50);
+    return () => clearTimeout(timer);
+  }, [rooms, tick]);
+
+  return useMemo(() => {
+    const now = Date.now();
+    return Object.fromEntries(rooms.map(room => [room.id, getTypingUserIds(room, userId, now)]));
+  }, [rooms, userId, tick]);
+};
+
+export default useTypingUsers;
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useRef } from 'react';
+import { Alert } from 'react-native';
 import { createUserWithEmailAndPassword, signInWithEmailAndPassword, onAuthStateChanged, signOut as firebaseSignOut, sendPasswordResetEmail } from 'firebase/auth';
 import { getFirebaseAuth } from '../utils/firebase';
 import logger from '../utils/logger';
@@ -7,6 +8,9 @@ import logger from '../utils/logger';
 const getAuth = () => getFirebaseAuth();
 import { User } from '../types';
 import { createUser, getUserById, subscribeToUserChanges } from '../services/userService';
+import { cacheService } from '../services/cacheService';
+import { AccountDeletionService } from '../services/accountDeletionService';
+import { formatDate, toDate } from '../utils/timestampHelpers';
 import * as Sentry from 'sentry-expo';
 import { showErrorAlert, logError } from '../utils/errorHandler';
 
@@ -247,6 +251,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  // Users who come back during the deletion grace period can keep their
+  // account; ask once per session
+  const remindedDeletionRef = useRef<string | null>(null);
+  const deletionTime = toDate(user?.deletionScheduledFor)?.getTime();
+  useEffect(() => {
+    if (!user?.id || !deletionTime || remindedDeletionRef.current === user.id) return;
+    remindedDeletionRef.current = user.id;
+
+    Alert.alert(
+      'Account Scheduled for Deletion',
+      `Your account will be deleted on ${formatDate(deletionTime, { month: 'long', day: 'numeric', year: 'numeric' })}. Do you want to keep it?`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        {
+          text: 'Keep My Account',
+          onPress: () => {
+            AccountDeletionService.cancelDeletion()
+              .then(() => Alert.alert('Deletion Cancelled', 'Your account will not be deleted.'))
+              .catch(error => showErrorAlert(error, 'Could Not Cancel Deletion'));
+          },
+        },
+      ]
+    );
+  }, [user?.id, deletionTime]);
+
   const signIn = async (email: string, password: string): Promise<void> => {
     try {
       if (__DEV__) {
@@ -395,6 +424,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async (): Promise<void> => {
     try {
       await firebaseSignOut(getAuth());
+      // Cached data includes private messages, so none of it outlives the session
+      await cacheService.clear();
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Sign out error:', error);
@@ -427,14 +458,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Schedules deletion after a 14 day grace period and signs out. Signing
+  // back in before then offers to cancel it.
   const deleteAccount = async (): Promise<void> => {
     try {
       if (user && getAuth().currentUser) {
-        // Delete user data from Firestore first
-        // Note: We would need to implement deleteUser in userService
-        // For now, we'll just delete the auth account
-        await getAuth().currentUser!.delete();
-        setUser(null);
+        await AccountDeletionService.scheduleDeletion();
+        await signOut();
       }
     } catch (error) {
       if (__DEV__) {
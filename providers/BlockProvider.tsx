@@ -0,0 +1,56 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from './AuthProvider';
+import { BlockService } from '../services/blockService';
+
+interface BlockContextType {
+  blockedUserIds: string[];
+  isBlocked: (userId: string | null | undefined) => boolean;
+  blockUser: (userId: string) => Promise<void>;
+  unblockUser: (userId: string) => Promise<void>;
+}
+
+const BlockContext = createContext<BlockContextType | undefined>(undefined);
+
+export const useBlocks = () => {
+  const context = useContext(BlockContext);
+  if (context === undefined) {
+    throw new Error('useBlocks must be used within a BlockProvider');
+  }
+  return context;
+};
+
+// The signed-in user's block list, for hiding blocked users' content
+// wherever it is listed
+export const BlockProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [blockedUserIds, setBlockedUserIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!user?.id) {
+      setBlockedUserIds([]);
+      return;
+    }
+    return BlockService.subscribeToBlockedUsers(user.id, setBlockedUserIds);
+  }, [user?.id]);
+
+  const blockedSet = useMemo(() => new Set(blockedUserIds), [blockedUserIds]);
+  const isBlocked = useCallback(
+    (userId: string | null | undefined) => !!userId && blockedSet.has(userId),
+    [blockedSet]
+  );
+
+  const value = useMemo<BlockContextType>(() => ({
+    blockedUserIds,
+    isBlocked,
+    blockUser: (userId: string) => BlockService.blockUser(userId),
+    unblockUser: (userId: string) => BlockService.unblockUser(userId),
+  }), [blockedUserIds, isBlocked]);
+
+  return (
+    <BlockContext.Provider value={value}>
+      {children}
+    </BlockContext.Provider>
+  );
+};
+
+export default BlockProvider;
@@ -4,6 +4,7 @@ import { db } from '../utils/firebase';
 import { useAuth } from './AuthProvider';
 import { ChatRoom, Message } from '../types';
 import { chatService } from '../services/chatService';
+import { PresenceService } from '../services/presenceService';
 import { subscribeToFirestore, ConnectionState, onFirestoreConnectionStateChange } from '../utils/firestoreConnectionManager';
 import logger from '../utils/logger';
 
@@ -79,6 +80,12 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     return () => unsubscribeConnectionState();
   }, []);
 
+  // Publish the user's presence while signed in
+  useEffect(() => {
+    if (!user?.id || user.id === 'anonymous') return;
+    return PresenceService.start(user.id);
+  }, [user?.id]);
+
   // Subscribe to user's chat rooms
   useEffect(() => {
     if (!user?.id) {
@@ -122,6 +129,9 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
         setChatRooms(rooms);
         setLoading(false);
         setIsConnected(true);
+
+        // Newest messages have reached this device; senders see delivered ticks
+        rooms.forEach(room => chatService.markRoomDelivered(room));
       },
       (error: FirestoreError) => {
         if (__DEV__) {
@@ -167,15 +177,9 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
         
         setMessages(roomMessages);
 
-        // Mark messages as read when they come in
-        const unreadMessages = roomMessages.filter(
-          msg => msg.senderId !== user.id && !msg.readBy?.includes(user.id)
-        );
-        
-        if (unreadMessages.length > 0 && mountedRef.current) {
-          unreadMessages.forEach(() => {
-            chatService.markMessagesAsRead(activeChatRoom.id, user.id).catch(console.error);
-          });
+        // Move the read cursor once for the whole batch of new messages
+        if (roomMessages.some(msg => msg.senderId !== user.id) && mountedRef.current) {
+          chatService.markMessagesAsRead(activeChatRoom.id).catch(console.error);
         }
       },
       (error: FirestoreError) => {
@@ -197,7 +201,7 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     if (!user?.id || !activeChatRoom?.id) return;
     
     try {
-      await chatService.sendMessage(activeChatRoom.id, user.id, content, type);
+      await chatService.sendMessage(activeChatRoom.id, content, type);
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Error sending message:', error);
@@ -210,7 +214,7 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     if (!user?.id) return;
     
     try {
-      await chatService.markMessagesAsRead(chatRoomId, user.id);
+      await chatService.markMessagesAsRead(chatRoomId);
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Error marking messages as read:', error);
@@ -1,7 +1,8 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode, useRef } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState, ReactNode, useRef } from 'react';
 import { collection, query, where, orderBy, FirestoreError, QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
 import { db } from '../utils/firebase';
 import { useAuth } from './AuthProvider';
+import { useBlocks } from './BlockProvider';
 import { Notification } from '../types';
 import { subscribeToFirestore, ConnectionState, onFirestoreConnectionStateChange } from '../utils/firestoreConnectionManager';
 import { notificationService } from '../services/notificationService';
@@ -67,7 +68,8 @@ const defaultSettings = {
 
 export const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
   const { user } = useAuth();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { isBlocked } = useBlocks();
+  const [allNotifications, setNotifications] = useState<Notification[]>([]);
   const [settings, setSettings] = useState(defaultSettings);
   const [isConnected, setIsConnected] = useState(false);
   const [connectionState, setConnectionState] = useState<ConnectionState>({
@@ -216,6 +218,11 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
   };
 
   // Computed values
+  // Notifications from blocked users stay hidden, including older ones
+  const notifications = useMemo(
+    () => allNotifications.filter(notification => !isBlocked(notification.senderId)),
+    [allNotifications, isBlocked]
+  );
   const unreadCount = notifications.filter(n => !n.read).length;
 
   const clearAllNotifications = async () => {
@@ -0,0 +1,69 @@
+import admin from 'firebase-admin';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID || 'locker-room-talk-app'
+  });
+}
+
+const db = admin.firestore();
+const BATCH_SIZE = 400;
+
+// Comments written before threaded replies have no parentId, so the
+// top-level query (parentId == null) skips them. Mark them as top-level
+// and count any replies that already point at them. Safe to re-run.
+async function backfillCommentThreads() {
+  try {
+    const snapshot = await db.collection('comments').get();
+
+    const replyCounts = new Map();
+    snapshot.docs.forEach(doc => {
+      const parentId = doc.data().parentId;
+      if (parentId) {
+        replyCounts.set(parentId, (replyCounts.get(parentId) || 0) + 1);
+      }
+    });
+
+    let batch = db.batch();
+    let pending = 0;
+    let updated = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const updates = {};
+
+      if (data.parentId === undefined) {
+        updates.parentId = null;
+        updates.depth = 0;
+      }
+      const replyCount = replyCounts.get(doc.id) || 0;
+      if (data.replyCount !== replyCount) {
+        updates.replyCount = replyCount;
+      }
+
+      if (Object.keys(updates).length === 0) continue;
+
+      batch.update(doc.ref, updates);
+      pending++;
+      updated++;
+
+      if (pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    console.log(`Backfilled ${updated} of ${snapshot.size} comments`);
+  } catch (error) {
+    console.error('Error backfilling comment threads:', error);
+    process.exitCode = 1;
+  }
+}
+
+backfillCommentThreads();
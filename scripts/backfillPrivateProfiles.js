@@ -0,0 +1,65 @@
+import admin from 'firebase-admin';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID || 'locker-room-talk-app'
+  });
+}
+
+const db = admin.firestore();
+// Each user takes two writes
+const BATCH_SIZE = 200;
+
+// Age, location and privacy settings used to live on the users document,
+// which every signed-in user can read. Move them to the owner-only
+// users/{uid}/private/profile document, keeping anything already saved
+// there. Safe to re-run.
+async function backfillPrivateProfiles() {
+  try {
+    const snapshot = await db.collection('users').get();
+
+    let batch = db.batch();
+    let pending = 0;
+    let moved = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const privacy = data.preferences?.privacy;
+      if (data.age === undefined && data.location === undefined && privacy === undefined) continue;
+
+      const profileRef = doc.ref.collection('private').doc('profile');
+      const existing = (await profileRef.get()).data() || {};
+      const profile = {};
+      if (data.age !== undefined && existing.age === undefined) profile.age = data.age;
+      if (data.location !== undefined && existing.location === undefined) profile.location = data.location;
+      if (privacy !== undefined && existing.privacy === undefined) profile.privacy = privacy;
+
+      batch.set(profileRef, profile, { merge: true });
+      batch.update(doc.ref, {
+        age: admin.firestore.FieldValue.delete(),
+        location: admin.firestore.FieldValue.delete(),
+        'preferences.privacy': admin.firestore.FieldValue.delete(),
+      });
+      pending++;
+      moved++;
+
+      if (pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    console.log(`Moved private fields for ${moved} of ${snapshot.size} users`);
+  } catch (error) {
+    console.error('Error backfilling private profiles:', error);
+    process.exitCode = 1;
+  }
+}
+
+backfillPrivateProfiles();
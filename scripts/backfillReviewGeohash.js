@@ -0,0 +1,68 @@
+import admin from 'firebase-admin';
+import { createRequire } from 'module';
+
+// Uses the compiled Cloud Functions helpers so hashes match what
+// submitReview writes. Run `npm run build` in functions/ first.
+const require = createRequire(import.meta.url);
+const { encodeGeohash, getReviewCoordinates } = require('../functions/lib/geohash.js');
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID || 'locker-room-talk-app'
+  });
+}
+
+const db = admin.firestore();
+const BATCH_SIZE = 400;
+
+// Radius queries only see reviews with a geohash. Older reviews keep their
+// position in coordinates or only inside locationData; copies it to
+// coordinates and adds the geohash. Reviews without a position are left
+// alone. Safe to re-run.
+async function backfillReviewGeohash() {
+  try {
+    const snapshot = await db.collection('reviews').get();
+
+    let batch = db.batch();
+    let pending = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const coordinates = getReviewCoordinates(data);
+
+      if (!coordinates) {
+        skipped++;
+        continue;
+      }
+
+      const geohash = encodeGeohash(coordinates);
+      if (data.geohash === geohash) {
+        continue;
+      }
+
+      batch.update(doc.ref, { coordinates, geohash });
+      updated++;
+      pending++;
+
+      if (pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    console.log(`Added geohashes to ${updated} of ${snapshot.size} reviews, ${skipped} have no location`);
+  } catch (error) {
+    console.error('Error backfilling review geohashes:', error);
+    process.exitCode = 1;
+  }
+}
+
+backfillReviewGeohash();
@@ -0,0 +1,52 @@
+import admin from 'firebase-admin';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID || 'locker-room-talk-app'
+  });
+}
+
+const db = admin.firestore();
+const BATCH_SIZE = 400;
+
+// Only reviews with moderationStatus 'approved' can be read by everyone.
+// Reviews published before submitReview existed have no moderationStatus,
+// so they are marked approved. Reviews that already have one are left
+// alone. Run before deploying the Firestore rules. Safe to re-run.
+async function backfillReviewModerationStatus() {
+  try {
+    const snapshot = await db.collection('reviews').get();
+
+    let batch = db.batch();
+    let pending = 0;
+    let updated = 0;
+
+    for (const doc of snapshot.docs) {
+      if (doc.data().moderationStatus !== undefined) {
+        continue;
+      }
+
+      batch.update(doc.ref, { moderationStatus: 'approved' });
+      updated++;
+      pending++;
+
+      if (pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    console.log(`Approved ${updated} of ${snapshot.size} reviews that had no moderation status`);
+  } catch (error) {
+    console.error('Error backfilling review moderation status:', error);
+    process.exitCode = 1;
+  }
+}
+
+backfillReviewModerationStatus();
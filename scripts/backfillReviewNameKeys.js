@@ -0,0 +1,62 @@
+import admin from 'firebase-admin';
+import { createRequire } from 'module';
+
+// Uses the compiled Cloud Functions helper so keys match what submitReview
+// writes. Run `npm run build` in functions/ first.
+const require = createRequire(import.meta.url);
+const { getNameKeys } = require('../functions/lib/subjectMatching.js');
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID || 'locker-room-talk-app'
+  });
+}
+
+const db = admin.firestore();
+const BATCH_SIZE = 400;
+
+// Reviews created before subject matching have no nameKeys, so they never
+// show up as "may be about this person" suggestions. Safe to re-run.
+async function backfillReviewNameKeys() {
+  try {
+    const snapshot = await db.collection('reviews').get();
+
+    let batch = db.batch();
+    let pending = 0;
+    let updated = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const nameKeys = getNameKeys(data.targetName || data.personName || '');
+
+      if (JSON.stringify(data.nameKeys || []) === JSON.stringify(nameKeys) && data.subjectId !== undefined) {
+        continue;
+      }
+
+      batch.update(doc.ref, {
+        nameKeys,
+        subjectId: data.subjectId ?? null,
+      });
+      pending++;
+      updated++;
+
+      if (pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    console.log(`Backfilled name keys on ${updated} of ${snapshot.size} reviews`);
+  } catch (error) {
+    console.error('Error backfilling review name keys:', error);
+    process.exitCode = 1;
+  }
+}
+
+backfillReviewNameKeys();
@@ -0,0 +1,67 @@
+import admin from 'firebase-admin';
+import { createRequire } from 'module';
+
+// Uses the compiled Cloud Functions helpers so entries match what the
+// onReviewWrite trigger writes. Run `npm run build` in functions/ first.
+const require = createRequire(import.meta.url);
+const { buildSearchFields, isSearchable } = require('../functions/lib/searchIndex.js');
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID || 'locker-room-talk-app'
+  });
+}
+
+const db = admin.firestore();
+const BATCH_SIZE = 400;
+
+// The trigger only indexes reviews as they are written, so reviews created
+// before full-text search never show up in results. Rebuilds every entry and
+// removes entries for reviews that are no longer searchable. Safe to re-run.
+async function backfillSearchIndex() {
+  try {
+    const snapshot = await db.collection('reviews').get();
+
+    let batch = db.batch();
+    let pending = 0;
+    let indexed = 0;
+    let removed = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const indexRef = db.collection('searchIndex').doc(doc.id);
+
+      if (isSearchable(data)) {
+        batch.set(indexRef, {
+          reviewId: doc.id,
+          ...buildSearchFields(data),
+          createdAt: data.createdAt || admin.firestore.FieldValue.serverTimestamp(),
+          indexedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        indexed++;
+      } else {
+        batch.delete(indexRef);
+        removed++;
+      }
+      pending++;
+
+      if (pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    console.log(`Indexed ${indexed} of ${snapshot.size} reviews, removed ${removed} stale entries`);
+  } catch (error) {
+    console.error('Error backfilling search index:', error);
+    process.exitCode = 1;
+  }
+}
+
+backfillSearchIndex();
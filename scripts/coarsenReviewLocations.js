@@ -0,0 +1,70 @@
+import admin from 'firebase-admin';
+import { createRequire } from 'module';
+
+// Uses the compiled Cloud Functions helpers so stored locations match what
+// submitReview writes. Run `npm run build` in functions/ first.
+const require = createRequire(import.meta.url);
+const { encodeGeohash, getReviewCoordinates } = require('../functions/lib/geohash.js');
+const { enforceLocationPrecision, toPublicLocationData } = require('../functions/lib/locationPrivacy.js');
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID || 'locker-room-talk-app'
+  });
+}
+
+const db = admin.firestore();
+const BATCH_SIZE = 400;
+
+// Reviews written before the location privacy policy hold the device's exact
+// coordinates. Snaps them to the privacy grid, records grid precision and
+// drops coordinates from locationData. Reviews that already have a
+// locationPrecision are skipped, so this is safe to re-run.
+async function coarsenReviewLocations() {
+  try {
+    const snapshot = await db.collection('reviews').get();
+
+    let batch = db.batch();
+    let pending = 0;
+    let updated = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      if (data.locationPrecision) {
+        continue;
+      }
+
+      const { coordinates, locationPrecision } = enforceLocationPrecision(getReviewCoordinates(data), 'grid');
+      if (!coordinates && !data.locationData) {
+        continue;
+      }
+
+      batch.update(doc.ref, {
+        coordinates,
+        locationPrecision,
+        locationData: toPublicLocationData(data.locationData),
+        geohash: coordinates ? encodeGeohash(coordinates) : null,
+      });
+      updated++;
+      pending++;
+
+      if (pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    console.log(`Coarsened the location of ${updated} of ${snapshot.size} reviews`);
+  } catch (error) {
+    console.error('Error coarsening review locations:', error);
+    process.exitCode = 1;
+  }
+}
+
+coarsenReviewLocations();
@@ -23,6 +23,14 @@ fi
 echo "🔐 Checking Firebase authentication..."
 firebase login --interactive
 
+# The rules only show approved reviews and comments to everyone, so older
+# ones need a moderation status first
+echo "🗂️  Backfilling review and comment moderation status..."
+if ! node scripts/backfillReviewModerationStatus.js || ! node scripts/backfillCommentModerationStatus.js; then
+    echo "❌ Moderation status backfill failed. Not deploying the new rules."
+    exit 1
+fi
+
 # Deploy Firestore rules
 echo "📄 Deploying Firestore security rules..."
 firebase deploy --only firestore:rules
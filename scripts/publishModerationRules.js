@@ -0,0 +1,47 @@
+import admin from 'firebase-admin';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID || 'locker-room-talk-app'
+  });
+}
+
+const db = admin.firestore();
+
+// Publish constants/moderationRules.json to public/moderationRules.
+// The app and the submitReview function pick up the new rules without a
+// release, as long as the version is not lower than the bundled one.
+async function publishModerationRules() {
+  try {
+    const rulesPath = join(__dirname, '..', 'constants', 'moderationRules.json');
+    const rules = JSON.parse(readFileSync(rulesPath, 'utf8'));
+
+    const rulesRef = db.collection('public').doc('moderationRules');
+    const current = await rulesRef.get();
+    const currentVersion = current.exists ? current.data().version : 0;
+
+    if (rules.version <= currentVersion && !process.argv.includes('--force')) {
+      console.log(`Published rules are already at version ${currentVersion}. Bump "version" to publish changes.`);
+      return;
+    }
+
+    await rulesRef.set({
+      ...rules,
+      publishedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    console.log(`Published moderation rules version ${rules.version} (${rules.rules.length} rules)`);
+  } catch (error) {
+    console.error('Error publishing moderation rules:', error);
+    process.exitCode = 1;
+  }
+}
+
+publishModerationRules();
@@ -0,0 +1,43 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../utils/firebase';
+
+// Account deletion runs in Cloud Functions: scheduling starts a 14 day grace
+// period, after which processAccountDeletions removes or anonymizes the
+// user's data everywhere and deletes the sign-in account
+export class AccountDeletionService {
+  // Returns when the account will be deleted
+  static async scheduleDeletion(): Promise<Date> {
+    try {
+      const scheduleAccountDeletion = httpsCallable<void, { scheduledFor: string }>(
+        functions,
+        'scheduleAccountDeletion'
+      );
+      const result = await scheduleAccountDeletion();
+      return new Date(result.data.scheduledFor);
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error scheduling account deletion:', error);
+      }
+      throw error;
+    }
+  }
+
+  static async cancelDeletion(): Promise<void> {
+    try {
+      const cancelAccountDeletion = httpsCallable<void, { success: boolean }>(
+        functions,
+        'cancelAccountDeletion'
+      );
+      await cancelAccountDeletion();
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error cancelling account deletion:', error);
+      }
+      throw error;
+    }
+  }
+
+}
+
+export const accountDeletionService = AccountDeletionService;
+export default AccountDeletionService;
@@ -0,0 +1,77 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  onSnapshot,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../utils/firebase';
+import { getCurrentUserId } from '../utils/authUtils';
+
+const USERS_COLLECTION = 'users';
+// Keep in sync with blockListOf in firestore.rules and functions/src/blocking.ts
+const BLOCKS_DOC_PATH = ['private', 'blocks'] as const;
+const MAX_BLOCKED_USERS = 1000;
+
+const blocksRef = (userId: string) => doc(db, USERS_COLLECTION, userId, ...BLOCKS_DOC_PATH);
+
+// A user's block list. Blocked users can't message, invite or notify the
+// blocker, and their reviews and comments are hidden from the blocker.
+export class BlockService {
+  private static requireUserId(): string {
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+    return userId;
+  }
+
+  static async getBlockedUserIds(): Promise<string[]> {
+    const snapshot = await getDoc(blocksRef(this.requireUserId()));
+    return snapshot.data()?.userIds || [];
+  }
+
+  // Listen to the user's block list
+  static subscribeToBlockedUsers(userId: string, callback: (userIds: string[]) => void): () => void {
+    return onSnapshot(blocksRef(userId), (snapshot) => {
+      callback(snapshot.data()?.userIds || []);
+    }, (error) => {
+      if (__DEV__) {
+        __DEV__ && console.error('Error listening to blocked users:', error);
+      }
+      callback([]);
+    });
+  }
+
+  static async blockUser(targetUserId: string): Promise<void> {
+    const userId = this.requireUserId();
+    if (!targetUserId || targetUserId === userId) {
+      throw new Error('You can\'t block this user');
+    }
+
+    const blockedIds = await this.getBlockedUserIds();
+    if (blockedIds.includes(targetUserId)) return;
+    if (blockedIds.length >= MAX_BLOCKED_USERS) {
+      throw new Error(`You can block at most ${MAX_BLOCKED_USERS} users`);
+    }
+
+    await setDoc(blocksRef(userId), {
+      userIds: arrayUnion(targetUserId),
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+  }
+
+  static async unblockUser(targetUserId: string): Promise<void> {
+    const userId = this.requireUserId();
+    await setDoc(blocksRef(userId), {
+      userIds: arrayRemove(targetUserId),
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+  }
+}
+
+export const blockService = BlockService;
+
+export default BlockService;
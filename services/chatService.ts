@@ -13,20 +13,79 @@ import {
   onSnapshot,
   Timestamp,
   addDoc,
-  and,
   arrayUnion,
   arrayRemove,
   serverTimestamp,
-  increment
+  increment,
+  deleteField,
+  writeBatch,
+  runTransaction,
+  startAfter,
+  type DocumentReference,
+  type DocumentData,
+  type DocumentSnapshot,
+  type QueryDocumentSnapshot
 } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
+import { FirebaseError } from 'firebase/app';
 import logger from '../utils/logger';
-import { db } from '../utils/firebase';
-import { ChatRoom, ChatMessage } from '../types';
+import { db, functions, storage } from '../utils/firebase';
+import {
+  ChatRoom,
+  ChatMessage,
+  ChatMessagePage,
+  ChatMessageReply,
+  ChatRoomRole,
+  ChatRoomVisibility,
+  ChatAttachment
+} from '../types';
+import { CHAT_REACTIONS } from '../constants/reactions';
 import { isUserAuthenticated, getCurrentUserId, createAuthError } from '../utils/authUtils';
 import { toDate, createTimestamp, formatRelativeTime } from '../utils/timestampHelpers';
+import { TYPING_TTL_MS } from '../utils/presence';
+import { cacheService } from './cacheService';
 
 const CHAT_ROOMS_COLLECTION = 'chatRooms';
+const ROOM_NAME_MAX_LENGTH = 100;
+const ROOM_DESCRIPTION_MAX_LENGTH = 500;
 const MESSAGES_COLLECTION = 'messages';
+const CHAT_STORAGE_ROOT = 'chats';
+// Senders can edit a message for this long after sending it. Keep in sync
+// with the message rules in firestore.rules.
+const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+const REPLY_PREVIEW_MAX_LENGTH = 100;
+const DELETED_MESSAGE_PREVIEW = 'This message was deleted';
+// Messages per page of history; the live subscription covers the newest page
+const MESSAGE_PAGE_SIZE = 30;
+// The newest page of each room is kept on the device to show on reopening
+const MESSAGE_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// Keep in sync with the chat rules in storage.rules
+const ATTACHMENT_LIMITS = {
+  image: {
+    maxBytes: 10 * 1024 * 1024,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic'],
+  },
+  file: {
+    maxBytes: 25 * 1024 * 1024,
+    mimeTypes: ['application/pdf', 'text/plain'],
+  },
+};
+
+// A local image or file picked for sending
+export interface ChatAttachmentFile {
+  uri: string;
+  name: string;
+  mimeType: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  blurhash?: string | null;
+}
+
+// Resolved download URLs by storage path
+const attachmentUrlCache = new Map<string, string>();
 
 // Error types for better error handling
 class ChatServiceError extends Error {
@@ -90,7 +149,45 @@ export class ChatService {
            chatRoom.memberIds?.includes(userId) || 
            false;
   }
-  // Create or get existing chat room between two users
+
+  // The user's role in a room, or null when they are not a member
+  static getRoomRole(chatRoom: ChatRoom, userId: string): ChatRoomRole | null {
+    if (chatRoom.createdBy === userId) return 'owner';
+    if (!this.isUserParticipant(chatRoom, userId)) return null;
+    return chatRoom.moderators?.includes(userId) ? 'moderator' : 'member';
+  }
+
+  // Owners and moderators administer group rooms; direct rooms have no admins
+  static isRoomAdmin(chatRoom: ChatRoom, userId: string): boolean {
+    const role = this.getRoomRole(chatRoom, userId);
+    return chatRoom.type !== 'direct' && (role === 'owner' || role === 'moderator');
+  }
+
+  private static validateRoomDetails(name: string, description: string): void {
+    if (!name.trim() || name.trim().length > ROOM_NAME_MAX_LENGTH) {
+      throw new ValidationError(`Room name must be 1-${ROOM_NAME_MAX_LENGTH} characters`);
+    }
+    if (description.trim().length > ROOM_DESCRIPTION_MAX_LENGTH) {
+      throw new ValidationError(`Room description can be at most ${ROOM_DESCRIPTION_MAX_LENGTH} characters`);
+    }
+  }
+
+  // Load a room the current user administers
+  private static async getAdministeredRoom(roomId: string, currentUserId: string): Promise<ChatRoom> {
+    const chatRoomSnap = await getDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId));
+    if (!chatRoomSnap.exists()) {
+      throw new ValidationError('Chat room not found');
+    }
+
+    const chatRoom = { id: chatRoomSnap.id, ...chatRoomSnap.data() } as ChatRoom;
+    if (!this.isRoomAdmin(chatRoom, currentUserId)) {
+      throw new PermissionError('Only room admins can do this');
+    }
+    return chatRoom;
+  }
+  // Get the direct chat room between two users, creating it if needed.
+  // New rooms go through the startDirectChat Cloud Function, which checks the
+  // other user's allowMessages setting and blocks.
   static async createOrGetChatRoom(user1Id: string, user2Id: string): Promise<string> {
     try {
       const currentUserId = this.validateAuth();
@@ -99,42 +196,35 @@ export class ChatService {
       if (currentUserId !== user1Id && currentUserId !== user2Id) {
         throw new PermissionError('You can only create chat rooms that you are a participant in');
       }
+
+      const otherUserId = currentUserId === user1Id ? user2Id : user1Id;
+      if (otherUserId === currentUserId) {
+        throw new ValidationError("You can't message yourself");
+      }
       
       // Create a consistent room ID regardless of user order
       const roomId = [user1Id, user2Id].sort().join('_');
-      const chatRoomRef = doc(db, CHAT_ROOMS_COLLECTION, roomId);
-      const chatRoomSnap = await getDoc(chatRoomRef);
+      const chatRoomSnap = await getDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId));
       
-      if (!chatRoomSnap.exists()) {
-        // Create new chat room with proper structure for security rules
-        const chatRoom: Partial<ChatRoom> = {
-          participants: [user1Id, user2Id],
-          createdAt: serverTimestamp(),
-          updatedAt: serverTimestamp(),
-          lastMessage: null,
-          lastMessageTime: null,
-          unreadCount: {
-            [user1Id]: 0,
-            [user2Id]: 0
-          },
-          name: 'Direct Message', // Required by security rules
-          type: 'direct',
-          isActive: true,
-          createdBy: currentUserId
-        };
-        
-        await setDoc(chatRoomRef, chatRoom);
+      if (chatRoomSnap.exists()) {
+        const chatRoom = chatRoomSnap.data() as ChatRoom;
+        if (chatRoom.blockedUsers?.includes(currentUserId)) {
+          throw new PermissionError("This user isn't accepting messages from you");
+        }
+        return roomId;
       }
-      
-      return roomId;
+
+      const startDirectChat = httpsCallable<{ userId: string }, { roomId: string; created: boolean }>(
+        functions,
+        'startDirectChat'
+      );
+      const { data } = await startDirectChat({ userId: otherUserId });
+      return data.roomId;
     } catch (error) {
       if (__DEV__) {
         console.error('Error creating/getting chat room:', error);
       }
-      if (error instanceof ChatServiceError) {
-        throw error;
-      }
-      throw new ChatServiceError('Failed to create or get chat room', 'CREATE_ROOM_ERROR');
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to create or get chat room', 'CREATE_ROOM_ERROR'));
     }
   }
 
@@ -230,11 +320,15 @@ export class ChatService {
   static async sendMessage(
     roomId: string, 
     content: string, 
-    messageType: 'text' | 'image' | 'emoji' | 'file' = 'text'
+    messageType: 'text' | 'image' | 'emoji' | 'file' = 'text',
+    replyTo?: ChatMessage
   ): Promise<string> {
     try {
       const currentUserId = this.validateAuth();
       this.validateMessageContent(content);
+      if (replyTo?.deleted) {
+        throw new ValidationError('You can\'t reply to a deleted message');
+      }
       
       // Get chat room to verify participation
       const chatRoom = await this.getChatRoom(roomId);
@@ -255,30 +349,12 @@ export class ChatService {
         senderId: currentUserId,
         content: content.trim(),
         messageType,
+        ...(replyTo ? { replyTo: this.toReply(replyTo) } : {}),
         timestamp: serverTimestamp(),
-        createdAt: serverTimestamp(),
-        isRead: false,
-        isDelivered: true
-      };
-      
-      await setDoc(messageRef, message);
-      
-      // Update chat room with last message info
-      const chatRoomRef = doc(db, CHAT_ROOMS_COLLECTION, roomId);
-      const otherUserIds = chatRoom.participants.filter(id => id !== currentUserId);
-      
-      const updateData: any = {
-        lastMessage: content.trim(),
-        lastMessageTime: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        createdAt: serverTimestamp()
       };
       
-      // Increment unread count for other participants
-      otherUserIds.forEach(userId => {
-        updateData[`unreadCount.${userId}`] = increment(1);
-      });
-      
-      await updateDoc(chatRoomRef, updateData);
+      await this.commitMessage(chatRoom, currentUserId, messageRef, message, content.trim());
       
       return messageRef.id;
     } catch (error) {
@@ -292,6 +368,251 @@ export class ChatService {
     }
   }
 
+  // The quote stored on a reply, so it still reads right if the parent is
+  // later edited or deleted
+  private static toReply(message: ChatMessage): ChatMessageReply {
+    return {
+      messageId: message.id,
+      senderId: message.senderId,
+      preview: message.content.slice(0, REPLY_PREVIEW_MAX_LENGTH),
+      messageType: message.messageType,
+    };
+  }
+
+  // Write a message together with the room's last message info and unread
+  // counts, so counts never drift from the messages. All server timestamps in
+  // one commit are equal, which makes the sender's read cursor and
+  // lastMessageTime match the message's timestamp exactly.
+  private static async commitMessage(
+    chatRoom: ChatRoom,
+    currentUserId: string,
+    messageRef: DocumentReference,
+    message: DocumentData,
+    preview: string
+  ): Promise<void> {
+    const chatRoomRef = doc(db, CHAT_ROOMS_COLLECTION, chatRoom.id);
+    const otherUserIds = chatRoom.participants.filter(id => id !== currentUserId);
+    
+    const updateData: any = {
+      lastMessage: preview,
+      lastMessageTime: serverTimestamp(),
+      lastMessageSenderId: currentUserId,
+      [`readCursors.${currentUserId}`]: serverTimestamp(),
+      [`typing.${currentUserId}`]: deleteField(),
+      updatedAt: serverTimestamp()
+    };
+    
+    // Increment unread count for other participants
+    otherUserIds.forEach(userId => {
+      updateData[`unreadCount.${userId}`] = increment(1);
+    });
+    
+    const batch = writeBatch(db);
+    batch.set(messageRef, message);
+    batch.update(chatRoomRef, updateData);
+    await batch.commit();
+  }
+
+  // Whether a file can be sent, as 'image' or 'file', or null when its type
+  // is not allowed
+  static getAttachmentType(mimeType: string): 'image' | 'file' | null {
+    if (ATTACHMENT_LIMITS.image.mimeTypes.includes(mimeType)) return 'image';
+    if (ATTACHMENT_LIMITS.file.mimeTypes.includes(mimeType)) return 'file';
+    return null;
+  }
+
+  // Message text of attachments sent without a caption, also used as the
+  // room's last message preview
+  private static attachmentPreview(messageType: 'image' | 'file'): string {
+    return messageType === 'image' ? 'Photo' : 'File';
+  }
+
+  // The caption of an attachment message, empty when it was sent without one
+  static getAttachmentCaption(message: ChatMessage): string {
+    if (message.messageType !== 'image' && message.messageType !== 'file') return message.content;
+    return message.content === this.attachmentPreview(message.messageType) ? '' : message.content;
+  }
+
+  private static validateAttachment(file: ChatAttachmentFile): 'image' | 'file' {
+    const attachmentType = this.getAttachmentType(file.mimeType);
+    if (!attachmentType) {
+      throw new ValidationError('This type of file can\'t be sent');
+    }
+    const { maxBytes } = ATTACHMENT_LIMITS[attachmentType];
+    if (file.size !== undefined && file.size > maxBytes) {
+      throw new ValidationError(`Files can be at most ${Math.round(maxBytes / (1024 * 1024))} MB`);
+    }
+    return attachmentType;
+  }
+
+  // Storage names keep the extension but nothing a path or URL could trip on
+  private static attachmentFileName(name: string): string {
+    const cleaned = name.replace(/[^A-Za-z0-9._-]/g, '_').slice(-100);
+    return cleaned || 'attachment';
+  }
+
+  // Post the message for an attachment before its upload starts, so the
+  // conversation shows it in place with the upload's state
+  static async createAttachmentMessage(
+    roomId: string,
+    file: ChatAttachmentFile,
+    caption: string = ''
+  ): Promise<string> {
+    try {
+      const currentUserId = this.validateAuth();
+      const messageType = this.validateAttachment(file);
+      if (caption.trim()) {
+        this.validateMessageContent(caption);
+      }
+
+      const chatRoom = await this.getChatRoom(roomId);
+      if (!chatRoom) {
+        throw new ValidationError('Chat room not found');
+      }
+
+      const messageRef = doc(collection(db, CHAT_ROOMS_COLLECTION, roomId, MESSAGES_COLLECTION));
+      const attachment: ChatAttachment = {
+        path: `${CHAT_STORAGE_ROOT}/${roomId}/${currentUserId}/${messageRef.id}/${this.attachmentFileName(file.name)}`,
+        name: file.name.slice(0, 200),
+        mimeType: file.mimeType,
+        size: file.size ?? 0,
+        ...(file.width && file.height ? { width: file.width, height: file.height } : {}),
+        blurhash: file.blurhash ?? null,
+        status: 'uploading',
+      };
+      const content = caption.trim() || this.attachmentPreview(messageType);
+
+      await this.commitMessage(chatRoom, currentUserId, messageRef, {
+        roomId,
+        senderId: currentUserId,
+        content,
+        messageType,
+        attachment,
+        timestamp: serverTimestamp(),
+        createdAt: serverTimestamp()
+      }, content);
+
+      return messageRef.id;
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error creating attachment message:', error);
+      }
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to send attachment', 'SEND_ATTACHMENT_ERROR'));
+    }
+  }
+
+  // Upload the file of an attachment message, reporting progress from 0 to 1.
+  // Safe to call again after a failure; the message is marked failed until a
+  // retry succeeds.
+  static async uploadAttachment(
+    roomId: string,
+    messageId: string,
+    file: ChatAttachmentFile,
+    onProgress?: (progress: number) => void
+  ): Promise<void> {
+    const messageRef = doc(db, CHAT_ROOMS_COLLECTION, roomId, MESSAGES_COLLECTION, messageId);
+    try {
+      const currentUserId = this.validateAuth();
+      const messageSnap = await getDoc(messageRef);
+      const message = messageSnap.data() as ChatMessage | undefined;
+      if (!message?.attachment) {
+        throw new ValidationError('Attachment not found');
+      }
+      if (message.senderId !== currentUserId) {
+        throw new PermissionError('You can only upload your own attachments');
+      }
+      if (message.attachment.status === 'failed') {
+        await updateDoc(messageRef, { 'attachment.status': 'uploading' });
+      }
+
+      const response = await fetch(file.uri);
+      const blob = await response.blob();
+      const uploadTask = uploadBytesResumable(ref(storage, message.attachment.path), blob, {
+        contentType: message.attachment.mimeType,
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        uploadTask.on(
+          'state_changed',
+          snapshot => onProgress?.(snapshot.totalBytes ? snapshot.bytesTransferred / snapshot.totalBytes : 0),
+          reject,
+          () => resolve()
+        );
+      });
+
+      await updateDoc(messageRef, {
+        'attachment.status': 'sent',
+        'attachment.size': blob.size,
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error uploading attachment:', error);
+      }
+      await updateDoc(messageRef, { 'attachment.status': 'failed' }).catch(() => undefined);
+      if (error instanceof FirebaseError && error.code === 'storage/unauthorized') {
+        throw new ValidationError('This file is too large or of a type that can\'t be sent');
+      }
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to upload attachment', 'UPLOAD_ATTACHMENT_ERROR'));
+    }
+  }
+
+  // Send an image or file: posts the message, then uploads the file
+  static async sendAttachment(
+    roomId: string,
+    file: ChatAttachmentFile,
+    options: { caption?: string; onProgress?: (progress: number) => void } = {}
+  ): Promise<string> {
+    const messageId = await this.createAttachmentMessage(roomId, file, options.caption);
+    await this.uploadAttachment(roomId, messageId, file, options.onProgress);
+    return messageId;
+  }
+
+  // Download URL of an uploaded attachment; only room members can get one
+  static async getAttachmentUrl(path: string): Promise<string> {
+    const cached = attachmentUrlCache.get(path);
+    if (cached) return cached;
+
+    try {
+      const url = await getDownloadURL(ref(storage, path));
+      attachmentUrlCache.set(path, url);
+      return url;
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error getting attachment URL:', error);
+      }
+      throw new ChatServiceError('Failed to load attachment', 'GET_ATTACHMENT_ERROR');
+    }
+  }
+
+  // Message from a snapshot, with its timestamps as Dates
+  private static toChatMessage(snapshot: QueryDocumentSnapshot): ChatMessage {
+    const message = { id: snapshot.id, ...snapshot.data() } as ChatMessage;
+    
+    // Safely convert timestamps
+    if (message.timestamp) {
+      message.timestamp = toDate(message.timestamp) || message.timestamp;
+    }
+    if (message.createdAt) {
+      message.createdAt = toDate(message.createdAt) || message.createdAt;
+    }
+    if (message.editedAt) {
+      message.editedAt = toDate(message.editedAt) || message.editedAt;
+    }
+    
+    return message;
+  }
+
+  // Pages are queried newest first with one extra document to tell whether
+  // older messages remain
+  private static toMessagePage(docs: QueryDocumentSnapshot[], pageSize: number): ChatMessagePage {
+    const pageDocs = docs.slice(0, pageSize);
+    return {
+      messages: pageDocs.map(doc => this.toChatMessage(doc)).reverse(),
+      lastDoc: pageDocs[pageDocs.length - 1] || null,
+      hasMore: docs.length > pageSize
+    };
+  }
+
   // Get messages for a chat room
   static async getMessages(roomId: string, limitCount: number = 50): Promise<ChatMessage[]> {
     try {
@@ -315,23 +636,9 @@ export class ChatService {
       );
 
       const querySnapshot = await getDocs(q);
-      const messages = querySnapshot.docs.map(doc => {
-        const data = doc.data();
-        const message = { id: doc.id, ...data } as ChatMessage;
-        
-        // Safely convert timestamps
-        if (message.timestamp) {
-          message.timestamp = toDate(message.timestamp) || message.timestamp;
-        }
-        if (message.createdAt) {
-          message.createdAt = toDate(message.createdAt) || message.createdAt;
-        }
-        
-        return message;
-      });
       
       // Return messages in chronological order (oldest first)
-      return messages.reverse();
+      return querySnapshot.docs.map(doc => this.toChatMessage(doc)).reverse();
     } catch (error) {
       if (__DEV__) {
         console.error('Error getting messages:', error);
@@ -343,46 +650,96 @@ export class ChatService {
     }
   }
 
-  // Mark messages as read
-  static async markMessagesAsRead(roomId: string): Promise<void> {
+  // Get the page of messages sent before lastDoc, oldest first
+  static async getOlderMessages(
+    roomId: string,
+    lastDoc: DocumentSnapshot,
+    pageSize: number = MESSAGE_PAGE_SIZE
+  ): Promise<ChatMessagePage> {
     try {
-      const currentUserId = this.validateAuth();
-      
-      // Verify user is a participant in the chat room
-      const chatRoom = await this.getChatRoom(roomId);
-      if (!chatRoom) {
-        throw new ValidationError('Chat room not found');
-      }
-      
-      if (!this.isUserParticipant(chatRoom, currentUserId)) {
-        throw new PermissionError('You are not a participant in this chat room');
+      this.validateAuth();
+
+      const querySnapshot = await getDocs(query(
+        collection(db, CHAT_ROOMS_COLLECTION, roomId, MESSAGES_COLLECTION),
+        orderBy('timestamp', 'desc'),
+        startAfter(lastDoc),
+        limit(pageSize + 1)
+      ));
+      return this.toMessagePage(querySnapshot.docs, pageSize);
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error getting older messages:', error);
       }
-      
-      // Get unread messages in the room (from subcollection)
-      const q = query(
-        collection(db, CHAT_ROOMS_COLLECTION, roomId, 'messages'),
-        and(
-          where('senderId', '!=', currentUserId),
-          where('isRead', '==', false)
-        )
-      );
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to get messages', 'GET_MESSAGES_ERROR'));
+    }
+  }
 
-      const querySnapshot = await getDocs(q);
-      
-      // Mark each message as read
-      const updatePromises = querySnapshot.docs.map(doc => 
-        updateDoc(doc.ref, { 
-          isRead: true,
-          readAt: serverTimestamp() 
-        })
-      );
-      
-      await Promise.all(updatePromises);
-      
-      // Reset unread count for this user in the chat room
+  private static messageCacheKey(roomId: string, userId: string): string {
+    return `chatMessages_${userId}_${roomId}`;
+  }
+
+  // The newest messages of a room as last seen on this device, oldest first
+  static async getCachedMessages(roomId: string): Promise<ChatMessage[]> {
+    const userId = getCurrentUserId();
+    if (!userId) return [];
+
+    const messages = await cacheService.get<ChatMessage[]>(this.messageCacheKey(roomId, userId));
+    return (messages || []).map(message => ({
+      ...message,
+      timestamp: toDate(message.timestamp) || message.timestamp,
+      createdAt: toDate(message.createdAt) || message.createdAt,
+      ...(message.editedAt ? { editedAt: toDate(message.editedAt) || message.editedAt } : {}),
+    }));
+  }
+
+  // Keep the newest sent messages of a room for the next time it is opened
+  static async cacheMessages(roomId: string, messages: ChatMessage[]): Promise<void> {
+    const userId = getCurrentUserId();
+    if (!userId) return;
+
+    const sent = messages.filter(message => message.timestamp).slice(-MESSAGE_PAGE_SIZE);
+    await cacheService.set(this.messageCacheKey(roomId, userId), sent, MESSAGE_CACHE_TTL);
+  }
+
+  // Move the user's read cursor to the room's newest message and clear their
+  // unread count. Both change in one transaction against the room, so a
+  // message sent meanwhile retries it rather than being counted as read.
+  static async markMessagesAsRead(roomId: string): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
       const chatRoomRef = doc(db, CHAT_ROOMS_COLLECTION, roomId);
-      await updateDoc(chatRoomRef, {
-        [`unreadCount.${currentUserId}`]: 0
+
+      await runTransaction(db, async (transaction) => {
+        const chatRoomSnap = await transaction.get(chatRoomRef);
+        if (!chatRoomSnap.exists()) {
+          throw new ValidationError('Chat room not found');
+        }
+
+        const chatRoom = chatRoomSnap.data() as ChatRoom;
+        if (!this.isUserParticipant(chatRoom, currentUserId)) {
+          throw new PermissionError('You are not a participant in this chat room');
+        }
+
+        const lastMessageTime = chatRoomSnap.get('lastMessageTime');
+        const hasUnread = (chatRoom.unreadCount?.[currentUserId] || 0) > 0;
+        if (!(lastMessageTime instanceof Timestamp)) {
+          if (hasUnread) {
+            transaction.update(chatRoomRef, { [`unreadCount.${currentUserId}`]: 0 });
+          }
+          return;
+        }
+
+        const readCursor = chatRoomSnap.get(`readCursors.${currentUserId}`);
+        if (!hasUnread && readCursor instanceof Timestamp && readCursor.toMillis() >= lastMessageTime.toMillis()) {
+          return;
+        }
+
+        // Reading a message also means it was delivered
+        transaction.update(chatRoomRef, {
+          [`unreadCount.${currentUserId}`]: 0,
+          [`readCursors.${currentUserId}`]: lastMessageTime,
+          [`deliveredCursors.${currentUserId}`]: lastMessageTime
+        });
       });
     } catch (error) {
       if (__DEV__) {
@@ -395,76 +752,179 @@ export class ChatService {
     }
   }
 
-  // Delete a message (soft delete)
-  static async deleteMessage(roomId: string, messageId: string): Promise<void> {
+  // Record that the room's newest message reached this device, for the
+  // sender's delivered ticks
+  static async markRoomDelivered(chatRoom: ChatRoom): Promise<void> {
     try {
       const currentUserId = this.validateAuth();
-      
-      // Get the message to verify ownership
-      const messageRef = doc(db, CHAT_ROOMS_COLLECTION, roomId, 'messages', messageId);
-      const messageSnap = await getDoc(messageRef);
-      
-      if (!messageSnap.exists()) {
-        throw new ValidationError('Message not found');
+      const lastMessageTime = chatRoom.lastMessageTime;
+      if (!(lastMessageTime instanceof Timestamp) || chatRoom.lastMessageSenderId === currentUserId) {
+        return;
       }
-      
-      const message = messageSnap.data() as ChatMessage;
-      if (message.senderId !== currentUserId) {
-        throw new PermissionError('You can only delete your own messages');
+
+      const deliveredCursor = chatRoom.deliveredCursors?.[currentUserId];
+      if (deliveredCursor instanceof Timestamp && deliveredCursor.toMillis() >= lastMessageTime.toMillis()) {
+        return;
       }
-      
-      // Soft delete by updating the message
-      await updateDoc(messageRef, {
-        content: 'This message was deleted',
+
+      await updateDoc(doc(db, CHAT_ROOMS_COLLECTION, chatRoom.id), {
+        [`deliveredCursors.${currentUserId}`]: lastMessageTime
+      });
+    } catch (error) {
+      // Delivery state is best effort; the read cursor supersedes it
+      if (__DEV__) {
+        console.error('Error marking room as delivered:', error);
+      }
+    }
+  }
+
+  // Show or clear the user's typing indicator. Each call keeps it for
+  // TYPING_TTL_MS, so it disappears by itself if the app stops sending.
+  static async setTyping(roomId: string, isTyping: boolean): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
+      await updateDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId), {
+        [`typing.${currentUserId}`]: isTyping ? Timestamp.fromMillis(Date.now() + TYPING_TTL_MS) : deleteField()
+      });
+    } catch (error) {
+      // Typing indicators are best effort
+      if (__DEV__) {
+        console.error('Error updating typing state:', error);
+      }
+    }
+  }
+
+  // Whether the current user can still edit a message
+  static canEditMessage(message: ChatMessage, userId: string | undefined, now: number = Date.now()): boolean {
+    const sentAt = toDate(message.timestamp)?.getTime();
+    return !!userId &&
+      message.senderId === userId &&
+      !message.deleted &&
+      sentAt !== undefined &&
+      now - sentAt < MESSAGE_EDIT_WINDOW_MS;
+  }
+
+  private static async getOwnMessage(roomId: string, messageId: string, currentUserId: string): Promise<ChatMessage> {
+    const messageSnap = await getDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId, MESSAGES_COLLECTION, messageId));
+    if (!messageSnap.exists()) {
+      throw new ValidationError('Message not found');
+    }
+
+    const message = { id: messageSnap.id, ...messageSnap.data() } as ChatMessage;
+    if (message.senderId !== currentUserId) {
+      throw new PermissionError('You can only change your own messages');
+    }
+    return message;
+  }
+
+  // Edit the text of one of your messages within the edit window
+  static async editMessage(roomId: string, messageId: string, content: string): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
+      this.validateMessageContent(content);
+
+      const message = await this.getOwnMessage(roomId, messageId, currentUserId);
+      if (!this.canEditMessage(message, currentUserId)) {
+        throw new ValidationError('This message can no longer be edited');
+      }
+      if (message.content === content.trim()) return;
+
+      await updateDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId, MESSAGES_COLLECTION, messageId), {
+        content: content.trim(),
+        editedAt: serverTimestamp()
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error editing message:', error);
+      }
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to edit message', 'EDIT_MESSAGE_ERROR'));
+    }
+  }
+
+  // Set the current user's reaction to a message, or clear it with null.
+  // Each member has at most one reaction per message.
+  static async setReaction(roomId: string, messageId: string, emoji: string | null): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
+      if (emoji !== null && !(CHAT_REACTIONS as readonly string[]).includes(emoji)) {
+        throw new ValidationError('Unsupported reaction');
+      }
+
+      await updateDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId, MESSAGES_COLLECTION, messageId), {
+        [`reactions.${currentUserId}`]: emoji ?? deleteField()
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error updating reaction:', error);
+      }
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to update reaction', 'REACTION_ERROR'));
+    }
+  }
+
+  // Delete one of your messages for everyone. The message stays as a
+  // tombstone so the conversation and replies to it keep their place.
+  static async deleteMessage(roomId: string, messageId: string): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
+      const message = await this.getOwnMessage(roomId, messageId, currentUserId);
+      if (message.deleted) return;
+
+      const batch = writeBatch(db);
+      batch.update(doc(db, CHAT_ROOMS_COLLECTION, roomId, MESSAGES_COLLECTION, messageId), {
+        content: '',
+        attachment: deleteField(),
+        reactions: deleteField(),
         deleted: true,
         deletedAt: serverTimestamp(),
         deletedBy: currentUserId
       });
+
+      // Don't leave the deleted text showing as the room's last message
+      const chatRoom = await this.getChatRoom(roomId);
+      const lastMessageTime = toDate(chatRoom?.lastMessageTime)?.getTime();
+      if (chatRoom?.lastMessageSenderId === currentUserId &&
+          lastMessageTime !== undefined &&
+          lastMessageTime === toDate(message.timestamp)?.getTime()) {
+        batch.update(doc(db, CHAT_ROOMS_COLLECTION, roomId), {
+          lastMessage: DELETED_MESSAGE_PREVIEW,
+          updatedAt: serverTimestamp()
+        });
+      }
+      await batch.commit();
     } catch (error) {
       if (__DEV__) {
         console.error('Error deleting message:', error);
       }
-      if (error instanceof ChatServiceError) {
-        throw error;
-      }
-      throw new ChatServiceError('Failed to delete message', 'DELETE_MESSAGE_ERROR');
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to delete message', 'DELETE_MESSAGE_ERROR'));
     }
   }
 
-  // Listen to messages in real-time
-  static subscribeToMessages(roomId: string, callback: (messages: ChatMessage[]) => void): () => void {
+  // Listen to the newest page of messages. Older pages are loaded with
+  // getOlderMessages from the page's lastDoc.
+  static subscribeToMessages(
+    roomId: string,
+    callback: (page: ChatMessagePage) => void,
+    pageSize: number = MESSAGE_PAGE_SIZE
+  ): () => void {
     try {
-      const currentUserId = this.validateAuth();
+      this.validateAuth();
       
       // Note: We can't verify participation here since this is synchronous
       // The security rules will handle access control
       
       const q = query(
-        collection(db, CHAT_ROOMS_COLLECTION, roomId, 'messages'),
-        orderBy('timestamp', 'asc')
+        collection(db, CHAT_ROOMS_COLLECTION, roomId, MESSAGES_COLLECTION),
+        orderBy('timestamp', 'desc'),
+        limit(pageSize + 1)
       );
       
       return onSnapshot(q, (querySnapshot) => {
-        const messages = querySnapshot.docs.map(doc => {
-          const data = doc.data();
-          const message = { id: doc.id, ...data } as ChatMessage;
-          
-          // Safely convert timestamps
-          if (message.timestamp) {
-            message.timestamp = toDate(message.timestamp) || message.timestamp;
-          }
-          if (message.createdAt) {
-            message.createdAt = toDate(message.createdAt) || message.createdAt;
-          }
-          
-          return message;
-        });
-        callback(messages);
+        callback(this.toMessagePage(querySnapshot.docs, pageSize));
       }, (error) => {
         if (__DEV__) {
           console.error('Error listening to messages:', error);
         }
-        callback([]);
+        callback({ messages: [], lastDoc: null, hasMore: false });
       });
     } catch (error) {
       if (__DEV__) {
@@ -620,6 +1080,14 @@ export class ChatService {
         }
         return;
       }
+
+      // Private rooms are joined through invite links
+      if (!roomData.isPublic || roomData.isActive === false) {
+        throw new PermissionError('This room can only be joined with an invite link');
+      }
+      if (roomData.blockedUsers?.includes(currentUserId)) {
+        throw new PermissionError('You were removed from this room');
+      }
       
       // Add user to participants array
       await updateDoc(chatRoomRef, {
@@ -638,6 +1106,10 @@ export class ChatService {
       if (error instanceof ChatServiceError) {
         throw error;
       }
+      // Non-members cannot read private rooms at all
+      if (error instanceof FirebaseError && error.code === 'permission-denied') {
+        throw new PermissionError('This room can only be joined with an invite link');
+      }
       throw new ChatServiceError('Failed to join chat room', 'JOIN_ROOM_ERROR');
     }
   }
@@ -663,6 +1135,11 @@ export class ChatService {
         }
         return;
       }
+
+      // A room always keeps its owner; owners delete the room instead
+      if (roomData.createdBy === currentUserId && roomData.type !== 'direct') {
+        throw new ValidationError('Owners cannot leave their room. Delete it instead.');
+      }
       
       // Remove user from participants array
       const updateData: any = {
@@ -689,6 +1166,215 @@ export class ChatService {
     }
   }
   
+  // Create a group room owned by the current user. Public rooms are listed
+  // for everyone to join; private rooms are joined through invite links.
+  static async createGroupRoom(details: {
+    name: string;
+    description?: string;
+    visibility: ChatRoomVisibility;
+  }): Promise<string> {
+    try {
+      const currentUserId = this.validateAuth();
+      const description = details.description?.trim() || '';
+      this.validateRoomDetails(details.name, description);
+
+      const chatRoomRef = doc(collection(db, CHAT_ROOMS_COLLECTION));
+      await setDoc(chatRoomRef, {
+        participants: [currentUserId],
+        moderators: [],
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        lastMessage: null,
+        lastMessageTime: null,
+        unreadCount: {
+          [currentUserId]: 0
+        },
+        name: details.name.trim(),
+        description,
+        type: details.visibility,
+        isPublic: details.visibility === 'public',
+        isActive: true,
+        createdBy: currentUserId
+      });
+
+      return chatRoomRef.id;
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error creating group room:', error);
+      }
+      if (error instanceof ChatServiceError) {
+        throw error;
+      }
+      throw new ChatServiceError('Failed to create room', 'CREATE_ROOM_ERROR');
+    }
+  }
+
+  // Rename a room or change its description (admins only)
+  static async updateRoomDetails(roomId: string, details: { name: string; description?: string }): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
+      const description = details.description?.trim() || '';
+      this.validateRoomDetails(details.name, description);
+      await this.getAdministeredRoom(roomId, currentUserId);
+
+      await updateDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId), {
+        name: details.name.trim(),
+        description,
+        updatedAt: serverTimestamp()
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error updating room details:', error);
+      }
+      if (error instanceof ChatServiceError) {
+        throw error;
+      }
+      throw new ChatServiceError('Failed to update room', 'UPDATE_ROOM_ERROR');
+    }
+  }
+
+  // Remove a member from a room (admins only). Removed members are added to
+  // blockedUsers so they cannot join again. The owner cannot be removed, and
+  // only the owner can remove a moderator.
+  static async removeMember(roomId: string, userId: string): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
+      const chatRoom = await this.getAdministeredRoom(roomId, currentUserId);
+
+      const targetRole = this.getRoomRole(chatRoom, userId);
+      if (!targetRole) {
+        throw new ValidationError('User is not a member of this room');
+      }
+      if (targetRole === 'owner' || (targetRole === 'moderator' && chatRoom.createdBy !== currentUserId)) {
+        throw new PermissionError('You cannot remove this member');
+      }
+
+      await updateDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId), {
+        participants: arrayRemove(userId),
+        moderators: arrayRemove(userId),
+        blockedUsers: arrayUnion(userId),
+        [`unreadCount.${userId}`]: deleteField(),
+        [`readCursors.${userId}`]: deleteField(),
+        [`deliveredCursors.${userId}`]: deleteField(),
+        updatedAt: serverTimestamp()
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error removing member:', error);
+      }
+      if (error instanceof ChatServiceError) {
+        throw error;
+      }
+      throw new ChatServiceError('Failed to remove member', 'REMOVE_MEMBER_ERROR');
+    }
+  }
+
+  // Make a member a moderator or take it back (owner only)
+  static async setModerator(roomId: string, userId: string, isModerator: boolean): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
+      const chatRoom = await this.getAdministeredRoom(roomId, currentUserId);
+
+      if (chatRoom.createdBy !== currentUserId) {
+        throw new PermissionError('Only the room owner can change moderators');
+      }
+      if (this.getRoomRole(chatRoom, userId) === null || userId === currentUserId) {
+        throw new ValidationError('User is not a member of this room');
+      }
+
+      await updateDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId), {
+        moderators: isModerator ? arrayUnion(userId) : arrayRemove(userId),
+        updatedAt: serverTimestamp()
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error changing moderator:', error);
+      }
+      if (error instanceof ChatServiceError) {
+        throw error;
+      }
+      throw new ChatServiceError('Failed to change moderator', 'SET_MODERATOR_ERROR');
+    }
+  }
+
+  // Delete a room (admins only). The room is deactivated rather than removed,
+  // like other deletions in the app; it drops out of every room list.
+  static async deleteChatRoom(roomId: string): Promise<void> {
+    try {
+      const currentUserId = this.validateAuth();
+      await this.getAdministeredRoom(roomId, currentUserId);
+
+      await updateDoc(doc(db, CHAT_ROOMS_COLLECTION, roomId), {
+        isActive: false,
+        isPublic: false,
+        deletedAt: serverTimestamp(),
+        deletedBy: currentUserId,
+        updatedAt: serverTimestamp()
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error deleting chat room:', error);
+      }
+      if (error instanceof ChatServiceError) {
+        throw error;
+      }
+      throw new ChatServiceError('Failed to delete room', 'DELETE_ROOM_ERROR');
+    }
+  }
+
+  // Create an invite code for a private room (admins only), through the
+  // createChatInvite Cloud Function so codes cannot be guessed or listed
+  static async createInvite(roomId: string): Promise<{ code: string; expiresAt: number }> {
+    try {
+      this.validateAuth();
+      const createChatInvite = httpsCallable<{ roomId: string }, { code: string; expiresAt: number }>(
+        functions,
+        'createChatInvite'
+      );
+      const { data } = await createChatInvite({ roomId });
+      return data;
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error creating invite:', error);
+      }
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to create invite link', 'CREATE_INVITE_ERROR'));
+    }
+  }
+
+  // Join the room an invite code belongs to; returns the room id
+  static async joinChatRoomByInvite(code: string): Promise<string> {
+    try {
+      this.validateAuth();
+      const joinChatRoomByInvite = httpsCallable<{ code: string }, { roomId: string }>(
+        functions,
+        'joinChatRoomByInvite'
+      );
+      const { data } = await joinChatRoomByInvite({ code });
+      return data.roomId;
+    } catch (error) {
+      if (__DEV__) {
+        console.error('Error joining room by invite:', error);
+      }
+      throw this.toChatServiceError(error, new ChatServiceError('Failed to join room', 'JOIN_ROOM_ERROR'));
+    }
+  }
+
+  // Refusals from Cloud Functions carry a message meant for the user
+  private static toChatServiceError(error: unknown, fallback: ChatServiceError): ChatServiceError {
+    if (error instanceof ChatServiceError) {
+      return error;
+    }
+    if (error instanceof FirebaseError) {
+      if (error.code === 'functions/permission-denied') {
+        return new PermissionError(error.message);
+      }
+      if (['functions/invalid-argument', 'functions/not-found', 'functions/failed-precondition'].includes(error.code)) {
+        return new ValidationError(error.message);
+      }
+    }
+    return fallback;
+  }
+
   // Get chat room member count
   static async getRoomMemberCount(roomId: string): Promise<number> {
     try {
@@ -709,15 +1395,30 @@ export const getChatRoom = ChatService.getChatRoom;
 export const getUserChatRooms = ChatService.getUserChatRooms;
 export const sendMessage = ChatService.sendMessage;
 export const getMessages = ChatService.getMessages;
-export const subscribeToMessages = ChatService.subscribeToMessages;
+export const subscribeToMessages = ChatService.subscribeToMessages.bind(ChatService);
+export const getOlderMessages = ChatService.getOlderMessages.bind(ChatService);
 export const subscribeToUserChatRooms = ChatService.subscribeToUserChatRooms;
-export const markMessagesAsRead = ChatService.markMessagesAsRead;
+export const markMessagesAsRead = ChatService.markMessagesAsRead.bind(ChatService);
+export const markRoomDelivered = ChatService.markRoomDelivered.bind(ChatService);
+export const setTyping = ChatService.setTyping.bind(ChatService);
 export const toggleBlockUser = ChatService.toggleBlockUser;
 export const joinChatRoom = ChatService.joinChatRoom;
 export const leaveChatRoom = ChatService.leaveChatRoom;
 export const getRoomMemberCount = ChatService.getRoomMemberCount;
-export const deleteMessage = ChatService.deleteMessage;
+export const deleteMessage = ChatService.deleteMessage.bind(ChatService);
+export const editMessage = ChatService.editMessage.bind(ChatService);
+export const setReaction = ChatService.setReaction.bind(ChatService);
 export const getUnreadMessageCount = ChatService.getUnreadMessageCount;
+export const createGroupRoom = ChatService.createGroupRoom.bind(ChatService);
+export const updateRoomDetails = ChatService.updateRoomDetails.bind(ChatService);
+export const removeMember = ChatService.removeMember.bind(ChatService);
+export const setModerator = ChatService.setModerator.bind(ChatService);
+export const deleteChatRoom = ChatService.deleteChatRoom.bind(ChatService);
+export const createInvite = ChatService.createInvite.bind(ChatService);
+export const joinChatRoomByInvite = ChatService.joinChatRoomByInvite.bind(ChatService);
+export const sendAttachment = ChatService.sendAttachment.bind(ChatService);
+export const uploadAttachment = ChatService.uploadAttachment.bind(ChatService);
+export const getAttachmentUrl = ChatService.getAttachmentUrl.bind(ChatService);
 
 // Export error types
 export { ChatServiceError, AuthenticationError, PermissionError, ValidationError };
@@ -0,0 +1,42 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../utils/firebase';
+import { DataExport } from '../types';
+
+const DATA_EXPORTS_COLLECTION = 'dataExports';
+
+export class DataExportService {
+  // Ask the requestDataExport Cloud Function to build a JSON archive of the
+  // user's data. Resolves once the archive is ready; the status document
+  // follows progress either way.
+  static async requestExport(): Promise<{ downloadUrl: string; expiresAt: string }> {
+    try {
+      const requestDataExport = httpsCallable<void, { downloadUrl: string; expiresAt: string }>(
+        functions,
+        'requestDataExport'
+      );
+      const result = await requestDataExport();
+      return result.data;
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error requesting data export:', error);
+      }
+      throw error;
+    }
+  }
+
+  // Listen to the user's latest export; null until one has been requested
+  static subscribeToExport(userId: string, callback: (dataExport: DataExport | null) => void): () => void {
+    return onSnapshot(doc(db, DATA_EXPORTS_COLLECTION, userId), (snapshot) => {
+      callback(snapshot.exists() ? snapshot.data() as DataExport : null);
+    }, (error) => {
+      if (__DEV__) {
+        __DEV__ && console.error('Error listening to data export:', error);
+      }
+      callback(null);
+    });
+  }
+}
+
+export const dataExportService = DataExportService;
+export default DataExportService;
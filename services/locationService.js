@@ -6,6 +6,16 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Location from 'expo-location';
 import logger from '../utils/logger';
+import {
+  offlineGazetteerProvider,
+  createMapboxPlaceProvider,
+  mergePlaces,
+  rankPlaces,
+  toPlace,
+} from './placeSearch';
+
+const MAX_SEARCH_RESULTS = 10;
+const mapboxToken = process.env.EXPO_PUBLIC_MAPBOX_TOKEN;
 
 export class LocationService {
   static STORAGE_KEYS = {
@@ -14,6 +24,23 @@ export class LocationService {
     LOCATION_PERMISSIONS: 'locationPermissions',
   };
 
+  /**
+   * Online place provider consulted alongside the offline gazetteer.
+   * Mapbox when EXPO_PUBLIC_MAPBOX_TOKEN is set; replace with setOnlineProvider.
+   * @type {import('./placeSearch').PlaceProvider | null}
+   */
+  static onlineProvider = mapboxToken && !mapboxToken.startsWith('your_')
+    ? createMapboxPlaceProvider(mapboxToken)
+    : null;
+
+  /**
+   * Plug in (or remove, with null) the online place provider
+   * @param {import('./placeSearch').PlaceProvider | null} provider
+   */
+  static setOnlineProvider(provider) {
+    this.onlineProvider = provider;
+  }
+
   /**
    * Request location permissions
    * @returns {Promise<boolean>} Whether permission was granted
@@ -84,7 +111,7 @@ export class LocationService {
    * Reverse geocode coordinates to location name
    * @param {number} latitude - Latitude coordinate
    * @param {number} longitude - Longitude coordinate
-   * @returns {Promise<Object>} Location information
+   * @returns {Promise<import('../types').Place | null>} Location information
    */
   static async reverseGeocode(latitude, longitude) {
     try {
@@ -100,14 +127,18 @@ export class LocationService {
 
       if (reverseGeocode.length > 0) {
         const address = reverseGeocode[0];
+        const name = `${address.city || address.subregion || address.region}, ${address.region || address.country}`;
         const result = {
-          name: `${address.city || address.subregion || address.region}, ${address.region || address.country}`,
+          id: `current-${latitude.toFixed(3)}-${longitude.toFixed(3)}`,
+          name,
+          fullName: [name, address.country].filter(Boolean).join(', '),
           city: address.city || address.subregion || '',
           region: address.region || '',
           state: address.region || '',
           country: address.country || '',
-          coordinates: [longitude, latitude],
-          formatted: `${address.city || address.subregion || address.region}, ${address.region || address.country}`,
+          type: 'current',
+          coordinates: { latitude, longitude },
+          formatted: name,
         };
 
         if (__DEV__) {
@@ -127,88 +158,60 @@ export class LocationService {
   }
 
   /**
-   * Search for locations with autocomplete
+   * Last known position of the device, without prompting for permission.
+   * Used to rank nearby places first.
+   * @returns {Promise<{latitude: number, longitude: number} | null>}
+   */
+  static async getLastKnownCoordinates() {
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status !== 'granted') return null;
+
+      const position = await Location.getLastKnownPositionAsync();
+      return position
+        ? { latitude: position.coords.latitude, longitude: position.coords.longitude }
+        : null;
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Last known location error:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Search for places with autocomplete. Searches the offline gazetteer and,
+   * when one is configured, the online provider; ranks by how well the name
+   * matches, then by distance from `near` (the device's last known position
+   * by default) and size.
    * @param {string} query - Search query
-   * @returns {Promise<Array>} Array of location suggestions
+   * @param {{near?: {latitude: number, longitude: number} | null, limit?: number}} [options]
+   * @returns {Promise<import('../types').Place[]>} Places, best match first
    */
-  static async searchLocations(query) {
+  static async searchLocations(query, options = {}) {
     try {
       if (__DEV__) {
         __DEV__ && console.log(`Searching locations for: ${query}`);
       }
-      
-      if (!query || query.length < 2) {
+
+      if (!query || query.trim().length < 2) {
         return [];
       }
-      
-      // Mock location search results
-      const mockResults = [
-        {
-          id: 'sf-1',
-          name: 'San Francisco, CA, USA',
-          city: 'San Francisco',
-          region: 'California',
-          country: 'United States',
-          coordinates: [-122.4194, 37.7749],
-          type: 'city',
-        },
-        {
-          id: 'sf-2',
-          name: 'South of Market, San Francisco, CA',
-          city: 'San Francisco',
-          region: 'California',
-          country: 'United States',
-          coordinates: [-122.4089, 37.7849],
-          type: 'neighborhood',
-        },
-        {
-          id: 'ny-1',
-          name: 'New York, NY, USA',
-          city: 'New York',
-          region: 'New York',
-          country: 'United States',
-          coordinates: [-74.0060, 40.7128],
-          type: 'city',
-        },
-        {
-          id: 'la-1',
-          name: 'Los Angeles, CA, USA',
-          city: 'Los Angeles',
-          region: 'California',
-          country: 'United States',
-          coordinates: [-118.2437, 34.0522],
-          type: 'city',
-        },
-        {
-          id: 'chicago-1',
-          name: 'Chicago, IL, USA',
-          city: 'Chicago',
-          region: 'Illinois',
-          country: 'United States',
-          coordinates: [-87.6298, 41.8781],
-          type: 'city',
-        },
-        {
-          id: 'miami-1',
-          name: 'Miami, FL, USA',
-          city: 'Miami',
-          region: 'Florida',
-          country: 'United States',
-          coordinates: [-80.1918, 25.7617],
-          type: 'city',
-        },
-      ];
-      
-      // Filter results based on query
-      const filtered = mockResults.filter(location =>
-        location.name.toLowerCase().includes(query.toLowerCase()) ||
-        location.city.toLowerCase().includes(query.toLowerCase())
-      );
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 300));
-      
-      return filtered.slice(0, 10); // Return max 10 results
+
+      const limit = options.limit || MAX_SEARCH_RESULTS;
+      const near = options.near !== undefined ? options.near : await this.getLastKnownCoordinates();
+      const searchOptions = { near, limit };
+
+      const [offline, online] = await Promise.all([
+        offlineGazetteerProvider.search(query, searchOptions),
+        this.onlineProvider
+          ? this.onlineProvider.search(query, searchOptions).catch(() => [])
+          : Promise.resolve([]),
+      ]);
+
+      // Online results are ranked the same way, after the bundled places
+      const rankedOnline = rankPlaces(online.map(place => ({ place, population: 0 })), query, near);
+      return mergePlaces(offline, rankedOnline).slice(0, limit);
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Location search error:', error);
@@ -251,7 +254,9 @@ export class LocationService {
     try {
       const locationData = await AsyncStorage.getItem(this.STORAGE_KEYS.SELECTED_LOCATION);
       if (locationData) {
-        const location = JSON.parse(locationData);
+        // Locations saved by older versions stored coordinates as [lon, lat]
+        const saved = JSON.parse(locationData);
+        const location = toPlace(saved) || saved;
         if (__DEV__) {
           __DEV__ && console.log('Retrieved saved location:', location);
         }
@@ -302,7 +307,7 @@ export class LocationService {
   static async getLocationHistory() {
     try {
       const historyData = await AsyncStorage.getItem(this.STORAGE_KEYS.LOCATION_HISTORY);
-      return historyData ? JSON.parse(historyData) : [];
+      return historyData ? JSON.parse(historyData).map(item => toPlace(item) || item) : [];
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Get history error:', error);
@@ -356,41 +361,14 @@ export class LocationService {
 
   /**
    * Get popular locations for suggestions
-   * @returns {Array} Array of popular locations
+   * @returns {Promise<import('../types').Place[]>} Array of popular locations
    */
-  static getPopularLocations() {
-    return [
-      {
-        id: 'popular-sf',
-        name: 'San Francisco, CA',
-        city: 'San Francisco',
-        region: 'California',
-        country: 'United States',
-        coordinates: [-122.4194, 37.7749],
-        type: 'city',
-        isPopular: true,
-      },
-      {
-        id: 'popular-ny',
-        name: 'New York, NY',
-        city: 'New York',
-        region: 'New York',
-        country: 'United States',
-        coordinates: [-74.0060, 40.7128],
-        type: 'city',
-        isPopular: true,
-      },
-      {
-        id: 'popular-la',
-        name: 'Los Angeles, CA',
-        city: 'Los Angeles',
-        region: 'California',
-        country: 'United States',
-        coordinates: [-118.2437, 34.0522],
-        type: 'city',
-        isPopular: true,
-      },
-    ];
+  static async getPopularLocations() {
+    const names = ['New York', 'Los Angeles', 'Chicago', 'Miami', 'San Francisco'];
+    const results = await Promise.all(
+      names.map(name => offlineGazetteerProvider.search(name, { near: null, limit: 1 }))
+    );
+    return results.flat().map(place => ({ ...place, isPopular: true }));
   }
 }
 
@@ -0,0 +1,481 @@
+// Rule-based content moderation engine.
+// Rules come from a versioned JSON document (constants/moderationRules.json,
+// overridable from Firestore) so they can change without an app release.
+// functions/src/moderationEngine.ts is the server copy of this file; both are
+// run against __tests__/fixtures/moderationCorpus.json.
+
+export type ModerationRuleAction = 'block' | 'hold' | 'warn' | 'label';
+export type ModerationSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type PiiDetector = 'phone' | 'email' | 'fullName' | 'address' | 'licensePlate' | 'socialHandle' | 'workplace';
+export type HeuristicCheck = 'caps' | 'repetition' | 'punctuation';
+
+interface BaseRule {
+  id: string;
+  severity: ModerationSeverity;
+  action: ModerationRuleAction;
+  message: string;
+  label?: string;
+  enabled?: boolean;
+}
+
+export interface KeywordRule extends BaseRule {
+  type: 'keywords';
+  terms: string[];
+}
+
+export interface PatternRule extends BaseRule {
+  type: 'pattern';
+  pattern: string;
+  flags?: string;
+}
+
+export interface PiiRule extends BaseRule {
+  type: 'pii';
+  detector: PiiDetector;
+}
+
+export interface HeuristicRule extends BaseRule {
+  type: 'heuristic';
+  check: HeuristicCheck;
+  threshold: number;
+  minLength?: number;
+}
+
+export type ModerationRule = KeywordRule | PatternRule | PiiRule | HeuristicRule;
+
+export interface ModerationRuleSet {
+  version: number;
+  updatedAt?: string;
+  rules: ModerationRule[];
+  firstNames?: string[];
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  action: ModerationRuleAction;
+  severity: ModerationSeverity;
+  message: string;
+  label?: string;
+  excerpts: string[];
+}
+
+export interface ModerationEvaluation {
+  action: ModerationRuleAction | 'allow';
+  matches: RuleMatch[];
+  labels: string[];
+  rulesVersion: number;
+}
+
+const ACTION_PRIORITY: Record<ModerationEvaluation['action'], number> = {
+  allow: 0,
+  label: 1,
+  warn: 2,
+  hold: 3,
+  block: 4,
+};
+
+const ACTIONS: ModerationRuleAction[] = ['block', 'hold', 'warn', 'label'];
+const SEVERITIES: ModerationSeverity[] = ['low', 'medium', 'high', 'critical'];
+const PII_DETECTORS: PiiDetector[] = ['phone', 'email', 'fullName', 'address', 'licensePlate', 'socialHandle', 'workplace'];
+const HEURISTIC_CHECKS: HeuristicCheck[] = ['caps', 'repetition', 'punctuation'];
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+  '|': 'i',
+  '+': 't',
+};
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isValidRule = (rule: unknown): rule is ModerationRule => {
+  if (!isObject(rule)) return false;
+  if (typeof rule.id !== 'string' || typeof rule.message !== 'string') return false;
+  if (!ACTIONS.includes(rule.action as ModerationRuleAction)) return false;
+  if (!SEVERITIES.includes(rule.severity as ModerationSeverity)) return false;
+
+  switch (rule.type) {
+    case 'keywords':
+      return Array.isArray(rule.terms) && rule.terms.every(term => typeof term === 'string');
+    case 'pattern':
+      if (typeof rule.pattern !== 'string') return false;
+      try {
+        new RegExp(rule.pattern, typeof rule.flags === 'string' ? rule.flags : '');
+        return true;
+      } catch {
+        return false;
+      }
+    case 'pii':
+      return PII_DETECTORS.includes(rule.detector as PiiDetector);
+    case 'heuristic':
+      return HEURISTIC_CHECKS.includes(rule.check as HeuristicCheck) && typeof rule.threshold === 'number';
+    default:
+      return false;
+  }
+};
+
+// Validate a rule document, dropping rules that are malformed so one bad
+// entry in a remote document cannot disable moderation entirely
+export const parseRuleSet = (raw: unknown): ModerationRuleSet | null => {
+  if (!isObject(raw) || typeof raw.version !== 'number' || !Array.isArray(raw.rules)) {
+    return null;
+  }
+
+  return {
+    version: raw.version,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : undefined,
+    rules: raw.rules.filter(isValidRule),
+    firstNames: Array.isArray(raw.firstNames)
+      ? raw.firstNames.filter((name): name is string => typeof name === 'string').map(name => name.toLowerCase())
+      : [],
+  };
+};
+
+// Lowercase, strip accents and zero-width characters, undo leetspeak and
+// spaced-out spelling, and squeeze repeated letters so "k 1 l l" and
+// "kiiiill" both normalize to the same token as "kill"
+export const normalizeText = (text: string): string => {
+  let normalized = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u200b-\u200d\ufeff]/g, '')
+    .toLowerCase();
+
+  normalized = normalized.replace(/[a-z0-9@$!|+]+/g, (token) => {
+    if (!/[a-z]/.test(token)) return token;
+    const leading = token.match(/^[!|+]*/)?.[0] ?? '';
+    const trailing = token.slice(leading.length).match(/[!|+]*$/)?.[0] ?? '';
+    const core = token.slice(leading.length, token.length - trailing.length);
+    return leading + core.replace(/[0-9@$!|+]/g, char => LEET_MAP[char] ?? char) + trailing;
+  });
+
+  // Join letters spelled out with separators: "s.p.a.m", "k y s"
+  normalized = normalized.replace(/\b(?:[a-z][\s.\-_*]+){2,}[a-z]\b/g, match => match.replace(/[\s.\-_*]+/g, ''));
+
+  return normalized
+    .replace(/([a-z])\1+/g, '$1')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+export interface PiiSpan {
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiFinding extends PiiSpan {
+  ruleId: string;
+  detector: PiiDetector;
+  action: ModerationRuleAction;
+  severity: ModerationSeverity;
+  message: string;
+  replacement: string;
+}
+
+export interface EvaluateOptions {
+  // Name of the person being reviewed; a full name here makes a workplace
+  // mentioned in the text identifying even if the text never repeats the name
+  subjectName?: string;
+}
+
+// Collect every match of a pattern as a span. The captured group, when used,
+// must be the tail of the match so its offset can be derived from the end.
+const findSpans = (text: string, pattern: RegExp, group = 0): PiiSpan[] => {
+  const spans: PiiSpan[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const value = match[group];
+    if (value) {
+      const end = match.index + match[0].length;
+      spans.push({ start: end - value.length, end, value });
+    }
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return spans;
+};
+
+const trimTrailingDots = (span: PiiSpan): PiiSpan => {
+  const value = span.value.replace(/\.+$/, '');
+  return { start: span.start, end: span.start + value.length, value };
+};
+
+const DIGIT_TOKEN = '(?:\\d|\\b(?:zero|oh|one|two|three|four|five|six|seven|eight|nine)\\b)';
+const PHONE_CANDIDATE = new RegExp(`\\+?\\(?${DIGIT_TOKEN}(?:[\\s().-]*${DIGIT_TOKEN}){6,14}`, 'gi');
+
+const detectPhoneNumbers = (text: string): PiiSpan[] => {
+  return findSpans(text, PHONE_CANDIDATE).filter((span) => {
+    // Spelled-out digits ("five five five ...") count as digits
+    const converted = span.value.replace(/[a-z]+/gi, word => DIGIT_WORDS[word.toLowerCase()] ?? '');
+    const digits = converted.replace(/\D/g, '');
+    if (digits.length >= 10 && digits.length <= 15) return true;
+    // Seven digits only count in the ddd-dddd shape, so years, dates and
+    // prices are not mistaken for local numbers
+    return digits.length === 7 && /^\d{3}[\s.-]\d{4}$/.test(converted.trim());
+  });
+};
+
+const detectEmails = (text: string): PiiSpan[] => [
+  ...findSpans(text, /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi),
+  ...findSpans(
+    text,
+    /[a-z0-9._%+-]+\s*(?:\(at\)|\[at\]|\sat\s)\s*[a-z0-9-]+\s*(?:\(dot\)|\[dot\]|\sdot\s|\.)\s*(?:com|net|org|edu|io|co)\b/gi
+  ),
+];
+
+const detectFullNames = (text: string, firstNames: string[]): PiiSpan[] => {
+  if (firstNames.length === 0) return [];
+  const names = new Set(firstNames);
+
+  return findSpans(text, /\b[A-Z][a-z]+[ \t]+[A-Z][a-z]+(?:-[A-Z][a-z]+)?\b/g).filter((span) => {
+    const [first, last] = span.value.split(/[ \t]+/);
+    return names.has(first.toLowerCase()) && !names.has(last.toLowerCase());
+  });
+};
+
+// House number, up to three street-name words (not filler words, so
+// "2 drinks at the bar" is not an address) and a street suffix
+const STREET_ADDRESS = new RegExp(
+  '\\b\\d{1,6}[ \\t]+' +
+  '(?:(?!(?:at|the|a|an|to|in|on|of|and|or|for|with|my|his|her|their|our|your|was|is)\\b)[A-Za-z0-9.\\x27-]+[ \\t]+){0,3}' +
+  '(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|terrace|circle|highway|hwy|parkway|pkwy)\\b\\.?' +
+  '(?:,?[ \\t]*(?:apt|apartment|unit|suite|ste|#)[ \\t]*#?[A-Za-z0-9-]+)?',
+  'gi'
+);
+
+const detectAddresses = (text: string): PiiSpan[] => findSpans(text, STREET_ADDRESS);
+
+const detectLicensePlates = (text: string): PiiSpan[] => {
+  const contextual = findSpans(
+    text,
+    /\b(?:licen[cs]e[ \t]+plate|plates?|reg(?:istration)?|tag)(?:[ \t]*(?:number|no\.?|is|was|reads|#|:|-))*[ \t]*([A-Za-z0-9]{2,4}[ -]?[A-Za-z0-9]{2,5})\b/gi,
+    1
+  ).filter((span) => {
+    const characters = span.value.replace(/[ -]/g, '');
+    return /[a-z]/i.test(characters) && /\d/.test(characters) && characters.length >= 5 && characters.length <= 8;
+  });
+
+  // Common plate shapes are distinctive enough on their own: 7ABC123, ABC-1234, AB12 CDE
+  const standalone = findSpans(text, /\b(?:\d[A-Z]{3}\d{3}|[A-Z]{3}-?\d{4}|[A-Z]{2}\d{2}[ ]?[A-Z]{3})\b/g);
+
+  return [...contextual, ...standalone];
+};
+
+const detectSocialHandles = (text: string): PiiSpan[] => {
+  const atHandles = findSpans(text, /(?:^|[\s(])(@[A-Za-z0-9_.]{3,30})/g, 1);
+
+  // "insta: jake_99", "snap is jake.smith" -- only when the name looks like a handle
+  const platformHandles = findSpans(
+    text,
+    /\b(?:ig|insta(?:gram)?|snap(?:chat)?|tiktok|twitter|fb|facebook|telegram|kik)\b(?:[ \t]*(?:is|handle|username|name|:|-))*[ \t]*@?([A-Za-z0-9_.]{3,30})/gi,
+    1
+  ).filter(span => /[\d_.]/.test(span.value.replace(/\.+$/, '')));
+
+  return [...atHandles, ...platformHandles].map(trimTrailingDots);
+};
+
+const isFullName = (name: string): boolean =>
+  name.trim().split(/\s+/).filter(word => /^[a-z][a-z\x27-]+$/i.test(word)).length >= 2;
+
+// A workplace only counts when the person is also identifiable by full name,
+// either in the text itself or as the review subject
+const detectWorkplaces = (text: string, firstNames: string[], options: EvaluateOptions): PiiSpan[] => {
+  const named = (options.subjectName && isFullName(options.subjectName)) ||
+    detectFullNames(text, firstNames).length > 0;
+  if (!named) return [];
+
+  return findSpans(
+    text,
+    /\b(?:works|working|worked|employed|interns?|job)[ \t]+(?:at|for)[ \t]+((?:the[ \t]+)?[A-Z][\w&\x27.-]*(?:[ \t]+(?:of[ \t]+)?[A-Z][\w&\x27.-]*){0,3})/g,
+    1
+  ).map(trimTrailingDots);
+};
+
+export const detectPii = (
+  text: string,
+  detector: PiiDetector,
+  ruleSet?: Pick<ModerationRuleSet, 'firstNames'>,
+  options: EvaluateOptions = {}
+): PiiSpan[] => {
+  const firstNames = ruleSet?.firstNames || [];
+
+  switch (detector) {
+    case 'phone':
+      return detectPhoneNumbers(text);
+    case 'email':
+      return detectEmails(text);
+    case 'fullName':
+      return detectFullNames(text, firstNames);
+    case 'address':
+      return detectAddresses(text);
+    case 'licensePlate':
+      return detectLicensePlates(text);
+    case 'socialHandle':
+      return detectSocialHandles(text);
+    case 'workplace':
+      return detectWorkplaces(text, firstNames, options);
+  }
+};
+
+const REDACTIONS: Record<Exclude<PiiDetector, 'fullName'>, string> = {
+  phone: '[phone number]',
+  email: '[email]',
+  address: '[address]',
+  licensePlate: '[plate]',
+  socialHandle: '[handle]',
+  workplace: '[workplace]',
+};
+
+const getReplacement = (detector: PiiDetector, value: string): string => {
+  if (detector === 'fullName') {
+    // Keep the first name and reduce the surname to an initial
+    const [first, last] = value.split(/[ \t]+/);
+    return `${first} ${last.charAt(0)}.`;
+  }
+  return REDACTIONS[detector];
+};
+
+// Locate personal identifiers with their offsets so the editor can offer
+// redactions. Overlapping findings keep the earliest, longest span.
+export const findPii = (text: string, ruleSet: ModerationRuleSet, options: EvaluateOptions = {}): PiiFinding[] => {
+  const findings: PiiFinding[] = [];
+
+  for (const rule of ruleSet.rules) {
+    if (rule.type !== 'pii' || rule.enabled === false) continue;
+
+    for (const span of detectPii(text, rule.detector, ruleSet, options)) {
+      findings.push({
+        ...span,
+        ruleId: rule.id,
+        detector: rule.detector,
+        action: rule.action,
+        severity: rule.severity,
+        message: rule.message,
+        replacement: getReplacement(rule.detector, span.value),
+      });
+    }
+  }
+
+  findings.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const result: PiiFinding[] = [];
+  for (const finding of findings) {
+    const previous = result[result.length - 1];
+    if (!previous || finding.start >= previous.end) {
+      result.push(finding);
+    }
+  }
+  return result;
+};
+
+// Apply redactions from the end so earlier offsets stay valid
+export const redactPii = (text: string, findings: PiiFinding[]): string =>
+  [...findings]
+    .sort((a, b) => b.start - a.start)
+    .reduce((redacted, finding) => redacted.slice(0, finding.start) + finding.replacement + redacted.slice(finding.end), text);
+
+const runHeuristic = (rule: HeuristicRule, text: string, normalized: string): boolean => {
+  switch (rule.check) {
+    case 'caps': {
+      if (text.length <= (rule.minLength ?? 0)) return false;
+      const letters = text.replace(/[^a-zA-Z]/g, '');
+      if (letters.length === 0) return false;
+      return letters.replace(/[^A-Z]/g, '').length / letters.length > rule.threshold;
+    }
+    case 'repetition': {
+      const counts: Record<string, number> = {};
+      for (const word of normalized.split(' ')) {
+        if (word.length < 2) continue;
+        counts[word] = (counts[word] || 0) + 1;
+        if (counts[word] > rule.threshold) return true;
+      }
+      return false;
+    }
+    case 'punctuation':
+      return (text.match(/[!?]{2,}/g) || []).length > rule.threshold;
+  }
+};
+
+const matchesKeyword = (normalized: string, term: string): boolean => {
+  const normalizedTerm = normalizeText(term);
+  return normalizedTerm.length > 0 && ` ${normalized} `.includes(` ${normalizedTerm} `);
+};
+
+// Returns the matched excerpts, or null when the rule does not apply.
+// Heuristic rules match without excerpts.
+const matchRule = (
+  rule: ModerationRule,
+  text: string,
+  normalized: string,
+  ruleSet: ModerationRuleSet,
+  options: EvaluateOptions
+): string[] | null => {
+  switch (rule.type) {
+    case 'keywords': {
+      const terms = rule.terms.filter(term => matchesKeyword(normalized, term));
+      return terms.length > 0 ? terms : null;
+    }
+    case 'pattern': {
+      // Never reuse a global/sticky regex: .test() would carry lastIndex between calls
+      const flags = (rule.flags || '').replace(/[gy]/g, '');
+      const match = new RegExp(rule.pattern, flags).exec(text);
+      return match ? [match[0].trim()] : null;
+    }
+    case 'pii': {
+      const found = detectPii(text, rule.detector, ruleSet, options);
+      return found.length > 0 ? found.map(span => span.value) : null;
+    }
+    case 'heuristic':
+      return runHeuristic(rule, text, normalized) ? [] : null;
+  }
+};
+
+export const evaluateContent = (
+  text: string,
+  ruleSet: ModerationRuleSet,
+  options: EvaluateOptions = {}
+): ModerationEvaluation => {
+  const normalized = normalizeText(text);
+  const matches: RuleMatch[] = [];
+
+  for (const rule of ruleSet.rules) {
+    if (rule.enabled === false) continue;
+
+    const excerpts = matchRule(rule, text, normalized, ruleSet, options);
+    if (!excerpts) continue;
+
+    matches.push({
+      ruleId: rule.id,
+      action: rule.action,
+      severity: rule.severity,
+      message: rule.message,
+      label: rule.label,
+      excerpts,
+    });
+  }
+
+  const action = matches.reduce<ModerationEvaluation['action']>(
+    (highest, match) => (ACTION_PRIORITY[match.action] > ACTION_PRIORITY[highest] ? match.action : highest),
+    'allow'
+  );
+
+  const labels = [...new Set(matches.map(match => match.label).filter((label): label is string => !!label))];
+
+  return { action, matches, labels, rulesVersion: ruleSet.version };
+};
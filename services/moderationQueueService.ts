@@ -0,0 +1,102 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../utils/firebase';
+import { ModerationAction, ModerationDecision, ModerationQueueItem, Review } from '../types';
+
+const QUEUE_COLLECTION = 'moderationQueue';
+const ACTIONS_COLLECTION = 'moderationActions';
+
+const TARGET_COLLECTIONS: Record<ModerationQueueItem['targetType'], string> = {
+  review: 'reviews',
+  comment: 'comments',
+};
+
+export class ModerationQueueService {
+  // Listen to queue items with the given status, most recently updated first
+  static subscribeToQueue(
+    status: ModerationQueueItem['status'],
+    callback: (items: ModerationQueueItem[]) => void
+  ): () => void {
+    const q = query(
+      collection(db, QUEUE_COLLECTION),
+      where('status', '==', status),
+      orderBy('updatedAt', 'desc'),
+      limit(50)
+    );
+
+    return onSnapshot(q, (querySnapshot) => {
+      const items = querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as ModerationQueueItem[];
+      callback(items);
+    }, (error) => {
+      if (__DEV__) {
+        __DEV__ && console.error('Error listening to moderation queue:', error);
+      }
+      callback([]);
+    });
+  }
+
+  // Load the reported content so moderators can see what they are judging
+  static async getTarget(item: ModerationQueueItem): Promise<Partial<Review> | null> {
+    try {
+      const targetRef = doc(db, TARGET_COLLECTIONS[item.targetType], item.targetId);
+      const targetSnap = await getDoc(targetRef);
+      return targetSnap.exists() ? { id: targetSnap.id, ...targetSnap.data() } : null;
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error getting moderation target:', error);
+      }
+      return null;
+    }
+  }
+
+  // Get the audit trail for a queue item
+  static async getActions(itemId: string): Promise<ModerationAction[]> {
+    try {
+      const q = query(
+        collection(db, ACTIONS_COLLECTION),
+        where('itemId', '==', itemId),
+        orderBy('createdAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as ModerationAction[];
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error getting moderation actions:', error);
+      }
+      return [];
+    }
+  }
+
+  // Approve, reject or escalate an item; the Cloud Function writes the audit entry
+  static async resolveItem(itemId: string, decision: ModerationDecision, note?: string): Promise<void> {
+    try {
+      const resolveModerationItem = httpsCallable(functions, 'resolveModerationItem');
+      await resolveModerationItem({ itemId, decision, note: note?.trim() || undefined });
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error resolving moderation item:', error);
+      }
+      throw error;
+    }
+  }
+}
+
+export const moderationQueueService = ModerationQueueService;
+export default ModerationQueueService;
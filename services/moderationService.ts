@@ -1,63 +1,109 @@
 // Moderation service for content checking
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../utils/firebase';
+import bundledRules from '../constants/moderationRules.json';
+import {
+  EvaluateOptions,
+  ModerationEvaluation,
+  ModerationRuleSet,
+  PiiFinding,
+  evaluateContent,
+  findPii,
+  parseRuleSet,
+  redactPii,
+} from './moderationEngine';
+
+// Rules published to Firestore override the bundled copy without an app release
+const RULES_DOC_PATH = 'public/moderationRules';
+const RULES_CACHE_KEY = 'moderation_rules';
+const RULES_REFRESH_MS = 60 * 60 * 1000; // 1 hour
+
+export interface ContentCheckResult {
+  approved: boolean;
+  requiresManualReview: boolean;
+  reasons: string[];
+  action: ModerationEvaluation['action'];
+  warnings: string[];
+  labels: string[];
+  rulesVersion: number;
+}
+
 class ModerationService {
-  private bannedWords: string[] = [
-    // Add actual banned words in production
-    // This is just a placeholder list
-    'spam',
-    'abuse',
-  ];
-
-  private suspiciousPatterns = {
-    urls: /https?:\/\/[^\s]+/gi,
-    emails: /[^\s]+@[^\s]+\.[^\s]+/gi,
-    phoneNumbers: /(\+?\d{1,3}[-.\s]?)?\(?\d{1,4}\)?[-.\s]?\d{1,4}[-.\s]?\d{1,4}/gi,
-    socialHandles: /@[a-zA-Z0-9_]+/gi,
-  };
-
-  // Check content for violations
-  async checkContent(content: string): Promise<{
-    approved: boolean;
-    requiresManualReview: boolean;
-    reasons: string[];
-  }> {
-    const reasons: string[] = [];
-    let requiresManualReview = false;
-
-    // Check for banned words
-    const lowercaseContent = content.toLowerCase();
-    for (const word of this.bannedWords) {
-      if (lowercaseContent.includes(word.toLowerCase())) {
-        reasons.push(`Contains banned word: ${word}`);
+  private ruleSet: ModerationRuleSet = parseRuleSet(bundledRules) as ModerationRuleSet;
+  private lastRefresh = 0;
+  private refreshPromise: Promise<void> | null = null;
+
+  // Adopt a rule set only if it is at least as new as the one in use
+  private adoptRuleSet(raw: unknown): boolean {
+    const ruleSet = parseRuleSet(raw);
+    if (!ruleSet || ruleSet.version < this.ruleSet.version) return false;
+    this.ruleSet = ruleSet;
+    return true;
+  }
+
+  // Load cached rules, then the latest published rules; bundled rules remain
+  // in effect when offline or when the remote document is missing or invalid
+  async refreshRules(force = false): Promise<void> {
+    if (!force && Date.now() - this.lastRefresh < RULES_REFRESH_MS) return;
+    if (this.refreshPromise) return this.refreshPromise;
+
+    this.refreshPromise = (async () => {
+      try {
+        const cached = await AsyncStorage.getItem(RULES_CACHE_KEY);
+        if (cached) {
+          this.adoptRuleSet(JSON.parse(cached));
+        }
+
+        const rulesDoc = await getDoc(doc(db, RULES_DOC_PATH));
+        if (rulesDoc.exists() && this.adoptRuleSet(rulesDoc.data())) {
+          await AsyncStorage.setItem(RULES_CACHE_KEY, JSON.stringify(this.ruleSet));
+        }
+        this.lastRefresh = Date.now();
+      } catch (error) {
+        if (__DEV__) {
+          __DEV__ && console.warn('Failed to refresh moderation rules:', error);
+        }
+      } finally {
+        this.refreshPromise = null;
       }
-    }
+    })();
 
-    // Check for suspicious patterns
-    if (this.suspiciousPatterns.urls.test(content)) {
-      reasons.push('Contains URLs');
-      requiresManualReview = true;
-    }
+    return this.refreshPromise;
+  }
 
-    if (this.suspiciousPatterns.emails.test(content)) {
-      reasons.push('Contains email addresses');
-      requiresManualReview = true;
-    }
+  getRulesVersion(): number {
+    return this.ruleSet.version;
+  }
 
-    if (this.suspiciousPatterns.phoneNumbers.test(content)) {
-      reasons.push('Contains phone numbers');
-      requiresManualReview = true;
-    }
+  // Run the current rule set without refreshing it
+  evaluate(content: string, options?: EvaluateOptions): ModerationEvaluation {
+    return evaluateContent(content, this.ruleSet, options);
+  }
 
-    // Check for excessive caps (shouting)
-    const capsRatio = this.getCapsRatio(content);
-    if (capsRatio > 0.5 && content.length > 20) {
-      reasons.push('Excessive use of capital letters');
-    }
+  // Personal identifiers in the text with suggested redactions. Findings
+  // whose action is 'block' must be removed before the review can publish.
+  findPersonalInfo(content: string, options?: EvaluateOptions): PiiFinding[] {
+    return findPii(content, this.ruleSet, options);
+  }
 
-    // Check for spam patterns
-    if (this.isSpamPattern(content)) {
-      reasons.push('Potential spam content');
-      requiresManualReview = true;
-    }
+  redactPersonalInfo(content: string, findings: PiiFinding[]): string {
+    return redactPii(content, findings);
+  }
+
+  // Check content for violations. Blocked content is not approved; held
+  // content is accepted but goes to the moderation queue; warnings are
+  // surfaced to the author but do not stop publishing.
+  async checkContent(content: string, options?: EvaluateOptions): Promise<ContentCheckResult> {
+    await this.refreshRules();
+    const evaluation = this.evaluate(content, options);
+
+    const reasons = evaluation.matches
+      .filter(match => match.action === 'block' || match.action === 'hold')
+      .map(match => match.message);
+    const warnings = evaluation.matches
+      .filter(match => match.action === 'warn')
+      .map(match => match.message);
 
     // Check content length
     if (content.length < 10) {
@@ -68,10 +114,16 @@ class ModerationService {
       reasons.push('Content too long');
     }
 
+    const blocked = evaluation.action === 'block' || content.length < 10 || content.length > 5000;
+
     return {
-      approved: reasons.length === 0,
-      requiresManualReview,
-      reasons,
+      approved: !blocked && evaluation.action !== 'hold',
+      requiresManualReview: !blocked && evaluation.action === 'hold',
+      reasons: [...new Set(reasons)],
+      action: blocked ? 'block' : evaluation.action,
+      warnings: [...new Set(warnings)],
+      labels: evaluation.labels,
+      rulesVersion: evaluation.rulesVersion,
     };
   }
 
@@ -100,18 +152,7 @@ class ModerationService {
 
   // Check if content is appropriate for age
   isAgeAppropriate(content: string): boolean {
-    // Basic implementation - enhance with actual content analysis
-    const inappropriatePatterns: string[] = [
-      // Add patterns for age-inappropriate content
-    ];
-
-    for (const pattern of inappropriatePatterns) {
-      if (new RegExp(pattern, 'gi').test(content)) {
-        return false;
-      }
-    }
-
-    return true;
+    return !this.evaluate(content).labels.includes('explicit');
   }
 
   // Sanitize content
@@ -167,43 +208,6 @@ class ModerationService {
     return Math.max(-1, Math.min(1, score / maxScore));
   }
 
-  // Private helper methods
-  private getCapsRatio(text: string): number {
-    const letters = text.replace(/[^a-zA-Z]/g, '');
-    if (letters.length === 0) return 0;
-    
-    const caps = letters.replace(/[^A-Z]/g, '');
-    return caps.length / letters.length;
-  }
-
-  private isSpamPattern(content: string): boolean {
-    // Check for repetitive patterns
-    const words = content.toLowerCase().split(/\s+/);
-    const wordCount: Record<string, number> = {};
-    
-    for (const word of words) {
-      wordCount[word] = (wordCount[word] || 0) + 1;
-    }
-    
-    // If any word appears more than 5 times, might be spam
-    for (const count of Object.values(wordCount)) {
-      if (count > 5) return true;
-    }
-    
-    // Check for excessive punctuation
-    const punctuationCount = (content.match(/[!?]{2,}/g) || []).length;
-    if (punctuationCount > 3) return true;
-    
-    // Check for all caps sentences
-    const sentences = content.split(/[.!?]+/);
-    const allCapsSentences = sentences.filter(s => 
-      s.trim().length > 10 && s === s.toUpperCase()
-    );
-    if (allCapsSentences.length > 2) return true;
-    
-    return false;
-  }
-
   // Check if user should be flagged for manual review
   shouldFlagUser(reviewCount: number, reportCount: number): boolean {
     // Flag if user has high report to review ratio
@@ -219,29 +223,9 @@ class ModerationService {
     return false;
   }
 
-  // Generate content warning labels
+  // Generate content warning labels from the label rules
   getContentWarnings(content: string): string[] {
-    const warnings: string[] = [];
-    
-    // Check for potentially sensitive topics
-    const sensitiveTopics = {
-      'violence': ['fight', 'hit', 'punch', 'assault'],
-      'explicit': ['sex', 'nude', 'explicit'],
-      'substance': ['drug', 'alcohol', 'drunk'],
-    };
-    
-    const lowercaseContent = content.toLowerCase();
-    
-    for (const [warning, keywords] of Object.entries(sensitiveTopics)) {
-      for (const keyword of keywords) {
-        if (lowercaseContent.includes(keyword)) {
-          warnings.push(warning);
-          break;
-        }
-      }
-    }
-    
-    return warnings;
+    return this.evaluate(content).labels;
   }
 }
 
@@ -30,6 +30,8 @@ export type NotificationType =
   | 'new_review' 
   | 'review_like' 
   | 'review_comment' 
+  | 'comment_reply'
+  | 'saved_search_match'
   | 'profile_view' 
   | 'match' 
   | 'system';
@@ -39,6 +41,8 @@ export interface NotificationSettings {
   newReviews: boolean;
   reviewLikes: boolean;
   reviewComments: boolean;
+  commentReplies: boolean;
+  savedSearches: boolean;
   profileViews: boolean;
   matches: boolean;
   systemNotifications: boolean;
@@ -57,9 +61,11 @@ export class NotificationService {
   ): Promise<string> {
     try {
       const notificationRef = doc(collection(db, NOTIFICATIONS_COLLECTION));
+      const senderId = getCurrentUserId();
       const notification: Notification = {
         id: notificationRef.id,
         userId,
+        ...(senderId ? { senderId } : {}),
         type,
         title,
         message,
@@ -257,6 +263,8 @@ export class NotificationService {
         newReviews: true,
         reviewLikes: true,
         reviewComments: true,
+        commentReplies: true,
+        savedSearches: true,
         profileViews: true,
         matches: true,
         systemNotifications: true,
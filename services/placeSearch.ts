@@ -0,0 +1,263 @@
+/**
+ * Place search providers for LocationService.
+ * The offline gazetteer is always available; an online geocoder can be
+ * plugged in for places the gazetteer does not know. Results from every
+ * provider share the Place shape and are ranked together.
+ */
+
+import {
+  GAZETTEER_CITIES,
+  GAZETTEER_COUNTRY,
+  GAZETTEER_NEIGHBORHOODS,
+  GAZETTEER_REGIONS,
+} from '../constants/gazetteer';
+import { distanceKm, GeoPoint, toGeoPoint } from '../utils/geohash';
+import type { Place, PlaceType } from '../types';
+
+export interface PlaceSearchOptions {
+  near?: GeoPoint | null; // Closer places rank higher
+  limit: number;
+}
+
+export interface PlaceProvider {
+  name: string;
+  search(query: string, options: PlaceSearchOptions): Promise<Place[]>;
+}
+
+// A place with the popularity used for ranking, in thousands of people
+export interface RankablePlace {
+  place: Place;
+  population: number;
+}
+
+const normalize = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const words = (text: string): string[] => normalize(text).split(' ').filter(Boolean);
+
+const REGION_NAMES = new Map(GAZETTEER_REGIONS.map(([code, name]) => [code, name]));
+
+const placeId = (...parts: string[]): string => parts.map(part => normalize(part).replace(/ /g, '-')).join('-');
+
+const buildGazetteer = (): RankablePlace[] => {
+  const regions = GAZETTEER_REGIONS.map(([code, name, latitude, longitude]) => ({
+    population: 0,
+    place: {
+      id: `gaz-${placeId(code)}`,
+      name,
+      fullName: `${name}, ${GAZETTEER_COUNTRY}`,
+      city: '',
+      region: name,
+      state: name,
+      country: GAZETTEER_COUNTRY,
+      type: 'region' as PlaceType,
+      coordinates: { latitude, longitude },
+    },
+  }));
+
+  const cities = GAZETTEER_CITIES.map(([name, code, latitude, longitude, population]) => {
+    const region = REGION_NAMES.get(code) || code;
+    return {
+      population,
+      place: {
+        id: `gaz-${placeId(name, code)}`,
+        name: `${name}, ${code}`,
+        fullName: `${name}, ${region}, ${GAZETTEER_COUNTRY}`,
+        city: name,
+        region,
+        state: region,
+        country: GAZETTEER_COUNTRY,
+        type: 'city' as PlaceType,
+        coordinates: { latitude, longitude },
+      },
+    };
+  });
+
+  const neighborhoods = GAZETTEER_NEIGHBORHOODS.map(([name, city, code, latitude, longitude]) => {
+    const region = REGION_NAMES.get(code) || code;
+    return {
+      population: 0,
+      place: {
+        id: `gaz-${placeId(name, city, code)}`,
+        name: `${name}, ${city}`,
+        fullName: `${name}, ${city}, ${region}, ${GAZETTEER_COUNTRY}`,
+        city,
+        region,
+        state: region,
+        country: GAZETTEER_COUNTRY,
+        type: 'neighborhood' as PlaceType,
+        coordinates: { latitude, longitude },
+      },
+    };
+  });
+
+  return [...cities, ...neighborhoods, ...regions];
+};
+
+// How well the query matches the place's own name: 1 for the whole name,
+// less for a prefix of the name or of a later word in it, 0 when the query
+// only matches the city, state or country around it
+const nameMatch = (place: Place, queryText: string): number => {
+  const ownName = normalize(place.name.split(',')[0]);
+  if (ownName === queryText) return 1;
+  if (ownName.startsWith(queryText)) return 0.8;
+  if (ownName.split(' ').some(word => word.startsWith(queryText))) return 0.6;
+  return 0;
+};
+
+// Every query word has to start some word of the place, its city, state
+// (or state code) or country
+const matchesAllWords = (place: Place, queryWords: string[]): boolean => {
+  const code = [...REGION_NAMES].find(([, name]) => name === place.region)?.[0] || '';
+  const placeWords = words(`${place.fullName} ${place.name} ${code}`);
+  return queryWords.every(queryWord => placeWords.some(word => word.startsWith(queryWord)));
+};
+
+// Rank places for a query: name matches first, then proximity to the user
+// and population. Places not matching every query word are dropped.
+export const rankPlaces = (
+  places: RankablePlace[],
+  query: string,
+  near?: GeoPoint | null
+): Place[] => {
+  const queryWords = words(query);
+  if (queryWords.length === 0) return [];
+
+  // "austin tx" matches Austin by name and Texas by state code
+  const leadingText = normalize(query.split(',')[0]);
+
+  return places
+    .filter(({ place }) => matchesAllWords(place, queryWords))
+    .map(({ place, population }) => {
+      const proximity = near ? 1 / (1 + distanceKm(near, place.coordinates) / 100) : 0;
+      const popularity = Math.log10(population + 1) / 4;
+      return {
+        place,
+        score: nameMatch(place, leadingText) * 0.6 + proximity * 0.25 + popularity * 0.15,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.place.name.localeCompare(b.place.name))
+    .map(({ place }) => place);
+};
+
+let gazetteer: RankablePlace[] | null = null;
+
+// Bundled places; works offline and needs no account
+export const offlineGazetteerProvider: PlaceProvider = {
+  name: 'gazetteer',
+  async search(query, options) {
+    gazetteer = gazetteer || buildGazetteer();
+    return rankPlaces(gazetteer, query, options.near).slice(0, options.limit);
+  },
+};
+
+const MAPBOX_PLACE_TYPES: Record<string, PlaceType> = {
+  place: 'city',
+  locality: 'city',
+  region: 'region',
+  neighborhood: 'neighborhood',
+};
+
+interface MapboxFeature {
+  id: string;
+  text: string;
+  place_name: string;
+  place_type?: string[];
+  center: [number, number];
+  context?: { id: string; text: string }[];
+}
+
+// Mapbox Geocoding, for places outside the gazetteer. Fails soft: an error or
+// slow response yields no online results rather than no results at all.
+export const createMapboxPlaceProvider = (accessToken: string, timeoutMs: number = 4000): PlaceProvider => ({
+  name: 'mapbox',
+  async search(query, options) {
+    const params = [
+      `access_token=${encodeURIComponent(accessToken)}`,
+      'autocomplete=true',
+      'types=region,place,locality,neighborhood',
+      `limit=${Math.min(options.limit, 10)}`,
+      options.near ? `proximity=${options.near.longitude},${options.near.latitude}` : '',
+    ].filter(Boolean).join('&');
+    const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(query)}.json?${params}`;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) return [];
+      const body: { features?: MapboxFeature[] } = await response.json();
+
+      return (body.features || []).map((feature): Place => {
+        const context = feature.context || [];
+        const contextText = (kind: string) => context.find(item => item.id.startsWith(`${kind}.`))?.text || '';
+        const kind = String(feature.place_type?.[0] || 'place');
+        const type = MAPBOX_PLACE_TYPES[kind] || 'city';
+        const region = type === 'region' ? feature.text : contextText('region');
+        const city = type === 'city' ? feature.text : type === 'neighborhood' ? contextText('place') : '';
+        const [longitude, latitude] = feature.center;
+
+        return {
+          id: `mapbox-${feature.id}`,
+          name: type === 'neighborhood' && city ? `${feature.text}, ${city}` : [feature.text, region].filter(Boolean).join(', '),
+          fullName: feature.place_name,
+          city,
+          region,
+          state: region,
+          country: contextText('country'),
+          type,
+          coordinates: { latitude, longitude },
+        };
+      });
+    } catch {
+      return [];
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+});
+
+// Merge results from several providers, dropping a later result when an
+// earlier one names the same kind of place within 5 km of it
+export const mergePlaces = (...lists: Place[][]): Place[] =>
+  lists.flat().reduce<Place[]>((merged, place) => {
+    const duplicate = merged.some(other =>
+      other.type === place.type &&
+      normalize(other.name.split(',')[0]) === normalize(place.name.split(',')[0]) &&
+      distanceKm(other.coordinates, place.coordinates) < 5
+    );
+    return duplicate ? merged : [...merged, place];
+  }, []);
+
+// Bring a location saved by an older version of the app into the Place
+// shape. Returns null when it has no usable coordinates.
+export const toPlace = (raw: unknown): Place | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const value = raw as Record<string, unknown>;
+  const coordinates = toGeoPoint(value.coordinates);
+  if (!coordinates) return null;
+
+  const text = (key: string): string => (typeof value[key] === 'string' ? value[key] as string : '');
+  const region = text('region') || text('state');
+  const city = text('city');
+  const name = text('name') || text('formatted') || [city, region].filter(Boolean).join(', ');
+  const types: PlaceType[] = ['city', 'region', 'neighborhood', 'current'];
+
+  return {
+    ...value,
+    id: text('id') || placeId(name || 'place', String(coordinates.latitude), String(coordinates.longitude)),
+    name,
+    fullName: text('fullName') || [name, text('country')].filter(Boolean).join(', '),
+    city,
+    region,
+    state: region,
+    country: text('country'),
+    type: types.find(type => type === value.type) || 'city',
+    coordinates,
+  };
+};
@@ -0,0 +1,131 @@
+import { AppState, AppStateStatus } from 'react-native';
+import {
+  collection,
+  doc,
+  setDoc,
+  query,
+  where,
+  onSnapshot,
+  documentId,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../utils/firebase';
+import { privateProfileRef } from './userService';
+import { PRESENCE_HEARTBEAT_MS } from '../utils/presence';
+import { UserPresence } from '../types';
+
+const PRESENCE_COLLECTION = 'presence';
+// Firestore 'in' queries take at most 30 values
+const PRESENCE_QUERY_CHUNK = 30;
+
+export class PresenceService {
+  // Keep the user's presence document alive while the app is in the
+  // foreground. Returns a stop function that marks the user offline.
+  static start(userId: string): () => void {
+    let showLastSeen = true;
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    const publish = (state: UserPresence['state']) => {
+      setDoc(doc(db, PRESENCE_COLLECTION, userId), {
+        state,
+        // Users hiding their last seen only ever show as online
+        lastActive: state === 'online' || showLastSeen ? serverTimestamp() : null,
+        showLastSeen,
+        updatedAt: serverTimestamp()
+      }).catch(error => {
+        if (__DEV__) {
+          __DEV__ && console.error('Error updating presence:', error);
+        }
+      });
+    };
+
+    const goOnline = () => {
+      publish('online');
+      if (!heartbeat) {
+        heartbeat = setInterval(() => publish('online'), PRESENCE_HEARTBEAT_MS);
+      }
+    };
+
+    const goOffline = () => {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+      }
+      publish('offline');
+    };
+
+    // 'inactive' is a brief transition on iOS (app switcher, notification
+    // centre), so only the background counts as leaving
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        goOnline();
+      } else if (nextState === 'background') {
+        goOffline();
+      }
+    };
+
+    // Follow the showLastSeen privacy setting as it changes
+    const unsubscribeUser = onSnapshot(privateProfileRef(userId), (snapshot) => {
+      const value = snapshot.get('privacy.showLastSeen') !== false;
+      if (value !== showLastSeen) {
+        showLastSeen = value;
+        publish(heartbeat ? 'online' : 'offline');
+      }
+    }, (error) => {
+      if (__DEV__) {
+        __DEV__ && console.error('Error listening to privacy settings:', error);
+      }
+    });
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    if (AppState.currentState === 'active') {
+      goOnline();
+    }
+
+    return () => {
+      subscription.remove();
+      unsubscribeUser();
+      goOffline();
+    };
+  }
+
+  // Listen to the presence of a set of users, keyed by user id
+  static subscribeToPresence(
+    userIds: string[],
+    callback: (presence: Record<string, UserPresence>) => void
+  ): () => void {
+    const ids = [...new Set(userIds)];
+    if (ids.length === 0) {
+      callback({});
+      return () => {};
+    }
+
+    const chunks: Record<string, UserPresence>[] = [];
+    const unsubscribes: (() => void)[] = [];
+    for (let start = 0; start < ids.length; start += PRESENCE_QUERY_CHUNK) {
+      const chunkIndex = chunks.length;
+      chunks.push({});
+      const q = query(
+        collection(db, PRESENCE_COLLECTION),
+        where(documentId(), 'in', ids.slice(start, start + PRESENCE_QUERY_CHUNK))
+      );
+
+      unsubscribes.push(onSnapshot(q, (querySnapshot) => {
+        chunks[chunkIndex] = Object.fromEntries(
+          querySnapshot.docs.map(doc => [doc.id, doc.data() as UserPresence])
+        );
+        callback(Object.assign({}, ...chunks));
+      }, (error) => {
+        if (__DEV__) {
+          __DEV__ && console.error('Error listening to presence:', error);
+        }
+      }));
+    }
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+export const presenceService = PresenceService;
+
+export default PresenceService;
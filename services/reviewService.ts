@@ -4,7 +4,6 @@ import {
   addDoc,
   setDoc,
   updateDoc,
-  deleteDoc,
   getDoc,
   getDocs,
   query,
@@ -12,7 +11,10 @@ import {
   orderBy,
   limit,
   startAfter,
+  startAt,
+  endBefore,
   DocumentSnapshot,
+  QueryDocumentSnapshot,
   serverTimestamp,
   increment,
   onSnapshot,
@@ -20,18 +22,50 @@ import {
   writeBatch,
   arrayUnion,
   arrayRemove,
+  runTransaction,
   Timestamp
 } from 'firebase/firestore';
 import logger from '../utils/logger';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
-import { db } from '../utils/firebase';
-import { Review, Comment, ReviewFilter } from '../types';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../utils/firebase';
+import {
+  Review,
+  Comment,
+  CommentRevision,
+  ReactionType,
+  ReviewFilter,
+  NearbyReviewsCursor,
+  NearbyReviewsPage,
+  ReviewSearchOptions,
+  ReviewSearchPage,
+  ReviewEdit,
+  ReviewSubmission,
+  ReviewSubmissionResult,
+} from '../types';
+import { moderationService } from './moderationService';
 import { toMillis } from '../utils/timestampHelpers';
+import { REACTION_TYPES } from '../constants/reactions';
+import { GeoPoint, distanceKm, geohashQueryRanges, getReviewCoordinates } from '../utils/geohash';
+import {
+  LOCATION_PRIVACY_POLICY,
+  MAX_PRECISION_RADIUS_KM,
+  applyLocationPrecision,
+  toPublicLocationData,
+} from '../utils/locationPrivacy';
+import { LocationService } from './locationService';
 import { isUserAuthenticated, getCurrentUserId, createAuthError } from '../utils/authUtils';
 
 const REVIEWS_COLLECTION = 'reviews';
 const COMMENTS_COLLECTION = 'comments';
+const COMMENT_PAGE_SIZE = 20;
+const REPLY_PAGE_SIZE = 5;
+export const MAX_COMMENT_DEPTH = 3;
+
+// Security rules only let authors and moderators read reviews and comments
+// held by moderation, so every query for other people's must say so
+const approvedOnly = () => where('moderationStatus', '==', 'approved');
 
 export class ReviewService {
   private static readonly DRAFT_KEY = '@review_draft';
@@ -39,8 +73,9 @@ export class ReviewService {
   private static readonly PAGE_SIZE = 20;
   private static listeners: Map<string, () => void> = new Map();
 
-  // Create a new review with enhanced features
-  static async createReview(reviewData: Omit<Review, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  // Submit a new review through the submitReview Cloud Function, which
+  // re-validates, moderates and writes the review server-side
+  static async createReview(reviewData: ReviewSubmission): Promise<ReviewSubmissionResult> {
     try {
       // Check network status
       const netInfo = await NetInfo.fetch();
@@ -51,39 +86,32 @@ export class ReviewService {
       // Validate review data
       this.validateReviewData(reviewData);
 
-      const reviewRef = doc(collection(db, REVIEWS_COLLECTION));
-      const review = {
+      // Pre-check moderation so clearly rejected content never leaves the device
+      const precheck = await moderationService.checkContent(
+        this.moderatedText(reviewData),
+        { subjectName: reviewData.targetName }
+      );
+      if (!precheck.approved && !precheck.requiresManualReview) {
+        return { reviewId: null, moderationStatus: 'rejected', reasons: precheck.reasons };
+      }
+
+      const submitReview = httpsCallable<ReviewSubmission, ReviewSubmissionResult>(functions, 'submitReview');
+      const { data: result } = await submitReview({
         ...reviewData,
-        id: reviewRef.id,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        likes: 0,
-        dislikes: 0,
-        reports: 0,
-        views: 0,
-        engagement: 0,
-        comments: [],
-        verified: false,
-        flagged: false,
-        deleted: false,
-        isAnonymous: reviewData.isAnonymous || false,
-        searchKeywords: this.generateSearchKeywords(reviewData),
-      };
-      
-      await setDoc(reviewRef, review);
-      
-      // Clear draft after successful creation
-      await this.clearDraft();
-      
-      // Update user stats
-      if (reviewData.authorId) {
-        await this.updateUserStats(reviewData.authorId, 'create');
+        // Exact coordinates never leave the device
+        ...(await this.coarsenLocation(reviewData)),
+        isAnonymous: reviewData.isAnonymous ?? true,
+      });
+
+      if (result.reviewId) {
+        // Clear draft after successful creation
+        await this.clearDraft();
+
+        // Invalidate cache
+        await this.invalidateCache();
       }
-      
-      // Invalidate cache
-      await this.invalidateCache();
-      
-      return reviewRef.id;
+
+      return result;
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Error creating review:', error);
@@ -178,6 +206,10 @@ export class ReviewService {
       if (filters.authorId) {
         constraints.push(where('authorId', '==', filters.authorId));
       }
+
+      if (filters.authorId !== getCurrentUserId()) {
+        constraints.push(approvedOnly());
+      }
       
       if (filters.verified !== undefined) {
         constraints.push(where('verified', '==', filters.verified));
@@ -226,12 +258,103 @@ export class ReviewService {
     }
   }
 
+  // Reviews within radiusKm of center, nearest first within each page. Queries
+  // each geohash range that covers the circle instead of the whole collection;
+  // pass the returned cursor back to continue every range where it stopped.
+  static async getReviewsNearLocation(
+    center: GeoPoint,
+    radiusKm: number,
+    options: { cursor?: NearbyReviewsCursor | null; pageSize?: number } = {}
+  ): Promise<NearbyReviewsPage> {
+    const emptyPage: NearbyReviewsPage = { reviews: [], cursor: null, hasMore: false };
+
+    try {
+      if (!isUserAuthenticated()) {
+        if (__DEV__) {
+          console.log('User not authenticated, returning empty nearby reviews');
+        }
+        return emptyPage;
+      }
+
+      const pageSize = options.pageSize || this.PAGE_SIZE;
+      // Stored coordinates are coarsened, so also look a little further out
+      // for reviews that may really be within the radius
+      const ranges = options.cursor?.ranges ||
+        geohashQueryRanges(center, radiusKm + MAX_PRECISION_RADIUS_KM)
+          .map(([start, end]) => ({ start, end, lastDoc: null, done: false }));
+
+      const results = await Promise.all(ranges.map(async (range) => {
+        if (range.done) {
+          return { range, docs: [] as DocumentSnapshot[] };
+        }
+
+        const q = query(
+          collection(db, REVIEWS_COLLECTION),
+          approvedOnly(),
+          orderBy('geohash'),
+          range.lastDoc ? startAfter(range.lastDoc) : startAt(range.start),
+          endBefore(range.end),
+          limit(pageSize + 1)
+        );
+        const snapshot = await getDocs(q);
+        const docs = snapshot.docs.slice(0, pageSize);
+
+        return {
+          range: {
+            ...range,
+            lastDoc: docs[docs.length - 1] || range.lastDoc,
+            done: snapshot.docs.length <= pageSize,
+          },
+          docs,
+        };
+      }));
+
+      const currentUserId = getCurrentUserId();
+      const seen = new Set<string>();
+      const nearby: { review: Review; distance: number }[] = [];
+
+      results.flatMap(result => result.docs).forEach((reviewDoc) => {
+        if (seen.has(reviewDoc.id)) return;
+        seen.add(reviewDoc.id);
+
+        const review = { id: reviewDoc.id, ...reviewDoc.data() } as Review;
+        // Reviews held by moderation are only visible to their author until approved
+        const visible = !review.deleted &&
+          (!review.moderationStatus || review.moderationStatus === 'approved' || review.authorId === currentUserId);
+        const coordinates = getReviewCoordinates(review);
+        if (!visible || !coordinates) return;
+
+        // Geohash ranges cover a box around the circle, so check the distance,
+        // allowing for the precision the review's location was stored at
+        const distance = distanceKm(center, coordinates);
+        if (distance - (review.locationPrecision?.radiusKm || 0) <= radiusKm) {
+          nearby.push({ review, distance });
+        }
+      });
+
+      const nextRanges = results.map(result => result.range);
+      const hasMore = nextRanges.some(range => !range.done);
+
+      return {
+        reviews: nearby.sort((a, b) => a.distance - b.distance).map(item => item.review),
+        cursor: hasMore ? { ranges: nextRanges } : null,
+        hasMore,
+      };
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error getting nearby reviews:', error);
+      }
+      return emptyPage;
+    }
+  }
+
   // Get reviews by user ID
   static async getReviewsByUser(userId: string): Promise<Review[]> {
     try {
       const q = query(
         collection(db, REVIEWS_COLLECTION),
         where('authorId', '==', userId),
+        ...(userId === getCurrentUserId() ? [] : [approvedOnly()]),
         where('deleted', '!=', true),
         orderBy('createdAt', 'desc')
       );
@@ -255,6 +378,7 @@ export class ReviewService {
       const q = query(
         collection(db, REVIEWS_COLLECTION),
         where('targetUserId', '==', targetUserId),
+        approvedOnly(),
         where('deleted', '!=', true),
         orderBy('createdAt', 'desc')
       );
@@ -283,6 +407,7 @@ export class ReviewService {
 
       const q = query(
         collection(db, REVIEWS_COLLECTION),
+        approvedOnly(),
         where('deleted', '!=', true),
         where('createdAt', '>=', Timestamp.fromDate(yesterday)),
         orderBy('engagement', 'desc'),
@@ -308,25 +433,26 @@ export class ReviewService {
   }
 
   // Update review
-  static async updateReview(reviewId: string, updates: Partial<Review>): Promise<void> {
+  // Edit title, content or category through the editReview Cloud Function,
+  // which moderates the new text. Edits that need a look send the review
+  // back to pending; rejected edits are not saved.
+  static async updateReview(reviewId: string, updates: ReviewEdit): Promise<ReviewSubmissionResult> {
     try {
-      const reviewRef = doc(db, REVIEWS_COLLECTION, reviewId);
-      
-      // Check if review exists
-      const reviewDoc = await getDoc(reviewRef);
-      if (!reviewDoc.exists()) {
-        throw new Error('Review not found');
+      const precheck = await moderationService.checkContent(this.moderatedText(updates));
+      if (!precheck.approved && !precheck.requiresManualReview) {
+        return { reviewId, moderationStatus: 'rejected', reasons: precheck.reasons };
       }
 
-      await updateDoc(reviewRef, {
-        ...updates,
-        updatedAt: serverTimestamp(),
-        searchKeywords: updates.title || updates.content 
-          ? this.generateSearchKeywords({ ...reviewDoc.data(), ...updates })
-          : undefined,
-      });
-      
-      await this.invalidateCache();
+      const editReview = httpsCallable<ReviewEdit & { reviewId: string }, ReviewSubmissionResult>(
+        functions,
+        'editReview'
+      );
+      const { data: result } = await editReview({ ...updates, reviewId });
+
+      if (result.moderationStatus !== 'rejected') {
+        await this.invalidateCache();
+      }
+      return result;
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Error updating review:', error);
@@ -415,27 +541,130 @@ export class ReviewService {
     }
   }
 
-  // Add comment to review
-  static async addComment(reviewId: string, commentData: Omit<Comment, 'id' | 'createdAt'>): Promise<string> {
+  // Set the user's reaction on a review. Choosing the reaction the user
+  // already has removes it; choosing a different one replaces it. The
+  // onReviewReactionWrite function updates the counts and corroboration score.
+  // Returns the user's reaction afterwards.
+  static async setReaction(reviewId: string, userId: string, type: ReactionType): Promise<ReactionType | null> {
+    if (!REACTION_TYPES.includes(type)) {
+      throw new Error(`Unknown reaction: ${type}`);
+    }
+
+    try {
+      const reviewRef = doc(db, REVIEWS_COLLECTION, reviewId);
+      const reactionRef = doc(db, `${REVIEWS_COLLECTION}/${reviewId}/reactions`, userId);
+
+      const result = await runTransaction(db, async (transaction) => {
+        const reviewSnap = await transaction.get(reviewRef);
+        if (!reviewSnap.exists()) {
+          throw new Error('Review not found');
+        }
+
+        const reactionSnap = await transaction.get(reactionRef);
+        const previous: ReactionType | null = reactionSnap.exists() ? reactionSnap.data().type : null;
+        const next = previous === type ? null : type;
+
+        if (next) {
+          transaction.set(reactionRef, {
+            userId,
+            type: next,
+            createdAt: reactionSnap.exists() ? reactionSnap.data().createdAt : serverTimestamp(),
+            updatedAt: serverTimestamp(),
+          });
+        } else {
+          transaction.delete(reactionRef);
+        }
+
+        // Reacting counts as engagement once per user, like a like
+        if (!previous !== !next) {
+          transaction.update(reviewRef, { engagement: increment(next ? 2 : -2) });
+        }
+
+        return next;
+      });
+
+      await this.invalidateCache();
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error setting reaction:', error);
+      }
+      throw error;
+    }
+  }
+
+  // Get the user's current reaction on a review, if any
+  static async getUserReaction(reviewId: string, userId: string): Promise<ReactionType | null> {
+    try {
+      const reactionDoc = await getDoc(doc(db, `${REVIEWS_COLLECTION}/${reviewId}/reactions`, userId));
+      return reactionDoc.exists() ? reactionDoc.data().type : null;
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error getting reaction:', error);
+      }
+      return null;
+    }
+  }
+
+  // Add a comment, or a reply when parentId is set. Replies to comments at
+  // MAX_COMMENT_DEPTH become siblings so threads stay readable on small screens.
+  static async addComment(
+    reviewId: string,
+    commentData: Pick<Comment, 'authorId' | 'content'> & { parentId?: string | null }
+  ): Promise<Comment> {
     try {
       const commentRef = doc(collection(db, COMMENTS_COLLECTION));
+      const batch = writeBatch(db);
+
+      let parentId: string | null = null;
+      let depth = 0;
+
+      if (commentData.parentId) {
+        const parentSnap = await getDoc(doc(db, COMMENTS_COLLECTION, commentData.parentId));
+        if (!parentSnap.exists() || parentSnap.data().reviewId !== reviewId) {
+          throw new Error('The comment you are replying to no longer exists');
+        }
+
+        const parent = { id: parentSnap.id, ...parentSnap.data() } as Comment;
+        const parentDepth = parent.depth ?? 0;
+
+        if (parentDepth >= MAX_COMMENT_DEPTH && parent.parentId) {
+          parentId = parent.parentId;
+          depth = parentDepth;
+        } else {
+          parentId = parent.id;
+          depth = parentDepth + 1;
+        }
+      }
+
       const comment = {
-        ...commentData,
+        authorId: commentData.authorId,
+        content: commentData.content,
         id: commentRef.id,
         reviewId,
+        parentId,
+        // The onCommentCreated function counts the reply on its parent and
+        // notifies the author of the comment it answers
+        ...(commentData.parentId && commentData.parentId !== parentId ? { replyToId: commentData.parentId } : {}),
+        depth,
+        replyCount: 0,
+        // Reports can hide it later, see onReportCreated
+        moderationStatus: 'approved' as const,
         createdAt: serverTimestamp()
       };
-      
-      await setDoc(commentRef, comment);
-      
+
+      batch.set(commentRef, comment);
+
       // Update review's comment count and engagement
       const reviewRef = doc(db, REVIEWS_COLLECTION, reviewId);
-      await updateDoc(reviewRef, {
+      batch.update(reviewRef, {
         comments: arrayUnion(commentRef.id),
         engagement: increment(3)
       });
-      
-      return commentRef.id;
+
+      await batch.commit();
+
+      return { ...comment, createdAt: Timestamp.now() };
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Error adding comment:', error);
@@ -444,20 +673,27 @@ export class ReviewService {
     }
   }
 
-  // Get comments for a review
-  static async getComments(reviewId: string): Promise<Comment[]> {
+  // Get a page of top-level comments for a review, oldest first
+  static async getComments(
+    reviewId: string,
+    lastDoc?: DocumentSnapshot,
+    pageSize: number = COMMENT_PAGE_SIZE
+  ): Promise<{ comments: Comment[]; lastDoc: DocumentSnapshot | null; hasMore: boolean }> {
     try {
-      const q = query(
-        collection(db, COMMENTS_COLLECTION),
+      const constraints: QueryConstraint[] = [
         where('reviewId', '==', reviewId),
-        orderBy('createdAt', 'asc')
-      );
+        where('parentId', '==', null),
+        approvedOnly(),
+        orderBy('createdAt', 'asc'),
+        limit(pageSize + 1)
+      ];
 
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Comment[];
+      if (lastDoc) {
+        constraints.push(startAfter(lastDoc));
+      }
+
+      const querySnapshot = await getDocs(query(collection(db, COMMENTS_COLLECTION), ...constraints));
+      return this.toCommentPage(querySnapshot.docs, pageSize);
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Error getting comments:', error);
@@ -468,40 +704,187 @@ export class ReviewService {
         try {
           const fallbackQuery = query(
             collection(db, COMMENTS_COLLECTION),
-            where('reviewId', '==', reviewId)
+            where('reviewId', '==', reviewId),
+            approvedOnly()
           );
           const fallbackSnapshot = await getDocs(fallbackQuery);
-          const comments = fallbackSnapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          })) as Comment[];
+          const comments = fallbackSnapshot.docs
+            .map(doc => ({
+              id: doc.id,
+              ...doc.data()
+            }) as Comment)
+            .filter(comment => !comment.parentId);
           
           // Sort manually
-          return comments.sort((a, b) => {
+          comments.sort((a, b) => {
             const aTime = toMillis(a.createdAt) || 0;
             const bTime = toMillis(b.createdAt) || 0;
             return aTime - bTime;
           });
+          return { comments, lastDoc: null, hasMore: false };
         } catch {
-          return [];
+          return { comments: [], lastDoc: null, hasMore: false };
         }
       }
       
+      return { comments: [], lastDoc: null, hasMore: false };
+    }
+  }
+
+  // Get a page of direct replies to a comment, oldest first
+  static async getReplies(
+    parentId: string,
+    lastDoc?: DocumentSnapshot,
+    pageSize: number = REPLY_PAGE_SIZE
+  ): Promise<{ comments: Comment[]; lastDoc: DocumentSnapshot | null; hasMore: boolean }> {
+    try {
+      const constraints: QueryConstraint[] = [
+        where('parentId', '==', parentId),
+        approvedOnly(),
+        orderBy('createdAt', 'asc'),
+        limit(pageSize + 1)
+      ];
+
+      if (lastDoc) {
+        constraints.push(startAfter(lastDoc));
+      }
+
+      const querySnapshot = await getDocs(query(collection(db, COMMENTS_COLLECTION), ...constraints));
+      return this.toCommentPage(querySnapshot.docs, pageSize);
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error getting replies:', error);
+      }
+      return { comments: [], lastDoc: null, hasMore: false };
+    }
+  }
+
+  private static toCommentPage(docs: QueryDocumentSnapshot[], pageSize: number) {
+    return {
+      comments: docs.slice(0, pageSize).map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }) as Comment),
+      lastDoc: docs[Math.min(docs.length, pageSize) - 1] || null,
+      hasMore: docs.length > pageSize
+    };
+  }
+
+  // Like or unlike a comment by adding or removing the user's document in
+  // its likes subcollection; the onCommentLikeWrite function updates likes
+  // and likedBy. Returns whether the comment is now liked by the user.
+  static async toggleCommentLike(commentId: string, userId: string): Promise<boolean> {
+    try {
+      const commentRef = doc(db, COMMENTS_COLLECTION, commentId);
+      const likeRef = doc(db, `${COMMENTS_COLLECTION}/${commentId}/likes`, userId);
+
+      return await runTransaction(db, async (transaction) => {
+        const commentSnap = await transaction.get(commentRef);
+        if (!commentSnap.exists() || commentSnap.data().isDeleted) {
+          throw new Error('This comment has been deleted');
+        }
+
+        const likeSnap = await transaction.get(likeRef);
+        if (likeSnap.exists()) {
+          transaction.delete(likeRef);
+          return false;
+        }
+
+        transaction.set(likeRef, {
+          userId,
+          createdAt: serverTimestamp(),
+        });
+        return true;
+      });
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error toggling comment like:', error);
+      }
+      throw error;
+    }
+  }
+
+  // Edit a comment. The onCommentUpdated function keeps the previous text as
+  // a revision so moderators can see what was changed after other users
+  // replied to it.
+  static async editComment(commentId: string, userId: string, content: string): Promise<void> {
+    try {
+      const commentRef = doc(db, COMMENTS_COLLECTION, commentId);
+
+      await runTransaction(db, async (transaction) => {
+        const commentSnap = await transaction.get(commentRef);
+        if (!commentSnap.exists() || commentSnap.data().isDeleted) {
+          throw new Error('This comment has been deleted');
+        }
+
+        const comment = commentSnap.data() as Comment;
+        if (comment.authorId !== userId) {
+          throw new Error('You can only edit your own comments');
+        }
+        if (comment.content === content) {
+          return;
+        }
+
+        transaction.update(commentRef, {
+          content,
+          isEdited: true,
+          editedAt: serverTimestamp()
+        });
+      });
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error editing comment:', error);
+      }
+      throw error;
+    }
+  }
+
+  // Get the previous versions of a comment, newest first
+  static async getCommentRevisions(commentId: string): Promise<CommentRevision[]> {
+    try {
+      const revisionsQuery = query(
+        collection(db, `${COMMENTS_COLLECTION}/${commentId}/revisions`),
+        orderBy('createdAt', 'desc')
+      );
+      const querySnapshot = await getDocs(revisionsQuery);
+
+      return querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }) as CommentRevision);
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error getting comment revisions:', error);
+      }
       return [];
     }
   }
 
-  // Delete comment
+  // Delete a comment by leaving a tombstone: the text is cleared but the
+  // document stays, so replies keep their parent and the thread keeps its
+  // shape. Deleting an already deleted comment is a no-op.
   static async deleteComment(commentId: string, reviewId: string): Promise<void> {
     try {
       const commentRef = doc(db, COMMENTS_COLLECTION, commentId);
-      await deleteDoc(commentRef);
-      
-      // Update review's comment array
       const reviewRef = doc(db, REVIEWS_COLLECTION, reviewId);
-      await updateDoc(reviewRef, {
-        comments: arrayRemove(commentId),
-        engagement: increment(-3)
+
+      await runTransaction(db, async (transaction) => {
+        const commentSnap = await transaction.get(commentRef);
+        if (!commentSnap.exists() || commentSnap.data().isDeleted) {
+          return;
+        }
+
+        transaction.update(commentRef, {
+          content: '',
+          isDeleted: true,
+          deletedAt: serverTimestamp()
+        });
+
+        // The tombstone no longer counts towards the review's comments
+        transaction.update(reviewRef, {
+          comments: arrayRemove(commentId),
+          engagement: increment(-3)
+        });
       });
     } catch (error) {
       if (__DEV__) {
@@ -525,72 +908,77 @@ export class ReviewService {
         targetId: reviewId,
         reporterId: userId,
         reason,
-        details,
+        ...(details ? { details } : {}),
         status: 'pending',
         createdAt: serverTimestamp(),
       });
+      // The onReportCreated function counts reports and hides the review
+      // once enough people have reported it
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error reporting review:', error);
+      }
+      throw error;
+    }
+  }
 
-      // Update review
-      const reviewRef = doc(db, REVIEWS_COLLECTION, reviewId);
-      await updateDoc(reviewRef, {
-        reports: increment(1),
-        lastReportedAt: serverTimestamp(),
+  // Report a comment. Like review reports, onReportCreated counts them and
+  // hides the comment once enough people have reported it.
+  static async reportComment(commentId: string, userId: string, reason: string): Promise<void> {
+    try {
+      await addDoc(collection(db, 'reports'), {
+        type: 'comment',
+        targetId: commentId,
+        reporterId: userId,
+        reason,
+        status: 'pending',
+        createdAt: serverTimestamp(),
       });
     } catch (error) {
       if (__DEV__) {
-        __DEV__ && console.error('Error reporting review:', error);
+        __DEV__ && console.error('Error reporting comment:', error);
       }
       throw error;
     }
   }
 
-  // Search reviews with enhanced search
-  static async searchReviews(searchTerm: string, filters: ReviewFilter = {}): Promise<Review[]> {
+  // Full-text search through the searchReviews Cloud Function, which keeps an
+  // inverted index of approved reviews with prefix and typo matching. Pass the
+  // returned cursor back to load the next page.
+  static async searchReviews(searchTerm: string, options: ReviewSearchOptions = {}): Promise<ReviewSearchPage> {
+    const emptyPage: ReviewSearchPage = { reviews: [], cursor: null, hasMore: false };
+
     try {
       // Check authentication first
       if (!isUserAuthenticated()) {
         if (__DEV__) {
           console.log('User not authenticated, returning empty search results');
         }
-        return [];
+        return emptyPage;
       }
 
-      if (!searchTerm || searchTerm.length < 2) {
-        return [];
+      if (!searchTerm || searchTerm.trim().length < 2) {
+        return emptyPage;
       }
 
-      const searchLower = searchTerm.toLowerCase();
-      const searchKeywords = searchLower.split(' ').filter(k => k.length > 1);
-
-      // Query by searchKeywords array
-      const constraints: QueryConstraint[] = [
-        where('searchKeywords', 'array-contains-any', searchKeywords),
-        where('deleted', '!=', true),
-        limit(50),
-      ];
-
-      if (filters.category) {
-        constraints.push(where('category', '==', filters.category));
-      }
-
-      const q = query(collection(db, REVIEWS_COLLECTION), ...constraints);
-      const snapshot = await getDocs(q);
-
-      const reviews = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-      } as Review));
-
-      // Further filter in memory for better accuracy
-      return reviews.filter(review => {
-        const text = `${review.title} ${review.content} ${review.targetName}`.toLowerCase();
-        return searchKeywords.some(keyword => text.includes(keyword));
+      const search = httpsCallable<ReviewSearchOptions & { query: string }, ReviewSearchPage>(
+        functions,
+        'searchReviews'
+      );
+      const result = await search({
+        query: searchTerm.trim(),
+        filters: options.filters || {},
+        sortBy: options.sortBy || 'relevance',
+        cursor: options.cursor || null,
+        pageSize: options.pageSize || this.PAGE_SIZE,
       });
+
+      return result.data;
     } catch (error) {
       if (__DEV__) {
         __DEV__ && console.error('Error searching reviews:', error);
       }
-      return [];
+      return emptyPage;
     }
   }
 
@@ -607,6 +995,7 @@ export class ReviewService {
 
     const q = query(
       collection(db, REVIEWS_COLLECTION),
+      approvedOnly(),
       where('deleted', '!=', true),
       orderBy('createdAt', 'desc'),
       limit(50)
@@ -690,15 +1079,46 @@ export class ReviewService {
     }
   }
 
-  // Helper: Generate search keywords
-  private static generateSearchKeywords(data: any): string[] {
-    const text = `${data.title || ''} ${data.content || ''} ${data.targetName || ''} ${data.category || ''}`.toLowerCase();
-    const words = text.split(/\s+/).filter(word => word.length > 2);
-    const unique = [...new Set(words)];
-    return unique.slice(0, 20);
+  // Helper: Join the free-text fields readers see, the same ones the
+  // submitReview and editReview functions moderate
+  private static moderatedText(data: Partial<ReviewSubmission>): string {
+    return [data.title, data.content, data.targetName, data.platform, data.location, data.category]
+      .map(value => value?.trim())
+      .filter(Boolean)
+      .join('\n');
   }
 
   // Helper: Update user stats
+  // Apply the location privacy policy to a submission: coarsened
+  // coordinates, the precision they were coarsened to, and locationData
+  // without the exact point. City precision uses the city's centroid from
+  // place search when it can find the city.
+  private static async coarsenLocation(
+    reviewData: ReviewSubmission
+  ): Promise<Pick<ReviewSubmission, 'coordinates' | 'locationData' | 'locationPrecision'>> {
+    const point = getReviewCoordinates(reviewData);
+    const locationData = toPublicLocationData(reviewData.locationData);
+    if (!point) {
+      return { coordinates: null, locationData, locationPrecision: undefined };
+    }
+
+    const mode = reviewData.locationPrecision || LOCATION_PRIVACY_POLICY.defaultMode;
+    let cityCentroid: GeoPoint | null = null;
+    if (mode === 'city') {
+      const place = locationData?.data as { city?: string; region?: string } | undefined;
+      if (place?.city) {
+        const [city] = (await LocationService.searchLocations(
+          [place.city, place.region].filter(Boolean).join(', '),
+          { near: point, limit: 5 }
+        )).filter(result => result.type === 'city' && distanceKm(point, result.coordinates) < 50);
+        cityCentroid = city?.coordinates || null;
+      }
+    }
+
+    const { coordinates, locationPrecision } = applyLocationPrecision(point, mode, { cityCentroid });
+    return { coordinates, locationData, locationPrecision: locationPrecision.mode };
+  }
+
   private static async updateUserStats(userId: string, action: 'create' | 'delete'): Promise<void> {
     try {
       const userRef = doc(db, 'users', userId);
@@ -788,10 +1208,15 @@ export const getReviews = ReviewService.getReviews.bind(ReviewService);
 export const updateReview = ReviewService.updateReview.bind(ReviewService);
 export const deleteReview = ReviewService.deleteReview.bind(ReviewService);
 export const getReviewsByUser = ReviewService.getReviewsByUser.bind(ReviewService);
+export const getReviewsNearLocation = ReviewService.getReviewsNearLocation.bind(ReviewService);
 export const toggleLike = ReviewService.toggleLike.bind(ReviewService);
+export const setReaction = ReviewService.setReaction.bind(ReviewService);
 export const addComment = ReviewService.addComment.bind(ReviewService);
 export const getComments = ReviewService.getComments.bind(ReviewService);
 export const deleteComment = ReviewService.deleteComment.bind(ReviewService);
+export const toggleCommentLike = ReviewService.toggleCommentLike.bind(ReviewService);
+export const editComment = ReviewService.editComment.bind(ReviewService);
+export const reportComment = ReviewService.reportComment.bind(ReviewService);
 export const subscribeToReviews = ReviewService.subscribeToReviews.bind(ReviewService);
 export const searchReviews = ReviewService.searchReviews.bind(ReviewService);
 export const saveDraft = ReviewService.saveDraft.bind(ReviewService);
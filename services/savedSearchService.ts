@@ -0,0 +1,85 @@
+import {
+  collection,
+  doc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  serverTimestamp
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../utils/firebase';
+import { ReviewSearchFilters, SavedSearch } from '../types';
+
+const SAVED_SEARCHES_COLLECTION = 'savedSearches';
+
+export class SavedSearchService {
+  // Save a search through the saveSearch Cloud Function, which tokenizes the
+  // query the same way search does; returns the saved search id
+  static async saveSearch(searchQuery: string, filters: ReviewSearchFilters = {}, name?: string): Promise<string> {
+    try {
+      // Dates are relative to when the search runs, so they are not saved
+      const { dateFrom: _dateFrom, dateTo: _dateTo, ...savedFilters } = filters;
+      const saveSearch = httpsCallable<
+        { query: string; filters: SavedSearch['filters']; name?: string },
+        { id: string }
+      >(functions, 'saveSearch');
+      const result = await saveSearch({ query: searchQuery, filters: savedFilters, name });
+      return result.data.id;
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error saving search:', error);
+      }
+      throw error;
+    }
+  }
+
+  // Listen to the user's saved searches, newest first
+  static subscribeToSavedSearches(userId: string, callback: (searches: SavedSearch[]) => void): () => void {
+    const q = query(
+      collection(db, SAVED_SEARCHES_COLLECTION),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc')
+    );
+
+    return onSnapshot(q, (querySnapshot) => {
+      callback(querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as SavedSearch));
+    }, (error) => {
+      if (__DEV__) {
+        __DEV__ && console.error('Error listening to saved searches:', error);
+      }
+      callback([]);
+    });
+  }
+
+  // Muted searches keep their settings but stop raising notifications
+  static async setMuted(searchId: string, muted: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(db, SAVED_SEARCHES_COLLECTION, searchId), {
+        muted,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error updating saved search:', error);
+      }
+      throw error;
+    }
+  }
+
+  static async deleteSavedSearch(searchId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, SAVED_SEARCHES_COLLECTION, searchId));
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error deleting saved search:', error);
+      }
+      throw error;
+    }
+  }
+}
+
+export const savedSearchService = SavedSearchService;
+export default SavedSearchService;
@@ -0,0 +1,199 @@
+// Fuzzy matching between reviews that may describe the same person.
+// Pure functions only, so the same scoring can be unit tested and reused
+// by the create screen and the review detail screen.
+
+export interface SubjectCandidate {
+  targetName?: string;
+  platform?: string;
+  location?: string;
+  coordinates?: { latitude: number; longitude: number } | null;
+}
+
+export interface SubjectMatchScore {
+  score: number; // 0..1, see MATCH_THRESHOLD
+  nameScore: number;
+  reasons: string[];
+}
+
+// Below this name similarity, platform and location never make a match
+export const NAME_THRESHOLD = 0.82;
+export const MATCH_THRESHOLD = 0.7;
+
+// Reviews closer than NEARBY_KM count as the same area; beyond FAR_KM the
+// location counts against the match
+const NEARBY_KM = 10;
+const FAR_KM = 100;
+
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Name tokens, dropping initials ("Jake M." -> ["jake"])
+export const nameTokens = (name: string): string[] =>
+  normalizeName(name).split(' ').filter(token => token.length >= 2);
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+export const soundex = (token: string): string => {
+  if (!token) return '';
+
+  let code = token[0].toUpperCase();
+  let previous = SOUNDEX_CODES[token[0]] || '';
+
+  for (const letter of token.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] || '';
+    if (digit && digit !== previous) {
+      code += digit;
+    }
+    // h and w do not separate letters with the same code
+    if (letter !== 'h' && letter !== 'w') {
+      previous = digit;
+    }
+  }
+
+  return (code + '000').slice(0, 4);
+};
+
+// Keys stored on each review (nameKeys) to find candidates with an
+// array-contains-any query. Sound-alike keys catch spelling variants.
+export const getNameKeys = (name: string): string[] => {
+  const tokens = nameTokens(name);
+  return [...new Set([...tokens, ...tokens.map(token => `~${soundex(token)}`)])];
+};
+
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// A first name alone can never be a certain match, so it is capped below a
+// matching full name
+export const nameSimilarity = (a: string, b: string): number => {
+  const aTokens = nameTokens(a);
+  const bTokens = nameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const firstNames = jaroWinkler(aTokens[0], bTokens[0]);
+  if (aTokens.length === 1 || bTokens.length === 1) {
+    return firstNames * 0.95;
+  }
+
+  const fullNames = jaroWinkler(aTokens.join(' '), bTokens.join(' '));
+  const lastNames = jaroWinkler(aTokens[aTokens.length - 1], bTokens[bTokens.length - 1]);
+  return Math.max(fullNames, (firstNames + lastNames) / 2);
+};
+
+export const distanceKm = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number => {
+  const toRad = (deg: number) => deg * (Math.PI / 180);
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+const normalizeLabel = (value?: string): string => (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// City part of "Austin, TX" style labels
+const cityOf = (location: string): string => normalizeLabel(location.split(',')[0]);
+
+// 0.5 means unknown: missing data neither helps nor hurts a match
+const locationSimilarity = (a: SubjectCandidate, b: SubjectCandidate): { score: number; reason?: string } => {
+  if (a.coordinates && b.coordinates) {
+    const distance = distanceKm(a.coordinates, b.coordinates);
+    if (distance <= NEARBY_KM) return { score: 1, reason: 'Nearby' };
+    if (distance >= FAR_KM) return { score: 0 };
+    return { score: 1 - (distance - NEARBY_KM) / (FAR_KM - NEARBY_KM), reason: 'Same area' };
+  }
+
+  if (a.location && b.location) {
+    if (normalizeLabel(a.location) === normalizeLabel(b.location)) return { score: 0.9, reason: 'Same location' };
+    if (cityOf(a.location) && cityOf(a.location) === cityOf(b.location)) return { score: 0.8, reason: 'Same city' };
+    return { score: 0.1 };
+  }
+
+  return { score: 0.5 };
+};
+
+const platformSimilarity = (a: SubjectCandidate, b: SubjectCandidate): { score: number; reason?: string } => {
+  if (a.platform && b.platform) {
+    return normalizeLabel(a.platform) === normalizeLabel(b.platform)
+      ? { score: 1, reason: `Same platform (${b.platform})` }
+      : { score: 0.2 };
+  }
+  return { score: 0.5 };
+};
+
+export const scoreSubjectMatch = (a: SubjectCandidate, b: SubjectCandidate): SubjectMatchScore => {
+  const nameScore = nameSimilarity(a.targetName || '', b.targetName || '');
+  if (nameScore < NAME_THRESHOLD) {
+    return { score: 0, nameScore, reasons: [] };
+  }
+
+  const platform = platformSimilarity(a, b);
+  const location = locationSimilarity(a, b);
+
+  const reasons = [nameScore >= 0.97 ? 'Same name' : 'Similar name'];
+  if (platform.reason) reasons.push(platform.reason);
+  if (location.reason) reasons.push(location.reason);
+
+  return {
+    score: nameScore * 0.6 + platform.score * 0.15 + location.score * 0.25,
+    nameScore,
+    reasons,
+  };
+};
@@ -0,0 +1,106 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  limit
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../utils/firebase';
+import { Review, Subject, SubjectMatch } from '../types';
+import { MATCH_THRESHOLD, SubjectCandidate, getNameKeys, scoreSubjectMatch } from './subjectMatching';
+
+const REVIEWS_COLLECTION = 'reviews';
+const SUBJECTS_COLLECTION = 'subjects';
+
+// array-contains-any accepts at most 30 values
+const MAX_QUERY_KEYS = 30;
+const CANDIDATE_LIMIT = 50;
+
+export class SubjectService {
+  // Reviews that may be about the same person as the candidate, best first.
+  // Candidates come from a nameKeys query and are then scored on name,
+  // platform and location.
+  static async findMatches(
+    candidate: SubjectCandidate,
+    options: { excludeReviewId?: string; maxResults?: number } = {}
+  ): Promise<SubjectMatch[]> {
+    const keys = getNameKeys(candidate.targetName || '').slice(0, MAX_QUERY_KEYS);
+    if (keys.length === 0) return [];
+
+    try {
+      const q = query(
+        collection(db, REVIEWS_COLLECTION),
+        where('nameKeys', 'array-contains-any', keys),
+        where('moderationStatus', '==', 'approved'),
+        limit(CANDIDATE_LIMIT)
+      );
+      const querySnapshot = await getDocs(q);
+
+      return querySnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() }) as Review)
+        .filter(review =>
+          review.id !== options.excludeReviewId &&
+          !review.deleted
+        )
+        .map(review => {
+          const { score, reasons } = scoreSubjectMatch(candidate, review);
+          return { review, score, reasons };
+        })
+        .filter(match => match.score >= MATCH_THRESHOLD)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.maxResults ?? 5);
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error finding matching reviews:', error);
+      }
+      return [];
+    }
+  }
+
+  static async getSubject(subjectId: string): Promise<Subject | null> {
+    try {
+      const subjectDoc = await getDoc(doc(db, SUBJECTS_COLLECTION, subjectId));
+      return subjectDoc.exists() ? { id: subjectDoc.id, ...subjectDoc.data() } as Subject : null;
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error getting subject:', error);
+      }
+      return null;
+    }
+  }
+
+  // Confirm two reviews describe the same person; returns the subject id
+  static async linkReviews(reviewId: string, otherReviewId: string): Promise<string> {
+    try {
+      const linkReviews = httpsCallable<{ reviewId: string; otherReviewId: string }, { subjectId: string }>(
+        functions,
+        'linkReviews'
+      );
+      const result = await linkReviews({ reviewId, otherReviewId });
+      return result.data.subjectId;
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error linking reviews:', error);
+      }
+      throw error;
+    }
+  }
+
+  static async unlinkReview(reviewId: string): Promise<void> {
+    try {
+      const unlinkReview = httpsCallable(functions, 'unlinkReview');
+      await unlinkReview({ reviewId });
+    } catch (error) {
+      if (__DEV__) {
+        __DEV__ && console.error('Error unlinking review:', error);
+      }
+      throw error;
+    }
+  }
+}
+
+export const subjectService = SubjectService;
+export default SubjectService;
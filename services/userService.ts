@@ -16,15 +16,51 @@ import {
 } from 'firebase/firestore';
 import logger from '../utils/logger';
 import { onAuthStateChanged } from 'firebase/auth';
-import { getFirebaseDb, getFirebaseAuth } from '../utils/firebase';
-import { User } from '../types';
+import { httpsCallable } from 'firebase/functions';
+import { getFirebaseDb, getFirebaseAuth, getFirebaseFunctions } from '../utils/firebase';
+import { PrivacySettings, User } from '../types';
+import { withPrivacyDefaults } from '../utils/privacySettings';
 
 const USERS_COLLECTION = 'users';
+// Fields only the user may read, kept out of the users document
+const PRIVATE_PROFILE_FIELDS = ['age', 'location'] as const;
 
 // Lazy getters for Firebase services
 const getDb = () => getFirebaseDb();
 const getAuth = () => getFirebaseAuth();
 
+// Age, location and privacy settings, readable only by the user. Other
+// users see them through the getUserProfile function, as each setting allows.
+export const privateProfileRef = (userId: string) =>
+  doc(getDb(), USERS_COLLECTION, userId, 'private', 'profile');
+
+const splitPrivateFields = (data: Record<string, unknown>) => {
+  const publicFields = { ...data };
+  const privateFields: Record<string, unknown> = {};
+  PRIVATE_PROFILE_FIELDS.forEach(field => {
+    if (field in publicFields) {
+      if (publicFields[field] !== undefined) {
+        privateFields[field] = publicFields[field];
+      }
+      delete publicFields[field];
+    }
+  });
+  return { publicFields, privateFields };
+};
+
+const savePrivateFields = async (userId: string, privateFields: Record<string, unknown>) => {
+  if (Object.keys(privateFields).length === 0) return;
+  await retryOperation(() => setDoc(privateProfileRef(userId), privateFields, { merge: true }));
+};
+
+// The signed-in user's own profile includes their private fields
+const withPrivateFields = async (userId: string, user: User): Promise<User> => {
+  if (getAuth().currentUser?.uid !== userId) return user;
+  const privateSnap = await getDoc(privateProfileRef(userId));
+  const { privateFields } = splitPrivateFields(privateSnap.data() || {});
+  return { ...user, ...privateFields };
+};
+
 // Helper function for retry logic
 const retryOperation = async <T>(
   operation: () => Promise<T>,
@@ -83,12 +119,13 @@ export const createUser = async (userId: string, userData: any) => {
       if (__DEV__) {
         __DEV__ && console.log('User already exists, returning existing data');
       }
-      return { id: existingUser.id, ...existingUser.data() } as User;
+      return withPrivateFields(userId, { id: existingUser.id, ...existingUser.data() } as User);
     }
 
+    const { publicFields, privateFields } = splitPrivateFields(userData);
     const userDoc = {
       id: userId,
-      ...(userData as any),
+      ...publicFields,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
       isOnline: true,
@@ -105,6 +142,7 @@ export const createUser = async (userId: string, userData: any) => {
     await retryOperation(async () => {
       return await setDoc(userRef, userDoc);
     });
+    await savePrivateFields(userId, privateFields);
 
     // Return the created user with actual timestamps
     const createdUserSnap = await retryOperation(async () => {
@@ -112,7 +150,7 @@ export const createUser = async (userId: string, userData: any) => {
     });
     
     if (createdUserSnap.exists()) {
-      const createdUser = { id: createdUserSnap.id, ...createdUserSnap.data() } as User;
+      const createdUser = await withPrivateFields(userId, { id: createdUserSnap.id, ...createdUserSnap.data() } as User);
       if (__DEV__) {
         __DEV__ && console.log('User created successfully!');
       }
@@ -145,14 +183,15 @@ export const createUser = async (userId: string, userData: any) => {
   }
 };
 
-// Get user by ID
+// Get user by ID. Only the signed-in user's own profile includes their
+// private fields; use getUserProfile to show someone else's profile.
 export async function getUserById(userId: string): Promise<User | null> {
   try {
     const userRef = doc(getDb(), USERS_COLLECTION, userId);
     const userSnap = await getDoc(userRef);
     
     if (userSnap.exists()) {
-      return { id: userSnap.id, ...userSnap.data() } as User;
+      return withPrivateFields(userId, { id: userSnap.id, ...userSnap.data() } as User);
     }
     return null;
   } catch (error) {
@@ -163,18 +202,35 @@ export async function getUserById(userId: string): Promise<User | null> {
   }
 }
 
+// Another user's profile as they allow it to be shown, from the
+// getUserProfile Cloud Function
+export async function getUserProfile(userId: string): Promise<User> {
+  try {
+    const getProfile = httpsCallable<{ userId: string }, User>(getFirebaseFunctions(), 'getUserProfile');
+    const result = await getProfile({ userId });
+    return result.data;
+  } catch (error) {
+    if (__DEV__) {
+      __DEV__ && console.error('Error getting user profile:', error);
+    }
+    throw error;
+  }
+}
+
 // Update user profile with retry logic
 export async function updateUser(userId: string, updates: Partial<User>): Promise<User> {
   try {
     const userRef = doc(getDb(), USERS_COLLECTION, userId);
+    const { publicFields, privateFields } = splitPrivateFields(updates);
     
     // Update with retry logic
     await retryOperation(async () => {
       return await updateDoc(userRef, {
-        ...updates,
+        ...publicFields,
         updatedAt: Timestamp.now()
       });
     });
+    await savePrivateFields(userId, privateFields);
     
     // Get the updated user data
     const updatedUser = await getUserById(userId);
@@ -203,39 +259,6 @@ export async function updateUser(userId: string, updates: Partial<User>): Promis
   }
 }
 
-// Get users by location (for matching)
-export async function getUsersByLocation(location: string, excludeUserId?: string): Promise<User[]> {
-  try {
-    let q = query(
-      collection(getDb(), USERS_COLLECTION),
-      where('location', '==', location),
-      where('isActive', '==', true),
-      limit(20)
-    );
-
-    if (excludeUserId) {
-      q = query(
-        collection(getDb(), USERS_COLLECTION),
-        where('location', '==', location),
-        where('isActive', '==', true),
-        where('id', '!=', excludeUserId),
-        limit(20)
-      );
-    }
-
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as User[];
-  } catch (error) {
-    if (__DEV__) {
-      __DEV__ && console.error('Error getting users by location:', error);
-    }
-    throw error;
-  }
-}
-
 // Search users by interests
 export async function getUsersByInterests(interests: string[], excludeUserId?: string): Promise<User[]> {
   try {
@@ -269,22 +292,40 @@ export async function getUsersByInterests(interests: string[], excludeUserId?: s
   }
 }
 
-// Listen to user profile changes
+// Listen to user profile changes. The signed-in user's own profile also
+// follows their private fields.
 export function subscribeToUser(userId: string, callback: (user: User | null) => void): () => void {
   const userRef = doc(getDb(), USERS_COLLECTION, userId);
-  
-  return onSnapshot(userRef, (doc) => {
-    if (doc.exists()) {
-      callback({ id: doc.id, ...doc.data() } as User);
-    } else {
-      callback(null);
-    }
-  }, (error) => {
+  const isOwnProfile = getAuth().currentUser?.uid === userId;
+  let user: User | null | undefined;
+  let privateFields: Record<string, unknown> | undefined = isOwnProfile ? undefined : {};
+
+  const emit = () => {
+    if (user === undefined || privateFields === undefined) return;
+    callback(user ? { ...user, ...privateFields } : null);
+  };
+  const onError = (error: unknown) => {
     if (__DEV__) {
       __DEV__ && console.error('Error listening to user:', error);
     }
     callback(null);
-  });
+  };
+
+  const unsubscribeUser = onSnapshot(userRef, (doc) => {
+    user = doc.exists() ? { id: doc.id, ...doc.data() } as User : null;
+    emit();
+  }, onError);
+  const unsubscribePrivate = isOwnProfile
+    ? onSnapshot(privateProfileRef(userId), (doc) => {
+      privateFields = splitPrivateFields(doc.data() || {}).privateFields;
+      emit();
+    }, onError)
+    : () => {};
+
+  return () => {
+    unsubscribeUser();
+    unsubscribePrivate();
+  };
 }
 
 // Listen to user changes (alias for AuthProvider compatibility)
@@ -319,6 +360,35 @@ export async function updateOnlineStatus(userId: string, isOnline: boolean): Pro
   }
 }
 
+// Get a user's privacy settings, with defaults for anything not yet saved
+export async function getPrivacySettings(userId: string): Promise<PrivacySettings> {
+  try {
+    const profileSnap = await getDoc(privateProfileRef(userId));
+    return withPrivacyDefaults(profileSnap.get('privacy'));
+  } catch (error) {
+    if (__DEV__) {
+      __DEV__ && console.error('Error getting privacy settings:', error);
+    }
+    throw error;
+  }
+}
+
+// Save a user's privacy settings to their private profile, where
+// firestore.rules and the Cloud Functions read them
+export async function updatePrivacySettings(userId: string, settings: PrivacySettings): Promise<void> {
+  try {
+    await retryOperation(() => setDoc(privateProfileRef(userId), {
+      privacy: settings,
+      updatedAt: serverTimestamp()
+    }, { merge: true }));
+  } catch (error) {
+    if (__DEV__) {
+      __DEV__ && console.error('Error updating privacy settings:', error);
+    }
+    throw error;
+  }
+}
+
 // Search users by name or username
 export async function searchUsers(searchTerm: string): Promise<User[]> {
   try {
@@ -353,11 +423,13 @@ export async function searchUsers(searchTerm: string): Promise<User[]> {
 export class UserService {
   static createUser = createUser;
   static getUserById = getUserById;
+  static getUserProfile = getUserProfile;
   static updateUser = updateUser;
-  static getUsersByLocation = getUsersByLocation;
   static getUsersByInterests = getUsersByInterests;
   static subscribeToUser = subscribeToUser;
   static deleteUser = deleteUser;
   static updateOnlineStatus = updateOnlineStatus;
+  static getPrivacySettings = getPrivacySettings;
+  static updatePrivacySettings = updatePrivacySettings;
   static searchUsers = searchUsers;
 }
\ No newline at end of file
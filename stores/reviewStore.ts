@@ -204,10 +204,16 @@ export const useReviewStore = create<ReviewState & ReviewActions>()(
             });
 
             try {
-              const results = await reviewService.searchReviews(query, get().filters);
+              const { category, platform } = get().filters;
+              const results = await reviewService.searchReviews(query, {
+                filters: {
+                  ...(category ? { category } : {}),
+                  ...(platform ? { platform } : {}),
+                },
+              });
               
               set((draft) => {
-                draft.reviews = results;
+                draft.reviews = results.reviews;
                 draft.isLoading = false;
                 draft.hasMore = false; // Search doesn't paginate
               });
@@ -18,8 +18,77 @@ export interface ChatRoom {
   name?: string;
   description?: string;
   type?: 'direct' | 'group' | 'public' | 'private'; // Added 'private' type
-  createdBy?: string;
+  createdBy?: string; // The room owner
   memberCount?: number;
+  isPublic?: boolean; // Listed for everyone and open to join
+  moderators?: string[]; // Share admin rights with the owner
+  deletedAt?: Timestamp | Date | number | null; // Deleted rooms are kept, inactive
+  deletedBy?: string;
+  lastMessageSenderId?: string;
+  // Per-user time of the newest message read / received, see utils/chatReceipts.ts
+  readCursors?: {
+    [userId: string]: Timestamp | Date | number;
+  };
+  deliveredCursors?: {
+    [userId: string]: Timestamp | Date | number;
+  };
+  // Per-user expiry of the typing indicator, see utils/presence.ts
+  typing?: {
+    [userId: string]: Timestamp | Date | number;
+  };
+}
+
+// A page of chat messages, oldest first. lastDoc is the oldest message of
+// the page, where the next older page starts.
+export interface ChatMessagePage {
+  messages: ChatMessage[];
+  lastDoc: DocumentSnapshot | null;
+  hasMore: boolean;
+}
+
+// Heartbeat document in presence/{userId}
+export interface UserPresence {
+  state: 'online' | 'offline';
+  lastActive: Timestamp | Date | number | null; // Cleared on going offline when showLastSeen is off
+  showLastSeen: boolean;
+}
+
+export type ChatRoomRole = 'owner' | 'moderator' | 'member';
+
+export type ChatRoomVisibility = 'public' | 'private';
+
+// Invite link to a private room, in chatInvites/{code}
+export interface ChatInvite {
+  code: string;
+  roomId: string;
+  createdBy: string;
+  createdAt: Timestamp | Date | number;
+  expiresAt: Timestamp | Date | number;
+}
+
+export type ChatAttachmentStatus = 'uploading' | 'sent' | 'failed';
+
+// Image or file sent in a chat message. The file lives in Storage at
+// chats/{roomId}/{senderId}/{messageId}/{name}; only the path is stored so
+// download URLs are always issued through the storage rules.
+export interface ChatAttachment {
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  blurhash?: string | null; // Placeholder shown while the image loads
+  thumbnailPath?: string; // Resized copy, added by Cloud Functions once an image is approved
+  status: ChatAttachmentStatus;
+}
+
+// Quote of the message a reply answers, copied in when the reply is sent
+export interface ChatMessageReply {
+  messageId: string;
+  senderId: string;
+  preview: string;
+  messageType: ChatMessage['messageType'];
 }
 
 export interface ChatMessage {
@@ -33,12 +102,49 @@ export interface ChatMessage {
   type?: 'text' | 'image' | 'emoji' | 'file'; // Alternative property name for compatibility
   timestamp: Timestamp | Date | number; // Firestore Timestamp
   _creationTime?: Timestamp | Date | number; // Alternative timestamp property
-  isRead: boolean;
+  // Legacy per-message state; read and delivery now come from the room's
+  // readCursors and deliveredCursors
+  isRead?: boolean;
   read?: boolean; // Alternative property name for compatibility
-  isDelivered: boolean;
+  isDelivered?: boolean;
   readBy?: string[]; // Users who have read this message
   receiverId?: string; // For direct messages
   senderName?: string; // Sender display name
+  attachment?: ChatAttachment; // For 'image' and 'file' messages
+  moderationStatus?: ModerationStatus; // Set once an image attachment is screened
+  replyTo?: ChatMessageReply;
+  editedAt?: Timestamp | Date | number; // Shown as "edited"
+  reactions?: {
+    [userId: string]: string; // One emoji per member, from CHAT_REACTIONS
+  };
+  // "Deleted for everyone" leaves a tombstone with the content removed
+  deleted?: boolean;
+  deletedAt?: Timestamp | Date | number;
+  deletedBy?: string;
+}
+
+// Saved in the private profile (users/{uid}/private/profile) and enforced by firestore.rules
+// and the Cloud Functions. Friends and matches are people the user already
+// has a direct conversation with.
+export interface PrivacySettings {
+  profileVisibility: 'public' | 'friends' | 'private';
+  showAge: boolean;
+  showLocation: boolean;
+  showLastSeen: boolean;
+  allowMessages: 'everyone' | 'matches' | 'none';
+  allowReviews: 'everyone' | 'friends' | 'nobody';
+  showReviewsOnProfile: boolean;
+  allowNotifications: {
+    messages: boolean;
+    reviews: boolean;
+    matches: boolean;
+    marketing: boolean;
+  };
+  dataSharing: {
+    analytics: boolean;
+    personalization: boolean;
+    thirdParty: boolean;
+  };
 }
 
 export interface User {
@@ -81,6 +187,10 @@ export interface User {
     interestedIn?: string[];
     gender?: string;
   };
+  preferences?: {
+    privacy?: Partial<PrivacySettings>;
+  };
+  deletionScheduledFor?: Timestamp | Date | number; // Set while an account deletion is pending
   // Anonymous user specific fields
   isAnonymous?: boolean;
   reputationScore?: number;
@@ -117,6 +227,8 @@ export interface Review {
   dislikes?: number;
   helpfulCount?: number; // Alternative property name
   likedBy?: string[];
+  reactionCounts?: Partial<Record<ReactionType, number>>;
+  corroborationScore?: number; // Matching flag confirmations minus opposing ones
   comments?: string[] | Comment[]; // Array of comment IDs or Comment objects
   isAnonymous?: boolean;
   category?: string;
@@ -145,6 +257,122 @@ export interface Review {
   deletedAt?: Timestamp | Date | number;
   lastReportedAt?: Timestamp | Date | number;
   verified?: boolean;
+  moderationStatus?: ModerationStatus;
+  moderationReasons?: string[];
+  moderationRulesVersion?: number; // Rule set version that produced the verdict
+  contentLabels?: string[]; // e.g. 'violence', 'substance'
+  subjectId?: string | null; // Person this review was linked to, see Subject
+  nameKeys?: string[]; // Normalized and sound-alike keys of targetName for matching
+  geohash?: string | null; // Of coordinates, for radius queries (utils/geohash.ts)
+  locationPrecision?: LocationPrecision | null; // How coarse coordinates are (utils/locationPrivacy.ts)
+}
+
+// A person described by one or more reviews that users confirmed belong
+// together. Counts are kept by the linkReviews Cloud Function.
+export interface Subject {
+  id: string;
+  displayName: string;
+  nameKeys: string[];
+  platforms: string[];
+  reviewIds: string[];
+  reviewCount: number;
+  greenFlagCount: number;
+  redFlagCount: number;
+  createdAt?: Timestamp | Date | number;
+  updatedAt?: Timestamp | Date | number;
+}
+
+// A review that may be about the same person as the one being viewed/written
+export interface SubjectMatch {
+  review: Review;
+  score: number;
+  reasons: string[];
+}
+
+export type ReactionType = 'helpful' | 'agree' | 'disagree' | 'redFlagConfirm' | 'greenFlagConfirm';
+
+// One per user per review, stored under reviews/{reviewId}/reactions/{userId}
+export interface ReviewReaction {
+  userId: string;
+  type: ReactionType;
+  createdAt: Timestamp | Date | number;
+  updatedAt?: Timestamp | Date | number;
+}
+
+// Reviews store coarsened coordinates: snapped to a grid cell, randomly
+// moved within a radius, or the city's centroid
+export type LocationPrecisionMode = 'grid' | 'jitter' | 'city';
+
+export interface LocationPrecision {
+  mode: LocationPrecisionMode;
+  radiusKm: number; // Largest distance between the stored and the real point
+}
+
+export type ModerationStatus = 'approved' | 'pending' | 'rejected' | 'flagged';
+
+// Payload accepted by the submitReview Cloud Function
+export interface ReviewSubmission {
+  targetName: string;
+  title: string;
+  content: string;
+  category: string;
+  rating: number;
+  platform?: string;
+  location?: string;
+  locationData?: any;
+  coordinates?: { latitude: number; longitude: number } | null;
+  locationPrecision?: LocationPrecisionMode;
+  media?: string[];
+  isAnonymous?: boolean;
+  targetUserId?: string; // Set when the review is about a registered user
+}
+
+// Fields an author can change after publishing, see the editReview function
+export interface ReviewEdit {
+  title?: string;
+  content?: string;
+  category?: string;
+}
+
+export interface ReviewSubmissionResult {
+  reviewId: string | null; // null when the review was rejected and not stored
+  moderationStatus: ModerationStatus;
+  reasons: string[];
+}
+
+export type ModerationDecision = 'approve' | 'reject' | 'escalate';
+
+// One entry per reported or held item in the moderationQueue collection
+export interface ModerationQueueItem {
+  id: string;
+  targetType: 'review' | 'comment';
+  targetId: string;
+  targetAuthorId?: string | null;
+  source: 'reports' | 'automated';
+  status: 'open' | 'escalated' | 'approved' | 'rejected';
+  reportCount: number;
+  reporterIds?: string[];
+  reasons: string[];
+  autoHidden?: boolean;
+  createdAt?: Timestamp | Date | number;
+  updatedAt?: Timestamp | Date | number;
+  lastReportedAt?: Timestamp | Date | number;
+  resolvedBy?: string;
+  resolvedAt?: Timestamp | Date | number;
+}
+
+// Audit trail entry in the moderationActions collection
+export interface ModerationAction {
+  id: string;
+  itemId: string;
+  targetType: string;
+  targetId: string;
+  action: ModerationDecision | 'auto_hide';
+  actorId: string; // 'system' for automated actions
+  previousStatus: string;
+  newStatus: string;
+  note?: string;
+  createdAt: Timestamp | Date | number;
 }
 
 export interface Comment {
@@ -160,11 +388,30 @@ export interface Comment {
   likesCount?: number; // Alternative property name
   likedBy?: string[];
   isLiked?: boolean; // Whether current user has liked this comment
+  parentId?: string | null; // Comment being replied to; null for top-level comments
+  replyToId?: string; // Set when a reply past the depth cap is stored beside the comment it answers
+  depth?: number; // 0 for top-level comments, capped at MAX_COMMENT_DEPTH
+  replyCount?: number; // Direct replies only
+  isEdited?: boolean;
+  editedAt?: Timestamp | Date | number;
+  isDeleted?: boolean; // Tombstone: content is cleared but the comment stays so its replies keep their place
+  deletedAt?: Timestamp | Date | number;
+  moderationStatus?: ModerationStatus; // 'flagged' once enough reports hide it
+}
+
+// Previous version of an edited comment, stored under comments/{id}/revisions
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  content: string;
+  editorId: string;
+  createdAt: Timestamp | Date | number;
 }
 
 export interface Notification {
   id: string;
   userId: string;
+  senderId?: string; // Who caused it; system notifications have none
   type: string;
   title: string;
   message: string;
@@ -225,6 +472,105 @@ export interface ReviewFilter {
   sortDirection?: 'asc' | 'desc';
 }
 
+// Full-text search, served by the searchReviews Cloud Function
+export type ReviewSearchSort = 'relevance' | 'recent' | 'popular';
+
+export interface ReviewSearchFilters {
+  category?: string;
+  flag?: 'green' | 'red';
+  platform?: string;
+  dateFrom?: number; // Milliseconds since epoch
+  dateTo?: number;
+  near?: { latitude: number; longitude: number };
+  radiusKm?: number; // Required with near
+}
+
+export interface ReviewSearchOptions {
+  filters?: ReviewSearchFilters;
+  sortBy?: ReviewSearchSort;
+  cursor?: string | null; // From the previous page
+  pageSize?: number;
+}
+
+export interface ReviewSearchPage {
+  reviews: Review[];
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+// Radius queries fan out over geohash ranges; the cursor keeps the position
+// in each range so later pages continue where each range stopped
+export interface NearbyReviewsCursor {
+  ranges: { start: string; end: string; lastDoc: DocumentSnapshot | null; done: boolean }[];
+}
+
+export interface NearbyReviewsPage {
+  reviews: Review[]; // Nearest first within the page
+  cursor: NearbyReviewsCursor | null;
+  hasMore: boolean;
+}
+
+export type PlaceType = 'city' | 'region' | 'neighborhood' | 'current';
+
+// A place as returned by LocationService and held by both LocationSelectors,
+// whichever provider found it
+export interface Place {
+  id: string;
+  name: string; // "Austin, TX"
+  fullName: string; // "Austin, Texas, United States"
+  city: string; // Empty for regions
+  region: string;
+  state: string; // Same as region, for older readers
+  country: string;
+  type: PlaceType;
+  coordinates: { latitude: number; longitude: number };
+  isPopular?: boolean;
+}
+
+// Personal data export in dataExports/{userId}, written by the
+// requestDataExport Cloud Function. The link stops working at expiresAt.
+export type DataExportStatus = 'processing' | 'ready' | 'failed' | 'expired';
+
+export interface DataExport {
+  userId: string;
+  status: DataExportStatus;
+  requestedAt: Timestamp | Date | number;
+  completedAt?: Timestamp | Date | number | null;
+  expiresAt?: Timestamp | Date | number | null;
+  downloadUrl?: string | null;
+  counts?: Record<string, number> | null;
+  error?: string | null;
+}
+
+// Account deletion in accountDeletions/{userId}. Scheduled deletions can be
+// cancelled until scheduledFor; the purge then runs in steps, recorded in
+// completedSteps, until the account is gone.
+export type AccountDeletionStatus = 'scheduled' | 'processing' | 'completed' | 'cancelled';
+
+export interface AccountDeletion {
+  userId: string;
+  status: AccountDeletionStatus;
+  requestedAt: Timestamp | Date | number;
+  scheduledFor: Timestamp | Date | number;
+  cancelledAt?: Timestamp | Date | number | null;
+  completedSteps?: string[];
+}
+
+// A search the user saved to be notified about new matching reviews.
+// Created by the saveSearch Cloud Function; owners can only mute or delete.
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: string;
+  filters: Omit<ReviewSearchFilters, 'dateFrom' | 'dateTo'>;
+  muted: boolean;
+  matchCount: number;
+  lastMatchedAt?: Timestamp | Date | number | null;
+  createdAt?: Timestamp | Date | number;
+  updatedAt?: Timestamp | Date | number;
+}
+
 // Review Draft interface for saved drafts
 export interface ReviewDraft {
   targetName?: string;
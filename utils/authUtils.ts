@@ -37,6 +37,25 @@ export const getCurrentUserId = (): string | null => {
   }
 };
 
+/**
+ * Check the current user's custom claims for the moderator (or admin) role
+ */
+export const hasModeratorRole = async (): Promise<boolean> => {
+  try {
+    const user = getFirebaseAuth().currentUser;
+    if (!user) return false;
+
+    const { claims } = await user.getIdTokenResult();
+    const roles = claims.roles as { moderator?: boolean; admin?: boolean } | undefined;
+    return roles?.moderator === true || roles?.admin === true;
+  } catch (error) {
+    if (__DEV__) {
+      console.warn('Failed to read user roles:', error);
+    }
+    return false;
+  }
+};
+
 /**
  * Wait for authentication to be ready (with timeout)
  */
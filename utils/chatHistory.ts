@@ -0,0 +1,27 @@
+// Combining the pages of a conversation: the live newest page, older pages
+// loaded on scroll, and messages that slid out of the live page as new ones
+// arrived.
+
+import { toDate } from './timestampHelpers';
+import type { ChatMessage } from '../types';
+
+// Messages still waiting for their server timestamp are the newest
+const sortTime = (message: ChatMessage): number =>
+  toDate(message.timestamp)?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+// Both lists in one, oldest first. Where a message is in both, the copy
+// from newer wins.
+export const mergeMessages = (older: ChatMessage[], newer: ChatMessage[]): ChatMessage[] => {
+  const byId = new Map<string, ChatMessage>();
+  older.forEach(message => byId.set(message.id, message));
+  newer.forEach(message => byId.set(message.id, message));
+  return [...byId.values()].sort((a, b) => sortTime(a) - sortTime(b));
+};
+
+// Messages of the previous live page missing from the next one. Messages
+// are never removed (deleting leaves a tombstone), so these have only moved
+// past the page's limit and are kept as history.
+export const getSlidOutMessages = (previous: ChatMessage[], next: ChatMessage[]): ChatMessage[] => {
+  const nextIds = new Set(next.map(message => message.id));
+  return previous.filter(message => !nextIds.has(message.id));
+};
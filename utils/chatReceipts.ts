@@ -0,0 +1,45 @@
+// Delivery and read state of chat messages, derived from the per-user cursors
+// on the room. Each cursor is the time of the newest message the user has
+// received or read, so a message is read by everyone whose cursor has reached
+// its timestamp.
+
+import { toDate } from './timestampHelpers';
+import type { ChatMessage, ChatRoom } from '../types';
+
+// 'sending' until the server has accepted the message
+export type MessageReceipt = 'sending' | 'sent' | 'delivered' | 'read';
+
+type Cursors = ChatRoom['readCursors'];
+
+const cursorTime = (cursors: Cursors, userId: string): number =>
+  toDate(cursors?.[userId])?.getTime() ?? 0;
+
+const messageTime = (message: ChatMessage): number | null =>
+  toDate(message.timestamp)?.getTime() ?? null;
+
+// Whether a user's cursor has reached the newest message of the room
+export const isCursorCurrent = (room: ChatRoom, cursors: Cursors, userId: string): boolean => {
+  const lastMessageTime = toDate(room.lastMessageTime)?.getTime();
+  return !lastMessageTime || cursorTime(cursors, userId) >= lastMessageTime;
+};
+
+// Participants other than the sender who have read the message
+export const getSeenBy = (message: ChatMessage, room: ChatRoom): string[] => {
+  const time = messageTime(message);
+  if (time === null) return [];
+  return (room.participants || []).filter(userId =>
+    userId !== message.senderId && cursorTime(room.readCursors, userId) >= time
+  );
+};
+
+// Ticks for a message in a direct conversation, from the other user's cursors
+export const getMessageReceipt = (message: ChatMessage, room: ChatRoom): MessageReceipt => {
+  const time = messageTime(message);
+  if (time === null) return 'sending';
+
+  const otherUserId = (room.participants || []).find(userId => userId !== message.senderId);
+  if (!otherUserId) return 'sent';
+  if (cursorTime(room.readCursors, otherUserId) >= time) return 'read';
+  if (cursorTime(room.deliveredCursors, otherUserId) >= time) return 'delivered';
+  return 'sent';
+};
@@ -18,6 +18,7 @@ import {
   type Firestore
 } from 'firebase/firestore';
 import { getStorage, type FirebaseStorage } from 'firebase/storage';
+import { getFunctions, type Functions } from 'firebase/functions';
 
 // App Check for security (production)
 import { initializeAppCheck, ReCaptchaV3Provider } from 'firebase/app-check';
@@ -55,6 +56,7 @@ const initializeFirebase = () => {
   let firebaseAuth: Auth;
   let firebaseDb: Firestore;
   let firebaseStorage: FirebaseStorage;
+  let firebaseFunctions: Functions;
 
   try {
     // Validate configuration
@@ -118,6 +120,7 @@ const initializeFirebase = () => {
     }
 
     firebaseStorage = getStorage(firebaseApp);
+    firebaseFunctions = getFunctions(firebaseApp);
 
     // Connect to emulators in development
     if (useEmulators && isDevelopment) {
@@ -147,6 +150,14 @@ const initializeFirebase = () => {
           }
         });
 
+        import('firebase/functions').then(({ connectFunctionsEmulator }) => {
+          try {
+            connectFunctionsEmulator(firebaseFunctions, '127.0.0.1', 5001);
+          } catch (error) {
+            // Already connected
+          }
+        });
+
         if (isDevelopment) {
           console.log('🔧 Connecting to Firebase emulators...');
         }
@@ -168,7 +179,8 @@ const initializeFirebase = () => {
       app: firebaseApp,
       auth: firebaseAuth,
       db: firebaseDb,
-      storage: firebaseStorage
+      storage: firebaseStorage,
+      functions: firebaseFunctions
     };
   } catch (error) {
     console.error('❌ Firebase initialization failed:', error);
@@ -178,6 +190,7 @@ const initializeFirebase = () => {
       auth: {} as Auth,
       db: {} as Firestore,
       storage: {} as FirebaseStorage,
+      functions: {} as Functions,
     };
   }
 };
@@ -213,6 +226,7 @@ export const app = firebase.app;
 export const auth = firebase.auth;
 export const db = firebase.db;
 export const storage = firebase.storage;
+export const functions = firebase.functions;
 
 // Backward compatibility exports
 export const firebaseApp = app;
@@ -224,6 +238,7 @@ export const getFirebaseApp = () => app;
 export const getFirebaseAuth = () => auth;
 export const getFirebaseDb = () => db;
 export const getFirebaseStorage = () => storage;
+export const getFirebaseFunctions = () => functions;
 
 // Export config for reference
 export { firebaseConfig };
@@ -234,4 +249,5 @@ export default {
   auth,
   db,
   storage,
+  functions,
 };
\ No newline at end of file
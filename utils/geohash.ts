@@ -0,0 +1,169 @@
+// Geohash encoding and range queries for "reviews within N km" lookups.
+// Reviews store a geohash so a radius query becomes a handful of string
+// range queries (one per bounding box cell) instead of a collection scan.
+// Follows the approach of geofire-common.
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// [start, end) ranges of the geohash field to query
+export type GeohashRange = [string, string];
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const BITS_PER_CHAR = 5;
+export const GEOHASH_PRECISION = 10; // ~1m cells
+const MAX_BITS = 22 * BITS_PER_CHAR;
+
+const EARTH_MERIDIONAL_CIRCUMFERENCE_M = 40007860;
+const METERS_PER_DEGREE_LATITUDE = 110574;
+const EARTH_EQUATORIAL_RADIUS_M = 6378137;
+const EARTH_ECCENTRICITY_SQUARED = 0.00669447819799;
+const EPSILON = 1e-12;
+
+const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+
+export const encodeGeohash = (point: GeoPoint, precision: number = GEOHASH_PRECISION): string => {
+  const latitudeRange = [-90, 90];
+  const longitudeRange = [-180, 180];
+  let hash = '';
+  let value = 0;
+  let bits = 0;
+  let even = true;
+
+  while (hash.length < precision) {
+    const range = even ? longitudeRange : latitudeRange;
+    const coordinate = even ? point.longitude : point.latitude;
+    const mid = (range[0] + range[1]) / 2;
+
+    value <<= 1;
+    if (coordinate > mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    even = !even;
+    if (++bits === BITS_PER_CHAR) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+};
+
+export const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+const metersToLongitudeDegrees = (meters: number, latitude: number): number => {
+  const radians = toRadians(latitude);
+  const metersPerDegree = (Math.cos(radians) * EARTH_EQUATORIAL_RADIUS_M * Math.PI / 180) /
+    Math.sqrt(1 - EARTH_ECCENTRICITY_SQUARED * Math.sin(radians) * Math.sin(radians));
+  if (metersPerDegree < EPSILON) return meters > 0 ? 360 : 0;
+  return Math.min(360, meters / metersPerDegree);
+};
+
+const longitudeBitsForResolution = (meters: number, latitude: number): number => {
+  const degrees = metersToLongitudeDegrees(meters, latitude);
+  return Math.abs(degrees) > 0.000001 ? Math.max(1, Math.log2(360 / degrees)) : 1;
+};
+
+const latitudeBitsForResolution = (meters: number): number =>
+  Math.min(Math.log2(EARTH_MERIDIONAL_CIRCUMFERENCE_M / 2 / meters), MAX_BITS);
+
+const wrapLongitude = (longitude: number): number => {
+  if (longitude <= 180 && longitude >= -180) return longitude;
+  const adjusted = longitude + 180;
+  return adjusted > 0 ? (adjusted % 360) - 180 : 180 - (-adjusted % 360);
+};
+
+// Coarsest geohash precision (in bits) whose cells still cover the circle
+const boundingBoxBits = (center: GeoPoint, meters: number): number => {
+  const latitudeDelta = meters / METERS_PER_DEGREE_LATITUDE;
+  const north = Math.min(90, center.latitude + latitudeDelta);
+  const south = Math.max(-90, center.latitude - latitudeDelta);
+  const latitudeBits = Math.floor(latitudeBitsForResolution(meters)) * 2;
+  const longitudeBitsNorth = Math.floor(longitudeBitsForResolution(meters, north)) * 2 - 1;
+  const longitudeBitsSouth = Math.floor(longitudeBitsForResolution(meters, south)) * 2 - 1;
+  return Math.min(latitudeBits, longitudeBitsNorth, longitudeBitsSouth, MAX_BITS);
+};
+
+// Center, edges and corners of the box around the circle
+const boundingBoxPoints = (center: GeoPoint, meters: number): GeoPoint[] => {
+  const latitudeDelta = meters / METERS_PER_DEGREE_LATITUDE;
+  const north = Math.min(90, center.latitude + latitudeDelta);
+  const south = Math.max(-90, center.latitude - latitudeDelta);
+  const longitudeDelta = Math.max(metersToLongitudeDegrees(meters, north), metersToLongitudeDegrees(meters, south));
+  const west = wrapLongitude(center.longitude - longitudeDelta);
+  const east = wrapLongitude(center.longitude + longitudeDelta);
+
+  return [center.latitude, north, south].flatMap(latitude =>
+    [center.longitude, west, east].map(longitude => ({ latitude, longitude }))
+  );
+};
+
+const rangeForCell = (hash: string, bits: number): GeohashRange => {
+  const precision = Math.ceil(bits / BITS_PER_CHAR);
+  if (hash.length < precision) return [hash, `${hash}~`];
+
+  const cell = hash.substring(0, precision);
+  const base = cell.substring(0, cell.length - 1);
+  const lastValue = BASE32.indexOf(cell.charAt(cell.length - 1));
+  const unusedBits = BITS_PER_CHAR - (bits - base.length * BITS_PER_CHAR);
+  const startValue = (lastValue >> unusedBits) << unusedBits;
+  const endValue = startValue + (1 << unusedBits);
+
+  return [base + BASE32[startValue], endValue > 31 ? `${base}~` : base + BASE32[endValue]];
+};
+
+// Geohash ranges that together cover every point within radiusKm of center.
+// Ranges can include points outside the circle, so results still need a
+// distance check.
+export const geohashQueryRanges = (center: GeoPoint, radiusKm: number): GeohashRange[] => {
+  const meters = radiusKm * 1000;
+  const bits = Math.max(1, boundingBoxBits(center, meters));
+  const precision = Math.ceil(bits / BITS_PER_CHAR);
+
+  const ranges = boundingBoxPoints(center, meters).map(point => rangeForCell(encodeGeohash(point, precision), bits));
+  return ranges.filter((range, index) =>
+    ranges.findIndex(other => other[0] === range[0] && other[1] === range[1]) === index
+  );
+};
+
+const isGeoPoint = (value: unknown): value is GeoPoint =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as GeoPoint).latitude === 'number' &&
+  typeof (value as GeoPoint).longitude === 'number';
+
+// Older locations stored GeoJSON order, [longitude, latitude]
+export const toGeoPoint = (value: unknown): GeoPoint | null => {
+  if (Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'number') {
+    return { latitude: value[1], longitude: value[0] };
+  }
+  return isGeoPoint(value) ? { latitude: value.latitude, longitude: value.longitude } : null;
+};
+
+const field = (value: unknown, key: string): unknown =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+// Older reviews keep coordinates only inside locationData
+export const getReviewCoordinates = (review: { coordinates?: unknown; locationData?: unknown }): GeoPoint | null => {
+  const { coordinates, locationData } = review;
+  const candidates = [coordinates, field(locationData, 'coordinates'), field(field(locationData, 'data'), 'coordinates')];
+  for (const candidate of candidates) {
+    const point = toGeoPoint(candidate);
+    if (point) return point;
+  }
+  return null;
+};
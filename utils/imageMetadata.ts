@@ -0,0 +1,24 @@
+// Photo metadata. A photo file keeps its EXIF block (GPS position, device,
+// capture time) even when the picker is called with `exif: false`, which
+// only leaves it out of the picker result. Re-encoding the pixels into a new
+// JPEG drops the block, so photos are re-encoded before they are attached.
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+export const PHOTO_QUALITY = 0.8;
+
+export interface StrippedImage {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export const stripImageMetadata = async (uri: string): Promise<StrippedImage> => {
+  const image = await ImageManipulator.manipulate(uri).renderAsync();
+  try {
+    const saved = await image.saveAsync({ compress: PHOTO_QUALITY, format: SaveFormat.JPEG });
+    return { uri: saved.uri, width: saved.width, height: saved.height };
+  } finally {
+    image.release();
+  }
+};
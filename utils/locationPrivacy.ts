@@ -0,0 +1,88 @@
+// Location privacy for reviews. Exact device coordinates could point at the
+// reviewer's or the subject's home, so a review only ever stores a coarsened
+// point, together with how far that point may be from the real one.
+// The submitReview Cloud Function applies the same grid again
+// (functions/src/locationPrivacy.ts), so no review is finer than one grid cell.
+
+import type { GeoPoint } from './geohash';
+import type { LocationPrecision, LocationPrecisionMode } from '../types';
+
+export const LOCATION_PRECISION_MODES: LocationPrecisionMode[] = ['grid', 'jitter', 'city'];
+
+export const LOCATION_PRIVACY_POLICY = {
+  defaultMode: 'grid' as LocationPrecisionMode,
+  gridCellKm: 1, // Neighborhood-sized cells
+  jitterKm: 2,
+  // Used for city precision when the city is not in the gazetteer
+  cityCellKm: 20,
+  cityRadiusKm: 15,
+};
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// Half the diagonal of a square cell
+const cellRadiusKm = (cellKm: number): number => (cellKm * Math.SQRT2) / 2;
+
+// Every stored point is snapped to the grid, so each mode also carries the
+// grid's own error
+export const PRECISION_RADIUS_KM: Record<LocationPrecisionMode, number> = {
+  grid: cellRadiusKm(LOCATION_PRIVACY_POLICY.gridCellKm),
+  jitter: LOCATION_PRIVACY_POLICY.jitterKm + cellRadiusKm(LOCATION_PRIVACY_POLICY.gridCellKm),
+  city: LOCATION_PRIVACY_POLICY.cityRadiusKm + cellRadiusKm(LOCATION_PRIVACY_POLICY.gridCellKm),
+};
+
+// Radius queries widen their search by this much so fuzzed reviews near the
+// edge are not missed
+export const MAX_PRECISION_RADIUS_KM = Math.max(...Object.values(PRECISION_RADIUS_KM));
+
+// Center of the grid cell containing the point. Cells are cellKm tall and
+// about cellKm wide at their own latitude; snapping a center again returns it.
+export const snapToGrid = (point: GeoPoint, cellKm: number): GeoPoint => {
+  const latitudeStep = cellKm / KM_PER_DEGREE_LATITUDE;
+  const latitude = Math.min(90, Math.max(-90, (Math.floor(point.latitude / latitudeStep) + 0.5) * latitudeStep));
+  const longitudeStep = cellKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+  const longitude = (Math.floor(point.longitude / longitudeStep) + 0.5) * longitudeStep;
+  return { latitude, longitude };
+};
+
+// A uniformly random point within radiusKm of the given one
+export const jitterPoint = (point: GeoPoint, radiusKm: number, random: () => number = Math.random): GeoPoint => {
+  const distance = radiusKm * Math.sqrt(random());
+  const bearing = 2 * Math.PI * random();
+  const latitude = point.latitude + (distance * Math.cos(bearing)) / KM_PER_DEGREE_LATITUDE;
+  const longitude = point.longitude +
+    (distance * Math.sin(bearing)) / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(point.latitude * Math.PI / 180), 0.01));
+  return { latitude, longitude };
+};
+
+// Coarsen a point according to the chosen precision. City precision uses the
+// city's centroid when known and a coarse grid otherwise.
+export const applyLocationPrecision = (
+  point: GeoPoint,
+  mode: LocationPrecisionMode,
+  options: { cityCentroid?: GeoPoint | null; random?: () => number } = {}
+): { coordinates: GeoPoint; locationPrecision: LocationPrecision } => {
+  let coarse = point;
+  if (mode === 'jitter') {
+    coarse = jitterPoint(point, LOCATION_PRIVACY_POLICY.jitterKm, options.random);
+  } else if (mode === 'city') {
+    coarse = options.cityCentroid || snapToGrid(point, LOCATION_PRIVACY_POLICY.cityCellKm);
+  }
+
+  return {
+    coordinates: snapToGrid(coarse, LOCATION_PRIVACY_POLICY.gridCellKm),
+    locationPrecision: { mode, radiusKm: PRECISION_RADIUS_KM[mode] },
+  };
+};
+
+// The place name parts of locationData, without any coordinates
+export const toPublicLocationData = (locationData: unknown): Record<string, unknown> | null => {
+  if (typeof locationData !== 'object' || locationData === null) return null;
+  const { type, data } = locationData as { type?: unknown; data?: unknown };
+  const source = (typeof data === 'object' && data !== null ? data : locationData) as Record<string, unknown>;
+  const place: Record<string, string> = {};
+  ['name', 'city', 'region', 'state', 'country'].forEach(key => {
+    if (typeof source[key] === 'string') place[key] = source[key] as string;
+  });
+  return { type: typeof type === 'string' ? type : 'selected', data: place };
+};
@@ -0,0 +1,52 @@
+// Presence and typing state. Both are kept alive by the client writing them
+// again before they run out, so anything a crashed or offline client left
+// behind expires on its own.
+
+import { toDate, formatRelativeTime } from './timestampHelpers';
+import type { ChatRoom, UserPresence } from '../types';
+
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+// Two missed heartbeats and the user counts as offline
+export const PRESENCE_TIMEOUT_MS = 150 * 1000;
+
+export const TYPING_TTL_MS = 8 * 1000;
+// How often an ongoing typing indicator is pushed back out
+export const TYPING_REFRESH_MS = 3 * 1000;
+
+export const isPresenceOnline = (presence: UserPresence | null | undefined, now: number = Date.now()): boolean => {
+  const lastActive = toDate(presence?.lastActive)?.getTime();
+  return presence?.state === 'online' && !!lastActive && now - lastActive < PRESENCE_TIMEOUT_MS;
+};
+
+// "Online", "Last seen 5m ago", or null when the user hides their last seen
+export const formatPresence = (presence: UserPresence | null | undefined, now: number = Date.now()): string | null => {
+  if (!presence) return null;
+  if (isPresenceOnline(presence, now)) return 'Online';
+  if (!presence.showLastSeen || !presence.lastActive) return null;
+  return `Last seen ${formatRelativeTime(presence.lastActive)}`;
+};
+
+// Members other than the given user whose typing indicator has not expired
+export const getTypingUserIds = (room: ChatRoom, excludeUserId?: string, now: number = Date.now()): string[] =>
+  Object.entries(room.typing || {})
+    .filter(([userId, expiresAt]) =>
+      userId !== excludeUserId &&
+      room.participants?.includes(userId) &&
+      (toDate(expiresAt)?.getTime() ?? 0) > now
+    )
+    .map(([userId]) => userId);
+
+// When the next typing indicator in the rooms runs out, to re-render then
+export const nextTypingExpiry = (rooms: ChatRoom[], now: number = Date.now()): number | null => {
+  const expiries = rooms
+    .flatMap(room => Object.values(room.typing || {}))
+    .map(expiresAt => toDate(expiresAt)?.getTime() ?? 0)
+    .filter(time => time > now);
+  return expiries.length ? Math.min(...expiries) : null;
+};
+
+export const formatTyping = (count: number, isDirect: boolean): string | null => {
+  if (count === 0) return null;
+  if (isDirect) return 'typing...';
+  return count === 1 ? 'Someone is typing...' : `${count} people are typing...`;
+};
@@ -0,0 +1,59 @@
+// Privacy settings as saved in users/{uid}/private/profile. The server
+// copy of the defaults lives in functions/src/privacy.ts; profiles created
+// before the settings were saved may hold only some keys, or the older
+// profileVisible and showOnlineStatus flags.
+
+import type { PrivacySettings } from '../types';
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  profileVisibility: 'public',
+  showAge: true,
+  showLocation: true,
+  showLastSeen: true,
+  allowMessages: 'everyone',
+  allowReviews: 'everyone',
+  showReviewsOnProfile: true,
+  allowNotifications: {
+    messages: true,
+    reviews: true,
+    matches: true,
+    marketing: false,
+  },
+  dataSharing: {
+    analytics: true,
+    personalization: true,
+    thirdParty: false,
+  },
+};
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+const flag = (value: unknown, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+const flags = <T extends Record<string, boolean>>(value: unknown, defaults: T): T => {
+  const saved = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(defaults).map(([key, fallback]) => [key, flag(saved[key], fallback)])
+  ) as T;
+};
+
+// Fill in whatever a saved settings object is missing from the defaults
+export const withPrivacyDefaults = (saved: Record<string, unknown> | null | undefined): PrivacySettings => {
+  const privacy = saved || {};
+  const defaults = DEFAULT_PRIVACY_SETTINGS;
+  const legacyVisibility = privacy.profileVisible === false ? 'private' : defaults.profileVisibility;
+
+  return {
+    profileVisibility: oneOf(privacy.profileVisibility, ['public', 'friends', 'private'], legacyVisibility),
+    showAge: flag(privacy.showAge, defaults.showAge),
+    showLocation: flag(privacy.showLocation, defaults.showLocation),
+    showLastSeen: flag(privacy.showLastSeen, flag(privacy.showOnlineStatus, defaults.showLastSeen)),
+    allowMessages: oneOf(privacy.allowMessages, ['everyone', 'matches', 'none'], defaults.allowMessages),
+    allowReviews: oneOf(privacy.allowReviews, ['everyone', 'friends', 'nobody'], defaults.allowReviews),
+    showReviewsOnProfile: flag(privacy.showReviewsOnProfile, defaults.showReviewsOnProfile),
+    allowNotifications: flags(privacy.allowNotifications, defaults.allowNotifications),
+    dataSharing: flags(privacy.dataSharing, defaults.dataSharing),
+  };
+};
@@ -0,0 +1,73 @@
+// Groups reviews into map clusters by geohash cell. Reviews whose geohashes
+// share a prefix lie in the same cell, so clustering is a prefix group-by.
+
+import { encodeGeohash, getReviewCoordinates, GeoPoint } from './geohash';
+import { getReviewFlag } from '../constants/reactions';
+import type { Review } from '../types';
+
+export interface ReviewCluster {
+  cell: string; // Geohash prefix shared by every review in the cluster
+  center: GeoPoint; // Mean position of its reviews
+  count: number;
+  greenCount: number;
+  redCount: number;
+  reviewIds: string[];
+}
+
+// Approximate width of a geohash cell at each length, in km
+const CELL_WIDTH_KM = [5000, 1250, 156, 39, 4.9, 1.2, 0.15];
+
+// Geohash length whose cells are at most a quarter of the radius wide, so a
+// map of the whole radius shows a handful of clusters across
+export const clusterPrecisionForRadius = (radiusKm: number): number => {
+  const index = CELL_WIDTH_KM.findIndex(width => width <= radiusKm / 4);
+  return index === -1 ? CELL_WIDTH_KM.length : index + 1;
+};
+
+const reviewGeohash = (review: Review, coordinates: GeoPoint): string =>
+  review.geohash || encodeGeohash(coordinates);
+
+export const isReviewInCell = (review: Review, cell: string): boolean => {
+  const coordinates = getReviewCoordinates(review);
+  return !!coordinates && reviewGeohash(review, coordinates).startsWith(cell);
+};
+
+// Largest clusters first; reviews without a location are left out
+export const clusterReviews = (reviews: Review[], precision: number): ReviewCluster[] => {
+  const clusters = new Map<string, ReviewCluster & { latitudeSum: number; longitudeSum: number }>();
+
+  reviews.forEach((review) => {
+    const coordinates = getReviewCoordinates(review);
+    if (!coordinates) return;
+
+    const cell = reviewGeohash(review, coordinates).substring(0, precision);
+    const cluster = clusters.get(cell) || {
+      cell,
+      center: coordinates,
+      count: 0,
+      greenCount: 0,
+      redCount: 0,
+      reviewIds: [],
+      latitudeSum: 0,
+      longitudeSum: 0,
+    };
+
+    cluster.count++;
+    if (getReviewFlag(review.rating) === 'green') {
+      cluster.greenCount++;
+    } else {
+      cluster.redCount++;
+    }
+    cluster.reviewIds.push(review.id);
+    cluster.latitudeSum += coordinates.latitude;
+    cluster.longitudeSum += coordinates.longitude;
+    clusters.set(cell, cluster);
+  });
+
+  return [...clusters.values()]
+    .map(({ latitudeSum, longitudeSum, ...cluster }) => ({
+      ...cluster,
+      center: { latitude: latitudeSum / cluster.count, longitude: longitudeSum / cluster.count },
+    }))
+    .sort((a, b) => b.count - a.count || a.cell.localeCompare(b.cell));
+};